@@ -0,0 +1,18 @@
+-- Saved CSV column-mapping profiles for statement imports.
+-- bank_id matches rv_cuentas.bankID so a profile is preselected for accounts at that bank.
+CREATE TABLE IF NOT EXISTS rv_import_profile (
+  id INT NOT NULL AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  bank_id INT NULL,
+  name VARCHAR(100) NOT NULL,
+  column_roles JSON NOT NULL,
+  date_format VARCHAR(20) NOT NULL DEFAULT 'auto',
+  decimal_separator CHAR(1) NOT NULL DEFAULT '.',
+  thousands_separator VARCHAR(1) NOT NULL DEFAULT ',',
+  sign_convention ENUM('positive_increases', 'positive_decreases') NOT NULL DEFAULT 'positive_increases',
+  skip_rows INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_import_profile_user_bank (user_id, bank_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
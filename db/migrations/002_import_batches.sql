@@ -0,0 +1,25 @@
+-- One row per statement import, so an import can be listed and rolled back as a unit.
+CREATE TABLE IF NOT EXISTS rv_import_batch (
+  id INT NOT NULL AUTO_INCREMENT,
+  account_id INT NOT NULL,
+  user_id INT NULL,
+  file_name VARCHAR(255) NULL,
+  file_hash CHAR(64) NULL,
+  statement_date DATE NOT NULL,
+  opening_balance DECIMAL(15,2) NOT NULL,
+  closing_balance DECIMAL(15,2) NOT NULL,
+  previous_balance DECIMAL(15,2) NOT NULL,
+  transaction_count INT NOT NULL DEFAULT 0,
+  skipped_count INT NOT NULL DEFAULT 0,
+  status ENUM('imported', 'rolled_back') NOT NULL DEFAULT 'imported',
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  rolled_back_at TIMESTAMP NULL,
+  rolled_back_by INT NULL,
+  PRIMARY KEY (id),
+  KEY idx_import_batch_account (account_id, status),
+  KEY idx_import_batch_hash (account_id, file_hash)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+ALTER TABLE rv_transaction
+  ADD COLUMN import_batch_id INT NULL,
+  ADD KEY idx_transaction_import_batch (import_batch_id);
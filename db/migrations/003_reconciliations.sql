@@ -0,0 +1,22 @@
+-- Line-by-line reconciliation sessions. Transactions ticked off in a session point back to it,
+-- so completed reconciliations keep a record of exactly what was cleared.
+CREATE TABLE IF NOT EXISTS rv_reconciliation (
+  id INT NOT NULL AUTO_INCREMENT,
+  account_id INT NOT NULL,
+  user_id INT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  opening_balance DECIMAL(15,2) NOT NULL,
+  statement_balance DECIMAL(15,2) NOT NULL,
+  cleared_balance DECIMAL(15,2) NULL,
+  status ENUM('in_progress', 'completed') NOT NULL DEFAULT 'in_progress',
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP NULL,
+  completed_by INT NULL,
+  PRIMARY KEY (id),
+  KEY idx_reconciliation_account (account_id, status, period_end)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+ALTER TABLE rv_transaction
+  ADD COLUMN reconciliation_id INT NULL,
+  ADD KEY idx_transaction_reconciliation (reconciliation_id);
@@ -0,0 +1,8 @@
+-- Statement lines linked to existing ledger entries during import. The entry records which
+-- import confirmed it, so rolling that import back can unlink it again.
+ALTER TABLE rv_import_batch
+  ADD COLUMN matched_count INT NOT NULL DEFAULT 0 AFTER skipped_count;
+
+ALTER TABLE rv_transaction
+  ADD COLUMN matched_import_batch_id INT NULL,
+  ADD KEY idx_transaction_matched_import_batch (matched_import_batch_id);
@@ -0,0 +1,6 @@
+-- Reconciliation statements: the ledger balance at each reconciliation date and any balance
+-- adjustment booked by a statement-balance-only reconciliation.
+ALTER TABLE rv_reconciliation
+  ADD COLUMN book_balance DECIMAL(15,2) NULL AFTER cleared_balance,
+  ADD COLUMN adjustment_amount DECIMAL(15,2) NOT NULL DEFAULT 0 AFTER book_balance,
+  ADD COLUMN adjustment_transaction_id INT NULL AFTER adjustment_amount;
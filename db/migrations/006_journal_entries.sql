@@ -0,0 +1,18 @@
+-- Manual journal entries. Each entry is posted as one or more balanced rv_transaction rows
+-- (one debit account and one credit account each) that point back to it through journal_id.
+CREATE TABLE IF NOT EXISTS rv_journal_entry (
+  id INT NOT NULL AUTO_INCREMENT,
+  company INT NOT NULL,
+  user_id INT NULL,
+  entry_date DATE NOT NULL,
+  reference VARCHAR(100) NULL,
+  memo VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NULL,
+  PRIMARY KEY (id),
+  KEY idx_journal_entry_company (company, entry_date)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+ALTER TABLE rv_transaction
+  ADD COLUMN journal_id INT NULL,
+  ADD KEY idx_transaction_journal (journal_id);
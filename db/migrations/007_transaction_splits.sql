@@ -0,0 +1,5 @@
+-- Split transactions. A bank line allocated to several counter-accounts keeps its original row
+-- for the first portion; every other portion is its own rv_transaction row pointing back to it.
+ALTER TABLE rv_transaction
+  ADD COLUMN split_parent_id INT NULL,
+  ADD KEY idx_transaction_split_parent (split_parent_id);
@@ -0,0 +1,25 @@
+-- Categorization rules assign the counter account of incomplete bank lines. Rules belong to a user;
+-- company NULL applies the rule to every entity, and accounts are stored by code like rv_transaction.
+CREATE TABLE IF NOT EXISTS rv_categorization_rule (
+  id INT NOT NULL AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  company INT NULL,
+  name VARCHAR(100) NOT NULL,
+  match_type ENUM('contains', 'regex') NOT NULL DEFAULT 'contains',
+  description_pattern VARCHAR(255) NULL,
+  min_amount DECIMAL(15,2) NULL,
+  max_amount DECIMAL(15,2) NULL,
+  direction ENUM('any', 'debit', 'credit') NOT NULL DEFAULT 'any',
+  source_account_code VARCHAR(50) NULL,
+  counter_account_code VARCHAR(50) NOT NULL,
+  priority INT NOT NULL DEFAULT 100,
+  active TINYINT(1) NOT NULL DEFAULT 1,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_categorization_rule_user (user_id, company)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Which rule assigned a row's counter account, if any
+ALTER TABLE rv_transaction
+  ADD COLUMN categorization_rule_id INT NULL;
@@ -0,0 +1,25 @@
+-- Payee directory. Bank descriptions are normalized (card numbers, dates, references and branch
+-- suffixes stripped) and matched to a payee by its name or one of its aliases.
+CREATE TABLE IF NOT EXISTS rv_payee (
+  id INT NOT NULL AUTO_INCREMENT,
+  company INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  default_account_code VARCHAR(50) NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_payee_company_name (company, name)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Normalized descriptions that belong to a payee
+CREATE TABLE IF NOT EXISTS rv_payee_alias (
+  id INT NOT NULL AUTO_INCREMENT,
+  payee_id INT NOT NULL,
+  alias VARCHAR(255) NOT NULL,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_payee_alias (payee_id, alias)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+ALTER TABLE rv_transaction
+  ADD COLUMN payee_id INT NULL,
+  ADD KEY idx_transaction_payee (payee_id);
@@ -0,0 +1,9 @@
+-- Reversing entries. A reversal is a mirror row (debit and credit accounts swapped) pointing back
+-- to the transaction it cancels, so the original stays in the ledger for audit.
+ALTER TABLE rv_transaction
+  ADD COLUMN reversal_of_id INT NULL,
+  ADD KEY idx_transaction_reversal_of (reversal_of_id);
+
+-- When set, cleared or imported transactions of the entity cannot be deleted, only reversed
+ALTER TABLE company
+  ADD COLUMN forbid_hard_delete TINYINT(1) NOT NULL DEFAULT 0;
@@ -0,0 +1,24 @@
+-- Audit trail of ledger and account changes. Each row records who did what to which record,
+-- with snapshots of the affected rows before and after the change.
+CREATE TABLE IF NOT EXISTS rv_audit_log (
+  id INT NOT NULL AUTO_INCREMENT,
+  user_id INT NULL,
+  company INT NULL,
+  action VARCHAR(50) NOT NULL,
+  target_table VARCHAR(50) NOT NULL,
+  target_id INT NULL,
+  before_data JSON NULL,
+  after_data JSON NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY idx_audit_company (company, created_at),
+  KEY idx_audit_target (target_table, target_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- Accounts an audited change touched, so the log can be filtered per account
+CREATE TABLE IF NOT EXISTS rv_audit_log_account (
+  audit_log_id INT NOT NULL,
+  account_id INT NOT NULL,
+  PRIMARY KEY (audit_log_id, account_id),
+  KEY idx_audit_account (account_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
@@ -0,0 +1,4 @@
+-- Period close. Nothing dated on or before locked_through can be imported, reconciled, edited
+-- or deleted in the entity; reopening moves the date back or clears it.
+ALTER TABLE company
+  ADD COLUMN locked_through DATE NULL;
@@ -0,0 +1,23 @@
+-- Fiscal year-end close. Each entity's fiscal year starts on the first day of
+-- fiscal_year_start_month; closing a year posts a journal entry, dated on its last day, that moves
+-- every income and expense balance into the entity's retained earnings account. Closing rows
+-- carry status 'Closing Entry' so the profit and loss report can leave them out.
+ALTER TABLE company
+  ADD COLUMN fiscal_year_start_month TINYINT NOT NULL DEFAULT 1,
+  ADD COLUMN retained_earnings_account_id INT NULL;
+
+CREATE TABLE IF NOT EXISTS rv_fiscal_year_close (
+  id INT NOT NULL AUTO_INCREMENT,
+  company INT NOT NULL,
+  fiscal_year INT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  journal_id INT NULL, -- NULL when there was nothing to close
+  retained_earnings_account_id INT NOT NULL,
+  net_income DECIMAL(15,2) NOT NULL,
+  user_id INT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_fiscal_year_close (company, fiscal_year),
+  KEY idx_fiscal_year_close_journal (journal_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
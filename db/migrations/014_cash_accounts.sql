@@ -0,0 +1,10 @@
+-- Marks the bank and cash accounts whose movements make up the cash flow statement. Asset
+-- accounts that already have statement imports or reconciliations are bank accounts.
+ALTER TABLE rv_cuentas
+  ADD COLUMN is_cash TINYINT(1) NOT NULL DEFAULT 0;
+
+UPDATE rv_cuentas a
+SET a.is_cash = 1
+WHERE a.account_type = 'asset'
+  AND (EXISTS (SELECT 1 FROM rv_import_batch b WHERE b.account_id = a.id)
+    OR EXISTS (SELECT 1 FROM rv_reconciliation r WHERE r.account_id = a.id));
@@ -0,0 +1,6 @@
+-- What a ledger entry looked like before a statement line was matched to it, so rolling the
+-- import back restores its own bank reference, cleared flag and reconciliation.
+ALTER TABLE rv_transaction
+  ADD COLUMN match_previous_conciled TINYINT(1) NULL AFTER matched_import_batch_id,
+  ADD COLUMN match_previous_bank_transaction_id VARCHAR(255) NULL AFTER match_previous_conciled,
+  ADD COLUMN match_previous_reconciliation_id INT NULL AFTER match_previous_bank_transaction_id;
@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeftIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, ArrowUpTrayIcon, ClipboardDocumentListIcon, ScaleIcon, SparklesIcon, TableCellsIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '@/contexts/AuthContext';
 import { Account } from '@/lib/database';
 import StatementImportModal from '@/components/StatementImportModal';
@@ -21,6 +21,7 @@ interface AccountDetails {
   created_at: string;
   updated_at: string;
   category?: string;
+  is_cash?: number;
 }
 
 interface Transaction {
@@ -39,6 +40,7 @@ interface Transaction {
   entity_id?: number | null;
   entity_name?: string;
   entity_code?: string;
+  payee_name?: string | null;
 }
 
 interface Entity {
@@ -192,6 +194,7 @@ export default function AccountDetailPage() {
   const [isSavingAccount, setIsSavingAccount] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isUpdatingBalances, setIsUpdatingBalances] = useState(false);
+  const [isApplyingRules, setIsApplyingRules] = useState(false);
 
   // Multi-select functions for transactions
   const toggleTransactionSelection = (transactionId: number) => {
@@ -227,6 +230,7 @@ export default function AccountDetailPage() {
       const searchLower = searchTerm.toLowerCase();
       const matchesSearch = (
         transaction.description?.toLowerCase().includes(searchLower) ||
+        transaction.payee_name?.toLowerCase().includes(searchLower) ||
         transaction.debitacc?.toLowerCase().includes(searchLower) ||
         transaction.creditacc?.toLowerCase().includes(searchLower) ||
         transaction.debit?.toString().includes(searchLower) ||
@@ -385,6 +389,55 @@ export default function AccountDetailPage() {
     }
   };
 
+  // Run categorization rules over this account's incomplete transactions, previewing first
+  const handleApplyRules = async () => {
+    if (!account?.account_id || !currentUser) return;
+
+    setIsApplyingRules(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const runRules = async (dryRun: boolean) => {
+        const response = await fetch(`/api/categorization-rules/apply/${account.account_id}`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ dryRun }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to apply categorization rules');
+        }
+        return data as { message: string; assignments: Array<{ transactionId: number; ruleName: string; counterAccountCode: string }> };
+      };
+
+      const preview = await runRules(true);
+      if (preview.assignments.length === 0) {
+        alert('No categorization rule matches the incomplete transactions of this account.');
+        return;
+      }
+
+      const countsByRule = new Map<string, number>();
+      preview.assignments.forEach(assignment => {
+        const key = `${assignment.ruleName} → ${assignment.counterAccountCode}`;
+        countsByRule.set(key, (countsByRule.get(key) || 0) + 1);
+      });
+      const summary = Array.from(countsByRule.entries()).map(([rule, count]) => `• ${rule}: ${count}`).join('\n');
+
+      if (!confirm(`${preview.message}:\n${summary}\n\nApply these assignments?`)) return;
+
+      const result = await runRules(false);
+      alert(result.message);
+      fetchAccountDetails();
+    } catch (error) {
+      console.error('Failed to apply categorization rules:', error);
+      alert(error instanceof Error ? error.message : 'Failed to apply categorization rules');
+    } finally {
+      setIsApplyingRules(false);
+    }
+  };
+
   // Edit account handler
   const handleEditAccount = () => {
     setIsEditingAccount(true);
@@ -394,6 +447,7 @@ export default function AccountDetailPage() {
       account_type: account?.account_type,
       account_status: account?.account_status,
       currency_code: account?.currency_code,
+      is_cash: account?.is_cash,
     });
   };
 
@@ -466,12 +520,13 @@ export default function AccountDetailPage() {
       });
 
       if (response.ok) {
+        const result = await response.json();
         // Refresh transactions data
         fetchAccountDetails();
         // Clear selection
         clearTransactionSelection();
         // Show success message
-        alert(`Successfully deleted ${count} transaction${count !== 1 ? 's' : ''}`);
+        alert(result.message || `Successfully deleted ${count} transaction${count !== 1 ? 's' : ''}`);
       } else {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to delete transactions');
@@ -482,6 +537,47 @@ export default function AccountDetailPage() {
     }
   };
 
+  // Bulk reverse transactions: posts mirror entries and keeps the originals
+  const handleBulkReverseTransactions = async () => {
+    if (selectedTransactions.size === 0) return;
+
+    const count = selectedTransactions.size;
+    const date = prompt(
+      `Reverse ${count} transaction${count !== 1 ? 's' : ''} with mirror entries dated (YYYY-MM-DD):`,
+      new Date().toISOString().split('T')[0]
+    );
+
+    if (!date) return;
+
+    try {
+      const token = currentUser ? await currentUser.getIdToken() : null;
+
+      const response = await fetch('/api/transactions/reverse', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          transactionIds: Array.from(selectedTransactions),
+          date,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to reverse transactions');
+      }
+
+      fetchAccountDetails();
+      clearTransactionSelection();
+      alert(result.message);
+    } catch (error) {
+      console.error('Failed to reverse transactions:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reverse transactions');
+    }
+  };
+
   const fetchAccountDetails = async () => {
     try {
         setLoading(true);
@@ -502,8 +598,9 @@ export default function AccountDetailPage() {
         console.log(accountData)
         setAccount(accountData);
 
-        // Fetch account transactions
-        const transactionsResponse = await fetch(`/api/transactions/${accountId}`, {
+        // Fetch account transactions; general ledger links open the page on the day of their line
+        const linkedDate = new URLSearchParams(window.location.search).get('date');
+        const transactionsResponse = await fetch(`/api/transactions/${accountId}${linkedDate ? `?endDate=${linkedDate}` : ''}`, {
           headers: {
             ...(token && { Authorization: `Bearer ${token}` }),
           },
@@ -513,6 +610,9 @@ export default function AccountDetailPage() {
         }
         const transactionsData = await transactionsResponse.json();
         setTransactions(transactionsData || []);
+        if (linkedDate) {
+          setSelectedChartDate(linkedDate);
+        }
 
         // Fetch active accounts and entities for autocomplete
         if (currentUser) {
@@ -563,7 +663,7 @@ export default function AccountDetailPage() {
 
       console.log('Assignment params:', { transactionId, assignedAccountId, field, isDebitAccount: field === 'debit' });
 
-      const token = localStorage.getItem('token');
+      const token = currentUser ? await currentUser.getIdToken() : null;
       const requestBody = {
         transactionId,
         assignedAccountId: assignedAccountId,
@@ -583,7 +683,8 @@ export default function AccountDetailPage() {
 
       if (response.ok) {
         // Refresh transactions to show updated data - use the page's accountId from params, not the function parameter
-        const transactionsResponse = await fetch(`/api/transactions/${accountId}`);
+        const linkedDate = new URLSearchParams(window.location.search).get('date');
+        const transactionsResponse = await fetch(`/api/transactions/${accountId}${linkedDate ? `?endDate=${linkedDate}` : ''}`);
         if (transactionsResponse.ok) {
           const transactionsData = await transactionsResponse.json();
           setTransactions(transactionsData || []);
@@ -1127,6 +1228,39 @@ export default function AccountDetailPage() {
               {isUpdatingBalances ? 'Updating...' : 'Update Balance'}
             </button>
 
+            <Link
+              href={`/accounts/${accountId}/reconcile`}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white text-sm font-medium rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <ScaleIcon className="h-5 w-5 mr-2" />
+              Reconcile
+            </Link>
+
+            <Link
+              href={`/audit-log?entity_id=${account.company ?? ''}&account_id=${accountId}`}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white text-sm font-medium rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <ClipboardDocumentListIcon className="h-5 w-5 mr-2" />
+              History
+            </Link>
+
+            <Link
+              href={`/reports/general-ledger?entity_id=${account.company ?? ''}&account_id=${accountId}`}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white text-sm font-medium rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <TableCellsIcon className="h-5 w-5 mr-2" />
+              Ledger
+            </Link>
+
+            <button
+              onClick={handleApplyRules}
+              disabled={isApplyingRules}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white text-sm font-medium rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <SparklesIcon className="h-5 w-5 mr-2" />
+              {isApplyingRules ? 'Applying...' : 'Apply Rules'}
+            </button>
+
             <button
               onClick={() => setIsImportModalOpen(true)}
               className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -1219,7 +1353,12 @@ export default function AccountDetailPage() {
               {isEditingAccount ? (
                 <select
                   value={editedAccount.account_type || ''}
-                  onChange={(e) => setEditedAccount({ ...editedAccount, account_type: e.target.value as 'asset' | 'liability' | 'equity' | 'income' | 'expense' })}
+                  onChange={(e) => setEditedAccount({
+                    ...editedAccount,
+                    account_type: e.target.value as 'asset' | 'liability' | 'equity' | 'income' | 'expense',
+                    // Only asset accounts can be cash accounts
+                    ...(e.target.value !== 'asset' && { is_cash: 0 })
+                  })}
                   className="text-sm border border-gray-300 rounded px-2 py-1 w-full focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 >
                   <option value="">-</option>
@@ -1261,6 +1400,20 @@ export default function AccountDetailPage() {
                 <dd className="text-sm text-gray-900">{account.account_status}</dd>
               )}
             </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Cash or Bank</dt>
+              {isEditingAccount ? (
+                <input
+                  type="checkbox"
+                  checked={editedAccount.is_cash === 1}
+                  disabled={editedAccount.account_type !== 'asset'}
+                  onChange={(e) => setEditedAccount({ ...editedAccount, is_cash: e.target.checked ? 1 : 0 })}
+                  className="h-4 w-4 mt-1 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 disabled:opacity-50"
+                />
+              ) : (
+                <dd className="text-sm text-gray-900">{account.is_cash === 1 ? 'Yes' : 'No'}</dd>
+              )}
+            </div>
             <div>
               <dt className="text-sm font-medium text-gray-500">Created</dt>
               <dd className="text-sm text-gray-900">{formatDate(account.created_at)}</dd>
@@ -1453,6 +1606,12 @@ export default function AccountDetailPage() {
               {/* Delete Transactions Row */}
               <div className="flex items-center space-x-3 pt-2 border-t border-indigo-200">
                 <span className="text-sm font-medium text-red-700 min-w-max">Danger Zone:</span>
+                <button
+                  onClick={() => handleBulkReverseTransactions()}
+                  className="px-4 py-2 bg-white text-red-700 text-sm font-medium rounded border border-red-300 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500"
+                >
+                  Reverse {selectedTransactions.size} Transaction{selectedTransactions.size !== 1 ? 's' : ''}
+                </button>
                 <button
                   onClick={() => handleBulkDeleteTransactions()}
                   className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
@@ -1530,6 +1689,9 @@ export default function AccountDetailPage() {
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-900">
                       {transaction.description}
+                      {transaction.payee_name && (
+                        <div className="text-xs text-indigo-600 mt-0.5">{transaction.payee_name}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       <AccountAutocomplete
@@ -0,0 +1,713 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeftIcon, ArrowUturnLeftIcon, CheckCircleIcon, DocumentTextIcon, ScaleIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { ReconciliationMatch, ReconciliationSession, ReconciliationWorkspace } from '@/lib/database';
+
+interface AccountDetails {
+  account_id: number;
+  account_code: string;
+  account_name: string;
+  account_type: string;
+  currency_code: string;
+  current_balance: number;
+}
+
+type LineFilter = 'all' | 'uncleared' | 'cleared';
+
+export default function ReconcileAccountPage() {
+  const params = useParams();
+  const accountId = params.id as string;
+  const { currentUser } = useAuth();
+
+  const [account, setAccount] = useState<AccountDetails | null>(null);
+  const [sessions, setSessions] = useState<ReconciliationSession[]>([]);
+  const [workspace, setWorkspace] = useState<ReconciliationWorkspace | null>(null);
+  const [matches, setMatches] = useState<ReconciliationMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [filter, setFilter] = useState<LineFilter>('all');
+
+  // Start form
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [statementBalance, setStatementBalance] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('');
+
+  const apiFetch = useCallback(async (path: string, init: RequestInit = {}) => {
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+
+    const token = await currentUser.getIdToken();
+    return fetch(path, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        ...init.headers,
+      },
+    });
+  }, [currentUser]);
+
+  const loadWorkspace = useCallback(async (sessionId: number) => {
+    const response = await apiFetch(`/api/reconcile/${accountId}/sessions/${sessionId}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load reconciliation');
+    }
+    setWorkspace(data);
+  }, [apiFetch, accountId]);
+
+  const loadPage = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const [accountResponse, sessionsResponse] = await Promise.all([
+        apiFetch(`/api/accounts/${accountId}`),
+        apiFetch(`/api/reconcile/${accountId}/sessions`)
+      ]);
+
+      if (!accountResponse.ok || !sessionsResponse.ok) {
+        throw new Error('Failed to load account reconciliations');
+      }
+
+      const accountData: AccountDetails = await accountResponse.json();
+      const sessionData: ReconciliationSession[] = await sessionsResponse.json();
+      setAccount(accountData);
+      setSessions(sessionData);
+
+      const inProgress = sessionData.find(session => session.status === 'in_progress');
+      if (inProgress) {
+        await loadWorkspace(inProgress.id);
+      } else {
+        setWorkspace(null);
+
+        // Next period starts the day after the last completed one
+        const lastCompleted = sessionData.find(session => session.status === 'completed');
+        const today = new Date().toISOString().split('T')[0];
+        if (lastCompleted) {
+          const nextDay = new Date(`${lastCompleted.period_end}T00:00:00Z`);
+          nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+          setPeriodStart(nextDay.toISOString().split('T')[0]);
+        } else {
+          setPeriodStart(`${today.slice(0, 8)}01`);
+        }
+        setPeriodEnd(today);
+        setStatementBalance('');
+        setOpeningBalance('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [apiFetch, accountId, loadWorkspace]);
+
+  useEffect(() => {
+    if (currentUser && accountId) {
+      loadPage();
+    }
+  }, [currentUser, accountId, loadPage]);
+
+  // Ticking lines changes which entries are still open, so suggestions follow the workspace
+  useEffect(() => {
+    if (!workspace || workspace.session.status !== 'in_progress') {
+      setMatches([]);
+      return;
+    }
+
+    apiFetch(`/api/reconcile/${accountId}/sessions/${workspace.session.id}/matches`)
+      .then(response => response.ok ? response.json() : { matches: [] })
+      .then(data => setMatches(data.matches || []))
+      .catch(err => console.error('Match suggestion error:', err));
+  }, [workspace, apiFetch, accountId]);
+
+  const formatCurrency = (amount: number) => {
+    try {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: account?.currency_code?.toUpperCase() || 'USD'
+      }).format(amount);
+    } catch {
+      return `${amount.toFixed(2)} ${account?.currency_code || ''}`;
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    try {
+      return new Date(dateString).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC'
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const hasCompletedSession = sessions.some(session => session.status === 'completed');
+  // Sessions are sorted newest period first
+  const lastCompletedSession = sessions.find(session => session.status === 'completed');
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const balance = parseFloat(statementBalance);
+    if (isNaN(balance)) {
+      setError('Please enter the statement ending balance');
+      return;
+    }
+
+    if (!hasCompletedSession && isNaN(parseFloat(openingBalance))) {
+      setError('Please enter the statement opening balance for this first reconciliation');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await apiFetch(`/api/reconcile/${accountId}/sessions`, {
+        method: 'POST',
+        body: JSON.stringify({
+          periodStart,
+          periodEnd,
+          statementBalance: balance,
+          ...(!hasCompletedSession && { openingBalance: parseFloat(openingBalance) })
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to start reconciliation');
+        return;
+      }
+
+      await loadPage();
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Start reconciliation error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateSession = async (changes: { clear?: number[]; unclear?: number[]; statementBalance?: number }) => {
+    if (!workspace) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await apiFetch(`/api/reconcile/${accountId}/sessions/${workspace.session.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setWorkspace(data);
+      } else {
+        setError(data.error || 'Failed to update reconciliation');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Update reconciliation error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleLine = (lineId: number, cleared: boolean) => {
+    updateSession(cleared ? { unclear: [lineId] } : { clear: [lineId] });
+  };
+
+  const toggleAllVisible = (clear: boolean) => {
+    const ids = visibleLines.filter(line => line.cleared !== clear).map(line => line.id);
+    if (ids.length > 0) {
+      updateSession(clear ? { clear: ids } : { unclear: ids });
+    }
+  };
+
+  const handleAcceptMatch = async (match: ReconciliationMatch) => {
+    if (!workspace) return;
+
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await apiFetch(`/api/reconcile/${accountId}/sessions/${workspace.session.id}/matches`, {
+        method: 'POST',
+        body: JSON.stringify({
+          statementTransactionId: match.statementLine.id,
+          ledgerTransactionId: match.ledgerLine.id
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to merge transactions');
+        return;
+      }
+
+      setMessage(data.message);
+      await loadWorkspace(workspace.session.id);
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Accept match error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!workspace) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await apiFetch(`/api/reconcile/${accountId}/sessions/${workspace.session.id}/complete`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to complete reconciliation');
+        return;
+      }
+
+      setMessage(`Reconciliation through ${formatDate(workspace.session.period_end)} completed`);
+      await loadPage();
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Complete reconciliation error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!lastCompletedSession) return;
+    if (!window.confirm(
+      `Reopen the reconciliation through ${formatDate(lastCompletedSession.period_end)}? ` +
+      'Its balance adjustment is deleted, transactions cleared by hand are uncleared and the balance is recalculated.'
+    )) return;
+
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await apiFetch(`/api/reconcile/${accountId}/sessions/${lastCompletedSession.id}/reopen`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to reopen reconciliation');
+        return;
+      }
+
+      setMessage(data.message);
+      await loadPage();
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Reopen reconciliation error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!workspace) return;
+    if (!window.confirm('Discard this reconciliation? Ticked transactions stay marked as cleared.')) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await apiFetch(`/api/reconcile/${accountId}/sessions/${workspace.session.id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to cancel reconciliation');
+        return;
+      }
+
+      await loadPage();
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Cancel reconciliation error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const visibleLines = (workspace?.lines || []).filter(line =>
+    filter === 'all' || (filter === 'cleared' ? line.cleared : !line.cleared)
+  );
+
+  const isBalanced = workspace ? Math.abs(workspace.totals.difference) < 0.01 : false;
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-8"></div>
+          <div className="space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link
+            href={`/accounts/${accountId}`}
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Back to Account
+          </Link>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <ScaleIcon className="h-8 w-8 text-indigo-600 mr-3" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Reconcile {account?.account_name}</h1>
+                <p className="text-sm text-gray-500">
+                  {account?.account_code} • Ledger balance {formatCurrency(Number(account?.current_balance || 0))}
+                </p>
+              </div>
+            </div>
+            {hasCompletedSession && (
+              <Link
+                href={`/accounts/${accountId}/reconcile/report`}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <DocumentTextIcon className="h-5 w-5 mr-2" />
+                Reconciliation Report
+              </Link>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md flex items-center">
+            <CheckCircleIcon className="h-5 w-5 mr-2" />
+            {message}
+          </div>
+        )}
+
+        {/* Start a new reconciliation */}
+        {!workspace && (
+          <form onSubmit={handleStart} className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Start Reconciliation</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label htmlFor="periodStart" className="block text-sm font-medium text-gray-700">Statement Start *</label>
+                <input
+                  type="date"
+                  id="periodStart"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="periodEnd" className="block text-sm font-medium text-gray-700">Statement End *</label>
+                <input
+                  type="date"
+                  id="periodEnd"
+                  value={periodEnd}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  required
+                />
+              </div>
+              {!hasCompletedSession && (
+                <div>
+                  <label htmlFor="openingBalance" className="block text-sm font-medium text-gray-700">Opening Balance *</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    id="openingBalance"
+                    value={openingBalance}
+                    onChange={(e) => setOpeningBalance(e.target.value)}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    required
+                  />
+                </div>
+              )}
+              <div>
+                <label htmlFor="statementBalance" className="block text-sm font-medium text-gray-700">Ending Balance *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  id="statementBalance"
+                  value={statementBalance}
+                  onChange={(e) => setStatementBalance(e.target.value)}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  required
+                />
+              </div>
+            </div>
+            {lastCompletedSession && (
+              <p className="text-sm text-gray-500">
+                The opening balance is carried over from the previous reconciliation through {formatDate(lastCompletedSession.period_end)}.
+              </p>
+            )}
+            <div className="flex justify-end space-x-3">
+              {lastCompletedSession && (
+                <button
+                  type="button"
+                  onClick={handleReopen}
+                  disabled={isSaving}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ArrowUturnLeftIcon className="h-5 w-5 mr-2" />
+                  Reopen Last Reconciliation
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isSaving ? 'Starting...' : 'Start Reconciliation'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Workspace */}
+        {workspace && (
+          <>
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Statement {formatDate(workspace.session.period_start)} – {formatDate(workspace.session.period_end)}
+                </h2>
+                <div className="flex items-center space-x-3">
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    disabled={isSaving}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleFinish}
+                    disabled={isSaving || !isBalanced}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <CheckCircleIcon className="h-5 w-5 mr-2" />
+                    Finish Reconciliation
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Opening</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(workspace.session.opening_balance)}</div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Cleared In</div>
+                  <div className="text-lg font-semibold text-green-600">+{formatCurrency(workspace.totals.clearedIncreases)}</div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Cleared Out</div>
+                  <div className="text-lg font-semibold text-red-600">-{formatCurrency(workspace.totals.clearedDecreases)}</div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Cleared Balance</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(workspace.totals.clearedBalance)}</div>
+                </div>
+                <div>
+                  <label htmlFor="sessionStatementBalance" className="text-xs font-medium text-gray-500 uppercase">Statement Balance</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    id="sessionStatementBalance"
+                    defaultValue={workspace.session.statement_balance}
+                    key={workspace.session.statement_balance}
+                    onBlur={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value) && Math.abs(value - workspace.session.statement_balance) >= 0.005) {
+                        updateSession({ statementBalance: value });
+                      }
+                    }}
+                    className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase">Difference</div>
+                  <div className={`text-lg font-semibold ${isBalanced ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(workspace.totals.difference)}
+                  </div>
+                </div>
+              </div>
+
+              <p className="mt-4 text-sm text-gray-500">
+                {workspace.totals.unclearedCount} uncleared transaction{workspace.totals.unclearedCount !== 1 ? 's' : ''}:
+                {' '}+{formatCurrency(workspace.totals.unclearedIncreases)} in, -{formatCurrency(workspace.totals.unclearedDecreases)} out
+              </p>
+            </div>
+
+            {matches.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border">
+                <div className="p-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900">Suggested matches</h2>
+                  <p className="text-sm text-gray-500">
+                    These statement lines look like entries already recorded by hand. Accepting merges them into one cleared entry.
+                  </p>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Statement line</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Existing entry</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Score</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {matches.map(match => (
+                      <tr key={`${match.statementLine.id}-${match.ledgerLine.id}`}>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          <div>{match.statementLine.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {formatDate(match.statementLine.fecha)} • {formatCurrency(match.statementLine.amount)}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          <div>#{match.ledgerLine.id} {match.ledgerLine.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {formatDate(match.ledgerLine.fecha)} • {formatCurrency(match.ledgerLine.amount)}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-900">{match.score.total}%</td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleAcceptMatch(match)}
+                            disabled={isSaving}
+                            className="inline-flex items-center px-3 py-1 border border-indigo-300 text-xs font-medium rounded-md text-indigo-700 bg-white hover:bg-indigo-50 disabled:opacity-50"
+                          >
+                            Accept
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-sm border">
+              <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                <div className="flex space-x-2">
+                  {(['all', 'uncleared', 'cleared'] as LineFilter[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setFilter(option)}
+                      className={`px-3 py-1 text-sm rounded-md border ${
+                        filter === option
+                          ? 'bg-indigo-600 text-white border-indigo-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.charAt(0).toUpperCase() + option.slice(1)}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex space-x-3 text-sm">
+                  <button type="button" onClick={() => toggleAllVisible(true)} disabled={isSaving} className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+                    Clear all shown
+                  </button>
+                  <button type="button" onClick={() => toggleAllVisible(false)} disabled={isSaving} className="text-gray-600 hover:text-gray-800 disabled:opacity-50">
+                    Unclear all shown
+                  </button>
+                </div>
+              </div>
+
+              {visibleLines.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">No transactions to show.</div>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 w-12"></th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">In</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Out</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {visibleLines.map(line => (
+                      <tr
+                        key={line.id}
+                        onClick={() => !isSaving && toggleLine(line.id, line.cleared)}
+                        className={`cursor-pointer ${line.cleared ? 'bg-green-50 hover:bg-green-100' : 'hover:bg-gray-50'}`}
+                      >
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={line.cleared}
+                            readOnly
+                            className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">{formatDate(line.fecha)}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          <div>{line.name}</div>
+                          {line.bank_transaction_id && (
+                            <div className="text-xs text-gray-400">Bank ref: {line.bank_transaction_id}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-green-600">
+                          {line.amount >= 0 ? formatCurrency(line.amount) : ''}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-red-600">
+                          {line.amount < 0 ? formatCurrency(-line.amount) : ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
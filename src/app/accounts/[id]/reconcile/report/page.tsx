@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeftIcon, DocumentTextIcon, PrinterIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { ReconciliationReport } from '@/lib/database';
+
+interface AccountDetails {
+  account_id: number;
+  account_code: string;
+  account_name: string;
+  account_type: string;
+  currency_code: string;
+  current_balance: number;
+}
+
+export default function ReconciliationReportPage() {
+  const params = useParams();
+  const accountId = params.id as string;
+  const { currentUser } = useAuth();
+
+  const [account, setAccount] = useState<AccountDetails | null>(null);
+  const [reports, setReports] = useState<ReconciliationReport[]>([]);
+  const [selectedId, setSelectedId] = useState<number | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadReports = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const headers = { Authorization: `Bearer ${token}` };
+      const [accountResponse, historyResponse] = await Promise.all([
+        fetch(`/api/accounts/${accountId}`, { headers }),
+        fetch(`/api/reconcile/${accountId}/history`, { headers })
+      ]);
+
+      if (!accountResponse.ok || !historyResponse.ok) {
+        throw new Error('Failed to load reconciliation history');
+      }
+
+      const history: ReconciliationReport[] = await historyResponse.json();
+      setAccount(await accountResponse.json());
+      setReports(history);
+
+      // Ledger lines link here with the reconciliation that cleared them
+      const requestedSession = Number(new URLSearchParams(window.location.search).get('session'));
+      if (history.some(report => report.session.id === requestedSession)) {
+        setSelectedId(requestedSession);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, accountId]);
+
+  useEffect(() => {
+    if (currentUser && accountId) {
+      loadReports();
+    }
+  }, [currentUser, accountId, loadReports]);
+
+  const formatCurrency = (amount: number) => {
+    try {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: account?.currency_code?.toUpperCase() || 'USD'
+      }).format(amount);
+    } catch {
+      return `${amount.toFixed(2)} ${account?.currency_code || ''}`;
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '';
+    try {
+      return new Date(dateString).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC'
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const visibleReports = selectedId === 'all'
+    ? reports
+    : reports.filter(report => report.session.id === selectedId);
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-8"></div>
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link
+            href={`/accounts/${accountId}/reconcile`}
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4 print:hidden"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Back to Reconciliation
+          </Link>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <DocumentTextIcon className="h-8 w-8 text-indigo-600 mr-3 print:hidden" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Bank Reconciliation Report</h1>
+                <p className="text-sm text-gray-500">
+                  {account?.account_name} • {account?.account_code}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3 print:hidden">
+              <select
+                value={selectedId}
+                onChange={(e) => setSelectedId(e.target.value === 'all' ? 'all' : parseInt(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="all">All reconciliations</option>
+                {reports.map(report => (
+                  <option key={report.session.id} value={report.session.id}>
+                    {formatDate(report.session.period_start)} – {formatDate(report.session.period_end)}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => window.print()}
+                disabled={reports.length === 0}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <PrinterIcon className="h-5 w-5 mr-2" />
+                Print
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md print:hidden">
+            {error}
+          </div>
+        )}
+
+        {!error && reports.length === 0 && (
+          <div className="bg-white rounded-lg shadow-sm border p-12 text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No completed reconciliations</h3>
+            <p className="text-gray-500">Finish a reconciliation for this account to see its report here.</p>
+          </div>
+        )}
+
+        {visibleReports.map(report => (
+          <div key={report.session.id} className="bg-white rounded-lg shadow-sm border break-inside-avoid print:shadow-none">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Reconciliation as of {formatDate(report.session.period_end)}
+              </h2>
+              <p className="text-sm text-gray-500">
+                Period {formatDate(report.session.period_start)} – {formatDate(report.session.period_end)}
+                {' '}• Completed {formatDate(report.session.completed_at)}
+                {report.completed_by_email ? ` by ${report.completed_by_email}` : ''}
+                {report.session.adjustment_transaction_id ? ` • Balance adjustment #${report.session.adjustment_transaction_id}` : ''}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6 text-sm">
+              <table className="w-full">
+                <tbody>
+                  <tr>
+                    <td className="py-1 text-gray-700">Balance per bank statement</td>
+                    <td className="py-1 text-right text-gray-900">{formatCurrency(report.session.statement_balance)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 text-gray-700">Add: deposits in transit</td>
+                    <td className="py-1 text-right text-gray-900">{formatCurrency(report.outstandingIncreases)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 text-gray-700">Less: outstanding payments</td>
+                    <td className="py-1 text-right text-gray-900">({formatCurrency(report.outstandingDecreases)})</td>
+                  </tr>
+                  <tr className="border-t border-gray-300 font-semibold">
+                    <td className="py-1 text-gray-900">Adjusted bank balance</td>
+                    <td className="py-1 text-right text-gray-900">{formatCurrency(report.adjustedStatementBalance)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <table className="w-full">
+                <tbody>
+                  <tr>
+                    <td className="py-1 text-gray-700">Balance per books</td>
+                    <td className="py-1 text-right text-gray-900">{formatCurrency(report.session.book_balance ?? 0)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 text-gray-700">Adjustments</td>
+                    <td className="py-1 text-right text-gray-900">{formatCurrency(report.session.adjustment_amount)}</td>
+                  </tr>
+                  <tr className="border-t border-gray-300 font-semibold">
+                    <td className="py-1 text-gray-900">Adjusted book balance</td>
+                    <td className="py-1 text-right text-gray-900">{formatCurrency(report.adjustedBookBalance)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 text-gray-700">Difference</td>
+                    <td className={`py-1 text-right font-semibold ${Math.abs(report.unexplainedDifference) < 0.01 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(report.unexplainedDifference)}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="px-6 pb-6">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                Outstanding items at {formatDate(report.session.period_end)} ({report.outstanding.length})
+              </h3>
+              {report.outstanding.length === 0 ? (
+                <p className="text-sm text-gray-500">No outstanding items.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">In</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Out</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {report.outstanding.map(line => (
+                      <tr key={line.id}>
+                        <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">{formatDate(line.fecha)}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          <div>{line.name}</div>
+                          {line.bank_transaction_id && (
+                            <div className="text-xs text-gray-400">Bank ref: {line.bank_transaction_id}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-green-600">
+                          {line.amount >= 0 ? formatCurrency(line.amount) : ''}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-red-600">
+                          {line.amount < 0 ? formatCurrency(-line.amount) : ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </DashboardLayout>
+  );
+}
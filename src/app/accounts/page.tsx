@@ -8,6 +8,7 @@ import DashboardLayout from '@/components/DashboardLayout';
 import TransactionsModal from '@/components/TransactionsModal';
 import ReconcileModal from '@/components/ReconcileModal';
 import StatementImportModal from '@/components/StatementImportModal';
+import ImportBatchesModal from '@/components/ImportBatchesModal';
 import TransactionAssignmentModal from '@/components/TransactionAssignmentModal';
 import AccountActionsMenu from '@/components/AccountActionsMenu';
 import { MagnifyingGlassIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
@@ -24,6 +25,7 @@ export default function AccountsPage() {
   const [isTransactionsModalOpen, setIsTransactionsModalOpen] = useState(false);
   const [isReconcileModalOpen, setIsReconcileModalOpen] = useState(false);
   const [isStatementImportModalOpen, setIsStatementImportModalOpen] = useState(false);
+  const [isImportBatchesModalOpen, setIsImportBatchesModalOpen] = useState(false);
   const [isAssignmentModalOpen, setIsAssignmentModalOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [incompleteTransactions, setIncompleteTransactions] = useState<Transaction[]>([]);
@@ -58,6 +60,9 @@ export default function AccountsPage() {
         }
         break;
       case 'reconcile':
+        router.push(`/accounts/${accountId}/reconcile`);
+        break;
+      case 'adjust-balance':
         if (account) {
           setSelectedAccount(account);
           setIsReconcileModalOpen(true);
@@ -69,6 +74,12 @@ export default function AccountsPage() {
           setIsStatementImportModalOpen(true);
         }
         break;
+      case 'import-history':
+        if (account) {
+          setSelectedAccount(account);
+          setIsImportBatchesModalOpen(true);
+        }
+        break;
       case 'assign-transactions':
         handleAssignTransactions(accountId);
         break;
@@ -413,6 +424,17 @@ export default function AccountsPage() {
           onImportComplete={handleStatementImportComplete}
         />
 
+        {/* Import History Modal */}
+        <ImportBatchesModal
+          isOpen={isImportBatchesModalOpen}
+          onClose={() => {
+            setIsImportBatchesModalOpen(false);
+            setSelectedAccount(null);
+          }}
+          account={selectedAccount}
+          onRollbackComplete={handleStatementImportComplete}
+        />
+
         {/* Transaction Assignment Modal */}
         <TransactionAssignmentModal
           isOpen={isAssignmentModalOpen}
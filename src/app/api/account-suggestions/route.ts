@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountSuggestions } from '@/lib/database';
+
+const MAX_BULK_TRANSACTIONS = 200;
+
+function parseLimit(value: unknown): number {
+  const limit = parseInt(String(value ?? '5'));
+  return isNaN(limit) ? 5 : Math.max(1, Math.min(20, limit));
+}
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    const url = new URL(request.url);
+    const transactionId = parseInt(url.searchParams.get('transaction_id') || '');
+    if (isNaN(transactionId)) {
+      return NextResponse.json({ error: 'Transaction ID is required' }, { status: 400 });
+    }
+
+    const [result] = await getAccountSuggestions([transactionId], user.id, parseLimit(url.searchParams.get('limit')));
+    if (!result) {
+      return NextResponse.json({ error: 'Incomplete transaction not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch account suggestions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Bulk flows ask for several transactions at once
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const body = await request.json();
+
+    const transactionIds = Array.isArray(body.transactionIds)
+      ? (body.transactionIds as unknown[]).map(id => parseInt(String(id))).filter(id => !isNaN(id))
+      : [];
+    if (transactionIds.length === 0) {
+      return NextResponse.json({ error: 'Transaction IDs array is required' }, { status: 400 });
+    }
+    if (transactionIds.length > MAX_BULK_TRANSACTIONS) {
+      return NextResponse.json({ error: `At most ${MAX_BULK_TRANSACTIONS} transactions per request` }, { status: 400 });
+    }
+
+    const results = await getAccountSuggestions(transactionIds, user.id, parseLimit(body.limit));
+
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch account suggestions' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountsForAssignment } from '@/lib/database';
+
+const ACCOUNT_TYPES = ['income', 'expense', 'asset', 'liability', 'equity'] as const;
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Scoped by ?transaction_id= (its entity, without its own account) or by ?entity_id=
+    const url = new URL(request.url);
+    const transactionIdParam = url.searchParams.get('transaction_id');
+    const entityIdParam = url.searchParams.get('entity_id');
+    const transactionId = transactionIdParam ? parseInt(transactionIdParam) : undefined;
+    const entityId = entityIdParam ? parseInt(entityIdParam) : undefined;
+
+    if ((transactionIdParam && isNaN(transactionId!)) || (entityIdParam && isNaN(entityId!))) {
+      return NextResponse.json({ error: 'Transaction and entity IDs must be numbers' }, { status: 400 });
+    }
+    if (!transactionId && !entityId) {
+      return NextResponse.json({ error: 'A transaction ID or entity ID is required' }, { status: 400 });
+    }
+
+    const accountType = url.searchParams.get('account_type') || undefined;
+    if (accountType && !ACCOUNT_TYPES.includes(accountType as typeof ACCOUNT_TYPES[number])) {
+      return NextResponse.json({ error: `Account type must be one of: ${ACCOUNT_TYPES.join(', ')}` }, { status: 400 });
+    }
+
+    const accounts = await getAccountsForAssignment(user.id, {
+      transactionId,
+      entityId,
+      accountType: accountType as typeof ACCOUNT_TYPES[number] | undefined,
+      search: url.searchParams.get('search')?.trim() || undefined
+    });
+
+    if (!accounts) {
+      return NextResponse.json(
+        { error: transactionId ? 'Transaction not found or access denied' : 'Entity not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts for assignment' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
@@ -55,7 +55,7 @@ async function patchHandler(
     }
 
     const body = await request.json();
-    const { account_name, category, account_type, account_status, currency_code } = body;
+    const { account_name, category, account_type, account_status, currency_code, is_cash } = body;
 
     // Update account
     const result = await updateAccount(accountId, {
@@ -64,6 +64,7 @@ async function patchHandler(
       account_type,
       account_status,
       currency_code,
+      is_cash: is_cash === undefined ? undefined : Boolean(is_cash),
     }, user.id);
 
     if (!result.success) {
@@ -1,8 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
 import { assignAccountToTransaction } from '@/lib/database';
 
-export async function POST(request: NextRequest) {
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
+    const user = request.user!;
     const body = await request.json();
     const { transactionId, assignedAccountId, isDebitAccount } = body;
 
@@ -35,7 +37,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid transaction or account ID' }, { status: 400 });
     }
 
-    const result = await assignAccountToTransaction(txnId, accId, isDebitAccount);
+    const result = await assignAccountToTransaction(txnId, accId, isDebitAccount, user.id);
 
     if (result.success) {
       return NextResponse.json({
@@ -56,4 +58,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountForUser, getAuditLog } from '@/lib/database';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { searchParams } = new URL(request.url);
+
+    // ?account_id= alone is enough: the account's entity is looked up
+    const accountIdParam = searchParams.get('account_id');
+    const accountId = accountIdParam ? parseInt(accountIdParam) : undefined;
+    if (accountIdParam && isNaN(accountId!)) {
+      return NextResponse.json({ error: 'Account ID must be a number' }, { status: 400 });
+    }
+
+    let entityId = parseInt(searchParams.get('entity_id') || '');
+    if (accountId) {
+      const account = await getAccountForUser(accountId, user.id);
+      if (!account || !account.company) {
+        return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+      }
+      if (!isNaN(entityId) && entityId !== account.company) {
+        return NextResponse.json({ error: 'Account does not belong to this entity' }, { status: 400 });
+      }
+      entityId = account.company;
+    }
+
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Entity ID or account ID is required' }, { status: 400 });
+    }
+
+    const startDate = searchParams.get('startDate') || undefined;
+    const endDate = searchParams.get('endDate') || undefined;
+    if ((startDate && isNaN(Date.parse(startDate))) || (endDate && isNaN(Date.parse(endDate)))) {
+      return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const userIdParam = searchParams.get('user_id');
+    const limitParam = searchParams.get('limit');
+
+    const entries = await getAuditLog({
+      entityId,
+      accountId,
+      action: searchParams.get('action') || undefined,
+      userId: userIdParam ? parseInt(userIdParam) || undefined : undefined,
+      startDate,
+      endDate,
+      limit: limitParam ? parseInt(limitParam) || undefined : undefined
+    }, user.id);
+
+    if (!entries) {
+      return NextResponse.json({ error: 'Entity not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { deleteCategorizationRule, updateCategorizationRule } from '@/lib/database';
+import { validateCategorizationRule } from '@/lib/categorization-rules';
+
+function getRuleId(request: AuthenticatedRequest): number {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  return parseInt(pathParts[pathParts.length - 1]);
+}
+
+async function putHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const ruleId = getRuleId(request);
+
+    if (!ruleId || isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Valid rule ID is required' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { rule, error } = validateCategorizationRule(body);
+    if (!rule) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await updateCategorizationRule(ruleId, rule, user.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to update categorization rule' },
+        { status: result.error === 'Categorization rule not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(result.rule);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update categorization rule' },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const ruleId = getRuleId(request);
+
+    if (!ruleId || isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Valid rule ID is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteCategorizationRule(ruleId, user.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Categorization rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete categorization rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = createAuthHandler(putHandler);
+export const DELETE = createAuthHandler(deleteHandler);
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { applyCategorizationRules, getAccountForUser } from '@/lib/database';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Get account ID from URL
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 1]);
+
+    if (!accountId || isNaN(accountId)) {
+      return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    // { dryRun: true } previews which rule would fire for each incomplete transaction
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    const result = await applyCategorizationRules(account, user.id, dryRun);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to apply categorization rules' }, { status: 400 });
+    }
+
+    const count = result.assignments!.length;
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      assignments: result.assignments,
+      message: dryRun
+        ? `${count} transaction${count !== 1 ? 's' : ''} would be categorized`
+        : `Categorized ${count} transaction${count !== 1 ? 's' : ''}`
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply categorization rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
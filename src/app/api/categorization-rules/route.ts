@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { createCategorizationRule, getCategorizationRulesByUserId } from '@/lib/database';
+import { validateCategorizationRule } from '@/lib/categorization-rules';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Optional ?entity_id= narrows the list to rules that apply to one entity
+    const url = new URL(request.url);
+    const entityIdParam = url.searchParams.get('entity_id');
+    const entityId = entityIdParam ? parseInt(entityIdParam) : undefined;
+
+    if (entityIdParam && isNaN(entityId!)) {
+      return NextResponse.json({ error: 'Entity ID must be a number' }, { status: 400 });
+    }
+
+    const rules = await getCategorizationRulesByUserId(user.id, entityId);
+
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch categorization rules' },
+      { status: 500 }
+    );
+  }
+}
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const body = await request.json();
+
+    const { rule, error } = validateCategorizationRule(body);
+    if (!rule) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await createCategorizationRule(rule, user.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to create categorization rule' }, { status: 400 });
+    }
+
+    return NextResponse.json(result.rule, { status: 201 });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create categorization rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { closeFiscalYear, getFiscalYearCloses, reopenFiscalYear } from '@/lib/database';
+
+function getEntityId(request: AuthenticatedRequest): number {
+  const pathParts = new URL(request.url).pathname.split('/');
+  return parseInt(pathParts[pathParts.indexOf('entities') + 1]);
+}
+
+const isFiscalYear = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1900 && value <= 2999;
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const entityId = getEntityId(request);
+
+    if (!entityId || isNaN(entityId)) {
+      return NextResponse.json({ error: 'Valid entity ID is required' }, { status: 400 });
+    }
+
+    const closes = await getFiscalYearCloses(entityId, user.id);
+    if (!closes) {
+      return NextResponse.json({ error: 'Entity not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json(closes);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fiscal year closes' },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { fiscal_year: 2025 } closes that year into retained earnings
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const entityId = getEntityId(request);
+
+    if (!entityId || isNaN(entityId)) {
+      return NextResponse.json({ error: 'Valid entity ID is required' }, { status: 400 });
+    }
+
+    const { fiscal_year: fiscalYear } = await request.json();
+    if (!isFiscalYear(fiscalYear)) {
+      return NextResponse.json({ error: 'fiscal_year must be a four-digit year' }, { status: 400 });
+    }
+
+    const result = await closeFiscalYear(entityId, fiscalYear, user.id);
+    if (!result.success) {
+      const status = result.error?.startsWith('Entity not found') ? 404 : 400;
+      return NextResponse.json({ error: result.error || 'Failed to close fiscal year' }, { status });
+    }
+
+    return NextResponse.json({ success: true, close: result.close });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to close fiscal year' },
+      { status: 500 }
+    );
+  }
+}
+
+// ?fiscal_year=2025 reopens that year if it is the most recent one closed
+async function deleteHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const entityId = getEntityId(request);
+
+    if (!entityId || isNaN(entityId)) {
+      return NextResponse.json({ error: 'Valid entity ID is required' }, { status: 400 });
+    }
+
+    const fiscalYear = Number(new URL(request.url).searchParams.get('fiscal_year'));
+    if (!isFiscalYear(fiscalYear)) {
+      return NextResponse.json({ error: 'fiscal_year must be a four-digit year' }, { status: 400 });
+    }
+
+    const result = await reopenFiscalYear(entityId, fiscalYear, user.id);
+    if (!result.success) {
+      const status = result.error?.startsWith('Entity not found') ? 404 : 400;
+      return NextResponse.json({ error: result.error || 'Failed to reopen fiscal year' }, { status });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reopen fiscal year' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
+export const DELETE = createAuthHandler(deleteHandler);
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { setEntityPeriodLock } from '@/lib/database';
+
+// Body: { locked_through: 'YYYY-MM-DD' } to close the books through that day, null to reopen all
+async function postHandler(
+  request: AuthenticatedRequest
+): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Get entity ID from URL
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const entityIdIndex = pathParts.indexOf('entities') + 1;
+    const entityId = parseInt(pathParts[entityIdIndex]);
+
+    if (!entityId || isNaN(entityId)) {
+      return NextResponse.json({ error: 'Valid entity ID is required' }, { status: 400 });
+    }
+
+    const { locked_through: lockedThrough } = await request.json();
+    if (lockedThrough !== null && (
+      typeof lockedThrough !== 'string' ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(lockedThrough) ||
+      isNaN(Date.parse(lockedThrough))
+    )) {
+      return NextResponse.json({ error: 'Lock date must be in YYYY-MM-DD format or null' }, { status: 400 });
+    }
+
+    const updated = await setEntityPeriodLock(entityId, user.id, lockedThrough);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Entity not found or only its owner can close or reopen periods' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, locked_through: lockedThrough });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update period lock' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
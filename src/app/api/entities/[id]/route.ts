@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
-import pool from '@/lib/database';
+import pool, { EntitySettings, updateEntitySettings } from '@/lib/database';
 
 async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
@@ -30,6 +30,7 @@ async function getHandler(request: AuthenticatedRequest): Promise<NextResponse>
     const query = `
       SELECT
         c.*,
+        DATE_FORMAT(c.locked_through, '%Y-%m-%d') as locked_through,
         COUNT(DISTINCT a.id) as total_accounts,
         COALESCE(SUM(a.balance), 0) as total_balance,
         COUNT(DISTINCT CASE
@@ -42,7 +43,8 @@ async function getHandler(request: AuthenticatedRequest): Promise<NextResponse>
       LEFT JOIN rv_cuentas a ON c.id = a.company AND a.active = 1
       LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code)
       WHERE c.id = ? AND cu.user_id = ?
-      GROUP BY c.id, c.code, c.sub_code, c.name, c.companyEmail, c.email, c.whatsapp, c.timezone, c.vat, c.organization_id, c.user_id
+      GROUP BY c.id, c.code, c.sub_code, c.name, c.companyEmail, c.email, c.whatsapp, c.timezone, c.vat, c.organization_id, c.user_id, c.forbid_hard_delete, c.locked_through,
+               c.fiscal_year_start_month, c.retained_earnings_account_id
     `;
 
     const [rows] = await pool.execute(query, [entityId, user.id]);
@@ -66,3 +68,60 @@ async function getHandler(request: AuthenticatedRequest): Promise<NextResponse>
 }
 
 export const GET = createAuthHandler(getHandler);
+
+async function patchHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const entityId = parseInt(request.nextUrl.pathname.split('/').pop() || '');
+
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Invalid entity ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const settings: EntitySettings = {};
+
+    if (body.forbid_hard_delete !== undefined) {
+      if (typeof body.forbid_hard_delete !== 'boolean') {
+        return NextResponse.json({ error: 'forbid_hard_delete must be true or false' }, { status: 400 });
+      }
+      settings.forbid_hard_delete = body.forbid_hard_delete;
+    }
+
+    if (body.fiscal_year_start_month !== undefined) {
+      const month = Number(body.fiscal_year_start_month);
+      if (!Number.isInteger(month) || month < 1 || month > 12) {
+        return NextResponse.json({ error: 'fiscal_year_start_month must be a month number from 1 to 12' }, { status: 400 });
+      }
+      settings.fiscal_year_start_month = month;
+    }
+
+    if (body.retained_earnings_account_id !== undefined) {
+      const accountId = body.retained_earnings_account_id === null ? null : Number(body.retained_earnings_account_id);
+      if (accountId !== null && !Number.isInteger(accountId)) {
+        return NextResponse.json({ error: 'retained_earnings_account_id must be an account ID or null' }, { status: 400 });
+      }
+      settings.retained_earnings_account_id = accountId;
+    }
+
+    if (Object.keys(settings).length === 0) {
+      return NextResponse.json({ error: 'No settings provided' }, { status: 400 });
+    }
+
+    const result = await updateEntitySettings(entityId, user.id, settings);
+    if (!result.success) {
+      const status = result.error?.startsWith('Entity not found') ? 404 : 400;
+      return NextResponse.json({ error: result.error || 'Failed to update entity settings' }, { status });
+    }
+
+    return NextResponse.json({ success: true, ...settings });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update entity settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = createAuthHandler(patchHandler);
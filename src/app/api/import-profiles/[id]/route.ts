@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { deleteImportProfile, updateImportProfile } from '@/lib/database';
+import { validateImportProfile } from '@/lib/statement-parsers/csv';
+
+function getProfileId(request: AuthenticatedRequest): number {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  return parseInt(pathParts[pathParts.length - 1]);
+}
+
+async function putHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const profileId = getProfileId(request);
+
+    if (!profileId || isNaN(profileId)) {
+      return NextResponse.json({ error: 'Valid profile ID is required' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { profile, error } = validateImportProfile(body);
+    if (!profile) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await updateImportProfile(profileId, profile, user.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to update import profile' },
+        { status: result.error === 'Import profile not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(result.profile);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update import profile' },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const profileId = getProfileId(request);
+
+    if (!profileId || isNaN(profileId)) {
+      return NextResponse.json({ error: 'Valid profile ID is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteImportProfile(profileId, user.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Import profile not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete import profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = createAuthHandler(putHandler);
+export const DELETE = createAuthHandler(deleteHandler);
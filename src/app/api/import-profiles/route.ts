@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { createImportProfile, getImportProfilesByUserId } from '@/lib/database';
+import { validateImportProfile } from '@/lib/statement-parsers/csv';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Optional ?bankId= narrows the list to profiles for one bank
+    const url = new URL(request.url);
+    const bankIdParam = url.searchParams.get('bankId');
+    const bankId = bankIdParam ? parseInt(bankIdParam) : undefined;
+
+    if (bankIdParam && isNaN(bankId!)) {
+      return NextResponse.json({ error: 'Bank ID must be a number' }, { status: 400 });
+    }
+
+    const profiles = await getImportProfilesByUserId(user.id, bankId);
+
+    return NextResponse.json(profiles);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const body = await request.json();
+
+    const { profile, error } = validateImportProfile(body);
+    if (!profile) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const newProfile = await createImportProfile(profile, user.id);
+
+    return NextResponse.json(newProfile, { status: 201 });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create import profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountForUser, rollbackImportBatch } from '@/lib/database';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // URL is /api/import-statement/{accountId}/batches/{batchId}/rollback
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 4]);
+    const batchId = parseInt(pathParts[pathParts.length - 2]);
+
+    if (!accountId || isNaN(accountId) || !batchId || isNaN(batchId)) {
+      return NextResponse.json({ error: 'Valid account ID and batch ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const result = await rollbackImportBatch(batchId, accountId, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to roll back import' },
+        { status: result.error === 'Import batch not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Import rolled back, ${result.deletedCount} transactions removed`,
+      deletedCount: result.deletedCount,
+      restoredBalance: result.restoredBalance
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back import' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountForUser, getImportBatchesByAccountId } from '@/lib/database';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Get account ID from URL
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 2]); // -2 because last is 'batches'
+
+    if (!accountId || isNaN(accountId)) {
+      return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const batches = await getImportBatchesByAccountId(accountId);
+
+    return NextResponse.json(batches);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import batches' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { findStatementDuplicates, getAccountForUser, StatementTransaction } from '@/lib/database';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Get account ID from URL
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 2]); // -2 because last is 'duplicates'
+
+    if (!accountId || isNaN(accountId)) {
+      return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { transactions, dateToleranceDays } = body;
+
+    if (!Array.isArray(transactions)) {
+      return NextResponse.json({ error: 'Transactions are required' }, { status: 400 });
+    }
+
+    if (dateToleranceDays !== undefined && (typeof dateToleranceDays !== 'number' || dateToleranceDays < 0 || dateToleranceDays > 31)) {
+      return NextResponse.json({ error: 'Date tolerance must be between 0 and 31 days' }, { status: 400 });
+    }
+
+    const duplicates = await findStatementDuplicates(
+      accountId,
+      transactions as StatementTransaction[],
+      dateToleranceDays
+    );
+
+    return NextResponse.json({ duplicates });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check statement for duplicates' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { findStatementMatches, getAccountForUser, StatementTransaction } from '@/lib/database';
+import { DEFAULT_MATCH_OPTIONS } from '@/lib/statement-matching';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Get account ID from URL
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 2]); // -2 because last is 'matches'
+
+    if (!accountId || isNaN(accountId)) {
+      return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { transactions, maxDaysApart } = body;
+
+    if (!Array.isArray(transactions)) {
+      return NextResponse.json({ error: 'Transactions are required' }, { status: 400 });
+    }
+
+    if (maxDaysApart !== undefined && (typeof maxDaysApart !== 'number' || maxDaysApart < 0 || maxDaysApart > 31)) {
+      return NextResponse.json({ error: 'Date window must be between 0 and 31 days' }, { status: 400 });
+    }
+
+    const matches = await findStatementMatches(
+      accountId,
+      transactions as StatementTransaction[],
+      { ...DEFAULT_MATCH_OPTIONS, maxDaysApart: maxDaysApart ?? DEFAULT_MATCH_OPTIONS.maxDaysApart }
+    );
+
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to find matching transactions' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
@@ -1,20 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { importBankStatement } from '@/lib/database';
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountForUser, importBankStatement } from '@/lib/database';
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ accountId: string }> }
-) {
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
-    const { accountId: accountIdParam } = await params;
-    const accountId = parseInt(accountIdParam);
+    const user = request.user!;
+
+    // Get account ID from URL
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 1]);
 
     if (!accountId || isNaN(accountId)) {
       return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
     }
 
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
     const body = await request.json();
-    const { statementDate, openingBalance, closingBalance, transactions } = body;
+    const { statementDate, openingBalance, closingBalance, transactions, dateToleranceDays, fileName, fileHash } = body;
 
     // Validate required fields
     if (!statementDate || typeof openingBalance !== 'number' || typeof closingBalance !== 'number') {
@@ -29,6 +36,10 @@ export async function POST(
       }, { status: 400 });
     }
 
+    if (fileHash !== undefined && (typeof fileHash !== 'string' || !/^[a-f0-9]{64}$/.test(fileHash))) {
+      return NextResponse.json({ error: 'File hash must be a SHA-256 hex digest' }, { status: 400 });
+    }
+
     // Validate date format
     const date = new Date(statementDate);
     if (isNaN(date.getTime())) {
@@ -56,6 +67,18 @@ export async function POST(
         }, { status: 400 });
       }
 
+      if (txn.duplicate_action !== undefined && !['skip', 'import'].includes(txn.duplicate_action)) {
+        return NextResponse.json({
+          error: `Transaction ${i + 1} has invalid duplicate action. Must be 'skip' or 'import'`
+        }, { status: 400 });
+      }
+
+      if (txn.match_transaction_id !== undefined && (!Number.isInteger(txn.match_transaction_id) || txn.match_transaction_id <= 0)) {
+        return NextResponse.json({
+          error: `Transaction ${i + 1} has an invalid linked transaction ID`
+        }, { status: 400 });
+      }
+
       // Validate transaction date
       const txnDate = new Date(txn.date);
       if (isNaN(txnDate.getTime())) {
@@ -71,15 +94,28 @@ export async function POST(
       statementDate,
       openingBalance,
       closingBalance,
-      transactions
-    });
+      transactions,
+      fileName: typeof fileName === 'string' ? fileName.slice(0, 255) : undefined,
+      fileHash
+    }, typeof dateToleranceDays === 'number' ? dateToleranceDays : undefined, user.id);
 
     if (result.success) {
+      const importedCount = transactions.length - (result.skippedCount || 0) - (result.matchedCount || 0);
       return NextResponse.json({
         success: true,
-        message: `Statement imported successfully with ${transactions.length} transactions`,
-        transactions: result.transactions
+        message: `Statement imported successfully with ${importedCount} transactions` +
+          (result.skippedCount ? ` (${result.skippedCount} duplicates skipped)` : '') +
+          (result.matchedCount ? ` and ${result.matchedCount} linked to existing entries` : '') +
+          (result.ruleAssignments?.length ? `; ${result.ruleAssignments.length} categorized by rules` : ''),
+        batchId: result.batchId,
+        transactions: result.transactions,
+        ruleAssignments: result.ruleAssignments || []
       });
+    } else if (result.duplicates) {
+      return NextResponse.json(
+        { error: result.error, duplicates: result.duplicates },
+        { status: 409 }
+      );
     } else {
       return NextResponse.json(
         { error: result.error || 'Failed to import statement' },
@@ -94,4 +130,6 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = createAuthHandler(postHandler);
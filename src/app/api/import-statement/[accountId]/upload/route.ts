@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountForUser } from '@/lib/database';
+import { detectStatementFormat, ParsedBankStatement, StatementFormat, toBankStatement } from '@/lib/statement-parsers/common';
+import { parseCamt053 } from '@/lib/statement-parsers/camt053';
+import { parseMt940 } from '@/lib/statement-parsers/mt940';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // Get account ID from URL
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 2]); // -2 because last is 'upload'
+
+    if (!accountId || isNaN(accountId)) {
+      return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    if (!account.account_type) {
+      return NextResponse.json({
+        error: 'Account type is not set. Please set the account type before importing statements.'
+      }, { status: 400 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const requestedFormat = formData.get('format');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'A statement file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'Statement file must be 10MB or smaller' }, { status: 400 });
+    }
+
+    const content = await file.text();
+    const format = (typeof requestedFormat === 'string' && requestedFormat
+      ? requestedFormat
+      : detectStatementFormat(content)) as StatementFormat | null;
+
+    if (format !== 'camt053' && format !== 'mt940') {
+      return NextResponse.json({
+        error: 'Unrecognized statement format. Supported formats are camt.053 XML and MT940'
+      }, { status: 400 });
+    }
+
+    let parsed: ParsedBankStatement;
+    try {
+      parsed = format === 'camt053' ? parseCamt053(content) : parseMt940(content);
+    } catch (parseError) {
+      return NextResponse.json({
+        error: parseError instanceof Error ? parseError.message : 'Failed to parse statement file'
+      }, { status: 400 });
+    }
+
+    // The statement must be in the same currency as the ledger account it is imported into
+    if (parsed.currency && account.currency && parsed.currency.toUpperCase() !== account.currency.toUpperCase()) {
+      return NextResponse.json({
+        error: `Statement currency (${parsed.currency}) does not match account currency (${account.currency})`
+      }, { status: 400 });
+    }
+
+    if (parsed.entries.length === 0) {
+      return NextResponse.json({ error: 'Statement file contains no booked entries' }, { status: 400 });
+    }
+
+    const statement = toBankStatement(parsed, accountId, account.account_type);
+
+    return NextResponse.json({
+      success: true,
+      format,
+      accountIdentifier: parsed.accountIdentifier,
+      currency: parsed.currency,
+      entries: parsed.entries,
+      statement
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process statement file' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
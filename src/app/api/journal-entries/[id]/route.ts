@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getJournalEntryById, updateJournalEntry } from '@/lib/database';
+import { validateJournalEntry } from '@/lib/journal-entries';
+
+function getJournalId(request: AuthenticatedRequest): number {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  return parseInt(pathParts[pathParts.length - 1]);
+}
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const journalId = getJournalId(request);
+
+    if (!journalId || isNaN(journalId)) {
+      return NextResponse.json({ error: 'Valid journal entry ID is required' }, { status: 400 });
+    }
+
+    const entry = await getJournalEntryById(journalId, user.id);
+    if (!entry) {
+      return NextResponse.json({ error: 'Journal entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(entry);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch journal entry' },
+      { status: 500 }
+    );
+  }
+}
+
+async function putHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const journalId = getJournalId(request);
+
+    if (!journalId || isNaN(journalId)) {
+      return NextResponse.json({ error: 'Valid journal entry ID is required' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { entry, error } = validateJournalEntry(body);
+    if (!entry) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await updateJournalEntry(journalId, entry, user.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to update journal entry' },
+        { status: result.error === 'Journal entry not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(result.entry);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update journal entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const PUT = createAuthHandler(putHandler);
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { createJournalEntry, getJournalEntries } from '@/lib/database';
+import { validateJournalEntry } from '@/lib/journal-entries';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    const url = new URL(request.url);
+    const entityId = parseInt(url.searchParams.get('entity_id') || '');
+    const limit = parseInt(url.searchParams.get('limit') || '100');
+
+    if (!entityId || isNaN(entityId)) {
+      return NextResponse.json({ error: 'entity_id parameter is required' }, { status: 400 });
+    }
+
+    const entries = await getJournalEntries(entityId, user.id, isNaN(limit) ? 100 : limit);
+
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch journal entries' },
+      { status: 500 }
+    );
+  }
+}
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const body = await request.json();
+
+    const { entry, error } = validateJournalEntry(body);
+    if (!entry) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await createJournalEntry(entry, user.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to create journal entry' },
+        { status: result.error === 'Entity not found or access denied' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(result.entry, { status: 201 });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create journal entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { deletePayee, updatePayee } from '@/lib/database';
+import { validatePayee } from '@/lib/payees';
+
+function getPayeeId(request: AuthenticatedRequest): number {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  return parseInt(pathParts[pathParts.length - 1]);
+}
+
+async function putHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const payeeId = getPayeeId(request);
+
+    if (!payeeId || isNaN(payeeId)) {
+      return NextResponse.json({ error: 'Valid payee ID is required' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { payee, error } = validatePayee(body);
+    if (!payee) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await updatePayee(payeeId, payee, user.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to update payee' },
+        { status: result.error === 'Payee not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ payee: result.payee, linkedCount: result.linkedCount });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update payee' },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const payeeId = getPayeeId(request);
+
+    if (!payeeId || isNaN(payeeId)) {
+      return NextResponse.json({ error: 'Valid payee ID is required' }, { status: 400 });
+    }
+
+    const deleted = await deletePayee(payeeId, user.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Payee not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete payee' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = createAuthHandler(putHandler);
+export const DELETE = createAuthHandler(deleteHandler);
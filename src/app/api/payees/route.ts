@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { createPayee, getPayeesByEntityId } from '@/lib/database';
+import { validatePayee } from '@/lib/payees';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    const url = new URL(request.url);
+    const entityId = parseInt(url.searchParams.get('entity_id') || '');
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Entity ID is required' }, { status: 400 });
+    }
+
+    const directory = await getPayeesByEntityId(entityId, user.id);
+    if (!directory) {
+      return NextResponse.json({ error: 'Entity not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json(directory);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payees' },
+      { status: 500 }
+    );
+  }
+}
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const body = await request.json();
+
+    const { payee, error } = validatePayee(body);
+    if (!payee) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await createPayee(payee, user.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to create payee' }, { status: 400 });
+    }
+
+    return NextResponse.json({ payee: result.payee, linkedCount: result.linkedCount }, { status: 201 });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payee' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
-import { getProfitLossData } from '@/lib/database';
+import { getProfitLossColumns, getProfitLossData } from '@/lib/database';
+import { buildReportColumns, MAX_REPORT_COLUMNS, PeriodBreakdown, PeriodComparison } from '@/lib/report-periods';
+
+const BREAKDOWNS: PeriodBreakdown[] = ['month', 'quarter'];
+const COMPARISONS: PeriodComparison[] = ['previous_period', 'previous_year'];
 
 async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
@@ -11,6 +15,8 @@ async function getHandler(request: AuthenticatedRequest): Promise<NextResponse>
     const endDate = searchParams.get('end_date');
     const entityId = searchParams.get('entity_id');
     const currency = searchParams.get('currency');
+    const breakdown = searchParams.get('breakdown');
+    const compare = searchParams.get('compare')?.split(',').filter(Boolean) ?? [];
 
     // Validate required parameters
     if (!startDate || !endDate) {
@@ -49,6 +55,39 @@ async function getHandler(request: AuthenticatedRequest): Promise<NextResponse>
       }
     }
 
+    if (breakdown && !BREAKDOWNS.includes(breakdown as PeriodBreakdown)) {
+      return NextResponse.json(
+        { error: `breakdown must be one of: ${BREAKDOWNS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (compare.some(value => !COMPARISONS.includes(value as PeriodComparison))) {
+      return NextResponse.json(
+        { error: `compare must be a comma-separated list of: ${COMPARISONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Columnar report when a breakdown or comparison is asked for, the single period otherwise
+    if (breakdown || compare.length > 0) {
+      const columns = buildReportColumns(
+        startDate,
+        endDate,
+        (breakdown as PeriodBreakdown) || undefined,
+        compare as PeriodComparison[]
+      );
+      if (columns.length > MAX_REPORT_COLUMNS) {
+        return NextResponse.json(
+          { error: `The range produces more than ${MAX_REPORT_COLUMNS} columns; shorten it or use a quarterly breakdown` },
+          { status: 400 }
+        );
+      }
+
+      const columnData = await getProfitLossColumns(columns, user.id, entityIdInt, currency || undefined);
+      return NextResponse.json(columnData);
+    }
+
     // Get profit & loss data
     const plData = await getProfitLossData(startDate, endDate, user.id, entityIdInt, currency || undefined);
 
@@ -1,18 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createReconciliationTransaction, getAccountBalance } from '@/lib/database';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { createReconciliationTransaction, getAccountBalance, getAccountForUser } from '@/lib/database';
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ accountId: string }> }
-) {
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
-    const { accountId: accountIdParam } = await params;
-    const accountId = parseInt(accountIdParam);
+    const user = request.user!;
+    const accountId = parseInt(new URL(request.url).pathname.split('/').pop() || '');
 
     if (!accountId || isNaN(accountId)) {
       return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
     }
 
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
     const body = await request.json();
     const { bankBalance, reconciliationDate, description } = body;
 
@@ -36,7 +39,7 @@ export async function POST(
       bankBalance,
       reconciliationDate: reconciliationDate,
       description
-    });
+    }, user.id);
 
     if (result.success) {
       return NextResponse.json({
@@ -60,6 +63,8 @@ export async function POST(
   }
 }
 
+export const POST = createAuthHandler(postHandler);
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ accountId: string }> }
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { completeReconciliationSession, getAccountForUser } from '@/lib/database';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // URL is /api/reconcile/{accountId}/sessions/{sessionId}/complete
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 4]);
+    const sessionId = parseInt(pathParts[pathParts.length - 2]);
+
+    if (!accountId || isNaN(accountId) || !sessionId || isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Valid account ID and reconciliation ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const result = await completeReconciliationSession(account, sessionId, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to complete reconciliation' },
+        { status: result.error === 'Reconciliation not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reconciliation completed',
+      ...result.workspace
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { acceptReconciliationMatch, getAccountForUser, getReconciliationMatchSuggestions } from '@/lib/database';
+
+// URL is /api/reconcile/{accountId}/sessions/{sessionId}/matches
+function getIds(request: AuthenticatedRequest): { accountId: number; sessionId: number } {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  return {
+    accountId: parseInt(pathParts[pathParts.length - 4]),
+    sessionId: parseInt(pathParts[pathParts.length - 2])
+  };
+}
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { accountId, sessionId } = getIds(request);
+
+    if (!accountId || isNaN(accountId) || !sessionId || isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Valid account ID and reconciliation ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const matches = await getReconciliationMatchSuggestions(account, sessionId);
+    if (!matches) {
+      return NextResponse.json({ error: 'Reconciliation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to find matching transactions' },
+      { status: 500 }
+    );
+  }
+}
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { accountId, sessionId } = getIds(request);
+
+    if (!accountId || isNaN(accountId) || !sessionId || isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Valid account ID and reconciliation ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { statementTransactionId, ledgerTransactionId } = body;
+
+    if (!Number.isInteger(statementTransactionId) || !Number.isInteger(ledgerTransactionId)) {
+      return NextResponse.json({ error: 'Statement and ledger transaction IDs are required' }, { status: 400 });
+    }
+
+    const result = await acceptReconciliationMatch(account, sessionId, statementTransactionId, ledgerTransactionId, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to merge transactions' },
+        { status: result.error === 'Reconciliation not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Statement line merged into the existing entry' });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge transactions' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
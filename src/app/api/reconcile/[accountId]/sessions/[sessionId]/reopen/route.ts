@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountForUser, reopenReconciliationSession } from '@/lib/database';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+
+    // URL is /api/reconcile/{accountId}/sessions/{sessionId}/reopen
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const accountId = parseInt(pathParts[pathParts.length - 4]);
+    const sessionId = parseInt(pathParts[pathParts.length - 2]);
+
+    if (!accountId || isNaN(accountId) || !sessionId || isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Valid account ID and reconciliation ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const result = await reopenReconciliationSession(account, sessionId, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to reopen reconciliation' },
+        { status: result.error === 'Reconciliation not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reconciliation reopened',
+      session: result.session,
+      balance: result.balance
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reopen reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
@@ -0,0 +1,138 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import {
+  cancelReconciliationSession,
+  getAccountForUser,
+  getReconciliationWorkspace,
+  updateReconciliationSession
+} from '@/lib/database';
+
+// URL is /api/reconcile/{accountId}/sessions/{sessionId}
+function getIds(request: AuthenticatedRequest): { accountId: number; sessionId: number } {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  return {
+    accountId: parseInt(pathParts[pathParts.length - 3]),
+    sessionId: parseInt(pathParts[pathParts.length - 1])
+  };
+}
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(id => Number.isInteger(id));
+}
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { accountId, sessionId } = getIds(request);
+
+    if (!accountId || isNaN(accountId) || !sessionId || isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Valid account ID and reconciliation ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const workspace = await getReconciliationWorkspace(account, sessionId);
+    if (!workspace) {
+      return NextResponse.json({ error: 'Reconciliation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(workspace);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+async function patchHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { accountId, sessionId } = getIds(request);
+
+    if (!accountId || isNaN(accountId) || !sessionId || isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Valid account ID and reconciliation ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { clear, unclear, statementBalance, periodEnd } = body;
+
+    if ((clear !== undefined && !isIdList(clear)) || (unclear !== undefined && !isIdList(unclear))) {
+      return NextResponse.json({ error: 'clear and unclear must be lists of transaction IDs' }, { status: 400 });
+    }
+
+    if (statementBalance !== undefined && typeof statementBalance !== 'number') {
+      return NextResponse.json({ error: 'Statement balance must be a number' }, { status: 400 });
+    }
+
+    if (periodEnd !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(periodEnd)) {
+      return NextResponse.json({ error: 'Period end must use the YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const result = await updateReconciliationSession(account, sessionId, {
+      clear,
+      unclear,
+      statementBalance,
+      periodEnd
+    }, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to update reconciliation' },
+        { status: result.error === 'Reconciliation not found' ? 404 : 400 }
+      );
+    }
+
+    const workspace = await getReconciliationWorkspace(account, sessionId);
+    return NextResponse.json(workspace);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { accountId, sessionId } = getIds(request);
+
+    if (!accountId || isNaN(accountId) || !sessionId || isNaN(sessionId)) {
+      return NextResponse.json({ error: 'Valid account ID and reconciliation ID are required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const result = await cancelReconciliationSession(accountId, sessionId, user.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to cancel reconciliation' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const PATCH = createAuthHandler(patchHandler);
+export const DELETE = createAuthHandler(deleteHandler);
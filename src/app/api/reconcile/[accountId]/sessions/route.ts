@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getAccountForUser, getReconciliationSessions, startReconciliationSession } from '@/lib/database';
+
+function getAccountId(request: AuthenticatedRequest): number {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  return parseInt(pathParts[pathParts.length - 2]); // -2 because last is 'sessions'
+}
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const accountId = getAccountId(request);
+
+    if (!accountId || isNaN(accountId)) {
+      return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    const sessions = await getReconciliationSessions(accountId);
+
+    return NextResponse.json(sessions);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch reconciliations' },
+      { status: 500 }
+    );
+  }
+}
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const accountId = getAccountId(request);
+
+    if (!accountId || isNaN(accountId)) {
+      return NextResponse.json({ error: 'Valid account ID is required' }, { status: 400 });
+    }
+
+    const account = await getAccountForUser(accountId, user.id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found or access denied' }, { status: 404 });
+    }
+
+    if (!account.account_type) {
+      return NextResponse.json({
+        error: 'Account type is not set. Please set the account type before reconciling.'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { periodStart, periodEnd, statementBalance, openingBalance } = body;
+
+    // Validate required fields
+    if (!periodStart || !periodEnd || typeof statementBalance !== 'number') {
+      return NextResponse.json({
+        error: 'Period start, period end and statement balance are required'
+      }, { status: 400 });
+    }
+
+    if (openingBalance !== undefined && typeof openingBalance !== 'number') {
+      return NextResponse.json({ error: 'Opening balance must be a number' }, { status: 400 });
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(periodStart) || !/^\d{4}-\d{2}-\d{2}$/.test(periodEnd)) {
+      return NextResponse.json({ error: 'Dates must use the YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (periodStart > periodEnd) {
+      return NextResponse.json({ error: 'Period start must be on or before period end' }, { status: 400 });
+    }
+
+    const result = await startReconciliationSession(account, user.id, {
+      periodStart,
+      periodEnd,
+      statementBalance,
+      openingBalance
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to start reconciliation' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result.session, { status: 201 });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start reconciliation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
+export const POST = createAuthHandler(postHandler);
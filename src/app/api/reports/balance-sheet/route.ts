@@ -1,50 +1,29 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
-import { getBalanceSheetData } from '@/lib/database';
+import { getBalanceSheet } from '@/lib/database';
 
 async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
     const user = request.user!;
     const { searchParams } = new URL(request.url);
 
-    const timeFrame = searchParams.get('timeFrame');
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
+    const entityId = parseInt(searchParams.get('entity_id') || '');
+    const asOf = searchParams.get('asOf') || new Date().toISOString().split('T')[0];
 
-    let dateFilter = '';
-    const params: (string | number)[] = [user.id];
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Entity ID is required' }, { status: 400 });
+    }
 
-    if (timeFrame && timeFrame !== 'custom') {
-      // Calculate hours for predefined time frames
-      let hours = 24; // default to day
-      switch (timeFrame) {
-        case 'hour':
-          hours = 1;
-          break;
-        case 'day':
-          hours = 24;
-          break;
-        case 'month':
-          hours = 24 * 30;
-          break;
-        case '3months':
-          hours = 24 * 90;
-          break;
-        case '6months':
-          hours = 24 * 180;
-          break;
-      }
-      dateFilter = 'AND t.fecha >= DATE_SUB(NOW(), INTERVAL ? HOUR)';
-      params.push(hours);
-    } else if (startDate && endDate) {
-      // Custom date range
-      dateFilter = 'AND t.fecha >= ? AND t.fecha <= ?';
-      params.push(startDate, endDate);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(Date.parse(asOf))) {
+      return NextResponse.json({ error: 'A valid as-of date (YYYY-MM-DD) is required' }, { status: 400 });
     }
 
-    const balanceSheetData = await getBalanceSheetData(user.id, dateFilter, params);
+    const balanceSheet = await getBalanceSheet(entityId, user.id, asOf);
+    if (!balanceSheet) {
+      return NextResponse.json({ error: 'Entity not found or access denied' }, { status: 404 });
+    }
 
-    return NextResponse.json(balanceSheetData);
+    return NextResponse.json(balanceSheet);
   } catch (error) {
     console.error('API Error:', error);
     return NextResponse.json(
@@ -54,4 +33,4 @@ async function getHandler(request: AuthenticatedRequest): Promise<NextResponse>
   }
 }
 
-export const GET = createAuthHandler(getHandler);
\ No newline at end of file
+export const GET = createAuthHandler(getHandler);
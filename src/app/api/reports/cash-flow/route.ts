@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getCashFlowStatement } from '@/lib/database';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { searchParams } = new URL(request.url);
+
+    const entityId = parseInt(searchParams.get('entity_id') || '');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Entity ID is required' }, { status: 400 });
+    }
+
+    if (!startDate || !endDate || isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+      return NextResponse.json({ error: 'Valid start and end dates are required' }, { status: 400 });
+    }
+
+    const cashFlow = await getCashFlowStatement(entityId, user.id, startDate, endDate);
+    if (!cashFlow) {
+      return NextResponse.json({ error: 'Entity not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json(cashFlow);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cash flow statement' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
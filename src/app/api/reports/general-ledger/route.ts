@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { GeneralLedgerAccount, getGeneralLedger } from '@/lib/database';
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per line, bracketed by opening and closing balance rows for each account
+function toCsv(ledger: GeneralLedgerAccount[]): string {
+  const rows: Array<Array<string | number | null>> = [[
+    'Account Code', 'Account', 'Date', 'Transaction ID', 'Description', 'Payee', 'Other Account',
+    'Debit', 'Credit', 'Balance', 'Journal Entry', 'Import Batch', 'Reconciliation'
+  ]];
+
+  for (const account of ledger) {
+    rows.push([account.code, account.alias, null, null, 'Opening balance', null, null, null, null, account.opening_balance.toFixed(2), null, null, null]);
+    for (const line of account.lines) {
+      rows.push([
+        account.code, account.alias, line.fecha, line.id, line.description, line.payee_name, line.other_account_code,
+        line.debit.toFixed(2), line.credit.toFixed(2), line.balance.toFixed(2),
+        line.journal_id, line.import_batch_id ?? line.matched_import_batch_id, line.reconciliation_id
+      ]);
+    }
+    rows.push([
+      account.code, account.alias, null, null, 'Closing balance', null, null,
+      account.total_debits.toFixed(2), account.total_credits.toFixed(2), account.closing_balance.toFixed(2), null, null, null
+    ]);
+  }
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { searchParams } = new URL(request.url);
+
+    const entityId = parseInt(searchParams.get('entity_id') || '');
+    const accountIdParam = searchParams.get('account_id');
+    const accountId = accountIdParam ? parseInt(accountIdParam) : undefined;
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Entity ID is required' }, { status: 400 });
+    }
+
+    if (accountId !== undefined && isNaN(accountId)) {
+      return NextResponse.json({ error: 'Invalid account ID' }, { status: 400 });
+    }
+
+    if (!startDate || !endDate || isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+      return NextResponse.json({ error: 'Valid start and end dates are required' }, { status: 400 });
+    }
+
+    const ledger = await getGeneralLedger(entityId, user.id, startDate, endDate, accountId);
+    if (!ledger) {
+      return NextResponse.json({ error: 'Entity not found or access denied' }, { status: 404 });
+    }
+
+    if (accountId !== undefined && ledger.length === 0) {
+      return NextResponse.json({ error: 'Account not found for this entity' }, { status: 404 });
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(toCsv(ledger), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="general-ledger-${startDate}-to-${endDate}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json(ledger);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch general ledger' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
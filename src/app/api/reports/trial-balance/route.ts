@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getTrialBalance } from '@/lib/database';
+
+async function getHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const { searchParams } = new URL(request.url);
+
+    const entityId = parseInt(searchParams.get('entity_id') || '');
+    const asOf = searchParams.get('asOf') || new Date().toISOString().split('T')[0];
+
+    if (isNaN(entityId)) {
+      return NextResponse.json({ error: 'Entity ID is required' }, { status: 400 });
+    }
+
+    if (isNaN(Date.parse(asOf))) {
+      return NextResponse.json({ error: 'A valid as-of date is required' }, { status: 400 });
+    }
+
+    const trialBalance = await getTrialBalance(entityId, user.id, asOf);
+    if (!trialBalance) {
+      return NextResponse.json({ error: 'Entity not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json(trialBalance);
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trial balance' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthHandler(getHandler);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getTransactionsByAccountId } from '@/lib/database';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getTransactionsByAccountId, updateTransaction } from '@/lib/database';
+import { validateTransactionEdit } from '@/lib/transaction-edits';
 
 export async function GET(
   request: NextRequest,
@@ -17,8 +19,13 @@ export async function GET(
     const searchParams = request.nextUrl.searchParams;
     const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500); // Max 500 records
     const offset = parseInt(searchParams.get('offset') || '0');
+    // Lets ledger drill-downs start the page at an older date
+    const endDate = searchParams.get('endDate');
+    if (endDate && isNaN(Date.parse(endDate))) {
+      return NextResponse.json({ error: 'Invalid end date' }, { status: 400 });
+    }
 
-    const transactions = await getTransactionsByAccountId(accountId, limit, offset);
+    const transactions = await getTransactionsByAccountId(accountId, limit, offset, endDate || undefined);
 
     return NextResponse.json(transactions);
   } catch (error) {
@@ -28,4 +35,39 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// PATCH /api/transactions/[id]: the segment is a transaction ID here. Next.js allows a single
+// dynamic segment name per level, so the edit shares this route with the account listing.
+async function patchHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const transactionId = parseInt(new URL(request.url).pathname.split('/').pop() || '');
+
+    if (isNaN(transactionId)) {
+      return NextResponse.json({ error: 'Valid transaction ID is required' }, { status: 400 });
+    }
+
+    const { edit, error } = validateTransactionEdit(await request.json());
+    if (!edit) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await updateTransaction(transactionId, edit, user.id);
+
+    if (!result.success) {
+      const status = result.error === 'Transaction not found' ? 404 : 400;
+      return NextResponse.json({ error: result.error || 'Failed to update transaction' }, { status });
+    }
+
+    return NextResponse.json({ success: true, transaction: result.transaction });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update transaction' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = createAuthHandler(patchHandler);
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
-import pool from '@/lib/database';
+import pool, { getLockedTransactionsError, getPeriodLockError, recordAudit } from '@/lib/database';
 
 async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
@@ -52,6 +52,20 @@ async function postHandler(request: AuthenticatedRequest): Promise<NextResponse>
       );
     }
 
+    const [beforeRows] = await pool.execute(
+      "SELECT company, debitacc, creditacc, DATE_FORMAT(fecha, '%Y-%m-%d') AS fecha FROM rv_transaction WHERE id = ?",
+      [transactionId]
+    );
+    const before = (beforeRows as Array<{ company: number; debitacc: string; creditacc: string; fecha: string }>)[0];
+
+    // Moving a row changes the books of both entities, so neither may be closed for its date
+    const periodLockError =
+      await getLockedTransactionsError(pool, [transactionId]) ||
+      await getPeriodLockError(pool, Number(entityId), before.fecha);
+    if (periodLockError) {
+      return NextResponse.json({ error: periodLockError }, { status: 400 });
+    }
+
     // Update the transaction with the entity
     const updateQuery = `
       UPDATE rv_transaction
@@ -70,6 +84,17 @@ async function postHandler(request: AuthenticatedRequest): Promise<NextResponse>
       );
     }
 
+    await recordAudit(pool, {
+      userId: user.id,
+      company: Number(entityId),
+      action: 'transaction.assign_entity',
+      targetTable: 'rv_transaction',
+      targetId: transactionId,
+      before: { company: before.company },
+      after: { company: Number(entityId) },
+      accountCodes: [before.debitacc, before.creditacc]
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Entity assigned to transaction successfully'
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
-import pool from '@/lib/database';
+import pool, { getLockedTransactionsError, getPeriodLockError, recordAudit } from '@/lib/database';
 
 async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
   try {
@@ -53,6 +53,27 @@ async function postHandler(request: AuthenticatedRequest): Promise<NextResponse>
       );
     }
 
+    const [beforeRows] = await pool.execute(`
+      SELECT t.id, t.company, t.debitacc, t.creditacc, DATE_FORMAT(t.fecha, '%Y-%m-%d') AS fecha
+      FROM rv_transaction t
+      WHERE t.id IN (${placeholders})
+      AND EXISTS (
+        SELECT 1 FROM rv_cuentas a
+        WHERE (t.debitacc = a.code OR t.creditacc = a.code)
+        AND a.user = ?
+      )
+    `, [...transactionIds, user.id]);
+    const before = beforeRows as Array<{ id: number; company: number; debitacc: string; creditacc: string; fecha: string }>;
+
+    // Moving rows changes the books of both entities, so neither may be closed for their dates
+    const earliestDate = before.map(transaction => transaction.fecha).sort()[0];
+    const periodLockError =
+      await getLockedTransactionsError(pool, before.map(transaction => transaction.id)) ||
+      (earliestDate ? await getPeriodLockError(pool, Number(entityId), earliestDate) : null);
+    if (periodLockError) {
+      return NextResponse.json({ error: periodLockError }, { status: 400 });
+    }
+
     // Update the transactions with the entity
     const updateQuery = `
       UPDATE rv_transaction t
@@ -71,6 +92,16 @@ async function postHandler(request: AuthenticatedRequest): Promise<NextResponse>
     // Get the number of affected rows
     const affectedRows = (result as { affectedRows?: number }).affectedRows || 0;
 
+    await recordAudit(pool, {
+      userId: user.id,
+      company: Number(entityId),
+      action: 'transaction.bulk_assign_entity',
+      targetTable: 'rv_transaction',
+      before: before.map(transaction => ({ id: transaction.id, company: transaction.company })),
+      after: { company: Number(entityId) },
+      accountCodes: before.flatMap(transaction => [transaction.debitacc, transaction.creditacc])
+    });
+
     return NextResponse.json({
       success: true,
       updatedCount: affectedRows,
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
-import pool from '@/lib/database';
+import pool, { getLockedTransactionIds, recordAudit } from '@/lib/database';
 
 async function postHandler(
   request: AuthenticatedRequest
@@ -57,8 +57,11 @@ async function postHandler(
       return NextResponse.json({ error: 'No transactions found or access denied' }, { status: 400 });
     }
 
+    const lockedIds = await getLockedTransactionIds(pool, transactions.map(transaction => transaction.id));
+
     let updatedCount = 0;
     let skippedCount = 0;
+    const assigned: Array<{ id: number; field: 'debitacc' | 'creditacc'; debitacc: string; creditacc: string }> = [];
 
     // Process each transaction
     for (const transaction of transactions) {
@@ -68,6 +71,11 @@ async function postHandler(
         continue;
       }
 
+      // Rows inside a closed period stay as they are
+      if (lockedIds.has(transaction.id)) {
+        continue;
+      }
+
       // Skip if both accounts are already filled
       if (transaction.debitacc !== '0' && transaction.creditacc !== '0') {
         skippedCount++;
@@ -90,19 +98,40 @@ async function postHandler(
 
       if (updateQuery) {
         await pool.execute(updateQuery, [assignedAccount.code, transaction.id]);
+        assigned.push({ ...transaction, field: transaction.debitacc === '0' ? 'debitacc' : 'creditacc' });
         updatedCount++;
       }
     }
 
+    if (assigned.length > 0) {
+      await recordAudit(pool, {
+        userId: user.id,
+        company: assignedAccount.company,
+        action: 'transaction.bulk_assign',
+        targetTable: 'rv_transaction',
+        before: assigned.map(transaction => ({ id: transaction.id, [transaction.field]: '0' })),
+        after: { account_code: assignedAccount.code },
+        accountIds: [assignedAccount.id],
+        accountCodes: assigned.flatMap(transaction => [transaction.debitacc, transaction.creditacc])
+      });
+    }
+
     let message = `Successfully assigned ${updatedCount} transaction${updatedCount !== 1 ? 's' : ''}`;
     if (skippedCount > 0) {
-      message += `. Skipped ${skippedCount} transaction${skippedCount !== 1 ? 's' : ''} with no empty fields.`;
+      message += `. Skipped ${skippedCount} transaction${skippedCount !== 1 ? 's' : ''} with no empty fields`;
+    }
+    if (lockedIds.size > 0) {
+      message += `. ${lockedIds.size} transaction${lockedIds.size !== 1 ? 's' : ''} in a closed period ${lockedIds.size !== 1 ? 'were' : 'was'} left unchanged`;
+    }
+    if (skippedCount > 0 || lockedIds.size > 0) {
+      message += '.';
     }
 
     return NextResponse.json({
       success: true,
       updatedCount,
       skippedCount,
+      lockedCount: lockedIds.size,
       message,
     });
   } catch (error) {
@@ -34,10 +34,16 @@ async function postHandler(request: AuthenticatedRequest): Promise<NextResponse>
     // Assign accounts to transactions
     const result = await bulkAssignAccountToTransactions(transactionIds, assignedAccountCode, isDebitAccount, user.id);
 
+    let message = `Successfully assigned accounts to ${result.updatedCount} transaction${result.updatedCount !== 1 ? 's' : ''}`;
+    if (result.lockedCount > 0) {
+      message += `. ${result.lockedCount} transaction${result.lockedCount !== 1 ? 's' : ''} in a closed period ${result.lockedCount !== 1 ? 'were' : 'was'} left unchanged.`;
+    }
+
     return NextResponse.json({
       success: true,
       updatedCount: result.updatedCount,
-      message: `Successfully assigned accounts to ${result.updatedCount} transaction${result.updatedCount !== 1 ? 's' : ''}`
+      lockedCount: result.lockedCount,
+      message
     });
   } catch (error) {
     console.error('API Error:', error);
@@ -20,10 +20,16 @@ async function deleteHandler(request: AuthenticatedRequest): Promise<NextRespons
     // Delete transactions
     const result = await bulkDeleteTransactions(transactionIds, user.id);
 
+    let message = `Successfully deleted ${result.deletedCount} transaction${result.deletedCount !== 1 ? 's' : ''}`;
+    if (result.blockedCount > 0) {
+      message += `. ${result.blockedCount} transaction${result.blockedCount !== 1 ? 's were' : ' was'} kept: cleared, imported and closed-period rows must be reversed, journal entry rows deleted with their entry and closing entries undone by reopening the fiscal year.`;
+    }
+
     return NextResponse.json({
       success: true,
       deletedCount: result.deletedCount,
-      message: `Successfully deleted ${result.deletedCount} transaction${result.deletedCount !== 1 ? 's' : ''}`
+      blockedCount: result.blockedCount,
+      message
     });
   } catch (error) {
     console.error('API Error:', error);
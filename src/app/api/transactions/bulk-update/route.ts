@@ -36,10 +36,16 @@ async function postHandler(request: AuthenticatedRequest): Promise<NextResponse>
     // Update transactions
     const result = await bulkUpdateTransactionsClassification(transactionIds, classification, user.id);
 
+    let message = `Successfully updated ${result.updatedCount} transaction${result.updatedCount !== 1 ? 's' : ''}`;
+    if (result.lockedCount > 0) {
+      message += `. ${result.lockedCount} transaction${result.lockedCount !== 1 ? 's' : ''} in a closed period ${result.lockedCount !== 1 ? 'were' : 'was'} left unchanged.`;
+    }
+
     return NextResponse.json({
       success: true,
       updatedCount: result.updatedCount,
-      message: `Successfully updated ${result.updatedCount} transaction${result.updatedCount !== 1 ? 's' : ''}`
+      lockedCount: result.lockedCount,
+      message
     });
   } catch (error) {
     console.error('API Error:', error);
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { reverseTransactions } from '@/lib/database';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const body = await request.json();
+    const { transactionIds, date } = body;
+
+    if (!Array.isArray(transactionIds) || transactionIds.length === 0) {
+      return NextResponse.json({ error: 'Transaction IDs are required' }, { status: 400 });
+    }
+
+    const ids = transactionIds.map((id: unknown) => parseInt(String(id)));
+    if (ids.some(id => isNaN(id))) {
+      return NextResponse.json({ error: 'Transaction IDs must be numbers' }, { status: 400 });
+    }
+
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      return NextResponse.json({ error: 'Reversal date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const result = await reverseTransactions(ids, date, user.id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to reverse transactions' }, { status: 400 });
+    }
+
+    const reversedCount = result.reversedCount || 0;
+    const skippedCount = result.skippedCount || 0;
+    let message = `Reversed ${reversedCount} transaction${reversedCount !== 1 ? 's' : ''} on ${date}`;
+    if (skippedCount > 0) {
+      message += `. Skipped ${skippedCount} that were already reversed or are reversals.`;
+    }
+
+    return NextResponse.json({
+      success: true,
+      reversedCount,
+      skippedCount,
+      transactionIds: result.transactionIds,
+      message
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reverse transactions' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
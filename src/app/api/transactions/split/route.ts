@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { createAuthHandler, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { splitTransaction, TransactionSplitInput } from '@/lib/database';
+
+async function postHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const user = request.user!;
+    const body = await request.json();
+
+    const transactionId = parseInt(body.transactionId);
+    if (isNaN(transactionId)) {
+      return NextResponse.json({ error: 'Transaction ID is required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(body.splits)) {
+      return NextResponse.json({ error: 'Splits array is required' }, { status: 400 });
+    }
+
+    const splits: TransactionSplitInput[] = [];
+    for (const rawSplit of body.splits as Array<Record<string, unknown>>) {
+      const accountId = parseInt(String(rawSplit?.accountId));
+      const amount = Number(rawSplit?.amount);
+      if (isNaN(accountId) || isNaN(amount)) {
+        return NextResponse.json({ error: 'Each split needs an account and an amount' }, { status: 400 });
+      }
+      splits.push({ accountId, amount });
+    }
+
+    const result = await splitTransaction(transactionId, splits, user.id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to split transaction' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      transactionIds: result.transactionIds,
+      message: `Transaction split across ${splits.length} accounts`
+    });
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to split transaction' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthHandler(postHandler);
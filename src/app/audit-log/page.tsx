@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { ArrowPathIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Account, AuditLogEntry, Entity } from '@/lib/database';
+
+const ACTION_GROUPS = [
+  { value: 'account', label: 'Accounts' },
+  { value: 'transaction', label: 'Transactions' },
+  { value: 'reconciliation', label: 'Reconciliations' },
+  { value: 'import', label: 'Imports' },
+  { value: 'journal_entry', label: 'Journal Entries' },
+  { value: 'entity', label: 'Entity Settings' },
+];
+
+export default function AuditLogPage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [selectedAccount, setSelectedAccount] = useState('');
+  const [action, setAction] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+
+          // Links from the entity and account pages preselect the filters
+          const params = new URLSearchParams(window.location.search);
+          const requestedEntity = params.get('entity_id');
+          if (requestedEntity && data?.some(entity => String(entity.id) === requestedEntity)) {
+            setSelectedEntity(requestedEntity);
+            setSelectedAccount(params.get('account_id') || '');
+          } else if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          }
+        } else {
+          setError('Failed to load entities');
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      if (!currentUser || !selectedEntity) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch(`/api/entities/${selectedEntity}/accounts`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          setAccounts(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch accounts:', err);
+      }
+    };
+
+    fetchAccounts();
+  }, [currentUser, selectedEntity]);
+
+  const fetchEntries = useCallback(async () => {
+    if (!currentUser || !selectedEntity) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const params = new URLSearchParams({ entity_id: selectedEntity });
+      if (selectedAccount) params.set('account_id', selectedAccount);
+      if (action) params.set('action', action);
+      if (startDate) params.set('startDate', startDate);
+      if (endDate) params.set('endDate', endDate);
+
+      const response = await fetch(`/api/audit-log?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load audit log');
+      }
+
+      setEntries(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity, selectedAccount, action, startDate, endDate]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const formatJson = (value: unknown) =>
+    value === null || value === undefined ? '—' : JSON.stringify(value, null, 2);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center">
+          <ClipboardDocumentListIcon className="h-8 w-8 text-indigo-600 mr-3" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-sm text-gray-500">Changes to accounts and the ledger, with the values before and after</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+              <select
+                value={selectedEntity}
+                onChange={(e) => {
+                  setSelectedEntity(e.target.value);
+                  setSelectedAccount('');
+                }}
+                className={inputClass}
+              >
+                {entities.map(entity => (
+                  <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+              <select value={selectedAccount} onChange={(e) => setSelectedAccount(e.target.value)} className={inputClass}>
+                <option value="">All accounts</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.code} - {account.alias}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+              <select value={action} onChange={(e) => setAction(e.target.value)} className={inputClass}>
+                <option value="">All actions</option>
+                {ACTION_GROUPS.map(group => (
+                  <option key={group.value} value={group.value}>{group.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            </div>
+            <button
+              onClick={fetchEntries}
+              disabled={loading}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+              <span className="ml-3 text-gray-600">Loading audit log...</span>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No changes recorded for these filters.</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">When</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Target</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <Fragment key={entry.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-3 text-sm text-gray-900 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        {entry.user_email || (entry.user_id ? `User #${entry.user_id}` : 'System')}
+                      </td>
+                      <td className="px-6 py-3 text-sm font-mono text-gray-900">{entry.action}</td>
+                      <td className="px-6 py-3 text-sm text-gray-500">
+                        {entry.target_table}{entry.target_id !== null ? ` #${entry.target_id}` : ''}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-right">
+                        <button
+                          onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          {expandedId === entry.id ? 'Hide' : 'Details'}
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-3 bg-gray-50">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <div className="text-xs font-medium text-gray-500 uppercase mb-1">Before</div>
+                              <pre className="text-xs text-gray-800 bg-white border border-gray-200 rounded p-3 overflow-x-auto max-h-96">
+                                {formatJson(entry.before_data)}
+                              </pre>
+                            </div>
+                            <div>
+                              <div className="text-xs font-medium text-gray-500 uppercase mb-1">After</div>
+                              <pre className="text-xs text-gray-800 bg-white border border-gray-200 rounded p-3 overflow-x-auto max-h-96">
+                                {formatJson(entry.after_data)}
+                              </pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,422 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AdjustmentsHorizontalIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Account, CategorizationRule, Entity } from '@/lib/database';
+
+const EMPTY_FORM = {
+  name: '',
+  scope: 'entity' as 'entity' | 'all',
+  match_type: 'contains' as CategorizationRule['match_type'],
+  description_pattern: '',
+  min_amount: '',
+  max_amount: '',
+  direction: 'any' as CategorizationRule['direction'],
+  source_account_code: '',
+  counter_account_code: '',
+  priority: '100'
+};
+
+export default function CategorizationRulesPage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+          if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          } else {
+            setLoading(false);
+          }
+        } else {
+          setError('Failed to load entities');
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+        setLoading(false);
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  const fetchRules = useCallback(async () => {
+    if (!currentUser || !selectedEntity) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const headers = { Authorization: `Bearer ${token}` };
+      const [rulesResponse, accountsResponse] = await Promise.all([
+        fetch(`/api/categorization-rules?entity_id=${selectedEntity}`, { headers }),
+        fetch(`/api/entities/${selectedEntity}/accounts`, { headers })
+      ]);
+
+      const data = await rulesResponse.json();
+      if (!rulesResponse.ok) {
+        throw new Error(data.error || 'Failed to load categorization rules');
+      }
+
+      setRules(data);
+      if (accountsResponse.ok) {
+        setAccounts(await accountsResponse.json());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    try {
+      setSaving(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const response = await fetch('/api/categorization-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          name: form.name,
+          company: form.scope === 'entity' ? parseInt(selectedEntity) : null,
+          match_type: form.match_type,
+          description_pattern: form.description_pattern,
+          min_amount: form.min_amount,
+          max_amount: form.max_amount,
+          direction: form.direction,
+          source_account_code: form.source_account_code,
+          counter_account_code: form.counter_account_code,
+          priority: parseInt(form.priority) || 0
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create categorization rule');
+      }
+
+      setForm(EMPTY_FORM);
+      fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    if (!currentUser) return;
+
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/categorization-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ ...rule, active: !rule.active }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update categorization rule');
+      }
+
+      setRules(current => current.map(r => (r.id === rule.id ? data : r)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!currentUser || !confirm(`Delete the rule "${rule.name}"?`)) return;
+
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/categorization-rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete categorization rule');
+      }
+
+      setRules(current => current.filter(r => r.id !== rule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const describeConditions = (rule: CategorizationRule) => {
+    const conditions: string[] = [];
+    if (rule.description_pattern) {
+      conditions.push(rule.match_type === 'regex' ? `matches /${rule.description_pattern}/` : `contains "${rule.description_pattern}"`);
+    }
+    if (rule.min_amount !== null && rule.max_amount !== null) {
+      conditions.push(`amount ${rule.min_amount}–${rule.max_amount}`);
+    } else if (rule.min_amount !== null) {
+      conditions.push(`amount ≥ ${rule.min_amount}`);
+    } else if (rule.max_amount !== null) {
+      conditions.push(`amount ≤ ${rule.max_amount}`);
+    }
+    if (rule.direction !== 'any') conditions.push(`${rule.direction}s only`);
+    if (rule.source_account_code) conditions.push(`from ${rule.source_account_code}`);
+    return conditions.join(', ');
+  };
+
+  const accountLabel = (code: string) => {
+    const account = accounts.find(a => a.code === code);
+    return account ? `${account.alias} (${code})` : code;
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <AdjustmentsHorizontalIcon className="h-8 w-8 text-indigo-600 mr-3" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Categorization Rules</h1>
+              <p className="text-sm text-gray-500">Assign counter accounts to imported bank lines automatically</p>
+            </div>
+          </div>
+          <select
+            value={selectedEntity}
+            onChange={(e) => setSelectedEntity(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {entities.map(entity => (
+              <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">New Rule</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Supermarket purchases"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+              <select
+                value={form.scope}
+                onChange={(e) => setForm({ ...form, scope: e.target.value as 'entity' | 'all' })}
+                className={inputClass}
+              >
+                <option value="entity">This entity</option>
+                <option value="all">All my entities</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+              <input
+                type="number"
+                min="0"
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <select
+                value={form.match_type}
+                onChange={(e) => setForm({ ...form, match_type: e.target.value as CategorizationRule['match_type'] })}
+                className={inputClass}
+              >
+                <option value="contains">Contains</option>
+                <option value="regex">Matches regex</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Pattern</label>
+              <input
+                type="text"
+                value={form.description_pattern}
+                onChange={(e) => setForm({ ...form, description_pattern: e.target.value })}
+                placeholder={form.match_type === 'regex' ? '^JUMBO|LIDER' : 'JUMBO'}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Min amount</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.min_amount}
+                onChange={(e) => setForm({ ...form, min_amount: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max amount</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.max_amount}
+                onChange={(e) => setForm({ ...form, max_amount: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Direction</label>
+              <select
+                value={form.direction}
+                onChange={(e) => setForm({ ...form, direction: e.target.value as CategorizationRule['direction'] })}
+                className={inputClass}
+              >
+                <option value="any">Debits and credits</option>
+                <option value="debit">Debits to the source account</option>
+                <option value="credit">Credits to the source account</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Source account</label>
+              <select
+                value={form.source_account_code}
+                onChange={(e) => setForm({ ...form, source_account_code: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Any account</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.code}>{account.alias} ({account.code})</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Counter account</label>
+              <select
+                value={form.counter_account_code}
+                onChange={(e) => setForm({ ...form, counter_account_code: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select account...</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.code}>{account.alias} ({account.code})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !form.name || !form.counter_account_code}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Add Rule'}
+            </button>
+          </div>
+        </form>
+
+        <div className="bg-white rounded-lg shadow-sm border">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+              <span className="ml-3 text-gray-600">Loading rules...</span>
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No rules yet</h3>
+              <p className="text-gray-500">Rules run on every statement import and from the Apply Rules button on an account.</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rule</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Conditions</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Counter account</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rules.map(rule => (
+                  <tr key={rule.id} className={rule.active ? '' : 'opacity-50'}>
+                    <td className="px-4 py-3 text-sm text-gray-900">{rule.priority}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      <div className="font-medium">{rule.name}</div>
+                      <div className="text-xs text-gray-500">{rule.company === null ? 'All entities' : 'This entity'}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{describeConditions(rule)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{accountLabel(rule.counter_account_code)}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => handleToggle(rule)}
+                        className="text-sm text-indigo-600 hover:text-indigo-800 mr-4"
+                      >
+                        {rule.active ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
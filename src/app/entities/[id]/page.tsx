@@ -4,14 +4,19 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import DashboardLayout from '@/components/DashboardLayout';
+import { FiscalYearClose } from '@/lib/database';
+import { getFiscalYearOf } from '@/lib/fiscal-years';
 import {
   ArrowLeftIcon,
   ArrowPathIcon,
   BuildingOfficeIcon,
+  CalendarDaysIcon,
+  ClipboardDocumentListIcon,
   UserGroupIcon,
   CreditCardIcon,
   ExclamationTriangleIcon,
   EnvelopeIcon,
+  LockClosedIcon,
   PhoneIcon,
   MapPinIcon
 } from '@heroicons/react/24/outline';
@@ -28,6 +33,10 @@ interface Entity {
   vat: number;
   organization_id: number | null;
   user_id: number | null;
+  forbid_hard_delete?: number;
+  locked_through?: string | null;
+  fiscal_year_start_month?: number;
+  retained_earnings_account_id?: number | null;
   total_accounts?: number;
   total_balance?: number;
   incomplete_transactions_count?: number;
@@ -46,6 +55,7 @@ interface Account {
   code: string;
   alias: string;
   category: string | null;
+  account_type?: string | null;
   currency: string;
   balance: number;
   viewBalance: boolean;
@@ -63,6 +73,10 @@ export default function EntityDetailPage() {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [lockDate, setLockDate] = useState('');
+  const [fiscalYearCloses, setFiscalYearCloses] = useState<FiscalYearClose[]>([]);
+  const [closeYear, setCloseYear] = useState('');
 
   const fetchData = async () => {
     if (!currentUser) return;
@@ -74,7 +88,7 @@ export default function EntityDetailPage() {
       const token = await currentUser.getIdToken();
 
       // Fetch all data in parallel
-      const [entityRes, usersRes, accountsRes] = await Promise.all([
+      const [entityRes, usersRes, accountsRes, closesRes] = await Promise.all([
         fetch(`/api/entities/${entityId}`, {
           headers: { 'Authorization': `Bearer ${token}` }
         }),
@@ -83,6 +97,9 @@ export default function EntityDetailPage() {
         }),
         fetch(`/api/entities/${entityId}/accounts`, {
           headers: { 'Authorization': `Bearer ${token}` }
+        }),
+        fetch(`/api/entities/${entityId}/fiscal-years`, {
+          headers: { 'Authorization': `Bearer ${token}` }
         })
       ]);
 
@@ -93,10 +110,13 @@ export default function EntityDetailPage() {
       const entityData = await entityRes.json();
       const usersData = usersRes.ok ? await usersRes.json() : [];
       const accountsData = accountsRes.ok ? await accountsRes.json() : [];
+      const closesData = closesRes.ok ? await closesRes.json() : [];
 
       setEntity(entityData);
+      setLockDate(entityData.locked_through || '');
       setUsers(usersData);
       setAccounts(accountsData);
+      setFiscalYearCloses(closesData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -108,6 +128,148 @@ export default function EntityDetailPage() {
     fetchData();
   }, [currentUser, entityId]);
 
+  const handleUpdateSettings = async (settings: {
+    forbid_hard_delete?: boolean;
+    fiscal_year_start_month?: number;
+    retained_earnings_account_id?: number | null;
+  }) => {
+    if (!currentUser || !entity) return;
+
+    try {
+      setSavingSettings(true);
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/entities/${entityId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(settings)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update entity settings');
+      }
+
+      setEntity({
+        ...entity,
+        forbid_hard_delete: data.forbid_hard_delete !== undefined ? (data.forbid_hard_delete ? 1 : 0) : entity.forbid_hard_delete,
+        fiscal_year_start_month: data.fiscal_year_start_month ?? entity.fiscal_year_start_month,
+        retained_earnings_account_id: data.retained_earnings_account_id !== undefined
+          ? data.retained_earnings_account_id
+          : entity.retained_earnings_account_id
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update entity settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleSetPeriodLock = async (lockedThrough: string | null) => {
+    if (!currentUser || !entity) return;
+
+    const reopening = !lockedThrough || (!!entity.locked_through && lockedThrough < entity.locked_through);
+    if (reopening && !confirm(
+      lockedThrough
+        ? `Reopen the books after ${lockedThrough}? Transactions dated after that day can be changed again.`
+        : 'Reopen all closed periods? Every transaction can be changed again.'
+    )) {
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/entities/${entityId}/period-lock`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ locked_through: lockedThrough })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update period lock');
+      }
+
+      setEntity({ ...entity, locked_through: lockedThrough });
+      setLockDate(lockedThrough || '');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update period lock');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleCloseFiscalYear = async () => {
+    if (!currentUser || !entity || !closeYear) return;
+
+    if (!confirm(
+      `Close fiscal year ${closeYear}? Income and expense balances will be moved into retained earnings.`
+    )) {
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/entities/${entityId}/fiscal-years`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ fiscal_year: parseInt(closeYear) })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to close fiscal year');
+      }
+
+      setFiscalYearCloses([data.close, ...fiscalYearCloses]);
+      setCloseYear('');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to close fiscal year');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleReopenFiscalYear = async (fiscalYear: number) => {
+    if (!currentUser || !entity) return;
+
+    if (!confirm(
+      `Reopen fiscal year ${fiscalYear}? Its closing entry will be removed and income and expense balances restored.`
+    )) {
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/entities/${entityId}/fiscal-years?fiscal_year=${fiscalYear}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to reopen fiscal year');
+      }
+
+      setFiscalYearCloses(fiscalYearCloses.filter(close => close.fiscal_year !== fiscalYear));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to reopen fiscal year');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
   const formatCurrency = (amount: number, currency: string) => {
     const validCurrencies = new Set([
       'USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'CHF', 'CNY', 'SEK', 'NZD',
@@ -144,6 +306,11 @@ export default function EntityDetailPage() {
     });
   };
 
+  const MONTHS = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -178,13 +345,22 @@ export default function EntityDetailPage() {
               <ArrowLeftIcon className="h-5 w-5 mr-2" />
               Back to Entities
             </button>
-            <button
-              onClick={fetchData}
-              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              <ArrowPathIcon className="h-4 w-4 mr-2" />
-              Refresh
-            </button>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => router.push(`/audit-log?entity_id=${entity.id}`)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <ClipboardDocumentListIcon className="h-4 w-4 mr-2" />
+                Audit Log
+              </button>
+              <button
+                onClick={fetchData}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-2" />
+                Refresh
+              </button>
+            </div>
           </div>
 
           <div className="flex items-start">
@@ -228,6 +404,46 @@ export default function EntityDetailPage() {
                   </span>
                 )}
               </div>
+              <label className="mt-3 flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={entity.forbid_hard_delete === 1}
+                  disabled={savingSettings}
+                  onChange={(e) => handleUpdateSettings({ forbid_hard_delete: e.target.checked })}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
+                />
+                Require reversing entries instead of deleting cleared or imported transactions
+              </label>
+              <div className="mt-3 flex items-center space-x-3 text-sm text-gray-600">
+                <LockClosedIcon className="h-5 w-5 text-gray-400" />
+                <span>
+                  {entity.locked_through
+                    ? `Books closed through ${entity.locked_through}`
+                    : 'No closed periods'}
+                </span>
+                <input
+                  type="date"
+                  value={lockDate}
+                  onChange={(e) => setLockDate(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                  onClick={() => handleSetPeriodLock(lockDate)}
+                  disabled={savingSettings || !lockDate || lockDate === entity.locked_through}
+                  className="px-3 py-1 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {entity.locked_through && lockDate < entity.locked_through ? 'Reopen After Date' : 'Close Through Date'}
+                </button>
+                {entity.locked_through && (
+                  <button
+                    onClick={() => handleSetPeriodLock(null)}
+                    disabled={savingSettings}
+                    className="px-3 py-1 border border-gray-300 text-gray-700 bg-white text-sm font-medium rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Reopen All
+                  </button>
+                )}
+              </div>
             </div>
             <div className="text-right">
               <div className="text-sm text-gray-500">Total Balance</div>
@@ -246,6 +462,129 @@ export default function EntityDetailPage() {
           </div>
         </div>
 
+        {/* Fiscal Year */}
+        {(() => {
+          const startMonth = entity.fiscal_year_start_month || 1;
+          const currentYear = getFiscalYearOf(new Date().toISOString().slice(0, 10), startMonth);
+          const lastClosed = fiscalYearCloses.length > 0 ? fiscalYearCloses[0].fiscal_year : null;
+          const closableYears = Array.from({ length: 5 }, (_, i) => currentYear - 1 - i)
+            .filter(year => lastClosed === null || year > lastClosed);
+          const equityAccounts = accounts.filter(account => account.account_type === 'equity');
+
+          return (
+            <div className="bg-white rounded-lg shadow">
+              <div className="border-b border-gray-200 p-6">
+                <div className="flex items-center">
+                  <CalendarDaysIcon className="h-6 w-6 text-gray-400 mr-3" />
+                  <h2 className="text-xl font-bold text-gray-900">Fiscal Year</h2>
+                </div>
+              </div>
+              <div className="p-6 space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Year starts in</label>
+                    <select
+                      value={startMonth}
+                      disabled={savingSettings || fiscalYearCloses.length > 0}
+                      onChange={(e) => handleUpdateSettings({ fiscal_year_start_month: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100"
+                    >
+                      {MONTHS.map((month, index) => (
+                        <option key={month} value={index + 1}>{month}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Retained earnings account</label>
+                    <select
+                      value={entity.retained_earnings_account_id || ''}
+                      disabled={savingSettings}
+                      onChange={(e) => handleUpdateSettings({
+                        retained_earnings_account_id: e.target.value ? parseInt(e.target.value) : null
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      <option value="">Not set</option>
+                      {equityAccounts.map(account => (
+                        <option key={account.id} value={account.id}>{account.code} - {account.alias}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <select
+                      value={closeYear}
+                      disabled={savingSettings}
+                      onChange={(e) => setCloseYear(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      <option value="">Select year</option>
+                      {closableYears.map(year => (
+                        <option key={year} value={year}>FY{year}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleCloseFiscalYear}
+                      disabled={savingSettings || !closeYear || !entity.retained_earnings_account_id}
+                      className="px-3 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Close Fiscal Year
+                    </button>
+                  </div>
+                </div>
+
+                {fiscalYearCloses.length === 0 ? (
+                  <div className="text-sm text-gray-500">No fiscal years have been closed</div>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Year</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Net Income</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Closed By</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {fiscalYearCloses.map((close, index) => (
+                        <tr key={close.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">FY{close.fiscal_year}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {close.period_start} to {close.period_end}
+                          </td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                            Number(close.net_income) >= 0 ? 'text-green-600' : 'text-red-600'
+                          }`}>
+                            {formatCurrency(Number(close.net_income), 'USD')}
+                            {close.retained_earnings_account_code && (
+                              <span className="ml-2 text-xs text-gray-500">to {close.retained_earnings_account_code}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {close.user_email || '—'}
+                            <div className="text-xs">{formatDate(close.created_at)}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {index === 0 && (
+                              <button
+                                onClick={() => handleReopenFiscalYear(close.fiscal_year)}
+                                disabled={savingSettings}
+                                className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                              >
+                                Reopen
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          );
+        })()}
+
         {/* Associated Users */}
         <div className="bg-white rounded-lg shadow">
           <div className="border-b border-gray-200 p-6">
@@ -0,0 +1,369 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeftIcon, BookOpenIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Account, Entity, JournalEntry } from '@/lib/database';
+
+interface EditorLine {
+  key: string;
+  account_code: string;
+  debit: string;
+  credit: string;
+}
+
+const newLine = (): EditorLine => ({
+  key: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  account_code: '',
+  debit: '',
+  credit: ''
+});
+
+const toCents = (value: string) => Math.round((parseFloat(value) || 0) * 100);
+
+export default function JournalEntryEditorPage() {
+  const params = useParams();
+  const router = useRouter();
+  const entryId = params.id as string;
+  const isNew = entryId === 'new';
+  const { currentUser } = useAuth();
+
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [entityId, setEntityId] = useState('');
+  const [entryDate, setEntryDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reference, setReference] = useState('');
+  const [memo, setMemo] = useState('');
+  const [lines, setLines] = useState<EditorLine[]>([newLine(), newLine()]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Load the entry being edited, or the entities to choose from for a new one
+  useEffect(() => {
+    const load = async () => {
+      if (!currentUser) return;
+
+      try {
+        setLoading(true);
+        const token = await currentUser.getIdToken();
+        const headers = { Authorization: `Bearer ${token}` };
+
+        const entitiesResponse = await fetch('/api/entities', { headers });
+        const entitiesData: Entity[] = entitiesResponse.ok ? await entitiesResponse.json() : [];
+        setEntities(entitiesData || []);
+
+        if (isNew) {
+          const requestedEntity = new URLSearchParams(window.location.search).get('entity_id');
+          setEntityId(requestedEntity || (entitiesData?.length > 0 ? String(entitiesData[0].id) : ''));
+          return;
+        }
+
+        const response = await fetch(`/api/journal-entries/${entryId}`, { headers });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load journal entry');
+        }
+
+        const entry = data as JournalEntry;
+        setEntityId(String(entry.company));
+        setEntryDate(entry.entry_date);
+        setReference(entry.reference || '');
+        setMemo(entry.memo);
+        setLines(entry.lines.map(line => ({
+          ...newLine(),
+          account_code: line.account_code,
+          debit: line.debit > 0 ? line.debit.toFixed(2) : '',
+          credit: line.credit > 0 ? line.credit.toFixed(2) : ''
+        })));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [currentUser, entryId, isNew]);
+
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      if (!currentUser || !entityId) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch(`/api/entities/${entityId}/accounts`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (response.ok) {
+          setAccounts(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch accounts:', err);
+      }
+    };
+
+    fetchAccounts();
+  }, [currentUser, entityId]);
+
+  const updateLine = (key: string, field: keyof Omit<EditorLine, 'key'>, value: string) => {
+    setLines(current => current.map(line => {
+      if (line.key !== key) return line;
+      // A line is either a debit or a credit
+      if (field === 'debit' && value) return { ...line, debit: value, credit: '' };
+      if (field === 'credit' && value) return { ...line, credit: value, debit: '' };
+      return { ...line, [field]: value };
+    }));
+  };
+
+  const removeLine = (key: string) => {
+    setLines(current => current.length > 2 ? current.filter(line => line.key !== key) : current);
+  };
+
+  const totalDebits = lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+  const totalCredits = lines.reduce((sum, line) => sum + toCents(line.credit), 0);
+  const isBalanced = totalDebits > 0 && totalDebits === totalCredits;
+
+  const formatAmount = (cents: number) =>
+    new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(cents / 100);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    if (!isBalanced) {
+      setError('Debits must equal credits');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(isNew ? '/api/journal-entries' : `/api/journal-entries/${entryId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          company: parseInt(entityId),
+          entry_date: entryDate,
+          reference,
+          memo,
+          lines: lines
+            .filter(line => line.account_code || line.debit || line.credit)
+            .map(line => ({
+              account_code: line.account_code,
+              debit: parseFloat(line.debit) || 0,
+              credit: parseFloat(line.credit) || 0
+            }))
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to save journal entry');
+        return;
+      }
+
+      router.push('/journal-entries');
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Save journal entry error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <Link
+            href="/journal-entries"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Back to Journal Entries
+          </Link>
+          <div className="flex items-center">
+            <BookOpenIcon className="h-8 w-8 text-indigo-600 mr-3" />
+            <h1 className="text-2xl font-bold text-gray-900">
+              {isNew ? 'New Journal Entry' : `Journal Entry #${entryId}`}
+            </h1>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="entity" className="block text-sm font-medium text-gray-700">Entity *</label>
+              <select
+                id="entity"
+                value={entityId}
+                onChange={(e) => setEntityId(e.target.value)}
+                disabled={!isNew}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100"
+                required
+              >
+                {entities.map(entity => (
+                  <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="entryDate" className="block text-sm font-medium text-gray-700">Date *</label>
+              <input
+                type="date"
+                id="entryDate"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="reference" className="block text-sm font-medium text-gray-700">Reference</label>
+              <input
+                type="text"
+                id="reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. JE-2024-031"
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="memo" className="block text-sm font-medium text-gray-700">Memo *</label>
+              <input
+                type="text"
+                id="memo"
+                value={memo}
+                onChange={(e) => setMemo(e.target.value)}
+                maxLength={255}
+                placeholder="e.g. March depreciation"
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                required
+              />
+            </div>
+          </div>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase w-40">Debit</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase w-40">Credit</th>
+                <th className="px-4 py-2 w-12"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lines.map(line => (
+                <tr key={line.key}>
+                  <td className="px-4 py-2">
+                    <select
+                      value={line.account_code}
+                      onChange={(e) => updateLine(line.key, 'account_code', e.target.value)}
+                      className="block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      <option value="">Select an account</option>
+                      {accounts.map(account => (
+                        <option key={account.id} value={account.code}>
+                          {account.alias} ({account.code}){account.account_type ? ` • ${account.account_type}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line.debit}
+                      onChange={(e) => updateLine(line.key, 'debit', e.target.value)}
+                      className="block w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-right focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line.credit}
+                      onChange={(e) => updateLine(line.key, 'credit', e.target.value)}
+                      className="block w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-right focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeLine(line.key)}
+                      disabled={lines.length <= 2}
+                      className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td className="px-4 py-2">
+                  <button
+                    type="button"
+                    onClick={() => setLines(current => [...current, newLine()])}
+                    className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    Add line
+                  </button>
+                </td>
+                <td className="px-4 py-2 text-right text-sm font-semibold text-gray-900">{formatAmount(totalDebits)}</td>
+                <td className="px-4 py-2 text-right text-sm font-semibold text-gray-900">{formatAmount(totalCredits)}</td>
+                <td></td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <div className="flex items-center justify-between">
+            <p className={`text-sm ${isBalanced ? 'text-green-600' : 'text-red-600'}`}>
+              {isBalanced
+                ? 'Entry is balanced'
+                : `Out of balance by ${formatAmount(Math.abs(totalDebits - totalCredits))}`}
+            </p>
+            <button
+              type="submit"
+              disabled={isSaving || !isBalanced || !entityId}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Posting...' : isNew ? 'Post Entry' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { BookOpenIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Entity, JournalEntry } from '@/lib/database';
+
+export default function JournalEntriesPage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+          if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          } else {
+            setLoading(false);
+          }
+        } else {
+          setError('Failed to load entities');
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+        setLoading(false);
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  const fetchEntries = useCallback(async () => {
+    if (!currentUser || !selectedEntity) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/journal-entries?entity_id=${selectedEntity}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load journal entries');
+      }
+
+      setEntries(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+
+  const formatDate = (dateString: string) => {
+    try {
+      return new Date(dateString).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC'
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <BookOpenIcon className="h-8 w-8 text-indigo-600 mr-3" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Journal Entries</h1>
+              <p className="text-sm text-gray-500">Accruals, depreciation, payroll splits and other manual postings</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <select
+              value={selectedEntity}
+              onChange={(e) => setSelectedEntity(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {entities.map(entity => (
+                <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+              ))}
+            </select>
+            <Link
+              href={`/journal-entries/new${selectedEntity ? `?entity_id=${selectedEntity}` : ''}`}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              New Journal Entry
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+              <span className="ml-3 text-gray-600">Loading journal entries...</span>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No journal entries yet</h3>
+              <p className="text-gray-500">Manual entries posted for this entity will appear here.</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Memo</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Accounts</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                      <Link href={`/journal-entries/${entry.id}`} className="text-indigo-600 hover:text-indigo-800">
+                        {formatDate(entry.entry_date)}
+                      </Link>
+                      <div className="text-xs text-gray-500">#{entry.id}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{entry.reference || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{entry.memo}</td>
+                    <td className="px-4 py-3 text-xs text-gray-600">
+                      {entry.lines.map(line => (
+                        <div key={`${line.account_code}-${line.debit > 0 ? 'd' : 'c'}`} className={line.credit > 0 ? 'pl-4' : ''}>
+                          {line.account_alias || line.account_code}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right">{formatAmount(entry.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { TagIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Account, Entity, Payee, UnmappedPayeeDescription } from '@/lib/database';
+
+const EMPTY_FORM = { id: null as number | null, name: '', aliases: '', default_account_code: '' };
+
+export default function PayeesPage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [unmapped, setUnmapped] = useState<UnmappedPayeeDescription[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+          if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          } else {
+            setLoading(false);
+          }
+        } else {
+          setError('Failed to load entities');
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+        setLoading(false);
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  const fetchPayees = useCallback(async () => {
+    if (!currentUser || !selectedEntity) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const headers = { Authorization: `Bearer ${token}` };
+      const [payeesResponse, accountsResponse] = await Promise.all([
+        fetch(`/api/payees?entity_id=${selectedEntity}`, { headers }),
+        fetch(`/api/entities/${selectedEntity}/accounts`, { headers })
+      ]);
+
+      const data = await payeesResponse.json();
+      if (!payeesResponse.ok) {
+        throw new Error(data.error || 'Failed to load payees');
+      }
+
+      setPayees(data.payees);
+      setUnmapped(data.unmapped);
+      if (accountsResponse.ok) {
+        setAccounts(await accountsResponse.json());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity]);
+
+  useEffect(() => {
+    fetchPayees();
+  }, [fetchPayees]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      setMessage('');
+
+      const token = await currentUser.getIdToken();
+      const response = await fetch(form.id ? `/api/payees/${form.id}` : '/api/payees', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          company: parseInt(selectedEntity),
+          name: form.name,
+          aliases: form.aliases.split('\n').map(alias => alias.trim()).filter(Boolean),
+          default_account_code: form.default_account_code
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save payee');
+      }
+
+      setMessage(`Saved ${data.payee?.name || form.name}${data.linkedCount ? ` and linked ${data.linkedCount} transactions` : ''}`);
+      setForm(EMPTY_FORM);
+      fetchPayees();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payee: Payee) => {
+    if (!currentUser || !confirm(`Delete the payee "${payee.name}"? Its transactions are kept.`)) return;
+
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/payees/${payee.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete payee');
+      }
+
+      fetchPayees();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const editPayee = (payee: Payee) => {
+    setForm({
+      id: payee.id,
+      name: payee.name,
+      aliases: payee.aliases.join('\n'),
+      default_account_code: payee.default_account_code || ''
+    });
+  };
+
+  // Start a new payee from an unmapped description, or add it as an alias of the payee being edited
+  const startFromUnmapped = (description: UnmappedPayeeDescription) => {
+    if (form.id || form.name) {
+      setForm({ ...form, aliases: [form.aliases, description.key].filter(Boolean).join('\n') });
+    } else {
+      const name = description.key.toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+      setForm({ ...EMPTY_FORM, name, aliases: description.key });
+    }
+  };
+
+  const accountLabel = (code: string | null) => {
+    if (!code) return '—';
+    const account = accounts.find(a => a.code === code);
+    return account ? `${account.alias} (${code})` : code;
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <TagIcon className="h-8 w-8 text-indigo-600 mr-3" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Payees</h1>
+              <p className="text-sm text-gray-500">Group bank descriptions under one counterparty with a default account</p>
+            </div>
+          </div>
+          <select
+            value={selectedEntity}
+            onChange={(e) => setSelectedEntity(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {entities.map(entity => (
+              <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {message}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <form onSubmit={handleSave} className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <h2 className="text-lg font-medium text-gray-900">{form.id ? 'Edit Payee' : 'New Payee'}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Jumbo"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default account</label>
+                  <select
+                    value={form.default_account_code}
+                    onChange={(e) => setForm({ ...form, default_account_code: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">None</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.code}>{account.alias} ({account.code})</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Aliases (one per line)</label>
+                  <textarea
+                    rows={3}
+                    value={form.aliases}
+                    onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                    placeholder="JUMBO LAS CONDES"
+                    className={inputClass}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Descriptions starting with the payee name or an alias are matched after card numbers, dates and references are removed.
+                  </p>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3">
+                {(form.id || form.name) && (
+                  <button
+                    type="button"
+                    onClick={() => setForm(EMPTY_FORM)}
+                    className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={saving || !form.name}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : form.id ? 'Save Payee' : 'Add Payee'}
+                </button>
+              </div>
+            </form>
+
+            <div className="bg-white rounded-lg shadow-sm border">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+                  <span className="ml-3 text-gray-600">Loading payees...</span>
+                </div>
+              ) : payees.length === 0 ? (
+                <div className="text-center py-12">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No payees yet</h3>
+                  <p className="text-gray-500">Start from one of the frequent descriptions on the right.</p>
+                </div>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Payee</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Default account</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Transactions</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {payees.map(payee => (
+                      <tr key={payee.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          <button onClick={() => editPayee(payee)} className="font-medium text-indigo-600 hover:text-indigo-800">
+                            {payee.name}
+                          </button>
+                          {payee.aliases.length > 0 && (
+                            <div className="text-xs text-gray-500">{payee.aliases.join(', ')}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{accountLabel(payee.default_account_code)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 text-right">{payee.transaction_count}</td>
+                        <td className="px-4 py-3 text-right">
+                          <button onClick={() => handleDelete(payee)} className="text-gray-400 hover:text-red-600">
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Frequent unmapped descriptions</h2>
+            <p className="text-sm text-gray-500 mb-4">Click one to start a payee, or to add it as an alias of the payee you are editing.</p>
+            {unmapped.length === 0 ? (
+              <p className="text-sm text-gray-500">Every transaction has a payee.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {unmapped.map(description => (
+                  <li key={description.key}>
+                    <button
+                      type="button"
+                      onClick={() => startFromUnmapped(description)}
+                      className="w-full text-left py-2 hover:bg-gray-50"
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900">{description.key}</span>
+                        <span className="text-xs text-gray-500">{description.transaction_count}×</span>
+                      </div>
+                      <div className="text-xs text-gray-400 truncate">{description.example}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -23,6 +23,28 @@ interface PLData {
   period_end: string;
 }
 
+interface PLColumn {
+  kind: 'period' | 'total' | 'previous_period' | 'previous_year';
+  label: string;
+  start_date: string;
+  end_date: string;
+  total_income: number;
+  total_expenses: number;
+  net_profit: number;
+}
+
+interface PLColumnAccount extends Omit<PLAccount, 'total_balance'> {
+  amounts: number[];
+}
+
+interface PLColumnData {
+  columns: PLColumn[];
+  income_accounts: PLColumnAccount[];
+  expense_accounts: PLColumnAccount[];
+  period_start: string;
+  period_end: string;
+}
+
 interface Entity {
   id: number;
   code: string;
@@ -32,6 +54,7 @@ interface Entity {
 export default function ProfitLossPage() {
   const { currentUser } = useAuth();
   const [plData, setPLData] = useState<PLData | null>(null);
+  const [columnData, setColumnData] = useState<PLColumnData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedPeriod, setSelectedPeriod] = useState('current-month');
@@ -39,6 +62,8 @@ export default function ProfitLossPage() {
   const [customEndDate, setCustomEndDate] = useState('');
   const [selectedEntity, setSelectedEntity] = useState('');
   const [selectedCurrency, setSelectedCurrency] = useState('');
+  const [breakdown, setBreakdown] = useState('');
+  const [compareTo, setCompareTo] = useState<string[]>([]);
   const [entities, setEntities] = useState<Entity[]>([]);
   const [currencies, setCurrencies] = useState<string[]>([]);
   const [showUpdateBalancesModal, setShowUpdateBalancesModal] = useState(false);
@@ -177,6 +202,14 @@ export default function ProfitLossPage() {
         params.append('currency', selectedCurrency);
       }
 
+      if (breakdown) {
+        params.append('breakdown', breakdown);
+      }
+
+      if (compareTo.length > 0) {
+        params.append('compare', compareTo.join(','));
+      }
+
       const response = await fetch(`/api/profit-loss?${params.toString()}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -184,14 +217,21 @@ export default function ProfitLossPage() {
         },
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error('Failed to fetch profit & loss data');
+        throw new Error(data.error || 'Failed to fetch profit & loss data');
       }
 
-      const data = await response.json();
-
       console.log('Fetched P&L Data:', data);
-      setPLData(data);
+      // The API answers with columns whenever a breakdown or comparison was requested
+      if (breakdown || compareTo.length > 0) {
+        setColumnData(data);
+        setPLData(null);
+      } else {
+        setPLData(data);
+        setColumnData(null);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -210,7 +250,7 @@ export default function ProfitLossPage() {
     if (selectedPeriod !== 'custom') {
       fetchPLData();
     }
-  }, [currentUser, selectedPeriod, selectedEntity, selectedCurrency]);
+  }, [currentUser, selectedPeriod, selectedEntity, selectedCurrency, breakdown, compareTo]);
 
   const formatCurrency = (amount: number, currencyCode: string) => {
     try {
@@ -223,6 +263,16 @@ export default function ProfitLossPage() {
     }
   };
 
+  const formatVariance = (amount: number, currencyCode: string) =>
+    `${amount > 0 ? '+' : amount < 0 ? '-' : ''}${formatCurrency(amount, currencyCode)}`;
+
+  const formatVariancePercent = (current: number, comparison: number) =>
+    comparison === 0 ? '—' : `${current >= comparison ? '+' : ''}${(((current - comparison) / Math.abs(comparison)) * 100).toFixed(1)}%`;
+
+  const toggleComparison = (comparison: string) => {
+    setCompareTo(prev => prev.includes(comparison) ? prev.filter(value => value !== comparison) : [...prev, comparison]);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -232,10 +282,11 @@ export default function ProfitLossPage() {
   };
 
   const getPeriodLabel = () => {
-    if (!plData) return '';
+    const period = columnData || plData;
+    if (!period) return '';
 
-    const startDate = formatDate(plData.period_start);
-    const endDate = formatDate(plData.period_end);
+    const startDate = formatDate(period.period_start);
+    const endDate = formatDate(period.period_end);
 
     switch (selectedPeriod) {
       case 'current-month':
@@ -339,7 +390,7 @@ export default function ProfitLossPage() {
             Profit & Loss Statement
           </h1>
           <p className="text-gray-600">
-            {plData && getPeriodLabel()}
+            {(plData || columnData) && getPeriodLabel()}
           </p>
         </div>
         <button
@@ -452,6 +503,47 @@ export default function ProfitLossPage() {
           )}
             </div>
           </div>
+
+          {/* Columns and Comparisons */}
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-md font-medium text-gray-900 mb-4">Columns & Comparison</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Breakdown
+                </label>
+                <select
+                  value={breakdown}
+                  onChange={(e) => setBreakdown(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Period total only</option>
+                  <option value="month">By month</option>
+                  <option value="quarter">By quarter</option>
+                </select>
+              </div>
+              <div className="lg:col-span-3 flex flex-wrap items-end gap-6 pb-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={compareTo.includes('previous_period')}
+                    onChange={() => toggleComparison('previous_period')}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
+                  />
+                  Compare with previous period
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={compareTo.includes('previous_year')}
+                    onChange={() => toggleComparison('previous_year')}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
+                  />
+                  Compare with same period last year
+                </label>
+              </div>
+            </div>
+          </div>
         </div>
       </div>
 
@@ -611,6 +703,131 @@ export default function ProfitLossPage() {
         </div>
       )}
 
+      {columnData && (
+        <div className="space-y-6">
+          {([
+            { title: 'Income', accounts: columnData.income_accounts, totalKey: 'total_income', headerClass: 'bg-green-50 text-green-800', totalClass: 'bg-green-50 border-green-200 text-green-800' },
+            { title: 'Expenses', accounts: columnData.expense_accounts, totalKey: 'total_expenses', headerClass: 'bg-red-50 text-red-800', totalClass: 'bg-red-50 border-red-200 text-red-800' }
+          ] as const).map(({ title, accounts, totalKey, headerClass, totalClass }) => {
+            const totalIndex = columnData.columns.findIndex(column => column.kind === 'total');
+            const currencyCode = accounts[0]?.currency || 'USD';
+            // Income above the comparison is favourable, expenses above it are not
+            const varianceClass = (current: number, comparison: number) =>
+              current === comparison ? 'text-gray-500'
+                : (current > comparison) === (title === 'Income') ? 'text-green-600' : 'text-red-600';
+
+            const renderCells = (amounts: number[], bold: boolean, rowCurrency: string) =>
+              columnData.columns.map((column, index) => {
+                const cellClass = `px-4 py-3 text-sm text-right whitespace-nowrap ${bold ? 'font-bold' : ''} ${column.kind === 'total' && !bold ? 'bg-gray-50' : ''}`;
+                if (column.kind === 'period' || column.kind === 'total') {
+                  return <td key={index} className={cellClass}>{formatCurrency(amounts[index], rowCurrency)}</td>;
+                }
+                const variance = amounts[totalIndex] - amounts[index];
+                return [
+                  <td key={index} className={cellClass}>{formatCurrency(amounts[index], rowCurrency)}</td>,
+                  <td key={`${index}-variance`} className={`${cellClass} ${varianceClass(amounts[totalIndex], amounts[index])}`}>
+                    {formatVariance(variance, rowCurrency)}
+                  </td>,
+                  <td key={`${index}-percent`} className={`${cellClass} ${varianceClass(amounts[totalIndex], amounts[index])}`}>
+                    {formatVariancePercent(amounts[totalIndex], amounts[index])}
+                  </td>
+                ];
+              });
+
+            return (
+              <div key={title} className="bg-white rounded-lg shadow-sm border">
+                <div className={`px-6 py-4 border-b border-gray-200 ${headerClass}`}>
+                  <h2 className="text-lg font-semibold">{title}</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Account
+                        </th>
+                        {columnData.columns.map((column, index) => {
+                          const header = (
+                            <th key={index} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap" title={`${column.start_date} - ${column.end_date}`}>
+                              {column.label}
+                            </th>
+                          );
+                          if (column.kind === 'period' || column.kind === 'total') return header;
+                          return [
+                            header,
+                            <th key={`${index}-variance`} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Var
+                            </th>,
+                            <th key={`${index}-percent`} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Var %
+                            </th>
+                          ];
+                        })}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {accounts.map(account => (
+                        <tr key={`${title}-${account.code}-${account.currency}`} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            <div className="font-medium">{account.alias}</div>
+                            <div className="text-xs text-gray-500">{account.code}</div>
+                          </td>
+                          {renderCells(account.amounts, false, account.currency)}
+                        </tr>
+                      ))}
+                      <tr className={`border-t-2 ${totalClass}`}>
+                        <td className="px-4 py-3 text-sm font-bold">Total {title}</td>
+                        {renderCells(columnData.columns.map(column => column[totalKey]), true, currencyCode)}
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Net Profit/Loss per column */}
+          <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+            <table className="min-w-full">
+              <tbody>
+                <tr>
+                  <td className="px-4 py-4 text-sm font-bold text-gray-900">Net Profit / Loss</td>
+                  {columnData.columns.map((column, index) => {
+                    const currencyCode = columnData.income_accounts[0]?.currency || columnData.expense_accounts[0]?.currency || 'USD';
+                    const cell = (
+                      <td key={index} className={`px-4 py-4 text-sm text-right font-bold whitespace-nowrap ${column.net_profit >= 0 ? 'text-green-800' : 'text-red-800'}`}>
+                        <div className="text-xs font-medium text-gray-500 uppercase">{column.label}</div>
+                        {column.net_profit < 0 ? '-' : ''}{formatCurrency(column.net_profit, currencyCode)}
+                      </td>
+                    );
+                    if (column.kind === 'period' || column.kind === 'total') return cell;
+
+                    const current = columnData.columns.find(other => other.kind === 'total')!.net_profit;
+                    return [
+                      cell,
+                      <td key={`${index}-variance`} className={`px-4 py-4 text-sm text-right whitespace-nowrap ${current >= column.net_profit ? 'text-green-600' : 'text-red-600'}`}>
+                        <div className="text-xs font-medium text-gray-500 uppercase">Var</div>
+                        {formatVariance(current - column.net_profit, currencyCode)}
+                      </td>,
+                      <td key={`${index}-percent`} className={`px-4 py-4 text-sm text-right whitespace-nowrap ${current >= column.net_profit ? 'text-green-600' : 'text-red-600'}`}>
+                        <div className="text-xs font-medium text-gray-500 uppercase">Var %</div>
+                        {formatVariancePercent(current, column.net_profit)}
+                      </td>
+                    ];
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {columnData && columnData.income_accounts.length === 0 && columnData.expense_accounts.length === 0 && (
+        <div className="bg-white rounded-lg shadow-sm border p-6 text-center text-gray-500">
+          No income or expense transactions found for the selected periods.
+        </div>
+      )}
+
       {/* Update Balances Modal */}
       {showUpdateBalancesModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1,433 +1,232 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import Link from 'next/link';
+import { ArrowPathIcon, ChartBarIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '@/contexts/AuthContext';
 import DashboardLayout from '@/components/DashboardLayout';
-
-interface Account {
-  id: number;
-  code: string;
-  alias: string;
-  category: string;
-  currency: string;
-  balance: number;
-  transaction_count: number;
-}
-
-interface TimeFrame {
-  label: string;
-  value: string;
-  hours?: number;
-}
-
-const timeFrames: TimeFrame[] = [
-  { label: 'Past Hour', value: 'hour', hours: 1 },
-  { label: 'Past Day', value: 'day', hours: 24 },
-  { label: 'Past Month', value: 'month', hours: 24 * 30 },
-  { label: 'Past 3 Months', value: '3months', hours: 24 * 90 },
-  { label: 'Past 6 Months', value: '6months', hours: 24 * 180 },
-  { label: 'Custom Range', value: 'custom' }
-];
+import { BalanceSheet, BalanceSheetSection, Entity } from '@/lib/database';
 
 export default function BalanceSheetPage() {
-  const router = useRouter();
   const { currentUser } = useAuth();
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [selectedTimeFrame, setSelectedTimeFrame] = useState('month');
-  const [customStartDate, setCustomStartDate] = useState('');
-  const [customEndDate, setCustomEndDate] = useState('');
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [asOf, setAsOf] = useState(() => new Date().toISOString().split('T')[0]);
+  const [balanceSheet, setBalanceSheet] = useState<BalanceSheet | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
 
-  const fetchBalanceSheet = async () => {
-    try {
-      setLoading(true);
-
-      // Get Firebase ID token
-      if (!currentUser) {
-        throw new Error('User not authenticated');
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+          if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          }
+        } else {
+          setError('Failed to load entities');
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
       }
+    };
 
-      const token = await currentUser.getIdToken();
+    fetchEntities();
+  }, [currentUser]);
 
-      let url = `/api/reports/balance-sheet?timeFrame=${selectedTimeFrame}`;
+  const fetchBalanceSheet = useCallback(async () => {
+    if (!currentUser || !selectedEntity || !asOf) return;
 
-      if (selectedTimeFrame === 'custom' && customStartDate && customEndDate) {
-        url = `/api/reports/balance-sheet?startDate=${customStartDate}&endDate=${customEndDate}`;
-      }
+    try {
+      setLoading(true);
+      setError('');
 
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
+      const token = await currentUser.getIdToken();
+      const params = new URLSearchParams({ entity_id: selectedEntity, asOf });
+      const response = await fetch(`/api/reports/balance-sheet?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        setAccounts(data || []);
-      } else {
-        throw new Error('Failed to fetch balance sheet data');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load balance sheet');
       }
+
+      setBalanceSheet(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentUser, selectedEntity, asOf]);
 
   useEffect(() => {
-    if (currentUser) {
-      fetchBalanceSheet();
-    }
-  }, [currentUser, selectedTimeFrame, customStartDate, customEndDate]);
-
-  const formatCurrency = (amount: number, currency: string = 'USD') => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(amount);
-  };
-
-  const groupedAccounts = accounts.reduce((acc, account) => {
-    if (!acc[account.category]) {
-      acc[account.category] = [];
-    }
-    acc[account.category].push(account);
-    return acc;
-  }, {} as Record<string, Account[]>);
-
-  const categoryTotals = Object.entries(groupedAccounts).map(([category, categoryAccounts]) => ({
-    category,
-    total: categoryAccounts.reduce((sum, account) => sum + account.balance, 0),
-    accounts: categoryAccounts,
-    currency: categoryAccounts[0]?.currency || 'USD'
-  }));
-
-  // Calculate totals for all account types
-  const assets = categoryTotals.filter(cat => cat.category === 'asset');
-  const liabilities = categoryTotals.filter(cat => cat.category === 'liability');
-  const equity = categoryTotals.filter(cat => cat.category === 'equity');
-  const income = categoryTotals.filter(cat => cat.category === 'income');
-  const expenses = categoryTotals.filter(cat => cat.category === 'expense');
-
-  const totalAssets = assets.reduce((sum, cat) => sum + cat.total, 0);
-  const totalLiabilities = liabilities.reduce((sum, cat) => sum + cat.total, 0);
-  const totalEquity = equity.reduce((sum, cat) => sum + cat.total, 0);
-  const totalIncome = income.reduce((sum, cat) => sum + cat.total, 0);
-  const totalExpenses = expenses.reduce((sum, cat) => sum + cat.total, 0);
-
-  // Calculate net income
-  const netIncome = totalIncome - totalExpenses;
-
-  if (loading) {
-    return (
-      <div className="p-6">
-        <div className="animate-pulse">
-          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
-          <div className="h-4 bg-gray-200 rounded w-1/2 mb-8"></div>
-          <div className="space-y-4">
-            {[...Array(5)].map((_, i) => (
-              <div key={i} className="h-16 bg-gray-200 rounded"></div>
-            ))}
+    fetchBalanceSheet();
+  }, [fetchBalanceSheet]);
+
+  const formatAmount = (amount: number) =>
+    amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const renderSection = (
+    title: string,
+    section: BalanceSheetSection,
+    colorClass: string,
+    total: number,
+    extraRows?: ReactNode
+  ) => (
+    <div className="mb-8">
+      <h3 className={`text-lg font-semibold mb-4 p-3 rounded ${colorClass}`}>{title}</h3>
+      <div className="ml-4">
+        {section.accounts.map(account => (
+          <div key={account.account_id} className="flex justify-between items-center py-2 border-b border-gray-100 text-sm">
+            <Link href={`/accounts/${account.account_id}`} className="hover:text-indigo-600">
+              <span className="font-medium">{account.code}</span>
+              <span className="text-gray-600 ml-2">{account.alias}</span>
+            </Link>
+            <span className="font-medium">{formatAmount(account.balance)}</span>
           </div>
+        ))}
+        {extraRows}
+        <div className={`flex justify-between items-center py-2 font-semibold ${colorClass}`}>
+          <span>Total {title.charAt(0) + title.slice(1).toLowerCase()}</span>
+          <span>{formatAmount(total)}</span>
         </div>
       </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className="p-6">
-        <div className="bg-red-50 border border-red-200 rounded-md p-4">
-          <div className="text-red-800">Error: {error}</div>
-        </div>
-      </div>
-    );
-  }
+    </div>
+  );
 
   return (
     <DashboardLayout>
-      <div>
-      <div className="flex justify-between items-center mb-6">
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Trial Balance Report</h1>
-          <p className="text-gray-600 mt-1">Complete view of all accounts grouped by category</p>
-        </div>
-        <button
-          onClick={() => router.back()}
-          className="text-indigo-600 hover:text-indigo-800"
-        >
-          ← Back
-        </button>
-      </div>
-
-      {/* Time Frame Selection */}
-      <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">Time Period</h2>
-
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-4">
-          {timeFrames.map((timeFrame) => (
-            <button
-              key={timeFrame.value}
-              onClick={() => setSelectedTimeFrame(timeFrame.value)}
-              className={`px-3 py-2 text-sm rounded-md border ${
-                selectedTimeFrame === timeFrame.value
-                  ? 'bg-indigo-600 text-white border-indigo-600'
-                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
-              }`}
-            >
-              {timeFrame.label}
-            </button>
-          ))}
+      <div className="space-y-6">
+        <div className="flex items-center">
+          <ChartBarIcon className="h-8 w-8 text-indigo-600 mr-3" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Balance Sheet</h1>
+            <p className="text-sm text-gray-500">Assets, liabilities and equity of an entity as of a date</p>
+          </div>
         </div>
 
-        {selectedTimeFrame === 'custom' && (
-          <div className="flex gap-4 items-center">
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
-              <input
-                type="datetime-local"
-                value={customStartDate}
-                onChange={(e) => setCustomStartDate(e.target.value)}
-                className="border border-gray-300 rounded px-3 py-2 text-sm"
-              />
+              <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+              <select
+                value={selectedEntity}
+                onChange={(e) => setSelectedEntity(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {entities.map(entity => (
+                  <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+                ))}
+              </select>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
               <input
-                type="datetime-local"
-                value={customEndDate}
-                onChange={(e) => setCustomEndDate(e.target.value)}
-                className="border border-gray-300 rounded px-3 py-2 text-sm"
+                type="date"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
               />
             </div>
+            <div></div>
+            <button
+              onClick={fetchBalanceSheet}
+              disabled={loading}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
           </div>
-        )}
-      </div>
-
-      {/* Balance Sheet */}
-      <div className="bg-white rounded-lg shadow-sm border">
-        <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-lg font-semibold text-gray-900">
-            Trial Balance Report
-            {selectedTimeFrame !== 'custom' && (
-              <span className="text-sm font-normal text-gray-500 ml-2">
-                ({timeFrames.find(tf => tf.value === selectedTimeFrame)?.label})
-              </span>
-            )}
-          </h2>
-          <p className="text-sm text-gray-600 mt-1">All accounts grouped by category</p>
         </div>
 
-        <div className="p-6">
-          {/* Assets */}
-          {assets.length > 0 && (
-            <div className="mb-8">
-              <h3 className="text-lg font-semibold text-green-800 mb-4 bg-green-50 p-3 rounded">ASSETS</h3>
-              {assets.map(({ category, accounts, total, currency }) => (
-                <div key={category} className="mb-6">
-                  <div className="ml-4">
-                    {accounts.map((account) => (
-                      <div key={account.id} className="flex justify-between items-center py-2 border-b border-gray-100">
-                        <div>
-                          <span className="font-medium">{account.code}</span>
-                          <span className="text-gray-600 ml-2">{account.alias}</span>
-                          <span className="text-xs text-gray-400 ml-2">({account.transaction_count} transactions)</span>
-                        </div>
-                        <span className="font-medium">{formatCurrency(account.balance, account.currency)}</span>
-                      </div>
-                    ))}
-                    <div className="flex justify-between items-center py-2 font-semibold bg-green-50">
-                      <span>Total Assets</span>
-                      <span>{formatCurrency(total, currency)}</span>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-
-          {/* Liabilities */}
-          {liabilities.length > 0 && (
-            <div className="mb-8">
-              <h3 className="text-lg font-semibold text-red-800 mb-4 bg-red-50 p-3 rounded">LIABILITIES</h3>
-              {liabilities.map(({ category, accounts, total, currency }) => (
-                <div key={category} className="mb-6">
-                  <div className="ml-4">
-                    {accounts.map((account) => (
-                      <div key={account.id} className="flex justify-between items-center py-2 border-b border-gray-100">
-                        <div>
-                          <span className="font-medium">{account.code}</span>
-                          <span className="text-gray-600 ml-2">{account.alias}</span>
-                          <span className="text-xs text-gray-400 ml-2">({account.transaction_count} transactions)</span>
-                        </div>
-                        <span className="font-medium">{formatCurrency(account.balance, account.currency)}</span>
-                      </div>
-                    ))}
-                    <div className="flex justify-between items-center py-2 font-semibold bg-red-50">
-                      <span>Total Liabilities</span>
-                      <span>{formatCurrency(total, currency)}</span>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-
-          {/* Equity */}
-          {equity.length > 0 && (
-            <div className="mb-8">
-              <h3 className="text-lg font-semibold text-blue-800 mb-4 bg-blue-50 p-3 rounded">EQUITY</h3>
-              {equity.map(({ category, accounts, total, currency }) => (
-                <div key={category} className="mb-6">
-                  <div className="ml-4">
-                    {accounts.map((account) => (
-                      <div key={account.id} className="flex justify-between items-center py-2 border-b border-gray-100">
-                        <div>
-                          <span className="font-medium">{account.code}</span>
-                          <span className="text-gray-600 ml-2">{account.alias}</span>
-                          <span className="text-xs text-gray-400 ml-2">({account.transaction_count} transactions)</span>
-                        </div>
-                        <span className="font-medium">{formatCurrency(account.balance, account.currency)}</span>
-                      </div>
-                    ))}
-                    <div className="flex justify-between items-center py-2 font-semibold bg-blue-50">
-                      <span>Total Equity</span>
-                      <span>{formatCurrency(total, currency)}</span>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
 
-          {/* Income */}
-          {income.length > 0 && (
-            <div className="mb-8">
-              <h3 className="text-lg font-semibold text-purple-800 mb-4 bg-purple-50 p-3 rounded">INCOME</h3>
-              {income.map(({ category, accounts, total, currency }) => (
-                <div key={category} className="mb-6">
-                  <div className="ml-4">
-                    {accounts.map((account) => (
-                      <div key={account.id} className="flex justify-between items-center py-2 border-b border-gray-100">
-                        <div>
-                          <span className="font-medium">{account.code}</span>
-                          <span className="text-gray-600 ml-2">{account.alias}</span>
-                          <span className="text-xs text-gray-400 ml-2">({account.transaction_count} transactions)</span>
-                        </div>
-                        <span className="font-medium">{formatCurrency(account.balance, account.currency)}</span>
-                      </div>
-                    ))}
-                    <div className="flex justify-between items-center py-2 font-semibold bg-purple-50">
-                      <span>Total Income</span>
-                      <span>{formatCurrency(total, currency)}</span>
-                    </div>
-                  </div>
-                </div>
-              ))}
+        {loading ? (
+          <div className="bg-white rounded-lg shadow flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+            <span className="ml-3 text-gray-600">Loading report...</span>
+          </div>
+        ) : balanceSheet && (
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Balance Sheet as of {balanceSheet.as_of}</h2>
+              <p className="text-sm text-gray-500">Fiscal year began {balanceSheet.fiscal_year_start}</p>
             </div>
-          )}
 
-          {/* Expenses */}
-          {expenses.length > 0 && (
-            <div className="mb-8">
-              <h3 className="text-lg font-semibold text-orange-800 mb-4 bg-orange-50 p-3 rounded">EXPENSES</h3>
-              {expenses.map(({ category, accounts, total, currency }) => (
-                <div key={category} className="mb-6">
-                  <div className="ml-4">
-                    {accounts.map((account) => (
-                      <div key={account.id} className="flex justify-between items-center py-2 border-b border-gray-100">
-                        <div>
-                          <span className="font-medium">{account.code}</span>
-                          <span className="text-gray-600 ml-2">{account.alias}</span>
-                          <span className="text-xs text-gray-400 ml-2">({account.transaction_count} transactions)</span>
-                        </div>
-                        <span className="font-medium">{formatCurrency(account.balance, account.currency)}</span>
-                      </div>
-                    ))}
-                    <div className="flex justify-between items-center py-2 font-semibold bg-orange-50">
-                      <span>Total Expenses</span>
-                      <span>{formatCurrency(total, currency)}</span>
+            <div className="p-6">
+              {renderSection('ASSETS', balanceSheet.assets, 'text-green-800 bg-green-50', balanceSheet.assets.total)}
+              {renderSection('LIABILITIES', balanceSheet.liabilities, 'text-red-800 bg-red-50', balanceSheet.liabilities.total)}
+              {renderSection('EQUITY', balanceSheet.equity, 'text-blue-800 bg-blue-50', balanceSheet.total_equity, (
+                <>
+                  {balanceSheet.prior_years_earnings !== 0 && (
+                    <div className="flex justify-between items-center py-2 border-b border-gray-100 text-sm">
+                      <span className="text-gray-600">Earnings of prior years not yet closed</span>
+                      <span className="font-medium">{formatAmount(balanceSheet.prior_years_earnings)}</span>
                     </div>
+                  )}
+                  <div className="flex justify-between items-center py-2 border-b border-gray-100 text-sm">
+                    <span className="text-gray-600">Current year earnings</span>
+                    <span className="font-medium">{formatAmount(balanceSheet.current_year_earnings)}</span>
                   </div>
-                </div>
+                </>
               ))}
-            </div>
-          )}
-
-          {/* Summary Section */}
-          <div className="border-t-2 border-gray-300 pt-6 mt-8">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">SUMMARY</h3>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Financial Position */}
-              <div className="bg-gray-50 p-4 rounded">
-                <h4 className="font-semibold text-gray-800 mb-3">Financial Position</h4>
-                <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span>Total Assets:</span>
-                    <span className="font-medium">{formatCurrency(totalAssets)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Total Liabilities:</span>
-                    <span className="font-medium">{formatCurrency(totalLiabilities)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Total Equity:</span>
-                    <span className="font-medium">{formatCurrency(totalEquity)}</span>
-                  </div>
-                  <div className="border-t border-gray-300 pt-2 flex justify-between font-semibold">
-                    <span>Net Worth (Assets - Liabilities):</span>
-                    <span className={totalAssets - totalLiabilities >= 0 ? 'text-green-600' : 'text-red-600'}>
-                      {formatCurrency(totalAssets - totalLiabilities)}
-                    </span>
-                  </div>
-                </div>
+              <div className="flex justify-between items-center py-2 px-4 font-semibold border-t-2 border-gray-300">
+                <span>Total Liabilities and Equity</span>
+                <span>{formatAmount(balanceSheet.total_liabilities_and_equity)}</span>
               </div>
 
-              {/* Performance */}
-              <div className="bg-gray-50 p-4 rounded">
-                <h4 className="font-semibold text-gray-800 mb-3">Performance</h4>
-                <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span>Total Income:</span>
-                    <span className="font-medium text-green-600">{formatCurrency(totalIncome)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Total Expenses:</span>
-                    <span className="font-medium text-red-600">{formatCurrency(totalExpenses)}</span>
-                  </div>
-                  <div className="border-t border-gray-300 pt-2 flex justify-between font-semibold">
-                    <span>Net Income:</span>
-                    <span className={netIncome >= 0 ? 'text-green-600' : 'text-red-600'}>
-                      {formatCurrency(netIncome)}
-                    </span>
-                  </div>
-                </div>
+              <div className={`mt-6 p-4 rounded text-sm ${balanceSheet.difference === 0 ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                {balanceSheet.difference === 0 ? (
+                  <p className="font-medium">✓ Assets equal liabilities plus equity</p>
+                ) : (
+                  <>
+                    <p className="font-medium flex items-center">
+                      <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+                      Assets differ from liabilities plus equity by {formatAmount(balanceSheet.difference)}
+                    </p>
+                    <p className="mt-1">
+                      Transactions with an unassigned side or accounts without a type usually cause this.{' '}
+                      <Link href="/reports/trial-balance" className="underline">Check the trial balance</Link>.
+                    </p>
+                  </>
+                )}
               </div>
-            </div>
 
-            {/* Balance Check */}
-            <div className="mt-4 p-4 bg-blue-50 rounded">
-              <div className={`flex justify-between items-center text-sm font-medium ${
-                Math.abs(totalAssets - (totalLiabilities + totalEquity)) < 0.01
-                  ? 'text-green-700'
-                  : 'text-red-700'
-              }`}>
-                <span>Balance Check (Assets - Liabilities - Equity):</span>
-                <span>{formatCurrency(totalAssets - totalLiabilities - totalEquity)}</span>
-              </div>
-              {Math.abs(totalAssets - (totalLiabilities + totalEquity)) < 0.01 ? (
-                <p className="text-xs text-green-600 mt-1">✓ Books are balanced</p>
-              ) : (
-                <p className="text-xs text-red-600 mt-1">⚠ Books are not balanced - check for errors</p>
+              {balanceSheet.unclassified.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Accounts without a type (net debit)</h3>
+                  {balanceSheet.unclassified.map(account => (
+                    <div key={account.account_id} className="flex justify-between items-center py-2 border-b border-gray-100 text-sm">
+                      <Link href={`/accounts/${account.account_id}`} className="hover:text-indigo-600">
+                        <span className="font-medium">{account.code}</span>
+                        <span className="text-gray-600 ml-2">{account.alias}</span>
+                      </Link>
+                      <span className="font-medium">{formatAmount(account.balance)}</span>
+                    </div>
+                  ))}
+                </div>
               )}
             </div>
           </div>
-        </div>
-      </div>
+        )}
       </div>
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowPathIcon, BanknotesIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { CashFlowActivity, CashFlowStatement, Entity } from '@/lib/database';
+
+const ACTIVITIES: Array<{ value: CashFlowActivity; label: string }> = [
+  { value: 'operating', label: 'Operating activities' },
+  { value: 'investing', label: 'Investing activities' },
+  { value: 'financing', label: 'Financing activities' },
+  { value: 'unclassified', label: 'Unassigned counter account' },
+];
+
+export default function CashFlowPage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [view, setView] = useState<'direct' | 'indirect'>('direct');
+  const [cashFlow, setCashFlow] = useState<CashFlowStatement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Default to the current year so far
+  useEffect(() => {
+    const today = new Date();
+    setEndDate(today.toISOString().split('T')[0]);
+    setStartDate(`${today.getFullYear()}-01-01`);
+  }, []);
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+          if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          }
+        } else {
+          setError('Failed to load entities');
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  const fetchCashFlow = useCallback(async () => {
+    if (!currentUser || !selectedEntity || !startDate || !endDate) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const params = new URLSearchParams({ entity_id: selectedEntity, startDate, endDate });
+      const response = await fetch(`/api/reports/cash-flow?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load cash flow statement');
+      }
+
+      setCashFlow(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity, startDate, endDate]);
+
+  useEffect(() => {
+    fetchCashFlow();
+  }, [fetchCashFlow]);
+
+  const formatAmount = (amount: number) =>
+    amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const totalRow = (label: string, amount: number, className = '') => (
+    <div className={`flex justify-between items-center py-2 text-sm font-semibold ${className}`}>
+      <span>{label}</span>
+      <span>{formatAmount(amount)}</span>
+    </div>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center">
+          <BanknotesIcon className="h-8 w-8 text-indigo-600 mr-3" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Cash Flow Statement</h1>
+            <p className="text-sm text-gray-500">Movements on cash and bank accounts by operating, investing and financing activity</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+              <select
+                value={selectedEntity}
+                onChange={(e) => setSelectedEntity(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {entities.map(entity => (
+                  <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+              <select
+                value={view}
+                onChange={(e) => setView(e.target.value as 'direct' | 'indirect')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="direct">Direct</option>
+                <option value="indirect">Indirect</option>
+              </select>
+            </div>
+            <button
+              onClick={fetchCashFlow}
+              disabled={loading}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-white rounded-lg shadow flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+            <span className="ml-3 text-gray-600">Loading report...</span>
+          </div>
+        ) : cashFlow && cashFlow.cash_accounts.length === 0 ? (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md flex items-center">
+            <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+            No cash or bank accounts in this entity. Mark them on the account page to include them here.
+          </div>
+        ) : cashFlow && (
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {cashFlow.start_date} to {cashFlow.end_date}
+              </h2>
+              <p className="text-sm text-gray-500">
+                Cash accounts: {cashFlow.cash_accounts.map(account => `${account.code} ${account.alias}`).join(', ')}
+              </p>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {view === 'direct' ? (
+                ACTIVITIES.filter(({ value }) => value !== 'unclassified' || cashFlow.direct.unclassified.lines.length > 0)
+                  .map(({ value, label }) => {
+                    const section = cashFlow.direct[value];
+                    return (
+                      <div key={value}>
+                        <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">{label}</h3>
+                        {section.lines.length === 0 ? (
+                          <div className="py-2 text-sm text-gray-500">No movements</div>
+                        ) : (
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-xs text-gray-500 uppercase">
+                                <th className="py-1 text-left font-medium">Counter account</th>
+                                <th className="py-1 text-right font-medium">Receipts</th>
+                                <th className="py-1 text-right font-medium">Payments</th>
+                                <th className="py-1 text-right font-medium">Net</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {section.lines.map(line => (
+                                <tr key={line.account_code}>
+                                  <td className="py-2 text-gray-900">
+                                    <span className="font-mono">{line.account_code}</span>
+                                    {line.account_alias && <span className="text-gray-600 ml-2">{line.account_alias}</span>}
+                                  </td>
+                                  <td className="py-2 text-right text-gray-900">{line.receipts ? formatAmount(line.receipts) : ''}</td>
+                                  <td className="py-2 text-right text-gray-900">{line.payments ? formatAmount(line.payments) : ''}</td>
+                                  <td className="py-2 text-right text-gray-900">{formatAmount(line.net)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        {totalRow(`Net cash from ${label.toLowerCase()}`, section.net, 'border-t border-gray-200')}
+                      </div>
+                    );
+                  })
+              ) : (
+                <>
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 uppercase mb-2">Operating activities</h3>
+                    {totalRow('Net profit', cashFlow.indirect.net_profit)}
+                    {cashFlow.indirect.adjustments.length > 0 && (
+                      <div className="ml-4">
+                        <div className="text-xs text-gray-500 uppercase mt-2 mb-1">
+                          Less profit recorded against non-cash accounts
+                        </div>
+                        {cashFlow.indirect.adjustments.map(adjustment => (
+                          <div key={adjustment.account_code} className="flex justify-between items-center py-2 border-b border-gray-100 text-sm">
+                            <span className="text-gray-900">
+                              <span className="font-mono">{adjustment.account_code}</span>
+                              <span className="text-gray-600 ml-2">
+                                {adjustment.account_alias || 'Unassigned'}
+                                {adjustment.account_type && ` (${adjustment.account_type})`}
+                              </span>
+                            </span>
+                            <span>{formatAmount(adjustment.amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {totalRow('Net cash from operating activities', cashFlow.indirect.operating, 'border-t border-gray-200')}
+                    {cashFlow.indirect.operating !== cashFlow.direct.operating.net && (
+                      <p className="text-xs text-red-600">
+                        Differs from the direct method ({formatAmount(cashFlow.direct.operating.net)}); check for P&amp;L postings on cash accounts.
+                      </p>
+                    )}
+                  </div>
+                  {totalRow('Net cash from investing activities', cashFlow.direct.investing.net)}
+                  {totalRow('Net cash from financing activities', cashFlow.direct.financing.net)}
+                  {cashFlow.direct.unclassified.net !== 0 &&
+                    totalRow('Movements with an unassigned counter account', cashFlow.direct.unclassified.net)}
+                </>
+              )}
+
+              <div className="border-t-2 border-gray-300 pt-4">
+                {totalRow('Net change in cash', cashFlow.net_change)}
+                {totalRow('Cash at start of period', cashFlow.opening_cash, 'font-normal text-gray-600')}
+                {totalRow('Cash at end of period', cashFlow.closing_cash, 'bg-gray-50 px-2')}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
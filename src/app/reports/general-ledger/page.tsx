@@ -0,0 +1,342 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ArrowDownTrayIcon, ArrowPathIcon, TableCellsIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import ImportBatchesModal from '@/components/ImportBatchesModal';
+import { Account, Entity, GeneralLedgerAccount } from '@/lib/database';
+
+export default function GeneralLedgerPage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [selectedAccount, setSelectedAccount] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [ledger, setLedger] = useState<GeneralLedgerAccount[]>([]);
+  const [batchAccount, setBatchAccount] = useState<Account | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Default to the current year so far
+  useEffect(() => {
+    const today = new Date();
+    setEndDate(today.toISOString().split('T')[0]);
+    setStartDate(`${today.getFullYear()}-01-01`);
+  }, []);
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+
+          // The account page links here with its entity and account preselected
+          const params = new URLSearchParams(window.location.search);
+          const requestedEntity = params.get('entity_id');
+          if (requestedEntity && data?.some(entity => String(entity.id) === requestedEntity)) {
+            setSelectedEntity(requestedEntity);
+            setSelectedAccount(params.get('account_id') || '');
+          } else if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          }
+        } else {
+          setError('Failed to load entities');
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      if (!currentUser || !selectedEntity) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch(`/api/entities/${selectedEntity}/accounts`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          setAccounts(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch accounts:', err);
+      }
+    };
+
+    fetchAccounts();
+  }, [currentUser, selectedEntity]);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams({ entity_id: selectedEntity, startDate, endDate });
+    if (selectedAccount) params.set('account_id', selectedAccount);
+    return params;
+  }, [selectedEntity, selectedAccount, startDate, endDate]);
+
+  const fetchLedger = useCallback(async () => {
+    if (!currentUser || !selectedEntity || !startDate || !endDate) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/reports/general-ledger?${buildParams()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load general ledger');
+      }
+
+      setLedger(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity, startDate, endDate, buildParams]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  // The export needs the auth header, so it is fetched and saved rather than linked
+  const handleExport = async () => {
+    if (!currentUser || !selectedEntity) return;
+
+    try {
+      setExporting(true);
+      const token = await currentUser.getIdToken();
+      const params = buildParams();
+      params.set('format', 'csv');
+      const response = await fetch(`/api/reports/general-ledger?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export general ledger');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `general-ledger-${startDate}-to-${endDate}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatAmount = (amount: number) =>
+    amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center">
+          <TableCellsIcon className="h-8 w-8 text-indigo-600 mr-3" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">General Ledger</h1>
+            <p className="text-sm text-gray-500">Every posting by account, with opening, running and closing balances</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+              <select
+                value={selectedEntity}
+                onChange={(e) => {
+                  setSelectedEntity(e.target.value);
+                  setSelectedAccount('');
+                }}
+                className={inputClass}
+              >
+                {entities.map(entity => (
+                  <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+              <select value={selectedAccount} onChange={(e) => setSelectedAccount(e.target.value)} className={inputClass}>
+                <option value="">All accounts</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.code} - {account.alias}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            </div>
+            <button
+              onClick={fetchLedger}
+              disabled={loading}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exporting || ledger.length === 0}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Export CSV'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-white rounded-lg shadow flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+            <span className="ml-3 text-gray-600">Loading report...</span>
+          </div>
+        ) : ledger.length === 0 ? (
+          <div className="bg-white rounded-lg shadow text-center py-12 text-gray-500">No postings in this period.</div>
+        ) : (
+          ledger.map(account => (
+            <div key={account.account_id} className="bg-white rounded-lg shadow">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <div>
+                  <Link href={`/accounts/${account.account_id}`} className="text-lg font-medium text-gray-900 hover:text-indigo-600">
+                    {account.code} - {account.alias}
+                  </Link>
+                  <p className="text-sm text-gray-500 capitalize">{account.account_type || 'Unclassified'} • {account.currency}</p>
+                </div>
+                <div className="text-right text-sm">
+                  <div className="text-gray-500">Closing balance</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatAmount(account.closing_balance)}</div>
+                </div>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Other Account</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  <tr className="bg-gray-50">
+                    <td className="px-6 py-2 text-sm text-gray-500 whitespace-nowrap">{startDate}</td>
+                    <td colSpan={4} className="px-6 py-2 text-sm font-medium text-gray-700">Opening balance</td>
+                    <td className="px-6 py-2 text-sm font-medium text-gray-900 text-right">{formatAmount(account.opening_balance)}</td>
+                    <td></td>
+                  </tr>
+                  {account.lines.map(line => {
+                    const batchId = line.import_batch_id ?? line.matched_import_batch_id;
+                    return (
+                      <tr key={line.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-2 text-sm text-gray-900 whitespace-nowrap">{line.fecha}</td>
+                        <td className="px-6 py-2 text-sm text-gray-900">
+                          <Link
+                            href={`/accounts/${account.account_id}?date=${line.fecha}`}
+                            className="hover:text-indigo-600"
+                          >
+                            {line.description || `Transaction #${line.id}`}
+                          </Link>
+                          {line.payee_name && <div className="text-xs text-gray-500">{line.payee_name}</div>}
+                        </td>
+                        <td className="px-6 py-2 text-sm text-gray-500">
+                          <span className="font-mono">{line.other_account_code}</span>
+                          {line.other_account_alias && ` ${line.other_account_alias}`}
+                        </td>
+                        <td className="px-6 py-2 text-sm text-gray-900 text-right">{line.debit ? formatAmount(line.debit) : ''}</td>
+                        <td className="px-6 py-2 text-sm text-gray-900 text-right">{line.credit ? formatAmount(line.credit) : ''}</td>
+                        <td className="px-6 py-2 text-sm text-gray-900 text-right">{formatAmount(line.balance)}</td>
+                        <td className="px-6 py-2 text-xs space-x-2 whitespace-nowrap">
+                          {line.journal_id && (
+                            <Link href={`/journal-entries/${line.journal_id}`} className="text-indigo-600 hover:text-indigo-900">
+                              Journal #{line.journal_id}
+                            </Link>
+                          )}
+                          {batchId && (
+                            <button
+                              onClick={() => setBatchAccount(accounts.find(item => item.id === account.account_id) || null)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              Import #{batchId}
+                            </button>
+                          )}
+                          {line.reconciliation_id && (
+                            <Link
+                              href={`/accounts/${account.account_id}/reconcile/report?session=${line.reconciliation_id}`}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              Reconciliation #{line.reconciliation_id}
+                            </Link>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot className="bg-gray-50">
+                  <tr>
+                    <td className="px-6 py-2 text-sm text-gray-500 whitespace-nowrap">{endDate}</td>
+                    <td colSpan={2} className="px-6 py-2 text-sm font-medium text-gray-700">Closing balance</td>
+                    <td className="px-6 py-2 text-sm font-medium text-gray-900 text-right">{formatAmount(account.total_debits)}</td>
+                    <td className="px-6 py-2 text-sm font-medium text-gray-900 text-right">{formatAmount(account.total_credits)}</td>
+                    <td className="px-6 py-2 text-sm font-medium text-gray-900 text-right">{formatAmount(account.closing_balance)}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          ))
+        )}
+      </div>
+
+      <ImportBatchesModal
+        isOpen={batchAccount !== null}
+        onClose={() => setBatchAccount(null)}
+        account={batchAccount}
+        onRollbackComplete={fetchLedger}
+      />
+    </DashboardLayout>
+  );
+}
@@ -10,7 +10,10 @@ import {
   ArrowTrendingDownIcon,
   ArrowTrendingUpIcon,
   ArrowPathIcon,
-  CalendarIcon
+  CalendarIcon,
+  ScaleIcon,
+  TableCellsIcon,
+  BanknotesIcon
 } from '@heroicons/react/24/outline';
 import { Account } from '@/lib/database';
 
@@ -180,7 +183,103 @@ export default function ReportsPage() {
                       Balance Sheet
                     </h4>
                     <p className="text-xs text-blue-700 mt-1">
-                      Assets, liabilities & equity with time filters
+                      Assets, liabilities & equity as of a date
+                    </p>
+                  </div>
+                </div>
+                <div className="mt-2 flex items-center text-xs text-blue-600 group-hover:text-blue-500">
+                  View Report
+                  <svg className="ml-1 h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </a>
+              <a
+                href="/reports/spending-by-payee"
+                className="group relative bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200 p-4 hover:shadow-md transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="bg-blue-500 rounded-lg p-2 mr-3">
+                    <CurrencyDollarIcon className="h-5 w-5 text-white" />
+                  </div>
+                  <div className="flex-1">
+                    <h4 className="text-sm font-medium text-blue-900 group-hover:text-blue-700">
+                      Spending by Payee
+                    </h4>
+                    <p className="text-xs text-blue-700 mt-1">
+                      Expenses grouped by counterparty
+                    </p>
+                  </div>
+                </div>
+                <div className="mt-2 flex items-center text-xs text-blue-600 group-hover:text-blue-500">
+                  View Report
+                  <svg className="ml-1 h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </a>
+              <a
+                href="/reports/trial-balance"
+                className="group relative bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200 p-4 hover:shadow-md transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="bg-blue-500 rounded-lg p-2 mr-3">
+                    <ScaleIcon className="h-5 w-5 text-white" />
+                  </div>
+                  <div className="flex-1">
+                    <h4 className="text-sm font-medium text-blue-900 group-hover:text-blue-700">
+                      Trial Balance
+                    </h4>
+                    <p className="text-xs text-blue-700 mt-1">
+                      Debits and credits per account as of a date
+                    </p>
+                  </div>
+                </div>
+                <div className="mt-2 flex items-center text-xs text-blue-600 group-hover:text-blue-500">
+                  View Report
+                  <svg className="ml-1 h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </a>
+              <a
+                href="/reports/general-ledger"
+                className="group relative bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200 p-4 hover:shadow-md transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="bg-blue-500 rounded-lg p-2 mr-3">
+                    <TableCellsIcon className="h-5 w-5 text-white" />
+                  </div>
+                  <div className="flex-1">
+                    <h4 className="text-sm font-medium text-blue-900 group-hover:text-blue-700">
+                      General Ledger
+                    </h4>
+                    <p className="text-xs text-blue-700 mt-1">
+                      Postings with running balances, exportable to CSV
+                    </p>
+                  </div>
+                </div>
+                <div className="mt-2 flex items-center text-xs text-blue-600 group-hover:text-blue-500">
+                  View Report
+                  <svg className="ml-1 h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </a>
+              <a
+                href="/reports/cash-flow"
+                className="group relative bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200 p-4 hover:shadow-md transition-all duration-200"
+              >
+                <div className="flex items-center">
+                  <div className="bg-blue-500 rounded-lg p-2 mr-3">
+                    <BanknotesIcon className="h-5 w-5 text-white" />
+                  </div>
+                  <div className="flex-1">
+                    <h4 className="text-sm font-medium text-blue-900 group-hover:text-blue-700">
+                      Cash Flow Statement
+                    </h4>
+                    <p className="text-xs text-blue-700 mt-1">
+                      Operating, investing and financing cash movements
                     </p>
                   </div>
                 </div>
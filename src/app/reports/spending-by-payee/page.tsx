@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowPathIcon, TagIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Entity, PayeeSpending } from '@/lib/database';
+
+export default function SpendingByPayeePage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [spending, setSpending] = useState<PayeeSpending[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Default to the current year so far
+  useEffect(() => {
+    const today = new Date();
+    setEndDate(today.toISOString().split('T')[0]);
+    setStartDate(`${today.getFullYear()}-01-01`);
+  }, []);
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+          if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          }
+        } else {
+          setError('Failed to load entities');
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  const fetchSpending = useCallback(async () => {
+    if (!currentUser || !selectedEntity || !startDate || !endDate) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const params = new URLSearchParams({ entity_id: selectedEntity, startDate, endDate });
+      const response = await fetch(`/api/reports/spending-by-payee?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load spending by payee');
+      }
+
+      setSpending(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity, startDate, endDate]);
+
+  useEffect(() => {
+    fetchSpending();
+  }, [fetchSpending]);
+
+  const formatAmount = (amount: number) =>
+    amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const total = spending.reduce((sum, row) => sum + row.total_amount, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center">
+          <TagIcon className="h-8 w-8 text-indigo-600 mr-3" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Spending by Payee</h1>
+            <p className="text-sm text-gray-500">Net amounts posted to expense accounts, grouped by counterparty</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+              <select
+                value={selectedEntity}
+                onChange={(e) => setSelectedEntity(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {entities.map(entity => (
+                  <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <button
+              onClick={fetchSpending}
+              disabled={loading}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+              <span className="ml-3 text-gray-600">Loading report...</span>
+            </div>
+          ) : spending.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No expenses in this period.</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Payee</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Transactions</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Share</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {spending.map(row => (
+                  <tr key={row.payee_id ?? 'none'} className="hover:bg-gray-50">
+                    <td className={`px-6 py-3 text-sm ${row.payee_id ? 'text-gray-900' : 'text-gray-500 italic'}`}>{row.payee_name}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{row.transaction_count}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatAmount(row.total_amount)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500 text-right">
+                      {total ? `${Math.round((row.total_amount / total) * 1000) / 10}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900">Total</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">
+                    {spending.reduce((sum, row) => sum + row.transaction_count, 0)}
+                  </td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatAmount(total)}</td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
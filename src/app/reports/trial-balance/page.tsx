@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowPathIcon, ExclamationTriangleIcon, ScaleIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import DashboardLayout from '@/components/DashboardLayout';
+import { Entity, TrialBalance } from '@/lib/database';
+
+export default function TrialBalancePage() {
+  const { currentUser } = useAuth();
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState('');
+  const [asOf, setAsOf] = useState(() => new Date().toISOString().split('T')[0]);
+  const [hideEmpty, setHideEmpty] = useState(false);
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      if (!currentUser) return;
+
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/entities', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (response.ok) {
+          const data: Entity[] = await response.json();
+          setEntities(data || []);
+          if (data?.length > 0) {
+            setSelectedEntity(String(data[0].id));
+          }
+        } else {
+          setError('Failed to load entities');
+        }
+      } catch (err) {
+        console.error('Failed to fetch entities:', err);
+        setError('Network error occurred');
+      }
+    };
+
+    fetchEntities();
+  }, [currentUser]);
+
+  const fetchTrialBalance = useCallback(async () => {
+    if (!currentUser || !selectedEntity || !asOf) return;
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const token = await currentUser.getIdToken();
+      const params = new URLSearchParams({ entity_id: selectedEntity, asOf });
+      const response = await fetch(`/api/reports/trial-balance?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load trial balance');
+      }
+
+      setTrialBalance(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, selectedEntity, asOf]);
+
+  useEffect(() => {
+    fetchTrialBalance();
+  }, [fetchTrialBalance]);
+
+  const formatAmount = (amount: number) =>
+    amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const rows = (trialBalance?.accounts || []).filter(
+    row => !hideEmpty || row.total_debits !== 0 || row.total_credits !== 0
+  );
+  const unexplained = trialBalance
+    ? Math.round((trialBalance.difference - trialBalance.one_sided_difference) * 100) / 100
+    : 0;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center">
+          <ScaleIcon className="h-8 w-8 text-indigo-600 mr-3" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Trial Balance</h1>
+            <p className="text-sm text-gray-500">Total debits, credits and net balance of every account as of a date</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+              <select
+                value={selectedEntity}
+                onChange={(e) => setSelectedEntity(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {entities.map(entity => (
+                  <option key={entity.id} value={entity.id}>{entity.name || entity.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+              <input
+                type="date"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <label className="flex items-center text-sm text-gray-600 pb-2">
+              <input
+                type="checkbox"
+                checked={hideEmpty}
+                onChange={(e) => setHideEmpty(e.target.checked)}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
+              />
+              Hide accounts without activity
+            </label>
+            <button
+              onClick={fetchTrialBalance}
+              disabled={loading}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {trialBalance && !loading && trialBalance.difference !== 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md space-y-2">
+            <div className="flex items-center font-medium">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+              Out of balance by {formatAmount(trialBalance.difference)}
+            </div>
+            {trialBalance.one_sided_count > 0 && (
+              <p className="text-sm">
+                {trialBalance.one_sided_count} transaction{trialBalance.one_sided_count !== 1 ? 's have' : ' has'} an
+                unassigned &apos;0&apos; side, accounting for {formatAmount(trialBalance.one_sided_difference)}.
+                Assign the missing account to bring the ledger back into balance.
+              </p>
+            )}
+            {unexplained !== 0 && (
+              <p className="text-sm">
+                The remaining {formatAmount(unexplained)} is posted to account codes that do not exist in this entity.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+              <span className="ml-3 text-gray-600">Loading report...</span>
+            </div>
+          ) : !trialBalance || rows.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No accounts for this entity.</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total Debits</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total Credits</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Debit Balance</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Credit Balance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.account_id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 text-sm font-mono text-gray-900">{row.code}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {row.alias}
+                      {!row.active && <span className="ml-2 text-xs text-gray-400">(inactive)</span>}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-500 capitalize">{row.account_type || '—'}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatAmount(row.total_debits)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatAmount(row.total_credits)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">
+                      {row.balance > 0 ? formatAmount(row.balance) : ''}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">
+                      {row.balance < 0 ? formatAmount(-row.balance) : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={3} className="px-6 py-3 text-sm font-medium text-gray-900">Total</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatAmount(trialBalance.total_debits)}</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatAmount(trialBalance.total_credits)}</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">
+                    {formatAmount(trialBalance.accounts.reduce((sum, row) => sum + Math.max(row.balance, 0), 0))}
+                  </td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">
+                    {formatAmount(trialBalance.accounts.reduce((sum, row) => sum + Math.max(-row.balance, 0), 0))}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+
+        {trialBalance && !loading && trialBalance.one_sided_transactions.length > 0 && (
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Transactions with an unassigned side</h3>
+              <p className="text-sm text-gray-500">
+                {trialBalance.one_sided_count > trialBalance.one_sided_transactions.length
+                  ? `Showing the ${trialBalance.one_sided_transactions.length} most recent of ${trialBalance.one_sided_count}`
+                  : 'Only one leg of these transactions was posted'}
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Debit Account</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Credit Account</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {trialBalance.one_sided_transactions.map(row => (
+                  <tr key={row.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 text-sm text-gray-900 whitespace-nowrap">{row.fecha}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">{row.description || `Transaction #${row.id}`}</td>
+                    <td className={`px-6 py-3 text-sm font-mono ${row.debitacc === '0' ? 'text-red-600' : 'text-gray-900'}`}>{row.debitacc}</td>
+                    <td className={`px-6 py-3 text-sm font-mono ${row.creditacc === '0' ? 'text-red-600' : 'text-gray-900'}`}>{row.creditacc}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatAmount(row.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -75,12 +75,24 @@ export default function AccountActionsMenu({ account, onAction }: AccountActions
             >
               Reconcile Account
             </button>
+            <button
+              onClick={() => handleAction('adjust-balance')}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Adjust Balance
+            </button>
             <button
               onClick={() => handleAction('import-statement')}
               className="block w-full text-left px-4 py-2 text-sm text-green-600 hover:bg-green-50"
             >
               Import Statement
             </button>
+            <button
+              onClick={() => handleAction('import-history')}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Import History
+            </button>
             {(account.incomplete_transactions_count || 0) > 0 && (
               <button
                 onClick={() => handleAction('assign-transactions')}
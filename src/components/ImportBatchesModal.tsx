@@ -0,0 +1,268 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon, ArrowUturnLeftIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import { Account, ImportBatch } from '@/lib/database';
+
+interface ImportBatchesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  account: Account | null;
+  onRollbackComplete: () => void;
+}
+
+export default function ImportBatchesModal({ isOpen, onClose, account, onRollbackComplete }: ImportBatchesModalProps) {
+  const { currentUser } = useAuth();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    if (!account || !currentUser) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/import-statement/${account.id}/batches`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setBatches(data);
+      } else {
+        setError(data.error || 'Failed to load import history');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Import history error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [account, currentUser]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage('');
+      fetchBatches();
+    }
+  }, [isOpen, fetchBatches]);
+
+  const formatCurrency = (amount: number, currency: string) => {
+    try {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: currency?.toUpperCase() || 'USD'
+      }).format(amount);
+    } catch {
+      return `${Number(amount).toFixed(2)} ${currency || ''}`;
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '';
+    try {
+      return new Date(dateString).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (!account || !currentUser) return;
+
+    const confirmed = window.confirm(
+      `Roll back import #${batch.id}? This deletes its ${batch.transaction_count} transactions and restores the balance from before the import.`
+    );
+    if (!confirmed) return;
+
+    setRollingBackId(batch.id);
+    setError('');
+    setMessage('');
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch(`/api/import-statement/${account.id}/batches/${batch.id}/rollback`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMessage(data.message);
+        await fetchBatches();
+        onRollbackComplete();
+      } else {
+        setError(data.error || 'Failed to roll back import');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Import rollback error:', err);
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  if (!account) return null;
+
+  // Only the newest active import can be undone
+  const latestActiveId = batches.find(batch => batch.status === 'imported')?.id;
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-4xl transform overflow-hidden rounded-2xl bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                  <div className="flex items-center">
+                    <DocumentTextIcon className="h-6 w-6 text-indigo-600 mr-3" />
+                    <div>
+                      <Dialog.Title className="text-xl font-bold text-gray-900">
+                        Import History
+                      </Dialog.Title>
+                      <p className="text-gray-600 text-sm mt-1">
+                        {account.alias} • {account.code}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-full p-2"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 space-y-4">
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+                      {error}
+                    </div>
+                  )}
+
+                  {message && (
+                    <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+                      {message}
+                    </div>
+                  )}
+
+                  {loading && batches.length === 0 && (
+                    <div className="flex items-center justify-center py-12">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500"></div>
+                      <span className="ml-3 text-gray-600">Loading imports...</span>
+                    </div>
+                  )}
+
+                  {!loading && !error && batches.length === 0 && (
+                    <div className="text-center py-12">
+                      <h3 className="text-lg font-medium text-gray-900 mb-2">No imports yet</h3>
+                      <p className="text-gray-500">Statements imported into this account will appear here.</p>
+                    </div>
+                  )}
+
+                  {batches.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Imported</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">File</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Transactions</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Opening</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Closing</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {batches.map(batch => (
+                            <tr key={batch.id}>
+                              <td className="px-4 py-3 text-sm text-gray-900">
+                                <div>{formatDate(batch.created_at)}</div>
+                                <div className="text-xs text-gray-500">
+                                  #{batch.id}{batch.user_email ? ` • ${batch.user_email}` : ''}
+                                </div>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-900">
+                                <div>{batch.file_name || 'Manual entry'}</div>
+                                <div className="text-xs text-gray-500">Statement {formatDate(batch.statement_date)}</div>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                                {batch.transaction_count}
+                                {batch.skipped_count > 0 && (
+                                  <div className="text-xs text-gray-500">{batch.skipped_count} skipped</div>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                                {formatCurrency(batch.opening_balance, account.currency)}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-900 text-right">
+                                {formatCurrency(batch.closing_balance, account.currency)}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-right">
+                                {batch.status === 'rolled_back' ? (
+                                  <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-600">
+                                    Rolled back {formatDate(batch.rolled_back_at)}
+                                  </span>
+                                ) : batch.id === latestActiveId ? (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRollback(batch)}
+                                    disabled={rollingBackId !== null}
+                                    className="inline-flex items-center px-3 py-1 border border-red-300 text-xs font-medium rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                                  >
+                                    <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                                    {rollingBackId === batch.id ? 'Rolling back...' : 'Roll back'}
+                                  </button>
+                                ) : (
+                                  <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                                    Imported
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -3,6 +3,7 @@
 import { Fragment, useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon, ScaleIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
 import { Account } from '@/lib/database';
 
 interface ReconcileModalProps {
@@ -13,6 +14,7 @@ interface ReconcileModalProps {
 }
 
 export default function ReconcileModal({ isOpen, onClose, account, onReconciliationComplete }: ReconcileModalProps) {
+  const { currentUser } = useAuth();
   const [bankBalance, setBankBalance] = useState('');
   const [reconciliationDate, setReconciliationDate] = useState('');
   const [description, setDescription] = useState('');
@@ -89,10 +91,12 @@ export default function ReconcileModal({ isOpen, onClose, account, onReconciliat
         return;
       }
 
+      const token = currentUser ? await currentUser.getIdToken() : null;
       const response = await fetch(`/api/reconcile/${account.id}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
         },
         body: JSON.stringify({
           bankBalance: bankAmount,
@@ -7,22 +7,30 @@ import {
   UserGroupIcon,
   ChartBarIcon,
   CurrencyDollarIcon,
-  BuildingOfficeIcon
+  BuildingOfficeIcon,
+  BookOpenIcon,
+  AdjustmentsHorizontalIcon,
+  TagIcon,
+  ClipboardDocumentListIcon
 } from '@heroicons/react/24/outline';
 
 const navigation = [
   { name: 'Dashboard', href: '/home', icon: HomeIcon },
   { name: 'Entities', href: '/entities', icon: BuildingOfficeIcon },
   { name: 'Accounts', href: '/accounts', icon: UserGroupIcon },
+  { name: 'Journal Entries', href: '/journal-entries', icon: BookOpenIcon },
+  { name: 'Categorization Rules', href: '/categorization-rules', icon: AdjustmentsHorizontalIcon },
+  { name: 'Payees', href: '/payees', icon: TagIcon },
   { name: 'Profit & Loss', href: '/profit-loss', icon: CurrencyDollarIcon },
   { name: 'Reports', href: '/reports', icon: ChartBarIcon },
+  { name: 'Audit Log', href: '/audit-log', icon: ClipboardDocumentListIcon },
 ];
 
 export default function Sidebar() {
   const pathname = usePathname();
 
   return (
-    <div className="flex flex-col w-64 bg-white shadow-lg">
+    <div className="flex flex-col w-64 bg-white shadow-lg print:hidden">
       <div className="flex items-center justify-center h-16 px-4 bg-indigo-600">
         <h1 className="text-xl font-bold text-white">RemeSafe</h1>
       </div>
@@ -15,7 +15,19 @@ import {
   ArrowRightIcon,
   ArrowLeftIcon
 } from '@heroicons/react/24/outline';
-import { Account, StatementTransaction } from '@/lib/database';
+import {
+  Account,
+  BankStatement,
+  ImportColumnRole,
+  ImportProfile,
+  ImportProfileInput,
+  StatementDuplicate,
+  StatementMatch,
+  StatementTransaction
+} from '@/lib/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { isOfxContent, parseOfxStatement } from '@/lib/statement-parsers/ofx';
+import { IMPORT_DATE_FORMATS, parseCsvAmount, parseCsvDate } from '@/lib/statement-parsers/csv';
 import Papa from 'papaparse';
 
 interface StatementImportModalProps {
@@ -29,10 +41,23 @@ type ImportStep = 'upload' | 'review' | 'success';
 
 interface CSVColumn {
   name: string;
-  mapping: 'date' | 'description' | 'amount' | 'type' | 'ignore';
+  mapping: ImportColumnRole;
 }
 
+type CSVOptions = Pick<ImportProfile, 'date_format' | 'decimal_separator' | 'thousands_separator' | 'sign_convention' | 'skip_rows'>;
+
+const DEFAULT_CSV_OPTIONS: CSVOptions = {
+  date_format: 'auto',
+  decimal_separator: '.',
+  thousands_separator: ',',
+  sign_convention: 'positive_increases',
+  skip_rows: 0
+};
+
+const BANK_FILE_EXTENSIONS = ['xml', 'sta', 'mt940', '940', 'txt'];
+
 export default function StatementImportModal({ isOpen, onClose, account, onImportComplete }: StatementImportModalProps) {
+  const { currentUser } = useAuth();
   const [currentStep, setCurrentStep] = useState<ImportStep>('upload');
   const [statementDate, setStatementDate] = useState('');
   const [openingBalance, setOpeningBalance] = useState('');
@@ -51,6 +76,17 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
   const [csvData, setCsvData] = useState<string[][]>([]);
   const [csvColumns, setCsvColumns] = useState<CSVColumn[]>([]);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [csvRawData, setCsvRawData] = useState<string[][]>([]);
+  const [csvOptions, setCsvOptions] = useState<CSVOptions>(DEFAULT_CSV_OPTIONS);
+  // Saved column-mapping profiles
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  // Suspected duplicates keyed by review transaction id
+  const [duplicates, setDuplicates] = useState<Record<string, StatementDuplicate>>({});
+  // Suggested existing ledger entries keyed by review transaction id
+  const [matches, setMatches] = useState<Record<string, StatementMatch>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Initialize form
@@ -66,11 +102,54 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
       setCsvData([]);
       setCsvColumns([]);
       setCsvHeaders([]);
+      setCsvRawData([]);
+      setCsvOptions(DEFAULT_CSV_OPTIONS);
+      setSelectedProfileId(null);
+      setProfileName('');
+      setDuplicates({});
+      setMatches({});
       setError('');
       setSuccess(null);
     }
   }, [isOpen, account]);
 
+  // Load saved profiles and preselect the most recent one for this account's bank
+  useEffect(() => {
+    if (!isOpen || !account || !currentUser) return;
+
+    const loadProfiles = async () => {
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch('/api/import-profiles', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok) return;
+
+        const data: ImportProfile[] = await response.json();
+        setProfiles(data);
+
+        const bankProfile = account.bankID !== null
+          ? data.find(profile => profile.bank_id === account.bankID)
+          : undefined;
+        if (bankProfile) {
+          setSelectedProfileId(bankProfile.id);
+          setProfileName(bankProfile.name);
+          setCsvOptions({
+            date_format: bankProfile.date_format,
+            decimal_separator: bankProfile.decimal_separator,
+            thousands_separator: bankProfile.thousands_separator,
+            sign_convention: bankProfile.sign_convention,
+            skip_rows: bankProfile.skip_rows
+          });
+        }
+      } catch (err) {
+        console.error('Error loading import profiles:', err);
+      }
+    };
+
+    loadProfiles();
+  }, [isOpen, account, currentUser]);
+
   const createEmptyTransaction = (): StatementTransaction => ({
     id: Math.random().toString(36).substr(2, 9),
     date: statementDate || new Date().toISOString().split('T')[0],
@@ -139,30 +218,192 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
     ));
   };
 
+  // Flag rows that already exist in the ledger; they default to being skipped.
+  // Duplicate indexes refer to the list that was sent to the server.
+  const flagDuplicates = (
+    checkedTransactions: StatementTransaction[],
+    found: StatementDuplicate[],
+    previous: Record<string, StatementDuplicate> = {}
+  ) => {
+    const byId: Record<string, StatementDuplicate> = { ...previous };
+    found.forEach(duplicate => {
+      const txn = checkedTransactions[duplicate.index];
+      if (txn?.id) byId[txn.id] = duplicate;
+    });
+
+    setDuplicates(byId);
+    setTransactions(current => current.map(txn =>
+      txn.id && byId[txn.id] ? { ...txn, duplicate_action: txn.duplicate_action || 'skip' } : txn
+    ));
+  };
+
+  const checkDuplicates = async (reviewTransactions: StatementTransaction[]) => {
+    if (!account) return;
+
+    try {
+      const token = currentUser ? await currentUser.getIdToken() : null;
+      const response = await fetch(`/api/import-statement/${account.id}/duplicates`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          transactions: reviewTransactions.map(txn => ({ ...txn, amount: Math.abs(txn.amount) }))
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        flagDuplicates(reviewTransactions, data.duplicates || []);
+      }
+    } catch (err) {
+      // The import itself re-checks for duplicates, so a failed pre-check is not fatal
+      console.error('Duplicate check error:', err);
+    }
+  };
+
+  // Suggestions are only proposals; a line is linked once the user accepts it
+  const checkMatches = async (reviewTransactions: StatementTransaction[]) => {
+    if (!account) return;
+
+    try {
+      const token = currentUser ? await currentUser.getIdToken() : null;
+      const response = await fetch(`/api/import-statement/${account.id}/matches`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          transactions: reviewTransactions.map(txn => ({ ...txn, amount: Math.abs(txn.amount) }))
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const byId: Record<string, StatementMatch> = {};
+        (data.matches as StatementMatch[] || []).forEach(match => {
+          const txn = reviewTransactions[match.index];
+          if (txn?.id) byId[txn.id] = match;
+        });
+        setMatches(byId);
+      }
+    } catch (err) {
+      console.error('Match suggestion error:', err);
+    }
+  };
+
+  const linkMatch = (id: string, transactionId: number | undefined) => {
+    setTransactions(current => current.map(txn =>
+      txn.id === id ? { ...txn, match_transaction_id: transactionId } : txn
+    ));
+  };
+
+  const showReview = (reviewTransactions: StatementTransaction[]) => {
+    setDuplicates({});
+    setMatches({});
+    setTransactions(reviewTransactions);
+    setCurrentStep('review');
+    checkDuplicates(reviewTransactions);
+    checkMatches(reviewTransactions);
+  };
+
+  // OFX/QFX files carry their own balances and dates, so they skip column mapping
+  const handleOfxUpload = async (file: File) => {
+    try {
+      const content = await file.text();
+      const parsed = parseOfxStatement(content, account?.account_type);
+
+      if (parsed.currency && account?.currency && parsed.currency.toUpperCase() !== account.currency.toUpperCase()) {
+        setError(`Statement currency (${parsed.currency}) does not match account currency (${account.currency})`);
+        return;
+      }
+
+      setCsvHeaders([]);
+      setCsvData([]);
+      setCsvColumns([]);
+      setStatementDate(parsed.statementDate);
+      setOpeningBalance(parsed.openingBalance.toString());
+      setClosingBalance(parsed.closingBalance.toString());
+      showReview(parsed.transactions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to parse OFX file');
+    }
+  };
+
+  // camt.053 and MT940 files are parsed server-side, which also checks the account currency
+  const handleBankFileUpload = async (file: File) => {
+    if (!account) return;
+
+    setIsSubmitting(true);
+    try {
+      const token = currentUser ? await currentUser.getIdToken() : null;
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/import-statement/${account.id}/upload`, {
+        method: 'POST',
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to parse statement file');
+        return;
+      }
+
+      const statement = data.statement as BankStatement;
+      const debitIncreasesBalance = account.account_type === 'asset' || account.account_type === 'expense';
+
+      setCsvHeaders([]);
+      setCsvData([]);
+      setCsvColumns([]);
+      setStatementDate(statement.statementDate);
+      setOpeningBalance(statement.openingBalance.toString());
+      setClosingBalance(statement.closingBalance.toString());
+      // The review step works with amounts signed by their effect on the account balance
+      showReview(statement.transactions.map(txn => ({
+        ...txn,
+        id: Math.random().toString(36).substr(2, 9),
+        amount: (txn.type === 'debit') === debitIncreasesBalance ? txn.amount : -txn.amount
+      })));
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Statement upload error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // CSV handling functions
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setCsvFile(file);
     setError('');
 
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'ofx' || extension === 'qfx' || (extension !== 'csv' && isOfxContent(await file.text()))) {
+      await handleOfxUpload(file);
+      return;
+    }
+
+    if (extension && BANK_FILE_EXTENSIONS.includes(extension)) {
+      await handleBankFileUpload(file);
+      return;
+    }
+
     Papa.parse(file, {
       complete: (results) => {
         if (results.data && results.data.length > 0) {
           const data = results.data as string[][];
-          const headers = data[0];
-          const rows = data.slice(1).filter(row => row.some(cell => cell.trim() !== ''));
-
-          setCsvHeaders(headers);
-          setCsvData(rows);
-
-          // Initialize column mappings with smart guessing
-          const columns: CSVColumn[] = headers.map(header => ({
-            name: header,
-            mapping: guessColumnType(header)
-          }));
-          setCsvColumns(columns);
+          setCsvRawData(data);
+          applyCsvLayout(data, csvOptions.skip_rows, profiles.find(profile => profile.id === selectedProfileId));
         }
       },
       header: false,
@@ -170,10 +411,107 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
     });
   };
 
+  // Split the raw CSV into header and data rows, then map columns from the profile or by guessing
+  const applyCsvLayout = (data: string[][], skipRows: number, profile?: ImportProfile) => {
+    const headers = data[skipRows] || [];
+    const rows = data.slice(skipRows + 1).filter(row => row.some(cell => cell.trim() !== ''));
+
+    setCsvHeaders(headers);
+    setCsvData(rows);
+
+    const columns: CSVColumn[] = headers.map((header, index) => {
+      if (profile) {
+        // Match by header name; fall back to position for exports without stable headers
+        const byName = profile.column_roles.find(column =>
+          column.header.trim().toLowerCase() === header.trim().toLowerCase()
+        );
+        return { name: header, mapping: (byName || profile.column_roles[index])?.role || 'ignore' };
+      }
+      return { name: header, mapping: guessColumnType(header) };
+    });
+    setCsvColumns(columns);
+  };
+
+  const selectProfile = (profileId: number | null) => {
+    const profile = profiles.find(p => p.id === profileId);
+    setSelectedProfileId(profile ? profile.id : null);
+    setProfileName(profile ? profile.name : '');
+
+    const options = profile ? {
+      date_format: profile.date_format,
+      decimal_separator: profile.decimal_separator,
+      thousands_separator: profile.thousands_separator,
+      sign_convention: profile.sign_convention,
+      skip_rows: profile.skip_rows
+    } : csvOptions;
+    setCsvOptions(options);
+
+    if (csvRawData.length > 0) {
+      applyCsvLayout(csvRawData, options.skip_rows, profile);
+    }
+  };
+
+  const updateSkipRows = (skipRows: number) => {
+    const value = Math.max(0, Math.min(100, skipRows || 0));
+    setCsvOptions(prev => ({ ...prev, skip_rows: value }));
+    if (csvRawData.length > 0) {
+      applyCsvLayout(csvRawData, value, profiles.find(profile => profile.id === selectedProfileId));
+    }
+  };
+
+  // Save the current mapping as a profile for this account's bank (updates the selected profile)
+  const saveProfile = async (asNew: boolean) => {
+    if (!account || !currentUser) return;
+
+    if (!profileName.trim()) {
+      setError('Please enter a profile name');
+      return;
+    }
+
+    const payload: ImportProfileInput = {
+      name: profileName.trim(),
+      bank_id: account.bankID,
+      column_roles: csvColumns.map(column => ({ header: column.name, role: column.mapping })),
+      ...csvOptions
+    };
+
+    setIsSavingProfile(true);
+    setError('');
+    try {
+      const token = await currentUser.getIdToken();
+      const isUpdate = !asNew && selectedProfileId !== null;
+      const response = await fetch(isUpdate ? `/api/import-profiles/${selectedProfileId}` : '/api/import-profiles', {
+        method: isUpdate ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to save import profile');
+        return;
+      }
+
+      const saved = data as ImportProfile;
+      setProfiles(prev => [saved, ...prev.filter(profile => profile.id !== saved.id)]);
+      setSelectedProfileId(saved.id);
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Save import profile error:', err);
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
   const guessColumnType = (header: string): CSVColumn['mapping'] => {
     const h = header.toLowerCase();
     if (h.includes('date') || h.includes('fecha')) return 'date';
     if (h.includes('description') || h.includes('desc') || h.includes('detail')) return 'description';
+    if (h.includes('withdrawal') || h.includes('cargo') || h.includes('money out')) return 'debit_amount';
+    if (h.includes('deposit') || h.includes('abono') || h.includes('money in')) return 'credit_amount';
     if (h.includes('amount') || h.includes('value') || h.includes('monto')) return 'amount';
     if (h.includes('type') || h.includes('debit') || h.includes('credit')) return 'type';
     return 'ignore';
@@ -191,69 +529,41 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
     const dateIndex = csvColumns.findIndex(col => col.mapping === 'date');
     const descriptionIndex = csvColumns.findIndex(col => col.mapping === 'description');
     const amountIndex = csvColumns.findIndex(col => col.mapping === 'amount');
+    const debitAmountIndex = csvColumns.findIndex(col => col.mapping === 'debit_amount');
+    const creditAmountIndex = csvColumns.findIndex(col => col.mapping === 'credit_amount');
     const typeIndex = csvColumns.findIndex(col => col.mapping === 'type');
+    const hasSplitAmounts = debitAmountIndex !== -1 && creditAmountIndex !== -1;
 
-    if (dateIndex === -1 || descriptionIndex === -1 || amountIndex === -1) {
-      setError('Please map at least Date, Description, and Amount columns');
+    if (dateIndex === -1 || descriptionIndex === -1 || (amountIndex === -1 && !hasSplitAmounts)) {
+      setError('Please map at least Date, Description, and Amount (or both Debit and Credit amount) columns');
       return;
     }
 
-    // Helper function to parse date from various formats
-    const parseDate = (dateStr: string): string => {
-      if (!dateStr) return statementDate;
-
-      // Try DD/MM/YYYY format first (common in CSV exports)
-      const ddmmyyyy = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-      if (ddmmyyyy) {
-        const [, day, month, year] = ddmmyyyy;
-        return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-      }
+    // Unparseable dates fall back to the statement date
+    const parseDate = (dateStr: string): string => parseCsvDate(dateStr, csvOptions.date_format) || statementDate;
 
-      // Try MM/DD/YYYY format
-      const mmddyyyy = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-      if (mmddyyyy) {
-        const [, month, day, year] = mmddyyyy;
-        return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-      }
+    const accountType = account?.account_type;
+    // DEBIT increases: Assets, Expenses
+    // CREDIT increases: Liabilities, Equity, Income
+    const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
 
-      // Try YYYY-MM-DD format (already correct)
-      if (dateStr.match(/^\d{4}-\d{2}-\d{2}$/)) {
-        return dateStr;
-      }
+    const parseAmount = (value: string) =>
+      parseCsvAmount(value, csvOptions.decimal_separator, csvOptions.thousands_separator);
 
-      // Try to parse with Date constructor and format
-      try {
-        const date = new Date(dateStr);
-        if (!isNaN(date.getTime())) {
-          return date.toISOString().split('T')[0];
+    const parsedTransactions: StatementTransaction[] = csvData.map((row, index) => {
+      // Amounts are signed by their effect on the account balance
+      let signedAmount: number;
+      if (amountIndex !== -1) {
+        signedAmount = parseAmount(row[amountIndex] || '0');
+        if (csvOptions.sign_convention === 'positive_decreases') {
+          signedAmount = -signedAmount;
         }
-      } catch (e) {
-        // Ignore parsing errors
+      } else {
+        // Separate columns report money out (debit) and money in (credit) from the bank's side
+        const moneyIn = Math.abs(parseAmount(row[creditAmountIndex] || '0')) - Math.abs(parseAmount(row[debitAmountIndex] || '0'));
+        signedAmount = debitIncreasesBalance ? moneyIn : -moneyIn;
       }
 
-      // Fallback to statement date
-      return statementDate;
-    };
-
-    const parsedTransactions: StatementTransaction[] = csvData.map((row, index) => {
-      // Clean amount string by removing commas, currency symbols, and other non-numeric characters
-      // except decimal point and minus sign
-      const cleanAmount = (amountStr: string): string => {
-        return amountStr.replace(/[^\d.-]/g, '');
-      };
-
-      const cleanedAmountStr = cleanAmount(row[amountIndex] || '0');
-      const signedAmount = parseFloat(cleanedAmountStr) || 0;
-
-      // Determine transaction type based on account type and amount sign
-      // DEBIT increases: Assets, Expenses
-      // CREDIT increases: Liabilities, Equity, Income
-
-      const accountType = account?.account_type;
-
-      console.log('Account Type:', accountType);
-      const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
-
       let type: 'debit' | 'credit';
 
       if (typeIndex !== -1) {
@@ -288,8 +598,7 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
       };
     });
 
-    setTransactions(parsedTransactions);
-    setCurrentStep('review');
+    showReview(parsedTransactions);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -323,16 +632,27 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
         amount: Math.abs(txn.amount)
       }));
 
+      // The file hash lets the server refuse a file that was already imported
+      let fileHash: string | undefined;
+      if (csvFile) {
+        const digest = await crypto.subtle.digest('SHA-256', await csvFile.arrayBuffer());
+        fileHash = Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+      }
+
+      const token = currentUser ? await currentUser.getIdToken() : null;
       const response = await fetch(`/api/import-statement/${account.id}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
         },
         body: JSON.stringify({
           statementDate,
           openingBalance: parseFloat(openingBalance),
           closingBalance: parseFloat(closingBalance),
-          transactions: transactionsForSubmit
+          transactions: transactionsForSubmit,
+          fileName: csvFile?.name,
+          fileHash
         }),
       });
 
@@ -342,6 +662,9 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
         setSuccess(data);
         setCurrentStep('success');
         onImportComplete();
+      } else if (response.status === 409 && data.duplicates) {
+        flagDuplicates(validTransactions, data.duplicates, duplicates);
+        setError(data.error || 'Some transactions may already exist. Review them and import again.');
       } else {
         setError(data.error || 'Failed to import statement');
       }
@@ -401,7 +724,7 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
                         Import Bank Statement
                       </Dialog.Title>
                       <p className="text-sm text-gray-500">
-                        {currentStep === 'upload' && 'Step 1: Upload CSV & Map Columns'}
+                        {currentStep === 'upload' && 'Step 1: Upload Statement & Map Columns'}
                         {currentStep === 'review' && 'Step 2: Review & Edit Transactions'}
                         {currentStep === 'success' && 'Import Complete'}
                       </p>
@@ -478,10 +801,10 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
                           <div className="mt-4">
                             <label htmlFor="file-upload" className="cursor-pointer">
                               <span className="mt-2 block text-sm font-medium text-gray-900">
-                                Upload CSV Bank Statement
+                                Upload Bank Statement
                               </span>
                               <span className="mt-1 block text-sm text-gray-500">
-                                CSV files up to 10MB
+                                CSV, OFX/QFX, camt.053 XML or MT940 files up to 10MB
                               </span>
                             </label>
                             <input
@@ -489,7 +812,7 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
                               id="file-upload"
                               name="file-upload"
                               type="file"
-                              accept=".csv"
+                              accept=".csv,.ofx,.qfx,.xml,.sta,.mt940,.940,.txt"
                               className="sr-only"
                               onChange={handleFileUpload}
                             />
@@ -498,9 +821,10 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
                             <button
                               type="button"
                               onClick={() => fileInputRef.current?.click()}
+                              disabled={isSubmitting}
                               className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
                             >
-                              Choose CSV File
+                              Choose File
                             </button>
                           </div>
                         </div>
@@ -515,9 +839,142 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
                       </div>
 
                       {/* Column Mapping */}
-                      {csvHeaders.length > 0 && (
+                      {csvRawData.length > 0 && (
                         <div className="space-y-4">
                           <h3 className="text-lg font-medium text-gray-900">Map CSV Columns</h3>
+
+                          {/* Saved profile and file layout */}
+                          <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <div>
+                                <label htmlFor="importProfile" className="block text-xs font-medium text-gray-700">
+                                  Mapping Profile
+                                </label>
+                                <select
+                                  id="importProfile"
+                                  value={selectedProfileId ?? ''}
+                                  onChange={(e) => selectProfile(e.target.value ? parseInt(e.target.value) : null)}
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                  <option value="">No profile</option>
+                                  {profiles.map(profile => (
+                                    <option key={profile.id} value={profile.id}>
+                                      {profile.name}{profile.bank_id !== null && profile.bank_id === account.bankID ? ' (this bank)' : ''}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                              <div>
+                                <label htmlFor="dateFormat" className="block text-xs font-medium text-gray-700">
+                                  Date Format
+                                </label>
+                                <select
+                                  id="dateFormat"
+                                  value={csvOptions.date_format}
+                                  onChange={(e) => setCsvOptions({ ...csvOptions, date_format: e.target.value as CSVOptions['date_format'] })}
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                  {IMPORT_DATE_FORMATS.map(format => (
+                                    <option key={format} value={format}>{format === 'auto' ? 'Detect automatically' : format}</option>
+                                  ))}
+                                </select>
+                              </div>
+                              <div>
+                                <label htmlFor="skipRows" className="block text-xs font-medium text-gray-700">
+                                  Rows to Skip Before Header
+                                </label>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  id="skipRows"
+                                  value={csvOptions.skip_rows}
+                                  onChange={(e) => updateSkipRows(parseInt(e.target.value))}
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                              </div>
+                              <div>
+                                <label htmlFor="decimalSeparator" className="block text-xs font-medium text-gray-700">
+                                  Decimal Separator
+                                </label>
+                                <select
+                                  id="decimalSeparator"
+                                  value={csvOptions.decimal_separator}
+                                  onChange={(e) => setCsvOptions({ ...csvOptions, decimal_separator: e.target.value as CSVOptions['decimal_separator'] })}
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                  <option value=".">Period (1234.56)</option>
+                                  <option value=",">Comma (1234,56)</option>
+                                </select>
+                              </div>
+                              <div>
+                                <label htmlFor="thousandsSeparator" className="block text-xs font-medium text-gray-700">
+                                  Thousands Separator
+                                </label>
+                                <select
+                                  id="thousandsSeparator"
+                                  value={csvOptions.thousands_separator}
+                                  onChange={(e) => setCsvOptions({ ...csvOptions, thousands_separator: e.target.value as CSVOptions['thousands_separator'] })}
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                  <option value="">None</option>
+                                  <option value=",">Comma (1,234)</option>
+                                  <option value=".">Period (1.234)</option>
+                                  <option value=" ">Space (1 234)</option>
+                                  <option value="'">Apostrophe (1&apos;234)</option>
+                                </select>
+                              </div>
+                              <div>
+                                <label htmlFor="signConvention" className="block text-xs font-medium text-gray-700">
+                                  Positive Amounts
+                                </label>
+                                <select
+                                  id="signConvention"
+                                  value={csvOptions.sign_convention}
+                                  onChange={(e) => setCsvOptions({ ...csvOptions, sign_convention: e.target.value as CSVOptions['sign_convention'] })}
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                  <option value="positive_increases">Increase the account balance</option>
+                                  <option value="positive_decreases">Decrease the account balance</option>
+                                </select>
+                              </div>
+                            </div>
+
+                            <div className="flex flex-col md:flex-row md:items-end gap-3">
+                              <div className="flex-1">
+                                <label htmlFor="profileName" className="block text-xs font-medium text-gray-700">
+                                  Profile Name
+                                </label>
+                                <input
+                                  type="text"
+                                  id="profileName"
+                                  value={profileName}
+                                  onChange={(e) => setProfileName(e.target.value)}
+                                  placeholder="e.g. Banco de Chile checking"
+                                  className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                              </div>
+                              {selectedProfileId !== null && (
+                                <button
+                                  type="button"
+                                  onClick={() => saveProfile(false)}
+                                  disabled={isSavingProfile}
+                                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                  Update Profile
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => saveProfile(true)}
+                                disabled={isSavingProfile}
+                                className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200 disabled:opacity-50"
+                              >
+                                {isSavingProfile ? 'Saving...' : 'Save as New Profile'}
+                              </button>
+                            </div>
+                          </div>
+
                           <div className="space-y-3">
                             {csvColumns.map((column, index) => (
                               <div key={index} className="grid grid-cols-2 gap-4 items-center">
@@ -533,6 +990,8 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
                                   <option value="date">Date</option>
                                   <option value="description">Description</option>
                                   <option value="amount">Amount</option>
+                                  <option value="debit_amount">Debit Amount (money out)</option>
+                                  <option value="credit_amount">Credit Amount (money in)</option>
                                   <option value="type">Transaction Type</option>
                                 </select>
                               </div>
@@ -541,7 +1000,7 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
 
                           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                             <p className="text-sm text-blue-800">
-                              <strong>Required:</strong> Date, Description, and Amount columns must be mapped.
+                              <strong>Required:</strong> Date, Description, and Amount (or separate Debit and Credit amount) columns must be mapped.
                               <br />
                               <strong>Amount Sign:</strong> Positive amounts increase the account, negative amounts decrease it.
                               <br />
@@ -670,6 +1129,58 @@ export default function StatementImportModal({ isOpen, onClose, account, onImpor
                                       placeholder="Transaction description"
                                       className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
                                     />
+                                    {transaction.bank_transaction_id && (
+                                      <p className="mt-1 text-xs text-gray-400">Bank ref: {transaction.bank_transaction_id}</p>
+                                    )}
+                                    {transaction.id && matches[transaction.id] && (
+                                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                                        {transaction.match_transaction_id ? (
+                                          <span className="inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                                            <CheckCircleIcon className="h-3 w-3 mr-1" />
+                                            Linked to #{transaction.match_transaction_id}
+                                          </span>
+                                        ) : (
+                                          <span
+                                            className="inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800"
+                                            title={`Amount ${Math.round(matches[transaction.id].score.amount * 100)}%, date ${Math.round(matches[transaction.id].score.date * 100)}%, description ${Math.round(matches[transaction.id].score.description * 100)}%`}
+                                          >
+                                            Suggested match #{matches[transaction.id].existingTransaction.id}
+                                            {' '}({matches[transaction.id].existingTransaction.fecha}, {matches[transaction.id].existingTransaction.name})
+                                            {' '}– {matches[transaction.id].score.total}%
+                                          </span>
+                                        )}
+                                        <button
+                                          type="button"
+                                          onClick={() => linkMatch(
+                                            transaction.id!,
+                                            transaction.match_transaction_id ? undefined : matches[transaction.id!].existingTransaction.id
+                                          )}
+                                          className="px-2 py-0.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                                        >
+                                          {transaction.match_transaction_id ? 'Unlink' : 'Link'}
+                                        </button>
+                                      </div>
+                                    )}
+                                    {transaction.id && duplicates[transaction.id] && !transaction.match_transaction_id && (
+                                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                                        <span
+                                          className="inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                                          title={duplicates[transaction.id].matchType === 'bank_transaction_id' ? 'Same bank reference' : 'Same amount, similar date and description'}
+                                        >
+                                          <ExclamationTriangleIcon className="h-3 w-3 mr-1" />
+                                          Possible duplicate of #{duplicates[transaction.id].existingTransaction.id}
+                                          {' '}({duplicates[transaction.id].existingTransaction.fecha}, {duplicates[transaction.id].existingTransaction.name})
+                                        </span>
+                                        <select
+                                          value={transaction.duplicate_action || 'skip'}
+                                          onChange={(e) => updateTransaction(transaction.id!, 'duplicate_action', e.target.value)}
+                                          className="px-2 py-0.5 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                        >
+                                          <option value="skip">Skip</option>
+                                          <option value="import">Import anyway</option>
+                                        </select>
+                                      </div>
+                                    )}
                                   </div>
                                   <div>
                                     <label className="block text-xs font-medium text-gray-700">Type</label>
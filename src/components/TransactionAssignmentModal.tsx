@@ -7,9 +7,18 @@ import {
   CheckCircleIcon,
   ExclamationTriangleIcon,
   CurrencyDollarIcon,
-  BuildingOfficeIcon
+  BuildingOfficeIcon,
+  PlusIcon,
+  TrashIcon,
+  SparklesIcon
 } from '@heroicons/react/24/outline';
-import { Account, Transaction } from '@/lib/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { Account, AccountSuggestion, Transaction } from '@/lib/database';
+
+interface SplitLine {
+  accountCode: string;
+  amount: string;
+}
 
 interface TransactionAssignmentModalProps {
   isOpen: boolean;
@@ -26,6 +35,7 @@ export default function TransactionAssignmentModal({
   onAssignmentComplete,
   accountCode
 }: TransactionAssignmentModalProps) {
+  const { currentUser } = useAuth();
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [filteredAccounts, setFilteredAccounts] = useState<Account[]>([]);
   const [selectedAccountCode, setSelectedAccountCode] = useState('');
@@ -38,11 +48,13 @@ export default function TransactionAssignmentModal({
   const [incompleteTransactions, setIncompleteTransactions] = useState<Transaction[]>([]);
   const [currentTransactionIndex, setCurrentTransactionIndex] = useState(0);
   const [isLoadingNext, setIsLoadingNext] = useState(false);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([]);
+  const [suggestions, setSuggestions] = useState<AccountSuggestion[]>([]);
 
   // Load accounts and incomplete transactions when modal opens
   useEffect(() => {
     if (isOpen && accountCode) {
-      fetchAccounts();
       fetchIncompleteTransactions();
       setSelectedAccountCode('');
       setSelectedAccountType('');
@@ -60,9 +72,39 @@ export default function TransactionAssignmentModal({
       setIsDebitAccount(currentTransaction.debitacc === '0');
       setError('');
       setSelectedAccountCode('');
+      setIsSplitting(false);
+      setSplitLines([]);
     }
   }, [currentTransactionIndex, incompleteTransactions]);
 
+  // Suggest counter accounts from how similar transactions were booked
+  const currentTransactionId = incompleteTransactions[currentTransactionIndex]?.id;
+  useEffect(() => {
+    setSuggestions([]);
+    if (!currentTransactionId || !currentUser) return;
+
+    let cancelled = false;
+    const fetchSuggestions = async () => {
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch(`/api/account-suggestions?transaction_id=${currentTransactionId}&limit=5`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (response.ok && !cancelled) {
+          const data = await response.json();
+          setSuggestions(data.suggestions || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch account suggestions:', err);
+      }
+    };
+
+    fetchSuggestions();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTransactionId, currentUser]);
+
   // Filter accounts when search term or account type changes
   useEffect(() => {
     let filtered = accounts;
@@ -81,22 +123,31 @@ export default function TransactionAssignmentModal({
     setFilteredAccounts(filtered);
   }, [accounts, selectedAccountType, searchTerm]);
 
-  const fetchAccounts = async () => {
-    try {
-      const response = await fetch('/api/accounts-for-assignment');
-      const data = await response.json();
-
-      if (response.ok) {
-        setAccounts(data.accounts);
-        setFilteredAccounts(data.accounts);
-      } else {
-        setError(data.error || 'Failed to load accounts');
+  // Accounts are scoped to the current transaction's entity, most used first
+  useEffect(() => {
+    if (!currentTransactionId || !currentUser) return;
+
+    const fetchAccounts = async () => {
+      try {
+        const token = await currentUser.getIdToken();
+        const response = await fetch(`/api/accounts-for-assignment?transaction_id=${currentTransactionId}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const data = await response.json();
+
+        if (response.ok) {
+          setAccounts(data.accounts);
+        } else {
+          setError(data.error || 'Failed to load accounts');
+        }
+      } catch (err) {
+        setError('Network error occurred');
+        console.error('Failed to fetch accounts:', err);
       }
-    } catch (err) {
-      setError('Network error occurred');
-      console.error('Failed to fetch accounts:', err);
-    }
-  };
+    };
+
+    fetchAccounts();
+  }, [currentTransactionId, currentUser]);
 
   const fetchIncompleteTransactions = async () => {
     if (!accountCode) return;
@@ -118,20 +169,23 @@ export default function TransactionAssignmentModal({
 
   const handleAssignment = async () => {
     const currentTransaction = incompleteTransactions[currentTransactionIndex];
-    if (!currentTransaction || !selectedAccountCode) return;
+    const assignedAccount = accounts.find(account => account.code === selectedAccountCode);
+    if (!currentTransaction || !assignedAccount) return;
 
     setIsSubmitting(true);
     setError('');
 
     try {
+      const token = currentUser ? await currentUser.getIdToken() : null;
       const response = await fetch('/api/assign-account', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
         },
         body: JSON.stringify({
           transactionId: currentTransaction.id,
-          assignedAccountCode: selectedAccountCode,
+          assignedAccountId: assignedAccount.id,
           isDebitAccount: isDebitAccount
         }),
       });
@@ -139,28 +193,7 @@ export default function TransactionAssignmentModal({
       const data = await response.json();
 
       if (response.ok) {
-        setSuccess(true);
-        onAssignmentComplete();
-
-        // Remove assigned transaction from the list
-        const updatedTransactions = incompleteTransactions.filter((_, index) => index !== currentTransactionIndex);
-        setIncompleteTransactions(updatedTransactions);
-
-        // Move to next transaction or close if no more
-        if (updatedTransactions.length === 0) {
-          setTimeout(() => {
-            onClose();
-          }, 1500);
-        } else {
-          // Adjust index if we're at the end of the list
-          const nextIndex = currentTransactionIndex >= updatedTransactions.length ? 0 : currentTransactionIndex;
-
-          setTimeout(() => {
-            setCurrentTransactionIndex(nextIndex);
-            setSelectedAccountCode('');
-            setSuccess(false);
-          }, 800); // Small delay to show success message
-        }
+        completeCurrentTransaction();
       } else {
         setError(data.error || 'Failed to assign account');
       }
@@ -172,6 +205,92 @@ export default function TransactionAssignmentModal({
     }
   };
 
+  const completeCurrentTransaction = () => {
+    setSuccess(true);
+    onAssignmentComplete();
+
+    // Remove assigned transaction from the list
+    const updatedTransactions = incompleteTransactions.filter((_, index) => index !== currentTransactionIndex);
+    setIncompleteTransactions(updatedTransactions);
+
+    // Move to next transaction or close if no more
+    if (updatedTransactions.length === 0) {
+      setTimeout(() => {
+        onClose();
+      }, 1500);
+    } else {
+      // Adjust index if we're at the end of the list
+      const nextIndex = currentTransactionIndex >= updatedTransactions.length ? 0 : currentTransactionIndex;
+
+      setTimeout(() => {
+        setCurrentTransactionIndex(nextIndex);
+        setSelectedAccountCode('');
+        setSuccess(false);
+      }, 800); // Small delay to show success message
+    }
+  };
+
+  const startSplit = () => {
+    const transaction = incompleteTransactions[currentTransactionIndex];
+    if (!transaction) return;
+
+    // Start with the selected account holding the whole amount and an empty line to split it into
+    setSplitLines([
+      { accountCode: selectedAccountCode, amount: Number(transaction.debit).toFixed(2) },
+      { accountCode: '', amount: '' }
+    ]);
+    setIsSplitting(true);
+    setError('');
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLine>) => {
+    setSplitLines(lines => lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSplit = async () => {
+    const transaction = incompleteTransactions[currentTransactionIndex];
+    if (!transaction || !currentUser) return;
+
+    const splits = splitLines.map(line => ({
+      accountId: accounts.find(account => account.code === line.accountCode)?.id,
+      amount: parseFloat(line.amount)
+    }));
+    if (splits.some(split => !split.accountId || isNaN(split.amount) || split.amount <= 0)) {
+      setError('Every split line needs an account and a positive amount');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await fetch('/api/transactions/split', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ transactionId: transaction.id, splits }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setIsSplitting(false);
+        setSplitLines([]);
+        completeCurrentTransaction();
+      } else {
+        setError(data.error || 'Failed to split transaction');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+      console.error('Split error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -251,6 +370,8 @@ export default function TransactionAssignmentModal({
 
   const selectedAccount = accounts.find(acc => acc.code === selectedAccountCode);
   const missingAccountType = currentTransaction?.debitacc === '0' ? 'Debit Account' : 'Credit Account';
+  const splitRemaining = (Math.round(Number(currentTransaction.debit) * 100) -
+    splitLines.reduce((sum, line) => sum + Math.round((parseFloat(line.amount) || 0) * 100), 0)) / 100;
 
   const handlePrevious = () => {
     if (currentTransactionIndex > 0) {
@@ -398,6 +519,34 @@ export default function TransactionAssignmentModal({
                           Select {missingAccountType}
                         </h3>
 
+                        {/* Suggested Accounts */}
+                        {suggestions.length > 0 && (
+                          <div>
+                            <p className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                              <SparklesIcon className="h-4 w-4 text-indigo-500 mr-1" />
+                              Suggested from similar transactions
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                              {suggestions.map(suggestion => (
+                                <button
+                                  key={suggestion.account_id}
+                                  type="button"
+                                  onClick={() => setSelectedAccountCode(suggestion.code)}
+                                  title={`${suggestion.match_count} similar transaction${suggestion.match_count !== 1 ? 's' : ''}`}
+                                  className={`inline-flex items-center px-3 py-1 rounded-full text-sm border transition-colors ${
+                                    selectedAccountCode === suggestion.code
+                                      ? 'bg-indigo-600 border-indigo-600 text-white'
+                                      : 'bg-white border-indigo-200 text-indigo-700 hover:bg-indigo-50'
+                                  }`}
+                                >
+                                  {suggestion.alias}
+                                  <span className="ml-2 text-xs opacity-75">{Math.round(suggestion.confidence * 100)}%</span>
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Filters */}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
@@ -484,6 +633,79 @@ export default function TransactionAssignmentModal({
                           </div>
                         )}
 
+                        {/* Split Allocation */}
+                        {isSplitting ? (
+                          <div className="border border-indigo-200 rounded-lg p-4">
+                            <div className="flex items-center justify-between mb-3">
+                              <h4 className="font-medium text-gray-900">Split Across Accounts</h4>
+                              <span className={`text-sm font-medium ${splitRemaining === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                Remaining: {formatCurrency(splitRemaining)}
+                              </span>
+                            </div>
+                            <div className="space-y-2">
+                              {splitLines.map((line, index) => (
+                                <div key={index} className="flex items-center space-x-2">
+                                  <select
+                                    value={line.accountCode}
+                                    onChange={(e) => updateSplitLine(index, { accountCode: e.target.value })}
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                  >
+                                    <option value="">Select account...</option>
+                                    {accounts.map(account => (
+                                      <option key={account.id} value={account.code}>
+                                        {account.alias} ({account.code})
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={line.amount}
+                                    onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                                    placeholder="0.00"
+                                    className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm text-right focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={() => setSplitLines(lines => lines.filter((_, i) => i !== index))}
+                                    disabled={splitLines.length <= 2}
+                                    className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                  >
+                                    <TrashIcon className="h-4 w-4" />
+                                  </button>
+                                </div>
+                              ))}
+                            </div>
+                            <div className="flex items-center justify-between mt-3">
+                              <button
+                                type="button"
+                                onClick={() => setSplitLines(lines => [...lines, { accountCode: '', amount: splitRemaining > 0 ? splitRemaining.toFixed(2) : '' }])}
+                                className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                              >
+                                <PlusIcon className="h-4 w-4 mr-1" />
+                                Add line
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setIsSplitting(false)}
+                                className="text-sm text-gray-500 hover:text-gray-700"
+                              >
+                                Cancel split
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={startSplit}
+                            className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                          >
+                            <PlusIcon className="h-4 w-4 mr-1" />
+                            Split across several accounts
+                          </button>
+                        )}
+
                         {error && (
                           <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
                             {error}
@@ -521,17 +743,17 @@ export default function TransactionAssignmentModal({
                             Close
                           </button>
                           <button
-                            onClick={handleAssignment}
-                            disabled={isSubmitting || !selectedAccountCode}
+                            onClick={isSplitting ? handleSplit : handleAssignment}
+                            disabled={isSubmitting || (isSplitting ? splitRemaining !== 0 : !selectedAccountCode)}
                             className="flex-1 inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
                           >
                             {isSubmitting ? (
                               <>
                                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                                Assigning...
+                                {isSplitting ? 'Splitting...' : 'Assigning...'}
                               </>
                             ) : (
-                              'Assign Account'
+                              isSplitting ? 'Split Transaction' : 'Assign Account'
                             )}
                           </button>
                         </div>
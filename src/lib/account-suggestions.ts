@@ -0,0 +1,64 @@
+import { descriptionSimilarity } from '@/lib/statement-matching';
+
+// Ranking of counter accounts for an incomplete transaction from how similar, already
+// completed transactions were booked. Kept free of database access like statement-matching.
+
+export interface SuggestionTarget {
+  description: string;
+  amount: number;
+}
+
+export interface SuggestionHistoryRow {
+  accountCode: string; // Account on the side the target is missing
+  description: string;
+  amount: number;
+}
+
+export interface RankedAccount {
+  accountCode: string;
+  confidence: number; // 0-1
+  matchCount: number;
+}
+
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+// Same amount scores 1, falling to 0 once one amount is twice the other
+function amountSimilarity(a: number, b: number): number {
+  const larger = Math.max(Math.abs(a), Math.abs(b));
+  if (larger === 0) return 1;
+  return Math.max(0, 1 - Math.abs(Math.abs(a) - Math.abs(b)) / larger);
+}
+
+/**
+ * Score each history row by description (mostly) and amount, then combine the rows booked to
+ * the same account so that several good matches beat a single one. Rows whose description
+ * barely overlaps are ignored: an amount alone says little about where money went.
+ */
+export function rankCounterAccounts(
+  target: SuggestionTarget,
+  history: SuggestionHistoryRow[],
+  limit: number = 5
+): RankedAccount[] {
+  const byAccount = new Map<string, { missProbability: number; matchCount: number }>();
+
+  for (const row of history) {
+    const description = descriptionSimilarity(target.description, row.description);
+    if (description < MIN_DESCRIPTION_SIMILARITY) continue;
+
+    const score = description * 0.8 + amountSimilarity(target.amount, row.amount) * 0.2;
+    const current = byAccount.get(row.accountCode) || { missProbability: 1, matchCount: 0 };
+    // Noisy-or: each similar row is independent evidence for the account
+    current.missProbability *= 1 - score * 0.6;
+    current.matchCount++;
+    byAccount.set(row.accountCode, current);
+  }
+
+  return Array.from(byAccount.entries())
+    .map(([accountCode, { missProbability, matchCount }]) => ({
+      accountCode,
+      confidence: Math.round((1 - missProbability) * 100) / 100,
+      matchCount
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.matchCount - a.matchCount)
+    .slice(0, limit);
+}
@@ -0,0 +1,190 @@
+import { CategorizationRule, CategorizationRuleInput } from '@/lib/database';
+
+// Evaluation of categorization rules against bank lines. Kept free of database access so
+// statement imports and the retroactive run over incomplete transactions agree on what fires.
+
+export const RULE_MATCH_TYPES = ['contains', 'regex'] as const;
+export const RULE_DIRECTIONS = ['any', 'debit', 'credit'] as const;
+
+export interface RuleCandidate {
+  company: number;
+  description: string;
+  amount: number; // Always positive
+  direction: 'debit' | 'credit'; // Side of the source account the line is posted to
+  sourceAccountCode: string;
+}
+
+/**
+ * True when a group that itself contains a quantifier is quantified again, as in `(a+)+` or
+ * `(\w*\s?)*`. Those patterns backtrack exponentially on a near miss, and rules run on every
+ * imported line. Conservative: a literal `{` counts as a quantifier.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []; // Whether each open group contains a quantifier
+  const isQuantifier = (char: string | undefined) => char === '+' || char === '*' || char === '{';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Quantifier characters inside a class are literals
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const quantifiedInside = groups.pop() ?? false;
+      if (quantifiedInside && isQuantifier(pattern[i + 1])) return true;
+      if (quantifiedInside && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (isQuantifier(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+// Compiled description patterns, keyed by the rule object so an import compiles each rule once
+// rather than once per line. Null marks a pattern that is invalid or unsafe and never matches.
+const compiledPatterns = new WeakMap<CategorizationRule, RegExp | null>();
+
+function getRulePattern(rule: CategorizationRule): RegExp | null {
+  if (!compiledPatterns.has(rule)) {
+    let compiled: RegExp | null = null;
+    // Rules saved before the nested quantifier check are skipped rather than trusted
+    if (rule.description_pattern && !hasNestedQuantifier(rule.description_pattern)) {
+      try {
+        compiled = new RegExp(rule.description_pattern, 'i');
+      } catch {
+        compiled = null;
+      }
+    }
+    compiledPatterns.set(rule, compiled);
+  }
+  return compiledPatterns.get(rule) ?? null;
+}
+
+export function ruleMatches(rule: CategorizationRule, candidate: RuleCandidate): boolean {
+  if (rule.company !== null && rule.company !== candidate.company) return false;
+  if (rule.source_account_code && rule.source_account_code !== candidate.sourceAccountCode) return false;
+  if (rule.direction !== 'any' && rule.direction !== candidate.direction) return false;
+  if (rule.min_amount !== null && candidate.amount < rule.min_amount) return false;
+  if (rule.max_amount !== null && candidate.amount > rule.max_amount) return false;
+
+  if (rule.description_pattern) {
+    if (rule.match_type === 'regex') {
+      const regex = getRulePattern(rule);
+      if (!regex || !regex.test(candidate.description)) return false;
+    } else if (!candidate.description.toLowerCase().includes(rule.description_pattern.toLowerCase())) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * First active rule that matches, in priority order. Entity-specific rules win over
+ * rules that apply to every entity when their priorities tie.
+ */
+export function findMatchingRule(rules: CategorizationRule[], candidate: RuleCandidate): CategorizationRule | null {
+  const ordered = [...rules].sort((a, b) =>
+    a.priority - b.priority ||
+    Number(a.company === null) - Number(b.company === null) ||
+    a.id - b.id
+  );
+  return ordered.find(rule => rule.active && ruleMatches(rule, candidate)) || null;
+}
+
+/**
+ * Validate and normalize a categorization rule from a request body.
+ * Returns an error message instead of throwing so routes can answer with a 400.
+ */
+export function validateCategorizationRule(body: Record<string, unknown>): { rule?: CategorizationRuleInput; error?: string } {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return { error: 'Rule name is required' };
+  }
+  if (name.length > 100) {
+    return { error: 'Rule name must be 100 characters or fewer' };
+  }
+
+  const company = body.company ?? null;
+  if (company !== null && (typeof company !== 'number' || !Number.isInteger(company) || company <= 0)) {
+    return { error: 'Entity must be a valid entity ID' };
+  }
+
+  const matchType = (body.match_type ?? 'contains') as CategorizationRule['match_type'];
+  if (!RULE_MATCH_TYPES.includes(matchType)) {
+    return { error: `Match type must be one of: ${RULE_MATCH_TYPES.join(', ')}` };
+  }
+
+  const pattern = typeof body.description_pattern === 'string' && body.description_pattern.trim()
+    ? body.description_pattern.trim()
+    : null;
+  if (pattern && pattern.length > 255) {
+    return { error: 'Description pattern must be 255 characters or fewer' };
+  }
+  if (pattern && matchType === 'regex') {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      return { error: 'Description pattern is not a valid regular expression' };
+    }
+    if (hasNestedQuantifier(pattern)) {
+      return { error: 'Description pattern cannot repeat a group that already contains a repetition, such as (a+)+' };
+    }
+  }
+
+  const parseAmount = (value: unknown) => (value === null || value === undefined || value === '' ? null : Number(value));
+  const minAmount = parseAmount(body.min_amount);
+  const maxAmount = parseAmount(body.max_amount);
+  if ((minAmount !== null && (isNaN(minAmount) || minAmount < 0)) || (maxAmount !== null && (isNaN(maxAmount) || maxAmount < 0))) {
+    return { error: 'Amount limits must be positive numbers' };
+  }
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    return { error: 'Minimum amount cannot be greater than maximum amount' };
+  }
+
+  const direction = (body.direction ?? 'any') as CategorizationRule['direction'];
+  if (!RULE_DIRECTIONS.includes(direction)) {
+    return { error: `Direction must be one of: ${RULE_DIRECTIONS.join(', ')}` };
+  }
+
+  const sourceAccountCode = typeof body.source_account_code === 'string' && body.source_account_code.trim()
+    ? body.source_account_code.trim()
+    : null;
+  const counterAccountCode = typeof body.counter_account_code === 'string' ? body.counter_account_code.trim() : '';
+  if (!counterAccountCode || counterAccountCode === '0') {
+    return { error: 'Counter account is required' };
+  }
+  if (counterAccountCode === sourceAccountCode) {
+    return { error: 'Counter account must differ from the source account' };
+  }
+
+  if (!pattern && minAmount === null && maxAmount === null && !sourceAccountCode) {
+    return { error: 'A rule needs a description pattern, an amount range or a source account' };
+  }
+
+  const priority = body.priority ?? 100;
+  if (typeof priority !== 'number' || !Number.isInteger(priority) || priority < 0) {
+    return { error: 'Priority must be a whole number' };
+  }
+
+  return {
+    rule: {
+      name,
+      company: company as number | null,
+      match_type: matchType,
+      description_pattern: pattern,
+      min_amount: minAmount,
+      max_amount: maxAmount,
+      direction,
+      source_account_code: sourceAccountCode,
+      counter_account_code: counterAccountCode,
+      priority,
+      active: body.active !== false
+    }
+  };
+}
@@ -1,4 +1,11 @@
 import mysql from 'mysql2/promise';
+import { DEFAULT_MATCH_OPTIONS, MatchOptions, MatchScore, normalizeDescription, suggestMatches } from '@/lib/statement-matching';
+import { pairJournalLines } from '@/lib/journal-entries';
+import { findMatchingRule } from '@/lib/categorization-rules';
+import { rankCounterAccounts } from '@/lib/account-suggestions';
+import { matchPayee, normalizePayeeDescription } from '@/lib/payees';
+import { getFiscalYearBounds, getFiscalYearOf } from '@/lib/fiscal-years';
+import { ReportColumn } from '@/lib/report-periods';
 
 const pool = mysql.createPool({
   host: process.env.DB_HOST,
@@ -45,6 +52,7 @@ export interface Account {
   date_created: string | null;
   date_updated: string | null;
   account_type?: 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+  is_cash?: number; // Bank or cash account tracked by the cash flow statement
   incomplete_transactions_count?: number;
 }
 
@@ -66,7 +74,16 @@ export interface Transaction {
   status: string | null;
   bank_transaction_id: string | null;
   accounting_date: string | null;
+  import_batch_id?: number | null;
+  reconciliation_id?: number | null;
+  matched_import_batch_id?: number | null;
+  journal_id?: number | null;
+  split_parent_id?: number | null;
+  categorization_rule_id?: number | null;
+  payee_id?: number | null;
+  reversal_of_id?: number | null;
   // Additional fields from join
+  payee_name?: string | null;
   transaction_type: 'debit' | 'credit';
   other_account_code: string;
   other_account_alias: string | null;
@@ -83,6 +100,32 @@ export interface StatementTransaction {
   type: 'debit' | 'credit';
   category?: string;
   balance?: number;
+  bank_transaction_id?: string; // Bank-assigned ID (e.g. OFX FITID) when the source provides one
+  duplicate_action?: 'skip' | 'import'; // Decision for a suspected duplicate; unset if none was flagged
+  match_transaction_id?: number; // Existing ledger entry this line is linked to instead of being inserted
+}
+
+export interface StatementMatch {
+  index: number; // Position in the submitted statement transactions
+  score: MatchScore;
+  existingTransaction: {
+    id: number;
+    fecha: string;
+    name: string;
+    amount: number;
+  };
+}
+
+export interface StatementDuplicate {
+  index: number; // Position in the submitted statement transactions
+  matchType: 'bank_transaction_id' | 'fuzzy';
+  existingTransaction: {
+    id: number;
+    fecha: string;
+    name: string;
+    amount: number;
+    bank_transaction_id: string | null;
+  };
 }
 
 export interface BankStatement {
@@ -91,6 +134,28 @@ export interface BankStatement {
   openingBalance: number;
   closingBalance: number;
   transactions: StatementTransaction[];
+  fileName?: string; // Source file, recorded on the import batch
+  fileHash?: string; // SHA-256 of the source file contents
+}
+
+export interface ImportBatch {
+  id: number;
+  account_id: number;
+  user_id: number | null;
+  file_name: string | null;
+  file_hash: string | null;
+  statement_date: string;
+  opening_balance: number;
+  closing_balance: number;
+  previous_balance: number; // Account balance before the import
+  transaction_count: number;
+  skipped_count: number;
+  matched_count: number; // Lines linked to existing ledger entries
+  status: 'imported' | 'rolled_back';
+  created_at: string;
+  rolled_back_at: string | null;
+  rolled_back_by: number | null;
+  user_email?: string | null;
 }
 
 export async function getUserByEmail(email: string): Promise<LoginUser | null> {
@@ -127,6 +192,17 @@ export async function createUser(email: string, additionalData: Partial<LoginUse
     );
 
     const insertResult = result as mysql.ResultSetHeader;
+
+    // Signing up has no acting user other than the new one
+    await recordAudit(pool, {
+      userId: insertResult.insertId,
+      company: null,
+      action: 'user.create',
+      targetTable: 'login',
+      targetId: insertResult.insertId,
+      after: userData
+    });
+
     return { id: insertResult.insertId, ...userData };
   } catch (error) {
     console.error('Database error:', error);
@@ -212,6 +288,7 @@ export async function getAccountById(accountId: number): Promise<any> {
         currency as currency_code,
         balance as current_balance,
         company,
+        is_cash,
         CASE WHEN active = 1 THEN 'Active' ELSE 'Inactive' END as account_status,
         date_created as created_at,
         date_updated as updated_at
@@ -236,13 +313,14 @@ export async function updateAccount(
     account_type?: string;
     account_status?: string;
     currency_code?: string;
+    is_cash?: boolean;
   },
   userId: number
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // First verify the account belongs to the user
     const [verifyRows] = await pool.execute(
-      'SELECT id FROM rv_cuentas WHERE id = ? AND user = ?',
+      'SELECT id, company, alias, category, account_type, active, currency, is_cash FROM rv_cuentas WHERE id = ? AND user = ?',
       [accountId, userId]
     );
 
@@ -250,6 +328,14 @@ export async function updateAccount(
       return { success: false, error: 'Account not found or access denied' };
     }
 
+    const existing = (verifyRows as Array<Pick<Account, 'id' | 'company' | 'alias' | 'category' | 'account_type' | 'active' | 'currency' | 'is_cash'>>)[0];
+
+    // Only asset accounts can hold cash
+    const resultingType = updates.account_type !== undefined ? updates.account_type : existing.account_type;
+    if (resultingType !== 'asset' && (updates.is_cash || (updates.is_cash === undefined && existing.is_cash))) {
+      return { success: false, error: 'Only asset accounts can be marked as cash or bank accounts' };
+    }
+
     // Build update query dynamically
     const updateFields: string[] = [];
     const updateValues: (string | number)[] = [];
@@ -279,6 +365,11 @@ export async function updateAccount(
       updateValues.push(updates.currency_code);
     }
 
+    if (updates.is_cash !== undefined) {
+      updateFields.push('is_cash = ?');
+      updateValues.push(updates.is_cash ? 1 : 0);
+    }
+
     if (updateFields.length === 0) {
       return { success: false, error: 'No fields to update' };
     }
@@ -292,6 +383,20 @@ export async function updateAccount(
 
     await pool.execute(updateQuery, updateValues);
 
+    const changedColumns = updateFields
+      .filter(field => field !== 'date_updated = NOW()')
+      .map(field => field.replace(' = ?', '') as 'alias' | 'category' | 'account_type' | 'active' | 'currency' | 'is_cash');
+    await recordAudit(pool, {
+      userId,
+      company: existing.company,
+      action: 'account.update',
+      targetTable: 'rv_cuentas',
+      targetId: accountId,
+      before: Object.fromEntries(changedColumns.map(column => [column, existing[column]])),
+      after: Object.fromEntries(changedColumns.map((column, index) => [column, updateValues[index]])),
+      accountIds: [accountId]
+    });
+
     return { success: true };
   } catch (error) {
     console.error('Database error:', error);
@@ -331,6 +436,24 @@ export async function createAccount(accountData: {
 
     const insertResult = result as mysql.ResultSetHeader;
 
+    await recordAudit(pool, {
+      userId: accountData.userId,
+      company: accountData.companyId || null,
+      action: 'account.create',
+      targetTable: 'rv_cuentas',
+      targetId: insertResult.insertId,
+      after: {
+        code: accountData.code,
+        alias: accountData.alias,
+        category: accountData.category,
+        account_type: accountData.account_type || accountData.category,
+        currency: accountData.currency,
+        balance: accountData.balance,
+        active: accountData.active
+      },
+      accountIds: [insertResult.insertId]
+    });
+
     // Return the created account
     return {
       id: insertResult.insertId,
@@ -375,7 +498,20 @@ export function classifyTransaction(
   }
 }
 
-export async function getTransactionsByAccountCode(accountCode: any, limit: number = 100, offset: number = 0): Promise<Transaction[]> {
+export type CashFlowActivity = 'operating' | 'investing' | 'financing' | 'unclassified';
+
+// Cash flow section of a movement on a cash account, decided by the account on the other side
+export function classifyCashFlowActivity(
+  otherAccountType: 'asset' | 'liability' | 'equity' | 'income' | 'expense' | null | undefined
+): CashFlowActivity {
+  if (!otherAccountType) return 'unclassified';
+
+  // Whatever classifyTransaction counts as income or expense is trading; its transfers are split by type
+  if (classifyTransaction('debit', otherAccountType) !== 'transfer') return 'operating';
+  return otherAccountType === 'asset' ? 'investing' : 'financing';
+}
+
+export async function getTransactionsByAccountCode(accountCode: any, limit: number = 100, offset: number = 0, endDate?: string): Promise<Transaction[]> {
   try {
     // Ensure limit and offset are integers
     const limitInt = Math.max(1, Math.min(500, parseInt(String(limit))));
@@ -405,12 +541,14 @@ export async function getTransactionsByAccountCode(accountCode: any, limit: numb
         END as other_account_type,
         comp.id as entity_id,
         comp.name as entity_name,
-        comp.code as entity_code
+        comp.code as entity_code,
+        p.name as payee_name
       FROM rv_transaction t
       LEFT JOIN rv_cuentas c_debit ON t.debitacc = c_debit.code AND c_debit.company = t.company
       LEFT JOIN rv_cuentas c_credit ON t.creditacc = c_credit.code AND c_credit.company = t.company
       LEFT JOIN company comp ON t.company = comp.id
-      WHERE (t.debitacc = ? OR t.creditacc = ?) and t.company = ?
+      LEFT JOIN rv_payee p ON p.id = t.payee_id
+      WHERE (t.debitacc = ? OR t.creditacc = ?) and t.company = ?${endDate ? ' AND t.fecha <= ?' : ''}
       ORDER BY t.fecha DESC, t.id DESC
       LIMIT ${limitInt} OFFSET ${offsetInt}
     `;
@@ -422,7 +560,8 @@ export async function getTransactionsByAccountCode(accountCode: any, limit: numb
       accountCode.code, // for other_account_type CASE
       accountCode.code, // for WHERE debitacc
       accountCode.code,
-      accountCode.company
+      accountCode.company,
+      ...(endDate ? [endDate] : [])
     ]);
 
     console.log(`Found ${(rows as any[]).length} transactions`);
@@ -443,7 +582,7 @@ export async function getTransactionsByAccountCode(accountCode: any, limit: numb
   }
 }
 
-export async function getTransactionsByAccountId(accountId: number, limit: number = 100, offset: number = 0): Promise<Transaction[]> {
+export async function getTransactionsByAccountId(accountId: number, limit: number = 100, offset: number = 0, endDate?: string): Promise<Transaction[]> {
   try {
     // First get the account code
     const [accountRows] = await pool.execute(
@@ -458,7 +597,7 @@ export async function getTransactionsByAccountId(accountId: number, limit: numbe
     }
 
 
-    return getTransactionsByAccountCode(accounts[0], limit, offset);
+    return getTransactionsByAccountCode(accounts[0], limit, offset, endDate);
   } catch (error) {
     console.error('Database error:', error);
     throw new Error('Failed to fetch transactions for account ID');
@@ -471,8 +610,11 @@ export async function createReconciliationTransaction(
     bankBalance: number;
     reconciliationDate: string;
     description?: string;
-  }
-): Promise<{ success: boolean; transaction?: { id: number; previousBalance: number; newBalance: number; difference: number }; error?: string }> {
+  },
+  userId: number
+): Promise<{ success: boolean; reconciliationId?: number; transaction?: { id: number; previousBalance: number; newBalance: number; difference: number }; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
   try {
     // Get account details
     const [accountRows] = await pool.execute(
@@ -486,11 +628,45 @@ export async function createReconciliationTransaction(
     }
 
     const account = accounts[0];
-    const currentBalance = account.balance;
+    const currentBalance = Number(account.balance);
     const difference = reconciliationData.bankBalance - currentBalance;
 
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const periodLockError = await getPeriodLockError(connection, account.company, reconciliationData.reconciliationDate);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
+
+    // Keep a reconciliation record for the period even when no adjustment is needed
+    const recorded = await insertAdjustmentReconciliation(connection, account, userId, {
+      reconciliationDate: reconciliationData.reconciliationDate,
+      bankBalance: reconciliationData.bankBalance,
+      currentBalance,
+      adjustment: Math.abs(difference) < 0.01 ? 0 : difference
+    });
+    if (!recorded.success) {
+      await connection.rollback();
+      return { success: false, error: recorded.error };
+    }
+    const reconciliationId = recorded.reconciliationId!;
+
+    const auditEvent = {
+      userId,
+      company: account.company,
+      action: 'reconciliation.balance_adjustment',
+      targetTable: 'rv_reconciliation',
+      targetId: reconciliationId,
+      before: { balance: currentBalance },
+      accountIds: [account.id]
+    };
+
     if (Math.abs(difference) < 0.01) {
-      return { success: true, error: 'Account is already reconciled - no adjustment needed' };
+      await recordAudit(connection, { ...auditEvent, after: { balance: currentBalance, statement_date: reconciliationData.reconciliationDate } });
+      await connection.commit();
+      return { success: true, reconciliationId, error: 'Account is already reconciled - no adjustment needed' };
     }
 
     // Create reconciliation transaction
@@ -515,11 +691,11 @@ export async function createReconciliationTransaction(
     // Insert the reconciliation transaction
     const insertQuery = `
       INSERT INTO rv_transaction
-      (conciled, client, company, name, category, description, debit, credit, balancedebit, balancecredit, debitacc, creditacc, fecha, status, accounting_date)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (conciled, client, company, name, category, description, debit, credit, balancedebit, balancecredit, debitacc, creditacc, fecha, status, accounting_date, reconciliation_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
-    const [result] = await pool.execute(insertQuery, [
+    const [result] = await connection.execute(insertQuery, [
       transactionData.conciled,
       transactionData.client,
       transactionData.company,
@@ -534,19 +710,38 @@ export async function createReconciliationTransaction(
       transactionData.creditacc,
       transactionData.fecha,
       transactionData.status,
-      transactionData.accounting_date
+      transactionData.accounting_date,
+      reconciliationId
     ]);
 
+    const insertResult = result as mysql.ResultSetHeader;
+
+    await connection.execute(
+      'UPDATE rv_reconciliation SET adjustment_transaction_id = ? WHERE id = ?',
+      [insertResult.insertId, reconciliationId]
+    );
+
     // Update the account balance
-    await pool.execute(
+    await connection.execute(
       'UPDATE rv_cuentas SET balance = ?, date_updated = NOW() WHERE id = ?',
       [reconciliationData.bankBalance, accountId]
     );
 
-    const insertResult = result as mysql.ResultSetHeader;
+    await recordAudit(connection, {
+      ...auditEvent,
+      after: {
+        balance: reconciliationData.bankBalance,
+        statement_date: reconciliationData.reconciliationDate,
+        adjustment_transaction_id: insertResult.insertId,
+        adjustment: difference
+      }
+    });
+
+    await connection.commit();
 
     return {
       success: true,
+      reconciliationId,
       transaction: {
         id: insertResult.insertId,
         difference: difference,
@@ -557,171 +752,1537 @@ export async function createReconciliationTransaction(
     };
 
   } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
     console.error('Reconciliation error:', error);
     return { success: false, error: 'Failed to create reconciliation transaction' };
+  } finally {
+    connection?.release();
   }
 }
 
-export async function getAccountBalance(accountId: number): Promise<{ balance: number; currency: string } | null> {
+/**
+ * Record a balance adjustment made from the statement balance alone as a completed
+ * reconciliation, so it shows up in the account's reconciliation history and the next
+ * line-by-line reconciliation opens at the adjusted statement balance. Refused while a
+ * line-by-line reconciliation is open or when the date is already reconciled, as when starting one.
+ */
+async function insertAdjustmentReconciliation(
+  connection: mysql.PoolConnection,
+  account: Account,
+  userId: number,
+  adjustment: {
+    reconciliationDate: string;
+    bankBalance: number;
+    currentBalance: number;
+    adjustment: number;
+  }
+): Promise<{ success: boolean; reconciliationId?: number; error?: string }> {
+  const [openRows] = await connection.execute(
+    'SELECT id FROM rv_reconciliation WHERE account_id = ? AND status = ? FOR UPDATE',
+    [account.id, 'in_progress']
+  );
+  if ((openRows as Array<{ id: number }>).length > 0) {
+    return { success: false, error: 'Finish or discard the reconciliation in progress first' };
+  }
+
+  const [lastRows] = await connection.execute(
+    `SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE account_id = ? AND status = ? ORDER BY period_end DESC, id DESC LIMIT 1`,
+    [account.id, 'completed']
+  );
+  const lastCompleted = (lastRows as Record<string, unknown>[]).map(toReconciliationSession)[0];
+
+  const periodEnd = adjustment.reconciliationDate.split('T')[0];
+  if (lastCompleted && periodEnd <= lastCompleted.period_end) {
+    return { success: false, error: `This account is already reconciled through ${lastCompleted.period_end}` };
+  }
+
+  // The period runs from the day after the last reconciliation
+  let periodStart = periodEnd;
+  if (lastCompleted) {
+    const nextDay = new Date(`${lastCompleted.period_end}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    periodStart = nextDay.toISOString().split('T')[0];
+  }
+
+  const bookBalance = await getBookBalanceAsOf(connection, account, periodEnd);
+
+  const openingBalance = lastCompleted ? lastCompleted.statement_balance : adjustment.currentBalance;
+  const [result] = await connection.execute(`
+    INSERT INTO rv_reconciliation
+    (account_id, user_id, period_start, period_end, opening_balance, statement_balance, cleared_balance,
+     book_balance, adjustment_amount, status, completed_at)
+    VALUES (?, NULL, ?, ?, ?, ?, ?, ?, ?, 'completed', NOW())
+  `, [
+    account.id, periodStart, periodEnd, openingBalance,
+    adjustment.bankBalance, adjustment.bankBalance, bookBalance, adjustment.adjustment
+  ]);
+  const reconciliationId = (result as mysql.ResultSetHeader).insertId;
+
+  await recordAudit(connection, {
+    userId,
+    company: account.company,
+    action: 'reconciliation.create',
+    targetTable: 'rv_reconciliation',
+    targetId: reconciliationId,
+    after: {
+      period_start: periodStart,
+      period_end: periodEnd,
+      opening_balance: openingBalance,
+      statement_balance: adjustment.bankBalance,
+      book_balance: bookBalance,
+      adjustment_amount: adjustment.adjustment,
+      status: 'completed'
+    },
+    accountIds: [account.id]
+  });
+
+  return { success: true, reconciliationId };
+}
+
+export interface ReconciliationSession {
+  id: number;
+  account_id: number;
+  user_id: number | null;
+  period_start: string;
+  period_end: string;
+  opening_balance: number; // Statement opening balance (previous reconciliation's statement balance)
+  statement_balance: number; // Statement closing balance the cleared balance must match
+  cleared_balance: number | null; // Recorded when the session is completed
+  book_balance: number | null; // Ledger balance as of period_end, recorded when the session is completed
+  adjustment_amount: number; // Balance adjustment booked by a statement-balance-only reconciliation
+  adjustment_transaction_id: number | null;
+  status: 'in_progress' | 'completed';
+  created_at: string;
+  completed_at: string | null;
+  completed_by: number | null;
+}
+
+export interface ReconciliationLine {
+  id: number;
+  fecha: string;
+  name: string;
+  description: string | null;
+  bank_transaction_id: string | null;
+  import_batch_id: number | null; // Set on lines imported from a bank statement
+  matched_import_batch_id: number | null; // Set on ledger entries already merged with an imported line
+  amount: number; // Signed by its effect on the account balance
+  cleared: boolean;
+}
+
+export interface ReconciliationTotals {
+  clearedIncreases: number;
+  clearedDecreases: number;
+  clearedBalance: number;
+  unclearedIncreases: number;
+  unclearedDecreases: number;
+  unclearedCount: number;
+  difference: number; // Statement balance minus cleared balance
+}
+
+export interface ReconciliationWorkspace {
+  session: ReconciliationSession;
+  lines: ReconciliationLine[];
+  totals: ReconciliationTotals;
+}
+
+export interface ReconciliationReport {
+  session: ReconciliationSession;
+  completed_by_email: string | null;
+  outstanding: ReconciliationLine[]; // Items recorded by the reconciliation date but not yet cleared by the bank
+  outstandingIncreases: number; // Deposits in transit
+  outstandingDecreases: number; // Outstanding payments
+  adjustedStatementBalance: number; // Statement balance plus outstanding items
+  adjustedBookBalance: number; // Book balance plus adjustments
+  unexplainedDifference: number; // Adjusted book minus adjusted statement balance
+}
+
+export interface ReconciliationMatch {
+  statementLine: ReconciliationLine; // Imported from a bank statement
+  ledgerLine: ReconciliationLine; // Entered by hand, not yet confirmed by the bank
+  score: MatchScore;
+}
+
+// Assignments that keep a ledger entry's state from before a statement line is matched to it
+const SAVE_MATCH_PREVIOUS_STATE = `
+  match_previous_conciled = conciled,
+  match_previous_bank_transaction_id = bank_transaction_id,
+  match_previous_reconciliation_id = reconciliation_id`;
+
+const RECONCILIATION_COLUMNS = `
+  id, account_id, user_id,
+  DATE_FORMAT(period_start, '%Y-%m-%d') AS period_start,
+  DATE_FORMAT(period_end, '%Y-%m-%d') AS period_end,
+  opening_balance, statement_balance, cleared_balance, book_balance,
+  adjustment_amount, adjustment_transaction_id, status,
+  created_at, completed_at, completed_by
+`;
+
+// DECIMAL columns come back from mysql2 as strings
+function toReconciliationSession(row: Record<string, unknown>): ReconciliationSession {
+  return {
+    ...(row as unknown as ReconciliationSession),
+    opening_balance: Number(row.opening_balance),
+    statement_balance: Number(row.statement_balance),
+    cleared_balance: row.cleared_balance === null ? null : Number(row.cleared_balance),
+    book_balance: row.book_balance === null ? null : Number(row.book_balance),
+    adjustment_amount: Number(row.adjustment_amount)
+  };
+}
+
+// Amount of a transaction signed by its effect on the given account's balance
+function getBalanceEffect(
+  row: { debitacc: string; debit: number; credit: number },
+  account: Pick<Account, 'code' | 'account_type'>
+): number {
+  const debitIncreasesBalance = account.account_type === 'asset' || account.account_type === 'expense';
+  const isDebit = row.debitacc === account.code;
+  const amount = Number(isDebit ? row.debit : row.credit);
+  return isDebit === debitIncreasesBalance ? amount : -amount;
+}
+
+// Ledger balance of an account from every transaction dated up to and including the given date,
+// or from all of its transactions when no date is given
+async function getBookBalanceAsOf(
+  executor: mysql.Pool | mysql.PoolConnection,
+  account: Pick<Account, 'code' | 'company' | 'account_type'>,
+  date?: string
+): Promise<number> {
+  const [rows] = await executor.execute(`
+    SELECT COALESCE(SUM(CASE WHEN debitacc = ? THEN debit ELSE -credit END), 0) AS net_debit
+    FROM rv_transaction
+    WHERE (debitacc = ? OR creditacc = ?)
+      AND company = ?${date ? ' AND fecha <= ?' : ''}
+  `, [account.code, account.code, account.code, account.company, ...(date ? [date] : [])]);
+
+  const netDebit = Number((rows as Array<{ net_debit: number }>)[0].net_debit);
+  const debitIncreasesBalance = account.account_type === 'asset' || account.account_type === 'expense';
+  return debitIncreasesBalance ? netDebit : -netDebit;
+}
+
+function calculateReconciliationTotals(session: ReconciliationSession, lines: ReconciliationLine[]): ReconciliationTotals {
+  const totals = {
+    clearedIncreases: 0,
+    clearedDecreases: 0,
+    clearedBalance: 0,
+    unclearedIncreases: 0,
+    unclearedDecreases: 0,
+    unclearedCount: 0,
+    difference: 0
+  };
+
+  lines.forEach(line => {
+    if (line.cleared) {
+      if (line.amount >= 0) totals.clearedIncreases += line.amount;
+      else totals.clearedDecreases += -line.amount;
+    } else {
+      if (line.amount >= 0) totals.unclearedIncreases += line.amount;
+      else totals.unclearedDecreases += -line.amount;
+      totals.unclearedCount++;
+    }
+  });
+
+  totals.clearedBalance = session.opening_balance + totals.clearedIncreases - totals.clearedDecreases;
+  totals.difference = session.statement_balance - totals.clearedBalance;
+  return totals;
+}
+
+export async function getReconciliationSessions(accountId: number): Promise<ReconciliationSession[]> {
   try {
     const [rows] = await pool.execute(
-      'SELECT balance, currency FROM rv_cuentas WHERE id = ?',
+      `SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE account_id = ? ORDER BY period_end DESC, id DESC`,
       [accountId]
     );
 
-    const accounts = rows as { balance: number; currency: string }[];
-    return accounts.length > 0 ? accounts[0] : null;
+    return (rows as Record<string, unknown>[]).map(toReconciliationSession);
   } catch (error) {
     console.error('Database error:', error);
-    throw new Error('Failed to fetch account balance');
+    throw new Error('Failed to fetch reconciliations');
   }
 }
 
-export async function importBankStatement(
-  statement: BankStatement
-): Promise<{ success: boolean; transactions?: Array<{ id: number; [key: string]: unknown }>; error?: string }> {
+export async function startReconciliationSession(
+  account: Account,
+  userId: number,
+  sessionData: {
+    periodStart: string;
+    periodEnd: string;
+    statementBalance: number;
+    openingBalance?: number;
+  }
+): Promise<{ success: boolean; session?: ReconciliationSession; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
   try {
-    // Get account details
-    const [accountRows] = await pool.execute(
-      'SELECT * FROM rv_cuentas WHERE id = ?',
-      [statement.accountId]
+    const [openRows] = await pool.execute(
+      'SELECT id FROM rv_reconciliation WHERE account_id = ? AND status = ?',
+      [account.id, 'in_progress']
     );
+    if ((openRows as Array<{ id: number }>).length > 0) {
+      return { success: false, error: 'This account already has a reconciliation in progress' };
+    }
 
-    const accounts = accountRows as Account[];
-    if (accounts.length === 0) {
-      return { success: false, error: 'Account not found' };
+    // Each period opens at the balance the previous reconciliation closed with
+    const [lastRows] = await pool.execute(
+      `SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE account_id = ? AND status = ? ORDER BY period_end DESC, id DESC LIMIT 1`,
+      [account.id, 'completed']
+    );
+    const lastCompleted = (lastRows as Record<string, unknown>[]).map(toReconciliationSession)[0];
+
+    let openingBalance: number;
+    if (lastCompleted) {
+      if (sessionData.periodEnd <= lastCompleted.period_end) {
+        return { success: false, error: `This account is already reconciled through ${lastCompleted.period_end}` };
+      }
+      openingBalance = lastCompleted.statement_balance;
+    } else if (typeof sessionData.openingBalance === 'number') {
+      openingBalance = sessionData.openingBalance;
+    } else {
+      return { success: false, error: 'Opening balance is required for the first reconciliation of an account' };
     }
 
-    const account = accounts[0];
-    const accountType = account.account_type; // 'asset', 'liability', 'equity', 'income', 'expense'
+    const periodLockError = await getPeriodLockError(pool, account.company, sessionData.periodStart);
+    if (periodLockError) {
+      return { success: false, error: periodLockError };
+    }
 
-    // Validate account type exists
-    if (!accountType) {
-      return {
-        success: false,
-        error: 'Account type is not set. Please set the account type before importing statements.'
-      };
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [result] = await connection.execute(`
+      INSERT INTO rv_reconciliation
+      (account_id, user_id, period_start, period_end, opening_balance, statement_balance, status)
+      VALUES (?, ?, ?, ?, ?, ?, 'in_progress')
+    `, [
+      account.id, userId, sessionData.periodStart, sessionData.periodEnd,
+      openingBalance, sessionData.statementBalance
+    ]);
+    const sessionId = (result as mysql.ResultSetHeader).insertId;
+
+    // Lines that came in from bank statements are already marked as cleared; start them ticked
+    await connection.execute(`
+      UPDATE rv_transaction
+      SET reconciliation_id = ?
+      WHERE (debitacc = ? OR creditacc = ?)
+        AND company = ?
+        AND conciled = 1
+        AND reconciliation_id IS NULL
+        AND fecha BETWEEN ? AND ?
+    `, [sessionId, account.code, account.code, account.company, sessionData.periodStart, sessionData.periodEnd]);
+
+    await recordAudit(connection, {
+      userId,
+      company: account.company,
+      action: 'reconciliation.start',
+      targetTable: 'rv_reconciliation',
+      targetId: sessionId,
+      after: {
+        period_start: sessionData.periodStart,
+        period_end: sessionData.periodEnd,
+        opening_balance: openingBalance,
+        statement_balance: sessionData.statementBalance
+      },
+      accountIds: [account.id]
+    });
+
+    await connection.commit();
+
+    const [sessionRows] = await pool.execute(`SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE id = ?`, [sessionId]);
+    return { success: true, session: toReconciliationSession((sessionRows as Record<string, unknown>[])[0]) };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
     }
+    console.error('Reconciliation error:', error);
+    return { success: false, error: 'Failed to start reconciliation' };
+  } finally {
+    connection?.release();
+  }
+}
 
-    // Validate that the statement balances correctly
-    // Running balance is calculated by simply adding all amounts (positive and negative)
+export async function getReconciliationWorkspace(
+  account: Account,
+  sessionId: number,
+  executor: mysql.Pool | mysql.PoolConnection = pool
+): Promise<ReconciliationWorkspace | null> {
+  try {
+    const [sessionRows] = await executor.execute(
+      `SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE id = ? AND account_id = ?`,
+      [sessionId, account.id]
+    );
+    const sessions = (sessionRows as Record<string, unknown>[]).map(toReconciliationSession);
+    if (sessions.length === 0) {
+      return null;
+    }
 
-    let runningBalance = statement.openingBalance;
+    const session = sessions[0];
+
+    // A completed session shows what it cleared; an open one also offers every outstanding item up to the period end
+    const [rows] = session.status === 'completed'
+      ? await executor.execute(`
+          SELECT id, fecha, name, description, bank_transaction_id, import_batch_id, matched_import_batch_id,
+                 debit, credit, debitacc, creditacc, reconciliation_id
+          FROM rv_transaction
+          WHERE reconciliation_id = ? AND (debitacc = ? OR creditacc = ?)
+          ORDER BY fecha ASC, id ASC
+        `, [session.id, account.code, account.code])
+      : await executor.execute(`
+          SELECT id, fecha, name, description, bank_transaction_id, import_batch_id, matched_import_batch_id,
+                 debit, credit, debitacc, creditacc, reconciliation_id
+          FROM rv_transaction
+          WHERE (debitacc = ? OR creditacc = ?)
+            AND company = ?
+            AND fecha <= ?
+            AND (reconciliation_id IS NULL OR reconciliation_id = ?)
+          ORDER BY fecha ASC, id ASC
+        `, [account.code, account.code, account.company, session.period_end, session.id]);
+
+    const lines: ReconciliationLine[] = (rows as Array<{
+      id: number;
+      fecha: string;
+      name: string;
+      description: string | null;
+      bank_transaction_id: string | null;
+      import_batch_id: number | null;
+      matched_import_batch_id: number | null;
+      debit: number;
+      credit: number;
+      debitacc: string;
+      creditacc: string;
+      reconciliation_id: number | null;
+    }>).map(row => ({
+      id: row.id,
+      fecha: row.fecha,
+      name: row.name,
+      description: row.description,
+      bank_transaction_id: row.bank_transaction_id,
+      import_batch_id: row.import_batch_id,
+      matched_import_batch_id: row.matched_import_batch_id,
+      amount: getBalanceEffect(row, account),
+      cleared: row.reconciliation_id === session.id
+    }));
 
-    const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
+    return {
+      session,
+      lines,
+      totals: calculateReconciliationTotals(session, lines)
+    };
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch reconciliation');
+  }
+}
 
+async function expandSplitFamilies(connection: mysql.PoolConnection, ids: number[]): Promise<number[]> {
+  const [rows] = await connection.execute(`
+    SELECT family.id
+    FROM rv_transaction t
+    JOIN rv_transaction family
+      ON family.id = COALESCE(t.split_parent_id, t.id) OR family.split_parent_id = COALESCE(t.split_parent_id, t.id)
+    WHERE t.id IN (${ids.map(() => '?').join(',')})
+  `, ids);
+  return [...new Set([...ids, ...(rows as Array<{ id: number }>).map(row => row.id)])];
+}
 
-    for (const transaction of statement.transactions) {
+export async function updateReconciliationSession(
+  account: Account,
+  sessionId: number,
+  changes: {
+    clear?: number[];
+    unclear?: number[];
+    statementBalance?: number;
+    periodEnd?: string;
+  },
+  userId: number
+): Promise<{ success: boolean; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
 
-        console.log(transaction)
-        if (debitIncreasesBalance) {
-          // Assets & Expenses
-          runningBalance += transaction.type === 'debit' ? transaction.amount : -transaction.amount;
-        } else {
-          // Liabilities, Equity & Revenues
-          runningBalance += transaction.type === 'credit' ? transaction.amount : -transaction.amount;
-        }
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
 
+    const [sessionRows] = await connection.execute(
+      'SELECT id, status FROM rv_reconciliation WHERE id = ? AND account_id = ? FOR UPDATE',
+      [sessionId, account.id]
+    );
+    const sessions = sessionRows as Array<Pick<ReconciliationSession, 'id' | 'status'>>;
+    if (sessions.length === 0) {
+      await connection.rollback();
+      return { success: false, error: 'Reconciliation not found' };
+    }
+    if (sessions[0].status !== 'in_progress') {
+      await connection.rollback();
+      return { success: false, error: 'This reconciliation is already completed' };
     }
 
-    console.log('Calculated running balance:', runningBalance, 'Expected closing balance:', statement.closingBalance);
-    if (Math.abs(runningBalance - statement.closingBalance) > 0.01) {
-      return {
-        success: false,
-        error: `Statement doesn't balance. Expected: ${statement.closingBalance}, Calculated: ${runningBalance.toFixed(2)}`
-      };
+    if (typeof changes.statementBalance === 'number' || changes.periodEnd) {
+      await connection.execute(
+        'UPDATE rv_reconciliation SET statement_balance = COALESCE(?, statement_balance), period_end = COALESCE(?, period_end) WHERE id = ?',
+        [changes.statementBalance ?? null, changes.periodEnd ?? null, sessionId]
+      );
     }
 
-    const createdTransactions = [];
-    const accountingDate = new Date().toISOString().slice(0, 19).replace('T', ' ');
+    // Portions of a split bank line clear and unclear together
+    const clear = changes.clear && changes.clear.length > 0 ? await expandSplitFamilies(connection, changes.clear) : [];
+    const unclear = changes.unclear && changes.unclear.length > 0 ? await expandSplitFamilies(connection, changes.unclear) : [];
 
-    // Create opening balance adjustment if needed
-    if (Math.abs(account.balance - statement.openingBalance) > 0.01) {
-      const balanceDifference = statement.openingBalance - account.balance;
+    const lockedError = await getLockedTransactionsError(connection, [...clear, ...unclear]);
+    if (lockedError) {
+      await connection.rollback();
+      return { success: false, error: lockedError };
+    }
 
-      // Determine debit/credit based on account type and balance difference
-      let debitacc = '0';
-      let creditacc = '0';
-      let balancedebit = null;
-      let balancecredit = null;
+    // Only this account's rows that are not held by another reconciliation can be ticked
+    if (clear.length > 0) {
+      await connection.execute(`
+        UPDATE rv_transaction
+        SET conciled = 1, reconciliation_id = ?
+        WHERE id IN (${clear.map(() => '?').join(',')})
+          AND (debitacc = ? OR creditacc = ?)
+          AND company = ?
+          AND (reconciliation_id IS NULL OR reconciliation_id = ?)
+      `, [sessionId, ...clear, account.code, account.code, account.company, sessionId]);
+    }
 
-      // DEBIT increases: Assets, Expenses
-      // CREDIT increases: Liabilities, Equity, Income
-      const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
+    if (unclear.length > 0) {
+      await connection.execute(`
+        UPDATE rv_transaction
+        SET conciled = 0, reconciliation_id = NULL
+        WHERE id IN (${unclear.map(() => '?').join(',')})
+          AND reconciliation_id = ?
+      `, [...unclear, sessionId]);
+    }
 
-      if (debitIncreasesBalance) {
-        if (balanceDifference > 0) {
-          // Need to increase → DEBIT account
-          debitacc = account.code;
-          balancedebit = statement.openingBalance;
-        } else {
-          // Need to decrease → CREDIT account
-          creditacc = account.code;
-          balancecredit = statement.openingBalance;
-        }
-      } else {
-        // Credit increases balance (liability, equity, income, contra accounts)
-        if (balanceDifference > 0) {
-          // Need to increase → CREDIT account
-          creditacc = account.code;
-          balancecredit = statement.openingBalance;
-        } else {
-          // Need to decrease → DEBIT account
-          debitacc = account.code;
-          balancedebit = statement.openingBalance;
-        }
-      }
+    await recordAudit(connection, {
+      userId,
+      company: account.company,
+      action: 'reconciliation.update',
+      targetTable: 'rv_reconciliation',
+      targetId: sessionId,
+      after: {
+        cleared_transaction_ids: clear,
+        uncleared_transaction_ids: unclear,
+        statement_balance: changes.statementBalance,
+        period_end: changes.periodEnd
+      },
+      accountIds: [account.id]
+    });
 
-      const openingAdjustment = {
-        conciled: 1,
-        client: account.client || 'System',
-        company: account.company || 1,
-        name: 'Opening Balance Adjustment',
-        category: 'Statement Import',
-        description: `Opening balance adjustment for statement dated ${statement.statementDate}`,
-        debit: Math.abs(balanceDifference),
-        credit: Math.abs(balanceDifference),
-        balancedebit: balancedebit,
-        balancecredit: balancecredit,
-        debitacc: debitacc,
-        creditacc: creditacc,
-        fecha: statement.statementDate,
-        status: 'Statement Import',
-        accounting_date: accountingDate
-      };
+    await connection.commit();
+    return { success: true };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Reconciliation error:', error);
+    return { success: false, error: 'Failed to update reconciliation' };
+  } finally {
+    connection?.release();
+  }
+}
 
-      const [openingResult] = await pool.execute(`
-        INSERT INTO rv_transaction
-        (conciled, client, company, name, category, description, debit, credit, balancedebit, balancecredit, debitacc, creditacc, fecha, status, accounting_date)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        openingAdjustment.conciled, openingAdjustment.client, openingAdjustment.company,
-        openingAdjustment.name, openingAdjustment.category, openingAdjustment.description,
-        openingAdjustment.debit, openingAdjustment.credit, openingAdjustment.balancedebit,
-        openingAdjustment.balancecredit, openingAdjustment.debitacc, openingAdjustment.creditacc,
-        openingAdjustment.fecha, openingAdjustment.status, openingAdjustment.accounting_date
-      ]);
+export async function completeReconciliationSession(
+  account: Account,
+  sessionId: number,
+  userId: number
+): Promise<{ success: boolean; workspace?: ReconciliationWorkspace; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
 
-      const openingResultInsert = openingResult as mysql.ResultSetHeader;
-      createdTransactions.push({ id: openingResultInsert.insertId, ...openingAdjustment });
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    // Holding the session row keeps ticks from changing between the balance check and completion
+    const [sessionRows] = await connection.execute(
+      'SELECT id FROM rv_reconciliation WHERE id = ? AND account_id = ? FOR UPDATE',
+      [sessionId, account.id]
+    );
+    const workspace = (sessionRows as Array<{ id: number }>).length > 0
+      ? await getReconciliationWorkspace(account, sessionId, connection)
+      : null;
+    if (!workspace) {
+      await connection.rollback();
+      return { success: false, error: 'Reconciliation not found' };
+    }
+    if (workspace.session.status !== 'in_progress') {
+      await connection.rollback();
+      return { success: false, error: 'This reconciliation is already completed' };
     }
 
-    // Create all statement transactions
-    let currentBalance = statement.openingBalance;
+    const periodLockError = await getPeriodLockError(connection, account.company, workspace.session.period_start);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
 
-    for (const statementTxn of statement.transactions) {
-      // Determine which account field to populate based on transaction type
-      let debitacc = '0';
-      let creditacc = '0';
-      let balancedebit = null;
-      let balancecredit = null;
+    if (Math.abs(workspace.totals.difference) >= 0.01) {
+      await connection.rollback();
+      return {
+        success: false,
+        error: `Cleared balance (${workspace.totals.clearedBalance.toFixed(2)}) does not match the statement balance (${workspace.session.statement_balance.toFixed(2)})`
+      };
+    }
 
-      // Amount should already be absolute value from frontend
-      const amount = Math.abs(statementTxn.amount);
+    const bookBalance = await getBookBalanceAsOf(connection, account, workspace.session.period_end);
+
+    await connection.execute(`
+      UPDATE rv_reconciliation
+      SET status = 'completed', cleared_balance = ?, book_balance = ?, completed_at = NOW(), completed_by = ?
+      WHERE id = ?
+    `, [workspace.totals.clearedBalance, bookBalance, userId, sessionId]);
+
+    await recordAudit(connection, {
+      userId,
+      company: account.company,
+      action: 'reconciliation.complete',
+      targetTable: 'rv_reconciliation',
+      targetId: sessionId,
+      before: { status: 'in_progress' },
+      after: {
+        status: 'completed',
+        period_end: workspace.session.period_end,
+        statement_balance: workspace.session.statement_balance,
+        cleared_balance: workspace.totals.clearedBalance,
+        book_balance: bookBalance
+      },
+      accountIds: [account.id]
+    });
 
-      // Use the transaction type sent from frontend
-      // Frontend has already determined correct type based on account type and amount sign
-      if (statementTxn.type === 'debit') {
+    await connection.commit();
+
+    const completed = await getReconciliationWorkspace(account, sessionId);
+    return { success: true, workspace: completed || undefined };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Reconciliation error:', error);
+    return { success: false, error: 'Failed to complete reconciliation' };
+  } finally {
+    connection?.release();
+  }
+}
+
+/**
+ * Reopen the most recent completed reconciliation of an account so it can be corrected.
+ * Its balance adjustment entry is deleted, lines it cleared by hand are uncleared (lines the
+ * bank confirmed stay ticked, as they would when starting a session) and the account balance
+ * is recomputed from its transactions.
+ */
+export async function reopenReconciliationSession(
+  account: Account,
+  sessionId: number,
+  userId: number
+): Promise<{ success: boolean; session?: ReconciliationSession; balance?: number; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [sessionRows] = await connection.execute(
+      `SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE id = ? AND account_id = ? FOR UPDATE`,
+      [sessionId, account.id]
+    );
+    const session = (sessionRows as Record<string, unknown>[]).map(toReconciliationSession)[0];
+    if (!session) {
+      await connection.rollback();
+      return { success: false, error: 'Reconciliation not found' };
+    }
+    if (session.status !== 'completed') {
+      await connection.rollback();
+      return { success: false, error: 'This reconciliation is still in progress' };
+    }
+
+    const periodLockError = await getPeriodLockError(connection, account.company, session.period_start);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
+
+    // Later periods opened at this reconciliation's statement balance, so they must go first
+    const [laterRows] = await connection.execute(`
+      SELECT id, status FROM rv_reconciliation
+      WHERE account_id = ? AND id <> ?
+        AND (status = 'in_progress' OR period_end > ? OR (period_end = ? AND id > ?))
+    `, [account.id, session.id, session.period_end, session.period_end, session.id]);
+    const later = laterRows as Array<Pick<ReconciliationSession, 'id' | 'status'>>;
+    if (later.length > 0) {
+      await connection.rollback();
+      return {
+        success: false,
+        error: later.some(row => row.status === 'in_progress')
+          ? 'Finish or discard the reconciliation in progress first'
+          : 'Only the most recent reconciliation of an account can be reopened'
+      };
+    }
+
+    if (session.adjustment_transaction_id) {
+      await connection.execute(
+        'DELETE FROM rv_transaction WHERE id = ? AND reconciliation_id = ?',
+        [session.adjustment_transaction_id, session.id]
+      );
+    }
+
+    // Rows imported from a statement or merged with an imported line came from the bank
+    await connection.execute(`
+      UPDATE rv_transaction
+      SET conciled = 0, reconciliation_id = NULL
+      WHERE reconciliation_id = ? AND import_batch_id IS NULL AND matched_import_batch_id IS NULL
+        AND bank_transaction_id IS NULL
+    `, [session.id]);
+
+    await connection.execute(`
+      UPDATE rv_reconciliation
+      SET status = 'in_progress', cleared_balance = NULL, book_balance = NULL, adjustment_amount = 0,
+          adjustment_transaction_id = NULL, completed_at = NULL, completed_by = NULL
+      WHERE id = ?
+    `, [session.id]);
+
+    const balance = await getBookBalanceAsOf(connection, account);
+    await connection.execute(
+      'UPDATE rv_cuentas SET balance = ?, date_updated = NOW() WHERE id = ?',
+      [balance, account.id]
+    );
+
+    await recordAudit(connection, {
+      userId,
+      company: account.company,
+      action: 'reconciliation.reopen',
+      targetTable: 'rv_reconciliation',
+      targetId: session.id,
+      before: {
+        status: session.status,
+        cleared_balance: session.cleared_balance,
+        adjustment_amount: session.adjustment_amount,
+        adjustment_transaction_id: session.adjustment_transaction_id,
+        balance: Number(account.balance)
+      },
+      after: { status: 'in_progress', balance },
+      accountIds: [account.id]
+    });
+
+    await connection.commit();
+
+    const [reopenedRows] = await pool.execute(`SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE id = ?`, [session.id]);
+    return {
+      success: true,
+      session: toReconciliationSession((reopenedRows as Record<string, unknown>[])[0]),
+      balance
+    };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Reconciliation error:', error);
+    return { success: false, error: 'Failed to reopen reconciliation' };
+  } finally {
+    connection?.release();
+  }
+}
+
+// Abandon an in-progress session. Its rows are released; those ticked by hand are uncleared
+// again while lines the bank confirmed stay cleared, as when reopening a reconciliation
+export async function cancelReconciliationSession(
+  accountId: number,
+  sessionId: number,
+  userId: number
+): Promise<{ success: boolean; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [sessionRows] = await connection.execute(
+      `SELECT ${RECONCILIATION_COLUMNS} FROM rv_reconciliation WHERE id = ? AND account_id = ? FOR UPDATE`,
+      [sessionId, accountId]
+    );
+    const session = (sessionRows as Record<string, unknown>[]).map(toReconciliationSession)[0];
+
+    const [result] = await connection.execute(
+      'DELETE FROM rv_reconciliation WHERE id = ? AND account_id = ? AND status = ?',
+      [sessionId, accountId, 'in_progress']
+    );
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      await connection.rollback();
+      return { success: false, error: 'No reconciliation in progress with this ID' };
+    }
+
+    await connection.execute(`
+      UPDATE rv_transaction
+      SET conciled = CASE
+            WHEN import_batch_id IS NULL AND matched_import_batch_id IS NULL AND bank_transaction_id IS NULL THEN 0
+            ELSE conciled
+          END,
+          reconciliation_id = NULL
+      WHERE reconciliation_id = ?
+    `, [sessionId]);
+
+    const [accountRows] = await connection.execute('SELECT company FROM rv_cuentas WHERE id = ?', [accountId]);
+    await recordAudit(connection, {
+      userId,
+      company: (accountRows as Array<{ company: number | null }>)[0]?.company ?? null,
+      action: 'reconciliation.cancel',
+      targetTable: 'rv_reconciliation',
+      targetId: sessionId,
+      before: session,
+      accountIds: [accountId]
+    });
+
+    await connection.commit();
+    return { success: true };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Reconciliation error:', error);
+    return { success: false, error: 'Failed to cancel reconciliation' };
+  } finally {
+    connection?.release();
+  }
+}
+
+/**
+ * Pair imported statement lines in an open session with hand-entered ledger entries for the
+ * same movement, so the two can be merged instead of being reconciled (or counted) twice.
+ */
+export async function getReconciliationMatchSuggestions(
+  account: Account,
+  sessionId: number
+): Promise<ReconciliationMatch[] | null> {
+  const workspace = await getReconciliationWorkspace(account, sessionId);
+  if (!workspace) {
+    return null;
+  }
+  if (workspace.session.status !== 'in_progress') {
+    return [];
+  }
+
+  // CSV imports carry no bank reference, so statement lines are told apart by their import batch
+  const statementLines = workspace.lines.filter(line => line.import_batch_id);
+  const ledgerLines = workspace.lines.filter(line =>
+    !line.import_batch_id && !line.matched_import_batch_id && !line.bank_transaction_id && !line.cleared
+  );
+
+  const matches = suggestMatches(
+    statementLines.map(line => ({ date: line.fecha, description: line.name, amount: line.amount })),
+    ledgerLines.map(line => ({ id: line.id, fecha: line.fecha, name: line.name, amount: line.amount }))
+  );
+
+  return matches.map(match => ({
+    statementLine: statementLines[match.lineIndex],
+    ledgerLine: ledgerLines.find(line => line.id === match.entry.id)!,
+    score: match.score
+  }));
+}
+
+/**
+ * Merge an imported statement row into the ledger entry it duplicates: the ledger entry takes
+ * the bank reference and is cleared in this session, and the imported row is deleted with its
+ * effect taken off the account balance.
+ */
+export async function acceptReconciliationMatch(
+  account: Account,
+  sessionId: number,
+  statementTransactionId: number,
+  ledgerTransactionId: number,
+  userId: number
+): Promise<{ success: boolean; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [sessionRows] = await connection.execute(
+      'SELECT id, status FROM rv_reconciliation WHERE id = ? AND account_id = ? FOR UPDATE',
+      [sessionId, account.id]
+    );
+    const sessions = sessionRows as Array<Pick<ReconciliationSession, 'id' | 'status'>>;
+    if (sessions.length === 0) {
+      await connection.rollback();
+      return { success: false, error: 'Reconciliation not found' };
+    }
+    if (sessions[0].status !== 'in_progress') {
+      await connection.rollback();
+      return { success: false, error: 'This reconciliation is already completed' };
+    }
+
+    const [rows] = await connection.execute(`
+      SELECT id, debit, credit, debitacc, bank_transaction_id, import_batch_id, matched_import_batch_id, reconciliation_id
+      FROM rv_transaction
+      WHERE id IN (?, ?)
+        AND (debitacc = ? OR creditacc = ?)
+        AND company = ?
+        AND (reconciliation_id IS NULL OR reconciliation_id = ?)
+      FOR UPDATE
+    `, [statementTransactionId, ledgerTransactionId, account.code, account.code, account.company, sessionId]);
+
+    const transactions = rows as Array<{
+      id: number;
+      debit: number;
+      credit: number;
+      debitacc: string;
+      bank_transaction_id: string | null;
+      import_batch_id: number | null;
+      matched_import_batch_id: number | null;
+      reconciliation_id: number | null;
+    }>;
+    const statementRow = transactions.find(row => row.id === statementTransactionId);
+    const ledgerRow = transactions.find(row => row.id === ledgerTransactionId);
+    if (!statementRow || !ledgerRow || statementTransactionId === ledgerTransactionId) {
+      await connection.rollback();
+      return { success: false, error: 'Transactions not found in this reconciliation' };
+    }
+    if (
+      !statementRow.import_batch_id ||
+      ledgerRow.import_batch_id || ledgerRow.matched_import_batch_id || ledgerRow.bank_transaction_id
+    ) {
+      await connection.rollback();
+      return { success: false, error: 'Only an imported statement line can be merged into an entry not yet matched to the bank' };
+    }
+
+    const statementEffect = getBalanceEffect(statementRow, account);
+    if (Math.sign(statementEffect) !== Math.sign(getBalanceEffect(ledgerRow, account))) {
+      await connection.rollback();
+      return { success: false, error: 'These transactions move money in opposite directions' };
+    }
+
+    const lockedError = await getLockedTransactionsError(connection, [statementRow.id, ledgerRow.id]);
+    if (lockedError) {
+      await connection.rollback();
+      return { success: false, error: lockedError };
+    }
+
+    await connection.execute(`
+      UPDATE rv_transaction
+      SET ${SAVE_MATCH_PREVIOUS_STATE},
+          conciled = 1, bank_transaction_id = COALESCE(?, bank_transaction_id), reconciliation_id = ?, matched_import_batch_id = ?
+      WHERE id = ?
+    `, [statementRow.bank_transaction_id, sessionId, statementRow.import_batch_id, ledgerRow.id]);
+
+    await connection.execute('DELETE FROM rv_transaction WHERE id = ?', [statementRow.id]);
+
+    await connection.execute(
+      'UPDATE rv_cuentas SET balance = balance - ?, date_updated = NOW() WHERE id = ?',
+      [statementEffect, account.id]
+    );
+
+    await recordAudit(connection, {
+      userId,
+      company: account.company,
+      action: 'reconciliation.merge_match',
+      targetTable: 'rv_transaction',
+      targetId: ledgerRow.id,
+      before: { statement_transaction: statementRow, ledger_transaction: ledgerRow },
+      after: {
+        bank_transaction_id: statementRow.bank_transaction_id,
+        reconciliation_id: sessionId,
+        matched_import_batch_id: statementRow.import_batch_id,
+        deleted_transaction_id: statementRow.id
+      },
+      accountIds: [account.id]
+    });
+
+    await connection.commit();
+    return { success: true };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Reconciliation error:', error);
+    return { success: false, error: 'Failed to merge transactions' };
+  } finally {
+    connection?.release();
+  }
+}
+
+/**
+ * Reconciliation statements for an account's completed reconciliations, newest first: the
+ * statement balance adjusted by the items still outstanding at the reconciliation date,
+ * next to the book balance adjusted by any balance corrections.
+ */
+export async function getReconciliationHistory(account: Account): Promise<ReconciliationReport[]> {
+  try {
+    const [sessionRows] = await pool.execute(`
+      SELECT ${RECONCILIATION_COLUMNS}, (SELECT email FROM login WHERE id = completed_by) AS completed_by_email
+      FROM rv_reconciliation
+      WHERE account_id = ? AND status = ?
+      ORDER BY period_end DESC, id DESC
+    `, [account.id, 'completed']);
+
+    const reports: ReconciliationReport[] = [];
+    for (const row of sessionRows as Record<string, unknown>[]) {
+      const session = toReconciliationSession(row);
+
+      // Outstanding at the time: not cleared yet, or only cleared by a later reconciliation
+      const [rows] = await pool.execute(`
+        SELECT t.id, t.fecha, t.name, t.description, t.bank_transaction_id, t.import_batch_id, t.matched_import_batch_id,
+               t.debit, t.credit, t.debitacc
+        FROM rv_transaction t
+        LEFT JOIN rv_reconciliation r ON t.reconciliation_id = r.id
+        WHERE (t.debitacc = ? OR t.creditacc = ?)
+          AND t.company = ?
+          AND t.fecha <= ?
+          AND (
+            (t.reconciliation_id IS NULL AND (t.conciled IS NULL OR t.conciled = 0))
+            OR (r.id <> ? AND r.period_end > ?)
+          )
+        ORDER BY t.fecha ASC, t.id ASC
+      `, [account.code, account.code, account.company, session.period_end, session.id, session.period_end]);
+
+      const outstanding: ReconciliationLine[] = (rows as Array<{
+        id: number;
+        fecha: string;
+        name: string;
+        description: string | null;
+        bank_transaction_id: string | null;
+        import_batch_id: number | null;
+        matched_import_batch_id: number | null;
+        debit: number;
+        credit: number;
+        debitacc: string;
+      }>).map(line => ({
+        id: line.id,
+        fecha: line.fecha,
+        name: line.name,
+        description: line.description,
+        bank_transaction_id: line.bank_transaction_id,
+        import_batch_id: line.import_batch_id,
+        matched_import_batch_id: line.matched_import_batch_id,
+        amount: getBalanceEffect(line, account),
+        cleared: false
+      }));
+
+      const outstandingIncreases = outstanding.filter(line => line.amount >= 0).reduce((sum, line) => sum + line.amount, 0);
+      const outstandingDecreases = outstanding.filter(line => line.amount < 0).reduce((sum, line) => sum - line.amount, 0);
+
+      // Sessions completed before book balances were recorded fall back to today's view of that date
+      const bookBalance = session.book_balance ?? await getBookBalanceAsOf(pool, account, session.period_end);
+      const adjustedStatementBalance = session.statement_balance + outstandingIncreases - outstandingDecreases;
+      const adjustedBookBalance = bookBalance + session.adjustment_amount;
+
+      reports.push({
+        session: { ...session, book_balance: bookBalance },
+        completed_by_email: (row.completed_by_email as string | null) ?? null,
+        outstanding,
+        outstandingIncreases,
+        outstandingDecreases,
+        adjustedStatementBalance,
+        adjustedBookBalance,
+        unexplainedDifference: adjustedBookBalance - adjustedStatementBalance
+      });
+    }
+
+    return reports;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch reconciliation history');
+  }
+}
+
+export async function getAccountBalance(accountId: number): Promise<{ balance: number; currency: string } | null> {
+  try {
+    const [rows] = await pool.execute(
+      'SELECT balance, currency FROM rv_cuentas WHERE id = ?',
+      [accountId]
+    );
+
+    const accounts = rows as { balance: number; currency: string }[];
+    return accounts.length > 0 ? accounts[0] : null;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch account balance');
+  }
+}
+
+export async function getAccountForUser(accountId: number, userId: number): Promise<Account | null> {
+  try {
+    const [rows] = await pool.execute(
+      `SELECT a.*
+       FROM rv_cuentas a
+       LEFT JOIN company_user cu ON a.company = cu.company_id
+       WHERE a.id = ? AND (a.user = ? OR cu.user_id = ?)
+       LIMIT 1`,
+      [accountId, userId, userId]
+    );
+
+    const accounts = rows as Account[];
+    return accounts.length > 0 ? accounts[0] : null;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch account');
+  }
+}
+
+async function detectStatementDuplicates(
+  account: Account,
+  transactions: StatementTransaction[],
+  dateToleranceDays: number
+): Promise<StatementDuplicate[]> {
+  if (transactions.length === 0) return [];
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const dates = transactions.map(txn => new Date(txn.date).getTime()).filter(time => !isNaN(time));
+  if (dates.length === 0) return [];
+
+  const fromDate = new Date(Math.min(...dates) - dateToleranceDays * dayMs).toISOString().split('T')[0];
+  const toDate = new Date(Math.max(...dates) + dateToleranceDays * dayMs).toISOString().split('T')[0];
+
+  // Rows in the date window are candidates for fuzzy matching; bank IDs are matched regardless of date
+  const bankIds = transactions.map(txn => txn.bank_transaction_id).filter((id): id is string => Boolean(id));
+  const bankIdFilter = bankIds.length > 0 ? ` OR t.bank_transaction_id IN (${bankIds.map(() => '?').join(',')})` : '';
+
+  const [rows] = await pool.execute(
+    `SELECT t.id, t.fecha, t.name, t.debit, t.credit, t.debitacc, t.creditacc, t.bank_transaction_id
+     FROM rv_transaction t
+     WHERE (t.debitacc = ? OR t.creditacc = ?)
+       AND t.company = ?
+       AND (t.fecha BETWEEN ? AND ?${bankIdFilter})`,
+    [account.code, account.code, account.company, fromDate, toDate, ...bankIds]
+  );
+
+  const existing = rows as Array<{
+    id: number;
+    fecha: string | Date;
+    name: string;
+    debit: number;
+    credit: number;
+    debitacc: string;
+    creditacc: string;
+    bank_transaction_id: string | null;
+  }>;
+
+  const matchedIds = new Set<number>();
+  const duplicates: StatementDuplicate[] = [];
+
+  const toDuplicate = (index: number, matchType: StatementDuplicate['matchType'], row: typeof existing[number]): StatementDuplicate => ({
+    index,
+    matchType,
+    existingTransaction: {
+      id: row.id,
+      fecha: row.fecha instanceof Date ? row.fecha.toISOString().split('T')[0] : String(row.fecha),
+      name: row.name,
+      amount: Number(row.debitacc === account.code ? row.debit : row.credit),
+      bank_transaction_id: row.bank_transaction_id
+    }
+  });
+
+  // Exact bank ID matches first, so they are not claimed by a fuzzy match of another line
+  transactions.forEach((txn, index) => {
+    if (!txn.bank_transaction_id) return;
+    const row = existing.find(candidate =>
+      !matchedIds.has(candidate.id) && candidate.bank_transaction_id === txn.bank_transaction_id
+    );
+    if (row) {
+      matchedIds.add(row.id);
+      duplicates.push(toDuplicate(index, 'bank_transaction_id', row));
+    }
+  });
+
+  transactions.forEach((txn, index) => {
+    if (duplicates.some(duplicate => duplicate.index === index)) return;
+
+    const amount = Math.abs(txn.amount);
+    const txnTime = new Date(txn.date).getTime();
+    const description = normalizeDescription(txn.description);
+
+    const row = existing.find(candidate => {
+      if (matchedIds.has(candidate.id)) return false;
+
+      // Same side of the account and same amount
+      const isDebit = candidate.debitacc === account.code;
+      if ((txn.type === 'debit') !== isDebit) return false;
+      const candidateAmount = Number(isDebit ? candidate.debit : candidate.credit);
+      if (Math.abs(candidateAmount - amount) > 0.005) return false;
+
+      const dayDifference = Math.abs(new Date(candidate.fecha).getTime() - txnTime) / dayMs;
+      if (Math.round(dayDifference) > dateToleranceDays) return false;
+
+      const candidateDescription = normalizeDescription(candidate.name);
+      return candidateDescription === description
+        || (candidateDescription.length > 0 && description.length > 0
+          && (candidateDescription.includes(description) || description.includes(candidateDescription)));
+    });
+
+    if (row) {
+      matchedIds.add(row.id);
+      duplicates.push(toDuplicate(index, 'fuzzy', row));
+    }
+  });
+
+  return duplicates.sort((a, b) => a.index - b.index);
+}
+
+export async function findStatementDuplicates(
+  accountId: number,
+  transactions: StatementTransaction[],
+  dateToleranceDays: number = 3
+): Promise<StatementDuplicate[]> {
+  try {
+    const [accountRows] = await pool.execute(
+      'SELECT * FROM rv_cuentas WHERE id = ?',
+      [accountId]
+    );
+
+    const accounts = accountRows as Account[];
+    if (accounts.length === 0) {
+      return [];
+    }
+
+    return await detectStatementDuplicates(accounts[0], transactions, dateToleranceDays);
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to check statement for duplicates');
+  }
+}
+
+/**
+ * Suggest existing ledger entries that statement lines most likely correspond to, such as
+ * payments entered by hand before the statement arrived. Only entries the bank has not
+ * confirmed yet (not conciled, no bank reference) are candidates. Linking a line to its
+ * suggestion during import clears the entry instead of inserting a second copy.
+ */
+export async function findStatementMatches(
+  accountId: number,
+  transactions: StatementTransaction[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): Promise<StatementMatch[]> {
+  try {
+    const [accountRows] = await pool.execute(
+      'SELECT * FROM rv_cuentas WHERE id = ?',
+      [accountId]
+    );
+
+    const accounts = accountRows as Account[];
+    if (accounts.length === 0 || transactions.length === 0) {
+      return [];
+    }
+    const account = accounts[0];
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const dates = transactions.map(txn => new Date(txn.date).getTime()).filter(time => !isNaN(time));
+    if (dates.length === 0) return [];
+
+    const fromDate = new Date(Math.min(...dates) - options.maxDaysApart * dayMs).toISOString().split('T')[0];
+    const toDate = new Date(Math.max(...dates) + options.maxDaysApart * dayMs).toISOString().split('T')[0];
+
+    const [rows] = await pool.execute(
+      `SELECT t.id, DATE_FORMAT(t.fecha, '%Y-%m-%d') AS fecha, t.name, t.debit, t.credit, t.debitacc
+       FROM rv_transaction t
+       WHERE (t.debitacc = ? OR t.creditacc = ?)
+         AND t.company = ?
+         AND t.fecha BETWEEN ? AND ?
+         AND (t.conciled IS NULL OR t.conciled = 0)
+         AND t.bank_transaction_id IS NULL`,
+      [account.code, account.code, account.company, fromDate, toDate]
+    );
+
+    // Both sides are signed by the side of the account they hit, as the import itself does
+    const entries = (rows as Array<{ id: number; fecha: string; name: string; debit: number; credit: number; debitacc: string }>)
+      .map(row => ({
+        id: row.id,
+        fecha: row.fecha,
+        name: row.name,
+        amount: row.debitacc === account.code ? Number(row.debit) : -Number(row.credit)
+      }));
+
+    const lines = transactions.map(txn => ({
+      date: txn.date,
+      description: txn.description,
+      amount: txn.type === 'debit' ? Math.abs(txn.amount) : -Math.abs(txn.amount)
+    }));
+
+    return suggestMatches(lines, entries, options)
+      .map(match => ({
+        index: match.lineIndex,
+        score: match.score,
+        existingTransaction: {
+          id: match.entry.id,
+          fecha: match.entry.fecha,
+          name: match.entry.name,
+          amount: Math.abs(match.entry.amount)
+        }
+      }))
+      .sort((a, b) => a.index - b.index);
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to find matching transactions');
+  }
+}
+
+export async function importBankStatement(
+  statement: BankStatement,
+  dateToleranceDays: number = 3,
+  userId: number | null = null
+): Promise<{
+  success: boolean;
+  batchId?: number;
+  transactions?: Array<{ id: number; [key: string]: unknown }>;
+  duplicates?: StatementDuplicate[];
+  skippedCount?: number;
+  matchedCount?: number;
+  ruleAssignments?: CategorizationRuleAssignment[];
+  error?: string;
+}> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    // Get account details
+    const [accountRows] = await pool.execute(
+      'SELECT * FROM rv_cuentas WHERE id = ?',
+      [statement.accountId]
+    );
+
+    const accounts = accountRows as Account[];
+    if (accounts.length === 0) {
+      return { success: false, error: 'Account not found' };
+    }
+
+    const account = accounts[0];
+    const accountType = account.account_type; // 'asset', 'liability', 'equity', 'income', 'expense'
+
+    // Validate account type exists
+    if (!accountType) {
+      return {
+        success: false,
+        error: 'Account type is not set. Please set the account type before importing statements.'
+      };
+    }
+
+    // Validate that the statement balances correctly
+    // Running balance is calculated by simply adding all amounts (positive and negative)
+
+    let runningBalance = statement.openingBalance;
+
+    const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
+
+
+    for (const transaction of statement.transactions) {
+
+        console.log(transaction)
+        if (debitIncreasesBalance) {
+          // Assets & Expenses
+          runningBalance += transaction.type === 'debit' ? transaction.amount : -transaction.amount;
+        } else {
+          // Liabilities, Equity & Revenues
+          runningBalance += transaction.type === 'credit' ? transaction.amount : -transaction.amount;
+        }
+
+    }
+
+    console.log('Calculated running balance:', runningBalance, 'Expected closing balance:', statement.closingBalance);
+    if (Math.abs(runningBalance - statement.closingBalance) > 0.01) {
+      return {
+        success: false,
+        error: `Statement doesn't balance. Expected: ${statement.closingBalance}, Calculated: ${runningBalance.toFixed(2)}`
+      };
+    }
+
+    // Suspected duplicates must be explicitly skipped or forced before anything is written
+    const undecidedDuplicates = (await detectStatementDuplicates(account, statement.transactions, dateToleranceDays))
+      .filter(duplicate => {
+        const txn = statement.transactions[duplicate.index];
+        return !txn.duplicate_action && !txn.match_transaction_id;
+      });
+
+    if (undecidedDuplicates.length > 0) {
+      return {
+        success: false,
+        error: `${undecidedDuplicates.length} transaction${undecidedDuplicates.length !== 1 ? 's' : ''} may already exist in the ledger. Skip or force each one before importing.`,
+        duplicates: undecidedDuplicates
+      };
+    }
+
+    // Linked lines and skipped duplicates are already reflected in the account balance, so the
+    // balance the ledger should have before this import is the opening balance plus their effect
+    const matchedTransactions = statement.transactions.filter(txn => txn.match_transaction_id);
+    const skippedTransactions = statement.transactions.filter(txn => !txn.match_transaction_id && txn.duplicate_action === 'skip');
+    const skippedEffect = [...matchedTransactions, ...skippedTransactions].reduce((sum, txn) => {
+      const increasesBalance = (txn.type === 'debit') === debitIncreasesBalance;
+      return sum + (increasesBalance ? txn.amount : -txn.amount);
+    }, 0);
+    const expectedOpeningBalance = statement.openingBalance + skippedEffect;
+
+    // Nothing may land in, or link to entries inside, a period the entity has closed
+    const writtenDates = statement.transactions
+      .filter(txn => txn.match_transaction_id || txn.duplicate_action !== 'skip')
+      .map(txn => txn.date)
+      .sort();
+    const periodLockError =
+      (writtenDates.length > 0 ? await getPeriodLockError(pool, account.company, writtenDates[0]) : null) ||
+      await getLockedTransactionsError(pool, matchedTransactions.map(txn => txn.match_transaction_id!));
+    if (periodLockError) {
+      return { success: false, error: periodLockError };
+    }
+
+    // The same file should not be imported twice unless its earlier import was rolled back
+    if (statement.fileHash) {
+      const [batchRows] = await pool.execute(
+        'SELECT id, created_at FROM rv_import_batch WHERE account_id = ? AND file_hash = ? AND status = ?',
+        [statement.accountId, statement.fileHash, 'imported']
+      );
+      const existingBatches = batchRows as Array<{ id: number; created_at: string }>;
+      if (existingBatches.length > 0) {
+        return {
+          success: false,
+          error: `This file was already imported into this account (import #${existingBatches[0].id}). Roll that import back first to import it again.`
+        };
+      }
+    }
+
+    // Everything below is written in one transaction so a failure leaves no partial import
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    // Lock the account row so concurrent imports see the balance this import leaves behind
+    const [lockedRows] = await connection.execute(
+      'SELECT balance FROM rv_cuentas WHERE id = ? FOR UPDATE',
+      [statement.accountId]
+    );
+    const previousBalance = Number((lockedRows as Array<{ balance: number }>)[0].balance);
+
+    const importedCount = statement.transactions.length - skippedTransactions.length - matchedTransactions.length;
+    const [batchResult] = await connection.execute(`
+      INSERT INTO rv_import_batch
+      (account_id, user_id, file_name, file_hash, statement_date, opening_balance, closing_balance, previous_balance, transaction_count, skipped_count, matched_count, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'imported')
+    `, [
+      statement.accountId, userId, statement.fileName || null, statement.fileHash || null,
+      statement.statementDate, statement.openingBalance, statement.closingBalance, previousBalance,
+      importedCount, skippedTransactions.length, matchedTransactions.length
+    ]);
+    const batchId = (batchResult as mysql.ResultSetHeader).insertId;
+
+    // Linked lines mark the existing entry as cleared by the bank instead of inserting a copy.
+    // The previous values are saved first (MySQL assigns left to right) for a rollback to restore
+    for (const statementTxn of matchedTransactions) {
+      const [linkResult] = await connection.execute(`
+        UPDATE rv_transaction
+        SET ${SAVE_MATCH_PREVIOUS_STATE},
+            conciled = 1, bank_transaction_id = COALESCE(?, bank_transaction_id), matched_import_batch_id = ?
+        WHERE id = ?
+          AND (debitacc = ? OR creditacc = ?)
+          AND company = ?
+          AND (conciled IS NULL OR conciled = 0)
+      `, [
+        statementTxn.bank_transaction_id || null, batchId, statementTxn.match_transaction_id,
+        account.code, account.code, account.company
+      ]);
+
+      if ((linkResult as mysql.ResultSetHeader).affectedRows === 0) {
+        await connection.rollback();
+        return {
+          success: false,
+          error: `Transaction #${statementTxn.match_transaction_id} can no longer be linked; it was removed or already cleared`
+        };
+      }
+    }
+
+    const createdTransactions = [];
+    const accountingDate = new Date().toISOString().slice(0, 19).replace('T', ' ');
+
+    // Create opening balance adjustment if needed
+    if (Math.abs(previousBalance - expectedOpeningBalance) > 0.01) {
+      const balanceDifference = expectedOpeningBalance - previousBalance;
+
+      // Determine debit/credit based on account type and balance difference
+      let debitacc = '0';
+      let creditacc = '0';
+      let balancedebit = null;
+      let balancecredit = null;
+
+      // DEBIT increases: Assets, Expenses
+      // CREDIT increases: Liabilities, Equity, Income
+      const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
+
+      if (debitIncreasesBalance) {
+        if (balanceDifference > 0) {
+          // Need to increase → DEBIT account
+          debitacc = account.code;
+          balancedebit = expectedOpeningBalance;
+        } else {
+          // Need to decrease → CREDIT account
+          creditacc = account.code;
+          balancecredit = expectedOpeningBalance;
+        }
+      } else {
+        // Credit increases balance (liability, equity, income, contra accounts)
+        if (balanceDifference > 0) {
+          // Need to increase → CREDIT account
+          creditacc = account.code;
+          balancecredit = expectedOpeningBalance;
+        } else {
+          // Need to decrease → DEBIT account
+          debitacc = account.code;
+          balancedebit = expectedOpeningBalance;
+        }
+      }
+
+      const openingAdjustment = {
+        conciled: 1,
+        client: account.client || 'System',
+        company: account.company || 1,
+        name: 'Opening Balance Adjustment',
+        category: 'Statement Import',
+        description: `Opening balance adjustment for statement dated ${statement.statementDate}`,
+        debit: Math.abs(balanceDifference),
+        credit: Math.abs(balanceDifference),
+        balancedebit: balancedebit,
+        balancecredit: balancecredit,
+        debitacc: debitacc,
+        creditacc: creditacc,
+        fecha: statement.statementDate,
+        status: 'Statement Import',
+        accounting_date: accountingDate,
+        import_batch_id: batchId
+      };
+
+      const [openingResult] = await connection.execute(`
+        INSERT INTO rv_transaction
+        (conciled, client, company, name, category, description, debit, credit, balancedebit, balancecredit, debitacc, creditacc, fecha, status, accounting_date, import_batch_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        openingAdjustment.conciled, openingAdjustment.client, openingAdjustment.company,
+        openingAdjustment.name, openingAdjustment.category, openingAdjustment.description,
+        openingAdjustment.debit, openingAdjustment.credit, openingAdjustment.balancedebit,
+        openingAdjustment.balancecredit, openingAdjustment.debitacc, openingAdjustment.creditacc,
+        openingAdjustment.fecha, openingAdjustment.status, openingAdjustment.accounting_date,
+        openingAdjustment.import_batch_id
+      ]);
+
+      const openingResultInsert = openingResult as mysql.ResultSetHeader;
+      createdTransactions.push({ id: openingResultInsert.insertId, ...openingAdjustment });
+    }
+
+    // Lines a categorization rule recognizes are posted complete instead of waiting for manual assignment
+    const rules = userId ? await getApplicableCategorizationRules(connection, account, userId) : [];
+    const ruleAssignments: CategorizationRuleAssignment[] = [];
+    const payees = account.company ? await getPayeeDirectory(connection, account.company) : [];
+
+    // Create all statement transactions
+    let currentBalance = statement.openingBalance;
+
+    for (const [index, statementTxn] of statement.transactions.entries()) {
+      if (statementTxn.match_transaction_id || statementTxn.duplicate_action === 'skip') {
+        currentBalance += statementTxn.type === 'debit' ? Math.abs(statementTxn.amount) : -Math.abs(statementTxn.amount);
+        continue;
+      }
+
+      // Determine which account field to populate based on transaction type
+      let debitacc = '0';
+      let creditacc = '0';
+      let balancedebit = null;
+      let balancecredit = null;
+
+      // Amount should already be absolute value from frontend
+      const amount = Math.abs(statementTxn.amount);
+
+      // Use the transaction type sent from frontend
+      // Frontend has already determined correct type based on account type and amount sign
+      if (statementTxn.type === 'debit') {
         // DEBIT this account
         debitacc = account.code;
         currentBalance += amount;
@@ -733,54 +2294,1358 @@ export async function importBankStatement(
         balancecredit = currentBalance;
       }
 
-      const transactionData = {
-        conciled: 1,
-        client: account.client || 'System',
-        company: account.company || 1,
-        name: statementTxn.description,
-        category: statementTxn.category || 'Bank Transaction',
-        description: `Bank statement transaction - ${statementTxn.description}`,
-        debit: amount,
-        credit: amount,
-        balancedebit: balancedebit,
-        balancecredit: balancecredit,
-        debitacc: debitacc,
-        creditacc: creditacc,
-        fecha: statementTxn.date,
-        status: 'Statement Import',
-        accounting_date: accountingDate
-      };
+      const rule = findMatchingRule(rules, {
+        company: account.company || 1,
+        description: statementTxn.description,
+        amount,
+        direction: statementTxn.type,
+        sourceAccountCode: account.code
+      });
+      // A payee's default account fills in when no rule fired
+      const payee = matchPayee(normalizePayeeDescription(statementTxn.description), payees);
+      const counterAccountCode = rule?.counter_account_code
+        || (payee?.default_account_code !== account.code ? payee?.default_account_code : null);
+      if (counterAccountCode) {
+        if (statementTxn.type === 'debit') {
+          creditacc = counterAccountCode;
+        } else {
+          debitacc = counterAccountCode;
+        }
+      }
+
+      const transactionData = {
+        conciled: 1,
+        client: account.client || 'System',
+        company: account.company || 1,
+        name: statementTxn.description,
+        category: statementTxn.category || 'Bank Transaction',
+        description: `Bank statement transaction - ${statementTxn.description}`,
+        debit: amount,
+        credit: amount,
+        balancedebit: balancedebit,
+        balancecredit: balancecredit,
+        debitacc: debitacc,
+        creditacc: creditacc,
+        fecha: statementTxn.date,
+        status: 'Statement Import',
+        bank_transaction_id: statementTxn.bank_transaction_id || null,
+        accounting_date: accountingDate,
+        import_batch_id: batchId,
+        categorization_rule_id: rule?.id ?? null,
+        payee_id: payee?.id ?? null
+      };
+
+      const [result] = await connection.execute(`
+        INSERT INTO rv_transaction
+        (conciled, client, company, name, category, description, debit, credit, balancedebit, balancecredit, debitacc, creditacc, fecha, status, bank_transaction_id, accounting_date, import_batch_id, categorization_rule_id, payee_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        transactionData.conciled, transactionData.client, transactionData.company,
+        transactionData.name, transactionData.category, transactionData.description,
+        transactionData.debit, transactionData.credit, transactionData.balancedebit,
+        transactionData.balancecredit, transactionData.debitacc, transactionData.creditacc,
+        transactionData.fecha, transactionData.status, transactionData.bank_transaction_id,
+        transactionData.accounting_date, transactionData.import_batch_id, transactionData.categorization_rule_id,
+        transactionData.payee_id
+      ]);
+
+      const resultInsert = result as mysql.ResultSetHeader;
+      createdTransactions.push({ id: resultInsert.insertId, ...transactionData });
+
+      if (rule) {
+        ruleAssignments.push({
+          index,
+          transactionId: resultInsert.insertId,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          counterAccountCode: rule.counter_account_code
+        });
+      }
+    }
+
+    // Update the account balance to the closing balance
+    await connection.execute(
+      'UPDATE rv_cuentas SET balance = ?, date_updated = NOW() WHERE id = ?',
+      [statement.closingBalance, statement.accountId]
+    );
+
+    await recordAudit(connection, {
+      userId,
+      company: account.company,
+      action: 'import.statement',
+      targetTable: 'rv_import_batch',
+      targetId: batchId,
+      before: { balance: previousBalance },
+      after: {
+        balance: statement.closingBalance,
+        file_name: statement.fileName || null,
+        statement_date: statement.statementDate,
+        transaction_ids: createdTransactions.map(transaction => transaction.id),
+        matched_transaction_ids: matchedTransactions.map(match => match.match_transaction_id),
+        skipped_count: skippedTransactions.length
+      },
+      accountIds: [statement.accountId],
+      accountCodes: createdTransactions.flatMap(transaction => [transaction.debitacc, transaction.creditacc])
+    });
+
+    await connection.commit();
+
+    return {
+      success: true,
+      batchId,
+      transactions: createdTransactions,
+      skippedCount: skippedTransactions.length,
+      matchedCount: matchedTransactions.length,
+      ruleAssignments
+    };
+
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Statement import error:', error);
+    return { success: false, error: 'Failed to import bank statement' };
+  } finally {
+    connection?.release();
+  }
+}
+
+export async function getImportBatchesByAccountId(accountId: number): Promise<ImportBatch[]> {
+  try {
+    const [rows] = await pool.execute(`
+      SELECT b.*, l.email AS user_email
+      FROM rv_import_batch b
+      LEFT JOIN login l ON b.user_id = l.id
+      WHERE b.account_id = ?
+      ORDER BY b.created_at DESC, b.id DESC
+    `, [accountId]);
+
+    return rows as ImportBatch[];
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch import batches');
+  }
+}
+
+/**
+ * Undo a statement import: delete every row it created, take its net effect back off
+ * the account balance and unlink the ledger entries it matched. Only the most recent active import of an account can be rolled back,
+ * since later imports were validated against the balance this one left behind, and only while
+ * no completed reconciliation has cleared its lines.
+ */
+export async function rollbackImportBatch(
+  batchId: number,
+  accountId: number,
+  userId: number
+): Promise<{ success: boolean; deletedCount?: number; restoredBalance?: number; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [batchRows] = await connection.execute(
+      'SELECT * FROM rv_import_batch WHERE id = ? AND account_id = ? FOR UPDATE',
+      [batchId, accountId]
+    );
+    const batches = batchRows as ImportBatch[];
+    if (batches.length === 0) {
+      await connection.rollback();
+      return { success: false, error: 'Import batch not found' };
+    }
+
+    const batch = batches[0];
+    if (batch.status !== 'imported') {
+      await connection.rollback();
+      return { success: false, error: 'This import has already been rolled back' };
+    }
+
+    const [laterRows] = await connection.execute(
+      'SELECT COUNT(*) AS count FROM rv_import_batch WHERE account_id = ? AND status = ? AND id > ?',
+      [accountId, 'imported', batchId]
+    );
+    if (Number((laterRows as Array<{ count: number }>)[0].count) > 0) {
+      await connection.rollback();
+      return { success: false, error: 'Roll back the newer imports of this account first' };
+    }
+
+    const [accountRows] = await connection.execute(
+      `SELECT a.code, a.company, a.account_type, a.balance, COALESCE(c.forbid_hard_delete, 0) AS forbid_hard_delete
+       FROM rv_cuentas a LEFT JOIN company c ON c.id = a.company
+       WHERE a.id = ? FOR UPDATE`,
+      [accountId]
+    );
+    const account = (accountRows as Array<Pick<Account, 'code' | 'company' | 'account_type' | 'balance'> & { forbid_hard_delete: number }>)[0];
+    if (account.forbid_hard_delete) {
+      await connection.rollback();
+      return { success: false, error: 'This entity does not allow deleting imported transactions; reverse them instead' };
+    }
+
+    // Remove only what this import's remaining rows changed, so balance movements made since
+    // then (including rows merged into existing entries during reconciliation) are kept
+    const [batchTransactionRows] = await connection.execute(
+      `SELECT id, debitacc, creditacc, debit, credit, description, DATE_FORMAT(fecha, '%Y-%m-%d') AS fecha
+       FROM rv_transaction WHERE import_batch_id = ?`,
+      [batchId]
+    );
+    const batchTransactions = batchTransactionRows as Array<Pick<Transaction, 'id' | 'debitacc' | 'creditacc' | 'debit' | 'credit' | 'description' | 'fecha'>>;
+
+    const [matchedRows] = await connection.execute(
+      'SELECT id FROM rv_transaction WHERE matched_import_batch_id = ?',
+      [batchId]
+    );
+    const lockedError = await getLockedTransactionsError(connection, [
+      ...batchTransactions.map(row => row.id),
+      ...(matchedRows as Array<{ id: number }>).map(row => row.id)
+    ]);
+    if (lockedError) {
+      await connection.rollback();
+      return { success: false, error: lockedError };
+    }
+
+    // A completed reconciliation counted these lines as cleared; its balances would no longer match
+    const [reconciledRows] = await connection.execute(`
+      SELECT DATE_FORMAT(r.period_end, '%Y-%m-%d') AS period_end
+      FROM rv_transaction t
+      JOIN rv_reconciliation r ON r.id = t.reconciliation_id AND r.status = 'completed'
+      WHERE t.import_batch_id = ? OR t.matched_import_batch_id = ?
+      ORDER BY r.period_end DESC
+      LIMIT 1
+    `, [batchId, batchId]);
+    const reconciled = (reconciledRows as Array<{ period_end: string }>)[0];
+    if (reconciled) {
+      await connection.rollback();
+      return {
+        success: false,
+        error: `Lines of this import were cleared by the reconciliation through ${reconciled.period_end}; reopen that reconciliation first`
+      };
+    }
+
+    const batchEffect = batchTransactions.reduce((sum, row) => sum + getBalanceEffect(row, account), 0);
+    const restoredBalance = Number(account.balance) - batchEffect;
+
+    const [deleteResult] = await connection.execute(
+      'DELETE FROM rv_transaction WHERE import_batch_id = ?',
+      [batchId]
+    );
+
+    // Matched entries go back to how they were before the match (minus a reconciliation discarded
+    // since); rows matched before the previous state was recorded fall back to uncleared
+    await connection.execute(`
+      UPDATE rv_transaction
+      SET conciled = COALESCE(match_previous_conciled, 0),
+          bank_transaction_id = match_previous_bank_transaction_id,
+          reconciliation_id = (SELECT r.id FROM rv_reconciliation r WHERE r.id = match_previous_reconciliation_id),
+          matched_import_batch_id = NULL,
+          match_previous_conciled = NULL,
+          match_previous_bank_transaction_id = NULL,
+          match_previous_reconciliation_id = NULL
+      WHERE matched_import_batch_id = ?
+    `, [batchId]);
+
+    await connection.execute(
+      'UPDATE rv_cuentas SET balance = ?, date_updated = NOW() WHERE id = ?',
+      [restoredBalance, accountId]
+    );
+
+    await connection.execute(
+      'UPDATE rv_import_batch SET status = ?, rolled_back_at = NOW(), rolled_back_by = ? WHERE id = ?',
+      ['rolled_back', userId, batchId]
+    );
+
+    await recordAudit(connection, {
+      userId,
+      company: account.company,
+      action: 'import.rollback',
+      targetTable: 'rv_import_batch',
+      targetId: batchId,
+      before: { status: batch.status, balance: Number(account.balance), transactions: batchTransactions },
+      after: { status: 'rolled_back', balance: restoredBalance },
+      accountIds: [accountId],
+      accountCodes: batchTransactions.flatMap(row => [row.debitacc, row.creditacc])
+    });
+
+    await connection.commit();
+
+    return {
+      success: true,
+      deletedCount: (deleteResult as mysql.ResultSetHeader).affectedRows,
+      restoredBalance
+    };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Import rollback error:', error);
+    return { success: false, error: 'Failed to roll back import' };
+  } finally {
+    connection?.release();
+  }
+}
+
+export type ImportColumnRole = 'date' | 'description' | 'amount' | 'debit_amount' | 'credit_amount' | 'type' | 'ignore';
+
+export type ImportDateFormat = 'auto' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD-MM-YYYY' | 'DD.MM.YYYY' | 'YYYYMMDD';
+
+export interface ImportProfileColumn {
+  header: string;
+  role: ImportColumnRole;
+}
+
+export interface ImportProfile {
+  id: number;
+  user_id: number;
+  bank_id: number | null; // Matches rv_cuentas.bankID
+  name: string;
+  column_roles: ImportProfileColumn[];
+  date_format: ImportDateFormat;
+  decimal_separator: '.' | ',';
+  thousands_separator: '' | ',' | '.' | ' ' | "'";
+  sign_convention: 'positive_increases' | 'positive_decreases'; // Effect of a positive amount on the account balance
+  skip_rows: number; // Lines before the header row
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ImportProfileInput = Omit<ImportProfile, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+// JSON columns come back parsed from mysql2, but older servers return them as text
+function toImportProfile(row: Record<string, unknown>): ImportProfile {
+  const columnRoles = typeof row.column_roles === 'string' ? JSON.parse(row.column_roles) : row.column_roles;
+  return {
+    ...(row as unknown as ImportProfile),
+    column_roles: Array.isArray(columnRoles) ? columnRoles : [],
+    skip_rows: Number(row.skip_rows) || 0
+  };
+}
+
+export async function getImportProfilesByUserId(userId: number, bankId?: number | null): Promise<ImportProfile[]> {
+  try {
+    let query = 'SELECT * FROM rv_import_profile WHERE user_id = ?';
+    const params: (string | number)[] = [userId];
+
+    if (bankId !== undefined && bankId !== null) {
+      query += ' AND bank_id = ?';
+      params.push(bankId);
+    }
+
+    query += ' ORDER BY updated_at DESC, name ASC';
+
+    const [rows] = await pool.execute(query, params);
+    return (rows as Record<string, unknown>[]).map(toImportProfile);
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch import profiles');
+  }
+}
+
+export async function getImportProfileById(profileId: number, userId: number): Promise<ImportProfile | null> {
+  try {
+    const [rows] = await pool.execute(
+      'SELECT * FROM rv_import_profile WHERE id = ? AND user_id = ?',
+      [profileId, userId]
+    );
+
+    const profiles = rows as Record<string, unknown>[];
+    return profiles.length > 0 ? toImportProfile(profiles[0]) : null;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch import profile');
+  }
+}
+
+export async function createImportProfile(profile: ImportProfileInput, userId: number): Promise<ImportProfile> {
+  try {
+    const [result] = await pool.execute(`
+      INSERT INTO rv_import_profile
+      (user_id, bank_id, name, column_roles, date_format, decimal_separator, thousands_separator, sign_convention, skip_rows)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      userId,
+      profile.bank_id,
+      profile.name,
+      JSON.stringify(profile.column_roles),
+      profile.date_format,
+      profile.decimal_separator,
+      profile.thousands_separator,
+      profile.sign_convention,
+      profile.skip_rows
+    ]);
+
+    const insertId = (result as mysql.ResultSetHeader).insertId;
+    const created = await getImportProfileById(insertId, userId);
+    if (!created) {
+      throw new Error('Failed to retrieve created import profile');
+    }
+
+    await recordAudit(pool, {
+      userId,
+      company: null,
+      action: 'import_profile.create',
+      targetTable: 'rv_import_profile',
+      targetId: insertId,
+      after: created
+    });
+
+    return created;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to create import profile');
+  }
+}
+
+export async function updateImportProfile(
+  profileId: number,
+  profile: ImportProfileInput,
+  userId: number
+): Promise<{ success: boolean; profile?: ImportProfile; error?: string }> {
+  try {
+    const existing = await getImportProfileById(profileId, userId);
+    if (!existing) {
+      return { success: false, error: 'Import profile not found' };
+    }
+
+    const [result] = await pool.execute(`
+      UPDATE rv_import_profile
+      SET bank_id = ?, name = ?, column_roles = ?, date_format = ?, decimal_separator = ?,
+          thousands_separator = ?, sign_convention = ?, skip_rows = ?
+      WHERE id = ? AND user_id = ?
+    `, [
+      profile.bank_id,
+      profile.name,
+      JSON.stringify(profile.column_roles),
+      profile.date_format,
+      profile.decimal_separator,
+      profile.thousands_separator,
+      profile.sign_convention,
+      profile.skip_rows,
+      profileId,
+      userId
+    ]);
+
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      return { success: false, error: 'Import profile not found' };
+    }
+
+    const updated = await getImportProfileById(profileId, userId);
+    await recordAudit(pool, {
+      userId,
+      company: null,
+      action: 'import_profile.update',
+      targetTable: 'rv_import_profile',
+      targetId: profileId,
+      before: existing,
+      after: updated
+    });
+
+    return { success: true, profile: updated || undefined };
+  } catch (error) {
+    console.error('Database error:', error);
+    return { success: false, error: 'Failed to update import profile' };
+  }
+}
+
+export async function deleteImportProfile(profileId: number, userId: number): Promise<boolean> {
+  try {
+    const existing = await getImportProfileById(profileId, userId);
+    const [result] = await pool.execute(
+      'DELETE FROM rv_import_profile WHERE id = ? AND user_id = ?',
+      [profileId, userId]
+    );
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      return false;
+    }
+
+    await recordAudit(pool, {
+      userId,
+      company: null,
+      action: 'import_profile.delete',
+      targetTable: 'rv_import_profile',
+      targetId: profileId,
+      before: existing
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to delete import profile');
+  }
+}
+
+export interface CategorizationRule {
+  id: number;
+  user_id: number;
+  company: number | null; // NULL applies the rule to every entity the user can post to
+  name: string;
+  match_type: 'contains' | 'regex';
+  description_pattern: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  direction: 'any' | 'debit' | 'credit'; // Side of the source account the bank line is posted to
+  source_account_code: string | null;
+  counter_account_code: string;
+  priority: number; // Lower runs first
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type CategorizationRuleInput = Omit<CategorizationRule, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export interface CategorizationRuleAssignment {
+  index?: number; // Statement line, for imports
+  transactionId: number;
+  ruleId: number;
+  ruleName: string;
+  counterAccountCode: string;
+}
+
+function toCategorizationRule(row: Record<string, unknown>): CategorizationRule {
+  return {
+    ...(row as unknown as CategorizationRule),
+    min_amount: row.min_amount === null ? null : Number(row.min_amount),
+    max_amount: row.max_amount === null ? null : Number(row.max_amount),
+    priority: Number(row.priority),
+    active: Boolean(row.active)
+  };
+}
+
+export async function getCategorizationRulesByUserId(userId: number, entityId?: number): Promise<CategorizationRule[]> {
+  try {
+    let query = 'SELECT * FROM rv_categorization_rule WHERE user_id = ?';
+    const params: number[] = [userId];
+
+    if (entityId) {
+      query += ' AND (company = ? OR company IS NULL)';
+      params.push(entityId);
+    }
+
+    query += ' ORDER BY priority ASC, id ASC';
+
+    const [rows] = await pool.execute(query, params);
+    return (rows as Record<string, unknown>[]).map(toCategorizationRule);
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch categorization rules');
+  }
+}
+
+export async function getCategorizationRuleById(ruleId: number, userId: number): Promise<CategorizationRule | null> {
+  try {
+    const [rows] = await pool.execute(
+      'SELECT * FROM rv_categorization_rule WHERE id = ? AND user_id = ?',
+      [ruleId, userId]
+    );
+
+    const rules = rows as Record<string, unknown>[];
+    return rules.length > 0 ? toCategorizationRule(rules[0]) : null;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch categorization rule');
+  }
+}
+
+// Entity-scoped rules must point at an active account of that entity the user can post to
+async function checkCategorizationRuleTarget(rule: CategorizationRuleInput, userId: number): Promise<string | null> {
+  if (rule.company === null) return null;
+
+  const [rows] = await pool.execute(`
+    SELECT a.id
+    FROM rv_cuentas a
+    JOIN company c ON c.id = a.company
+    WHERE a.code = ? AND a.company = ? AND a.active = 1
+      AND (c.user_id = ? OR EXISTS (SELECT 1 FROM company_user cu WHERE cu.company_id = c.id AND cu.user_id = ?))
+  `, [rule.counter_account_code, rule.company, userId, userId]);
+
+  return (rows as Array<{ id: number }>).length > 0 ? null : 'Counter account not found in this entity';
+}
+
+export async function createCategorizationRule(
+  rule: CategorizationRuleInput,
+  userId: number
+): Promise<{ success: boolean; rule?: CategorizationRule; error?: string }> {
+  try {
+    const targetError = await checkCategorizationRuleTarget(rule, userId);
+    if (targetError) {
+      return { success: false, error: targetError };
+    }
+
+    const [result] = await pool.execute(`
+      INSERT INTO rv_categorization_rule
+      (user_id, company, name, match_type, description_pattern, min_amount, max_amount, direction,
+       source_account_code, counter_account_code, priority, active)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      userId,
+      rule.company,
+      rule.name,
+      rule.match_type,
+      rule.description_pattern,
+      rule.min_amount,
+      rule.max_amount,
+      rule.direction,
+      rule.source_account_code,
+      rule.counter_account_code,
+      rule.priority,
+      rule.active ? 1 : 0
+    ]);
+
+    const ruleId = (result as mysql.ResultSetHeader).insertId;
+    const created = await getCategorizationRuleById(ruleId, userId);
+    await recordAudit(pool, {
+      userId,
+      company: rule.company,
+      action: 'categorization_rule.create',
+      targetTable: 'rv_categorization_rule',
+      targetId: ruleId,
+      after: created
+    });
+
+    return { success: true, rule: created || undefined };
+  } catch (error) {
+    console.error('Database error:', error);
+    return { success: false, error: 'Failed to create categorization rule' };
+  }
+}
+
+export async function updateCategorizationRule(
+  ruleId: number,
+  rule: CategorizationRuleInput,
+  userId: number
+): Promise<{ success: boolean; rule?: CategorizationRule; error?: string }> {
+  try {
+    const targetError = await checkCategorizationRuleTarget(rule, userId);
+    if (targetError) {
+      return { success: false, error: targetError };
+    }
+
+    const existing = await getCategorizationRuleById(ruleId, userId);
+    if (!existing) {
+      return { success: false, error: 'Categorization rule not found' };
+    }
+
+    const [result] = await pool.execute(`
+      UPDATE rv_categorization_rule
+      SET company = ?, name = ?, match_type = ?, description_pattern = ?, min_amount = ?, max_amount = ?,
+          direction = ?, source_account_code = ?, counter_account_code = ?, priority = ?, active = ?
+      WHERE id = ? AND user_id = ?
+    `, [
+      rule.company,
+      rule.name,
+      rule.match_type,
+      rule.description_pattern,
+      rule.min_amount,
+      rule.max_amount,
+      rule.direction,
+      rule.source_account_code,
+      rule.counter_account_code,
+      rule.priority,
+      rule.active ? 1 : 0,
+      ruleId,
+      userId
+    ]);
+
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      return { success: false, error: 'Categorization rule not found' };
+    }
+
+    const updated = await getCategorizationRuleById(ruleId, userId);
+    await recordAudit(pool, {
+      userId,
+      company: rule.company ?? existing.company,
+      action: 'categorization_rule.update',
+      targetTable: 'rv_categorization_rule',
+      targetId: ruleId,
+      before: existing,
+      after: updated
+    });
+
+    return { success: true, rule: updated || undefined };
+  } catch (error) {
+    console.error('Database error:', error);
+    return { success: false, error: 'Failed to update categorization rule' };
+  }
+}
+
+export async function deleteCategorizationRule(ruleId: number, userId: number): Promise<boolean> {
+  try {
+    const existing = await getCategorizationRuleById(ruleId, userId);
+    const [result] = await pool.execute(
+      'DELETE FROM rv_categorization_rule WHERE id = ? AND user_id = ?',
+      [ruleId, userId]
+    );
+    if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+      return false;
+    }
+
+    await recordAudit(pool, {
+      userId,
+      company: existing?.company ?? null,
+      action: 'categorization_rule.delete',
+      targetTable: 'rv_categorization_rule',
+      targetId: ruleId,
+      before: existing
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to delete categorization rule');
+  }
+}
+
+// Active rules that can fire for a bank account: their counter account has to exist in the account's entity
+async function getApplicableCategorizationRules(
+  executor: mysql.Pool | mysql.PoolConnection,
+  account: Pick<Account, 'code' | 'company'>,
+  userId: number
+): Promise<CategorizationRule[]> {
+  const [rows] = await executor.execute(`
+    SELECT r.*
+    FROM rv_categorization_rule r
+    JOIN rv_cuentas a ON a.code = r.counter_account_code AND a.company = ? AND a.active = 1
+    WHERE r.user_id = ? AND r.active = 1
+      AND (r.company IS NULL OR r.company = ?)
+      AND r.counter_account_code <> ?
+  `, [account.company, userId, account.company, account.code]);
+
+  return (rows as Record<string, unknown>[]).map(toCategorizationRule);
+}
+
+/**
+ * Run the user's rules over an account's incomplete transactions. With dryRun the
+ * assignments that would be made are returned without touching the ledger.
+ */
+export async function applyCategorizationRules(
+  account: Account,
+  userId: number,
+  dryRun: boolean = false
+): Promise<{ success: boolean; assignments?: CategorizationRuleAssignment[]; error?: string }> {
+  try {
+    const rules = await getApplicableCategorizationRules(pool, account, userId);
+    if (rules.length === 0) {
+      return { success: true, assignments: [] };
+    }
+
+    const candidates = (await getIncompleteTransactionsByAccount(account.code, 500))
+      .filter(transaction => transaction.company === account.company);
+
+    // Rows inside a closed period stay as they are
+    const lockedIds = await getLockedTransactionIds(pool, candidates.map(transaction => transaction.id));
+    const incomplete = candidates.filter(transaction => !lockedIds.has(transaction.id));
+
+    const assignments: CategorizationRuleAssignment[] = [];
+    for (const transaction of incomplete) {
+      const isDebitMissing = transaction.debitacc === '0';
+      if (isDebitMissing === (transaction.creditacc === '0')) continue;
+
+      const rule = findMatchingRule(rules, {
+        company: transaction.company,
+        description: transaction.name || transaction.description || '',
+        amount: Number(transaction.debit),
+        direction: transaction.debitacc === account.code ? 'debit' : 'credit',
+        sourceAccountCode: account.code
+      });
+      if (!rule) continue;
+
+      if (!dryRun) {
+        // Guard on the empty slot so a manual assignment made meanwhile is not overwritten
+        const column = isDebitMissing ? 'debitacc' : 'creditacc';
+        const [result] = await pool.execute(
+          `UPDATE rv_transaction SET ${column} = ?, categorization_rule_id = ? WHERE id = ? AND ${column} = '0'`,
+          [rule.counter_account_code, rule.id, transaction.id]
+        );
+        if ((result as mysql.ResultSetHeader).affectedRows === 0) continue;
+      }
+
+      assignments.push({
+        transactionId: transaction.id,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        counterAccountCode: rule.counter_account_code
+      });
+    }
+
+    if (!dryRun && assignments.length > 0) {
+      await recordAudit(pool, {
+        userId,
+        company: account.company,
+        action: 'transaction.apply_rules',
+        targetTable: 'rv_transaction',
+        after: { assignments },
+        accountIds: [account.id],
+        accountCodes: assignments.map(assignment => assignment.counterAccountCode)
+      });
+    }
+
+    return { success: true, assignments };
+  } catch (error) {
+    console.error('Categorization rule error:', error);
+    return { success: false, error: 'Failed to apply categorization rules' };
+  }
+}
+
+export interface Payee {
+  id: number;
+  company: number;
+  name: string;
+  default_account_code: string | null;
+  aliases: string[]; // Normalized descriptions
+  transaction_count?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PayeeInput = Omit<Payee, 'id' | 'transaction_count' | 'created_at' | 'updated_at'>;
+
+export interface UnmappedPayeeDescription {
+  key: string; // Normalized description
+  example: string;
+  transaction_count: number;
+  total_amount: number;
+}
+
+const UNMAPPED_HISTORY_LIMIT = 2000;
+const PAYEE_LINK_BATCH_SIZE = 1000;
+
+async function getPayeeDirectory(executor: mysql.Pool | mysql.PoolConnection, company: number): Promise<Payee[]> {
+  const [payeeRows] = await executor.execute(
+    'SELECT id, company, name, default_account_code, created_at, updated_at FROM rv_payee WHERE company = ? ORDER BY name ASC',
+    [company]
+  );
+  const payees = payeeRows as Array<Omit<Payee, 'aliases'>>;
+  if (payees.length === 0) return [];
+
+  const [aliasRows] = await executor.execute(
+    `SELECT payee_id, alias FROM rv_payee_alias WHERE payee_id IN (${payees.map(() => '?').join(',')}) ORDER BY alias ASC`,
+    payees.map(payee => payee.id)
+  );
+  const aliases = aliasRows as Array<{ payee_id: number; alias: string }>;
+
+  return payees.map(payee => ({
+    ...payee,
+    aliases: aliases.filter(alias => alias.payee_id === payee.id).map(alias => alias.alias)
+  }));
+}
+
+/**
+ * Attach payees to the entity's transactions that do not have one yet.
+ * Runs after the directory changes so earlier imports pick up new payees and aliases.
+ * Unlinked rows are read in batches by ID so a large history never sits in memory at once.
+ */
+async function linkTransactionsToPayees(connection: mysql.PoolConnection, company: number, userId: number): Promise<number> {
+  const payees = await getPayeeDirectory(connection, company);
+  if (payees.length === 0) return 0;
+
+  let linked = 0;
+  let lastId = 0;
+  let batch: Array<{ id: number; name: string; description: string | null }>;
+  do {
+    const [rows] = await connection.execute(`
+      SELECT id, name, description FROM rv_transaction
+      WHERE company = ? AND payee_id IS NULL AND id > ?
+      ORDER BY id ASC
+      LIMIT ${PAYEE_LINK_BATCH_SIZE}
+    `, [company, lastId]);
+    batch = rows as typeof batch;
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    const idsByPayee = new Map<number, number[]>();
+    for (const row of batch) {
+      const payee = matchPayee(normalizePayeeDescription(row.name || row.description), payees);
+      if (payee) {
+        idsByPayee.set(payee.id, [...(idsByPayee.get(payee.id) || []), row.id]);
+      }
+    }
+
+    let batchLinked = 0;
+    for (const [payeeId, ids] of idsByPayee) {
+      const [result] = await connection.execute(
+        `UPDATE rv_transaction SET payee_id = ? WHERE id IN (${ids.map(() => '?').join(',')})`,
+        [payeeId, ...ids]
+      );
+      batchLinked += (result as mysql.ResultSetHeader).affectedRows;
+    }
+
+    if (batchLinked > 0) {
+      await recordAudit(connection, {
+        userId,
+        company,
+        action: 'transaction.link_payees',
+        targetTable: 'rv_transaction',
+        before: { payee_id: null },
+        after: Object.fromEntries(idsByPayee) // Payee ID to the transaction IDs it was linked to
+      });
+    }
+    linked += batchLinked;
+  } while (batch.length === PAYEE_LINK_BATCH_SIZE);
+  return linked;
+}
+
+export async function getPayeesByEntityId(
+  entityId: number,
+  userId: number
+): Promise<{ payees: Payee[]; unmapped: UnmappedPayeeDescription[] } | null> {
+  try {
+    if (!await canPostToEntity(pool, entityId, userId)) return null;
+
+    const payees = await getPayeeDirectory(pool, entityId);
+
+    const [countRows] = await pool.execute(
+      'SELECT payee_id, COUNT(*) as transaction_count FROM rv_transaction WHERE company = ? AND payee_id IS NOT NULL GROUP BY payee_id',
+      [entityId]
+    );
+    const counts = new Map((countRows as Array<{ payee_id: number; transaction_count: number }>)
+      .map(row => [row.payee_id, Number(row.transaction_count)]));
+
+    // Most frequent descriptions without a payee, as candidates for new payees or aliases
+    const [unmappedRows] = await pool.execute(`
+      SELECT name, description, debit
+      FROM rv_transaction
+      WHERE company = ? AND payee_id IS NULL
+      ORDER BY fecha DESC, id DESC
+      LIMIT ${UNMAPPED_HISTORY_LIMIT}
+    `, [entityId]);
+
+    const unmapped = new Map<string, UnmappedPayeeDescription>();
+    for (const row of unmappedRows as Array<{ name: string; description: string | null; debit: number }>) {
+      const example = row.name || row.description || '';
+      const key = normalizePayeeDescription(example);
+      if (!key) continue;
+
+      const entry = unmapped.get(key) || { key, example, transaction_count: 0, total_amount: 0 };
+      entry.transaction_count++;
+      entry.total_amount += Number(row.debit);
+      unmapped.set(key, entry);
+    }
+
+    return {
+      payees: payees.map(payee => ({ ...payee, transaction_count: counts.get(payee.id) || 0 })),
+      unmapped: Array.from(unmapped.values())
+        .sort((a, b) => b.transaction_count - a.transaction_count || b.total_amount - a.total_amount)
+        .slice(0, 20)
+    };
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch payees');
+  }
+}
+
+async function savePayee(
+  payeeId: number | null,
+  payee: PayeeInput,
+  userId: number
+): Promise<{ success: boolean; payee?: Payee; linkedCount?: number; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    if (!await canPostToEntity(connection, payee.company, userId)) {
+      await connection.rollback();
+      return { success: false, error: 'Entity not found or access denied' };
+    }
+
+    if (payee.default_account_code) {
+      const [accountRows] = await connection.execute(
+        'SELECT id FROM rv_cuentas WHERE code = ? AND company = ? AND active = 1',
+        [payee.default_account_code, payee.company]
+      );
+      if ((accountRows as Array<{ id: number }>).length === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Default account not found in this entity' };
+      }
+    }
+
+    const [duplicateRows] = await connection.execute(
+      'SELECT id FROM rv_payee WHERE company = ? AND name = ? AND id <> ?',
+      [payee.company, payee.name, payeeId ?? 0]
+    );
+    if ((duplicateRows as Array<{ id: number }>).length > 0) {
+      await connection.rollback();
+      return { success: false, error: 'A payee with this name already exists' };
+    }
+
+    const before = payeeId
+      ? (await getPayeeDirectory(connection, payee.company)).find(entry => entry.id === payeeId)
+      : undefined;
+
+    if (payeeId) {
+      const [result] = await connection.execute(
+        'UPDATE rv_payee SET name = ?, default_account_code = ? WHERE id = ? AND company = ?',
+        [payee.name, payee.default_account_code, payeeId, payee.company]
+      );
+      if ((result as mysql.ResultSetHeader).affectedRows === 0) {
+        await connection.rollback();
+        return { success: false, error: 'Payee not found' };
+      }
+      await connection.execute('DELETE FROM rv_payee_alias WHERE payee_id = ?', [payeeId]);
+    } else {
+      const [result] = await connection.execute(
+        'INSERT INTO rv_payee (company, name, default_account_code) VALUES (?, ?, ?)',
+        [payee.company, payee.name, payee.default_account_code]
+      );
+      payeeId = (result as mysql.ResultSetHeader).insertId;
+    }
+
+    for (const alias of payee.aliases) {
+      await connection.execute('INSERT INTO rv_payee_alias (payee_id, alias) VALUES (?, ?)', [payeeId, alias]);
+    }
+
+    await recordAudit(connection, {
+      userId,
+      company: payee.company,
+      action: before ? 'payee.update' : 'payee.create',
+      targetTable: 'rv_payee',
+      targetId: payeeId,
+      before,
+      after: payee
+    });
+
+    const linkedCount = await linkTransactionsToPayees(connection, payee.company, userId);
+
+    await connection.commit();
+
+    const saved = (await getPayeeDirectory(pool, payee.company)).find(entry => entry.id === payeeId);
+    return { success: true, payee: saved, linkedCount };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Database error:', error);
+    return { success: false, error: 'Failed to save payee' };
+  } finally {
+    connection?.release();
+  }
+}
+
+export async function createPayee(
+  payee: PayeeInput,
+  userId: number
+): Promise<{ success: boolean; payee?: Payee; linkedCount?: number; error?: string }> {
+  return savePayee(null, payee, userId);
+}
+
+export async function updatePayee(
+  payeeId: number,
+  payee: PayeeInput,
+  userId: number
+): Promise<{ success: boolean; payee?: Payee; linkedCount?: number; error?: string }> {
+  return savePayee(payeeId, payee, userId);
+}
+
+// Transactions keep their rows; they only lose the payee link
+export async function deletePayee(payeeId: number, userId: number): Promise<boolean> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [payeeRows] = await connection.execute('SELECT company FROM rv_payee WHERE id = ? FOR UPDATE', [payeeId]);
+    const payees = payeeRows as Array<{ company: number }>;
+    if (payees.length === 0 || !await canPostToEntity(connection, payees[0].company, userId)) {
+      await connection.rollback();
+      return false;
+    }
+
+    const company = payees[0].company;
+    const before = (await getPayeeDirectory(connection, company)).find(entry => entry.id === payeeId);
+    const [linkedRows] = await connection.execute('SELECT id FROM rv_transaction WHERE payee_id = ?', [payeeId]);
+
+    await connection.execute('UPDATE rv_transaction SET payee_id = NULL WHERE payee_id = ?', [payeeId]);
+    await connection.execute('DELETE FROM rv_payee_alias WHERE payee_id = ?', [payeeId]);
+    await connection.execute('DELETE FROM rv_payee WHERE id = ?', [payeeId]);
+
+    await recordAudit(connection, {
+      userId,
+      company,
+      action: 'payee.delete',
+      targetTable: 'rv_payee',
+      targetId: payeeId,
+      before: { ...before, transaction_ids: (linkedRows as Array<{ id: number }>).map(row => row.id) }
+    });
+
+    await connection.commit();
+    return true;
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Database error:', error);
+    throw new Error('Failed to delete payee');
+  } finally {
+    connection?.release();
+  }
+}
+
+export interface PayeeSpending {
+  payee_id: number | null; // NULL groups transactions without a payee
+  payee_name: string;
+  total_amount: number;
+  transaction_count: number;
+}
+
+// Status of the rows a year-end close posts; reports of what was earned or spent leave them out
+const CLOSING_ENTRY_STATUS = 'Closing Entry';
+
+/**
+ * Net spending per payee: amounts posted to expense accounts, less refunds credited back to them.
+ */
+export async function getSpendingByPayee(
+  entityId: number,
+  userId: number,
+  startDate: string,
+  endDate: string
+): Promise<PayeeSpending[] | null> {
+  try {
+    if (!await canPostToEntity(pool, entityId, userId)) return null;
+
+    const [rows] = await pool.execute(`
+      SELECT
+        p.id as payee_id,
+        COALESCE(p.name, 'No payee') as payee_name,
+        SUM(CASE WHEN e_debit.id IS NOT NULL THEN t.debit ELSE -t.credit END) as total_amount,
+        COUNT(DISTINCT COALESCE(t.split_parent_id, t.id)) as transaction_count
+      FROM rv_transaction t
+      LEFT JOIN rv_payee p ON p.id = t.payee_id
+      LEFT JOIN rv_cuentas e_debit ON e_debit.code = t.debitacc AND e_debit.company = t.company AND e_debit.account_type = 'expense'
+      LEFT JOIN rv_cuentas e_credit ON e_credit.code = t.creditacc AND e_credit.company = t.company AND e_credit.account_type = 'expense'
+      WHERE t.company = ?
+        AND t.fecha BETWEEN ? AND ?
+        AND (e_debit.id IS NOT NULL OR e_credit.id IS NOT NULL)
+        AND COALESCE(t.status, '') <> '${CLOSING_ENTRY_STATUS}'
+      GROUP BY p.id, p.name
+      HAVING total_amount <> 0
+      ORDER BY total_amount DESC
+    `, [entityId, startDate, endDate]);
+
+    return (rows as PayeeSpending[]).map(row => ({
+      ...row,
+      total_amount: Number(row.total_amount),
+      transaction_count: Number(row.transaction_count)
+    }));
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch spending by payee');
+  }
+}
+
+export interface TrialBalanceRow {
+  account_id: number;
+  code: string;
+  alias: string;
+  account_type: Account['account_type'] | null;
+  currency: string;
+  active: number;
+  total_debits: number;
+  total_credits: number;
+  balance: number; // Net debit; negative means a credit balance
+}
+
+export interface OneSidedTransaction {
+  id: number;
+  fecha: string;
+  description: string | null;
+  debitacc: string;
+  creditacc: string;
+  amount: number;
+}
 
-      const [result] = await pool.execute(`
-        INSERT INTO rv_transaction
-        (conciled, client, company, name, category, description, debit, credit, balancedebit, balancecredit, debitacc, creditacc, fecha, status, accounting_date)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        transactionData.conciled, transactionData.client, transactionData.company,
-        transactionData.name, transactionData.category, transactionData.description,
-        transactionData.debit, transactionData.credit, transactionData.balancedebit,
-        transactionData.balancecredit, transactionData.debitacc, transactionData.creditacc,
-        transactionData.fecha, transactionData.status, transactionData.accounting_date
-      ]);
+export interface TrialBalance {
+  as_of: string;
+  accounts: TrialBalanceRow[];
+  total_debits: number;
+  total_credits: number;
+  difference: number; // Debits minus credits; zero when the ledger ties out
+  one_sided_difference: number; // The part of the difference left by '0' placeholder sides
+  one_sided_count: number;
+  one_sided_transactions: OneSidedTransaction[]; // Most recent first, capped
+}
 
-      const resultInsert = result as mysql.ResultSetHeader;
-      createdTransactions.push({ id: resultInsert.insertId, ...transactionData });
-    }
+const ONE_SIDED_LIST_LIMIT = 100;
 
-    // Update the account balance to the closing balance
-    await pool.execute(
-      'UPDATE rv_cuentas SET balance = ?, date_updated = NOW() WHERE id = ?',
-      [statement.closingBalance, statement.accountId]
+export async function getTrialBalance(
+  entityId: number,
+  userId: number,
+  asOf: string
+): Promise<TrialBalance | null> {
+  try {
+    if (!await canPostToEntity(pool, entityId, userId)) return null;
+
+    // Deactivated accounts stay in while they hold postings, otherwise the totals would not tie
+    const [accountRows] = await pool.execute(`
+      SELECT a.id as account_id, a.code, a.alias, a.account_type, a.currency, a.active,
+             COALESCE(SUM(CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END), 0) as total_debits,
+             COALESCE(SUM(CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END), 0) as total_credits
+      FROM rv_cuentas a
+      LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code) AND t.company = a.company AND t.fecha <= ?
+      WHERE a.company = ?
+      GROUP BY a.id, a.code, a.alias, a.account_type, a.currency, a.active
+      HAVING a.active = 1 OR COUNT(t.id) > 0
+      ORDER BY a.code
+    `, [asOf, entityId]);
+
+    const accounts = (accountRows as TrialBalanceRow[]).map(row => {
+      const totalDebits = Number(row.total_debits);
+      const totalCredits = Number(row.total_credits);
+      return {
+        ...row,
+        total_debits: totalDebits,
+        total_credits: totalCredits,
+        balance: Math.round((totalDebits - totalCredits) * 100) / 100
+      };
+    });
+
+    // A '0' on either side means only one leg was posted, so that amount has no offset anywhere
+    const [oneSidedRows] = await pool.execute(`
+      SELECT id, DATE_FORMAT(fecha, '%Y-%m-%d') as fecha, description, debitacc, creditacc,
+             CASE WHEN debitacc = '0' THEN credit ELSE debit END as amount
+      FROM rv_transaction
+      WHERE company = ? AND fecha <= ?
+        AND (debitacc = '0') <> (creditacc = '0')
+      ORDER BY fecha DESC, id DESC
+    `, [entityId, asOf]);
+
+    const oneSided = (oneSidedRows as OneSidedTransaction[]).map(row => ({ ...row, amount: Number(row.amount) }));
+    const oneSidedCents = oneSided.reduce(
+      (sum, row) => sum + Math.round(row.amount * 100) * (row.creditacc === '0' ? 1 : -1),
+      0
     );
 
+    const totalDebitCents = accounts.reduce((sum, row) => sum + Math.round(row.total_debits * 100), 0);
+    const totalCreditCents = accounts.reduce((sum, row) => sum + Math.round(row.total_credits * 100), 0);
+
     return {
-      success: true,
-      transactions: createdTransactions
+      as_of: asOf,
+      accounts,
+      total_debits: totalDebitCents / 100,
+      total_credits: totalCreditCents / 100,
+      difference: (totalDebitCents - totalCreditCents) / 100,
+      one_sided_difference: oneSidedCents / 100,
+      one_sided_count: oneSided.length,
+      one_sided_transactions: oneSided.slice(0, ONE_SIDED_LIST_LIMIT)
+    };
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch trial balance');
+  }
+}
+
+export interface GeneralLedgerLine {
+  id: number;
+  fecha: string;
+  description: string | null;
+  payee_name: string | null;
+  other_account_code: string;
+  other_account_alias: string | null;
+  debit: number; // Amount posted to this account's debit side
+  credit: number;
+  balance: number; // Running balance after this line, in the account's natural sign
+  status: string | null;
+  journal_id: number | null;
+  import_batch_id: number | null;
+  matched_import_batch_id: number | null;
+  reconciliation_id: number | null;
+}
+
+export interface GeneralLedgerAccount {
+  account_id: number;
+  code: string;
+  alias: string;
+  account_type: Account['account_type'] | null;
+  currency: string;
+  opening_balance: number;
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+  lines: GeneralLedgerLine[];
+}
+
+export async function getGeneralLedger(
+  entityId: number,
+  userId: number,
+  startDate: string,
+  endDate: string,
+  accountId?: number
+): Promise<GeneralLedgerAccount[] | null> {
+  try {
+    if (!await canPostToEntity(pool, entityId, userId)) return null;
+
+    const accountFilter = accountId ? ' AND a.id = ?' : '';
+    const accountParams = accountId ? [accountId] : [];
+
+    const [accountRows] = await pool.execute(`
+      SELECT a.id as account_id, a.code, a.alias, a.account_type, a.currency,
+             COALESCE(SUM(CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END), 0) -
+             COALESCE(SUM(CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END), 0) as opening_net_debit
+      FROM rv_cuentas a
+      LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code) AND t.company = a.company AND t.fecha < ?
+      WHERE a.company = ?${accountFilter}
+      GROUP BY a.id, a.code, a.alias, a.account_type, a.currency
+      ORDER BY a.code
+    `, [startDate, entityId, ...accountParams]);
+
+    const [lineRows] = await pool.execute(`
+      SELECT a.id as account_id, t.id, DATE_FORMAT(t.fecha, '%Y-%m-%d') as fecha, t.description, p.name as payee_name,
+             CASE WHEN t.debitacc = a.code THEN t.creditacc ELSE t.debitacc END as other_account_code,
+             other.alias as other_account_alias,
+             CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END as debit,
+             CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END as credit,
+             t.status, t.journal_id, t.import_batch_id, t.matched_import_batch_id, t.reconciliation_id
+      FROM rv_cuentas a
+      JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code) AND t.company = a.company
+      LEFT JOIN rv_cuentas other ON other.company = t.company
+        AND other.code = CASE WHEN t.debitacc = a.code THEN t.creditacc ELSE t.debitacc END
+      LEFT JOIN rv_payee p ON p.id = t.payee_id
+      WHERE a.company = ?${accountFilter}
+        AND t.fecha BETWEEN ? AND ?
+      ORDER BY a.code, t.fecha, t.id
+    `, [entityId, ...accountParams, startDate, endDate]);
+
+    const linesByAccount = new Map<number, Array<Omit<GeneralLedgerLine, 'balance'>>>();
+    for (const { account_id: lineAccountId, ...line } of lineRows as Array<Omit<GeneralLedgerLine, 'balance'> & { account_id: number }>) {
+      const lines = linesByAccount.get(lineAccountId) || [];
+      lines.push(line);
+      linesByAccount.set(lineAccountId, lines);
+    }
+
+    type OpeningRow = Omit<GeneralLedgerAccount, 'opening_balance' | 'total_debits' | 'total_credits' | 'closing_balance' | 'lines'> & {
+      opening_net_debit: number;
     };
 
+    return (accountRows as OpeningRow[])
+      .map(({ opening_net_debit: openingNetDebit, ...account }) => {
+        // Same sign convention as the stored balance: debits raise assets and expenses
+        const sign = account.account_type === 'asset' || account.account_type === 'expense' ? 1 : -1;
+        let runningCents = Math.round(Number(openingNetDebit) * 100) * sign;
+        let debitCents = 0;
+        let creditCents = 0;
+
+        const lines = (linesByAccount.get(account.account_id) || []).map(row => {
+          const debit = Math.round(Number(row.debit) * 100);
+          const credit = Math.round(Number(row.credit) * 100);
+          debitCents += debit;
+          creditCents += credit;
+          runningCents += (debit - credit) * sign;
+          return { ...row, debit: debit / 100, credit: credit / 100, balance: runningCents / 100 };
+        });
+
+        return {
+          ...account,
+          opening_balance: Math.round(Number(openingNetDebit) * 100) * sign / 100,
+          total_debits: debitCents / 100,
+          total_credits: creditCents / 100,
+          closing_balance: runningCents / 100,
+          lines
+        };
+      })
+      .filter(account => account.lines.length > 0 || account.opening_balance !== 0 || account.account_id === accountId);
   } catch (error) {
-    console.error('Statement import error:', error);
-    return { success: false, error: 'Failed to import bank statement' };
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch general ledger');
   }
 }
 
@@ -913,7 +3778,7 @@ export async function getExpensesByCategory(
           ELSE 'credit'
         END as transaction_type,
         SUM(CASE WHEN t.debitacc = ? THEN t.debit ELSE t.credit END) as total_amount,
-        COUNT(*) as transaction_count
+        COUNT(DISTINCT COALESCE(t.split_parent_id, t.id)) as transaction_count
       FROM rv_transaction t
       LEFT JOIN rv_cuentas c_debit ON t.debitacc = c_debit.code
       LEFT JOIN rv_cuentas c_credit ON t.creditacc = c_credit.code
@@ -1024,11 +3889,11 @@ export async function getIncompleteTransactionsByAccount(
     `;
 
     const [rows] = await pool.execute(query, [
-      accountCode.code, accountCode.code, // for transaction_type CASE
-      accountCode.code, accountCode.code, accountCode.code, // for other_account_code CASE
-      accountCode.code, accountCode.code, accountCode.code, // for other_account_alias CASE
-      accountCode.code, accountCode.code, accountCode.code, // for other_account_type CASE
-      accountCode.code, accountCode // for WHERE clause
+      accountCode, accountCode, // for transaction_type CASE
+      accountCode, accountCode, accountCode, // for other_account_code CASE
+      accountCode, accountCode, accountCode, // for other_account_alias CASE
+      accountCode, accountCode, accountCode, // for other_account_type CASE
+      accountCode, accountCode // for WHERE clause
     ]);
 
     const transactions = (rows as Transaction[]).map(transaction => ({
@@ -1049,7 +3914,8 @@ export async function getIncompleteTransactionsByAccount(
 export async function assignAccountToTransaction(
   transactionId: number,
   assignedAccountId: number,
-  isDebitAccount: boolean
+  isDebitAccount: boolean,
+  userId: number
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // Get the current transaction first to get its company/entity
@@ -1059,12 +3925,17 @@ export async function assignAccountToTransaction(
     );
 
     const transactions = transactionRows as Transaction[];
-    if (transactions.length === 0) {
+    if (transactions.length === 0 || !await canPostToEntity(pool, transactions[0].company, userId)) {
       return { success: false, error: 'Transaction not found' };
     }
 
     const transaction = transactions[0];
 
+    const lockedError = await getLockedTransactionsError(pool, [transactionId]);
+    if (lockedError) {
+      return { success: false, error: lockedError };
+    }
+
     // Verify the assigned account exists and belongs to the same company as the transaction
     const [accountRows] = await pool.execute(
       'SELECT id, code, alias, account_type, company FROM rv_cuentas WHERE id = ? AND active = 1',
@@ -1097,6 +3968,19 @@ export async function assignAccountToTransaction(
     // Update the transaction with the account CODE (transactions still store codes)
     await pool.execute(updateQuery, [assignedAccount.code, transactionId]);
 
+    const column = isDebitAccount ? 'debitacc' : 'creditacc';
+    await recordAudit(pool, {
+      userId,
+      company: transaction.company,
+      action: 'transaction.assign_account',
+      targetTable: 'rv_transaction',
+      targetId: transactionId,
+      before: { [column]: transaction[column] },
+      after: { [column]: assignedAccount.code },
+      accountIds: [assignedAccount.id],
+      accountCodes: [transaction.debitacc, transaction.creditacc]
+    });
+
     return { success: true };
 
   } catch (error) {
@@ -1105,22 +3989,614 @@ export async function assignAccountToTransaction(
   }
 }
 
+export interface TransactionSplitInput {
+  accountId: number;
+  amount: number;
+}
+
+/**
+ * Allocate an incomplete bank line to several counter-accounts. The original row keeps the first
+ * portion; each other portion becomes a row of its own that copies the bank side and points back
+ * through split_parent_id, so per-account reports pick up every portion without special casing.
+ */
+export async function splitTransaction(
+  transactionId: number,
+  splits: TransactionSplitInput[],
+  userId: number
+): Promise<{ success: boolean; transactionIds?: number[]; error?: string }> {
+  if (splits.length < 2) {
+    return { success: false, error: 'A split needs at least two lines' };
+  }
+  if (splits.some(split => !(split.amount > 0))) {
+    return { success: false, error: 'Every split line needs a positive amount' };
+  }
+
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [transactionRows] = await connection.execute(
+      `SELECT id, conciled, client, company, name, category, description, debit, debitacc, creditacc,
+              DATE_FORMAT(fecha, '%Y-%m-%d') as fecha, status, bank_transaction_id,
+              DATE_FORMAT(accounting_date, '%Y-%m-%d') as accounting_date,
+              import_batch_id, reconciliation_id, matched_import_batch_id, payee_id
+       FROM rv_transaction WHERE id = ? FOR UPDATE`,
+      [transactionId]
+    );
+    const transactions = transactionRows as Transaction[];
+    if (transactions.length === 0 || !await canPostToEntity(connection, transactions[0].company, userId)) {
+      await connection.rollback();
+      return { success: false, error: 'Transaction not found' };
+    }
+
+    const transaction = transactions[0];
+    const isDebitMissing = transaction.debitacc === '0';
+    if (isDebitMissing === (transaction.creditacc === '0')) {
+      await connection.rollback();
+      return { success: false, error: 'Only transactions missing one account can be split' };
+    }
+
+    const periodLockError = await getPeriodLockError(connection, transaction.company, transaction.fecha);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
+
+    const totalCents = Math.round(Number(transaction.debit) * 100);
+    const splitCents = splits.map(split => Math.round(split.amount * 100));
+    const allocatedCents = splitCents.reduce((sum, cents) => sum + cents, 0);
+    if (allocatedCents !== totalCents) {
+      await connection.rollback();
+      return {
+        success: false,
+        error: `Split amounts (${(allocatedCents / 100).toFixed(2)}) must add up to the transaction amount (${(totalCents / 100).toFixed(2)})`
+      };
+    }
+
+    const accountIds = [...new Set(splits.map(split => split.accountId))];
+    const [accountRows] = await connection.execute(
+      `SELECT id, code FROM rv_cuentas WHERE id IN (${accountIds.map(() => '?').join(',')}) AND active = 1 AND company = ?`,
+      [...accountIds, transaction.company]
+    );
+    const accountCodes = new Map((accountRows as Array<{ id: number; code: string }>).map(row => [row.id, row.code]));
+    if (accountCodes.size !== accountIds.length) {
+      await connection.rollback();
+      return { success: false, error: 'Split accounts must be active and belong to the same entity as the transaction' };
+    }
+
+    const bankSideCode = isDebitMissing ? transaction.creditacc : transaction.debitacc;
+    if ([...accountCodes.values()].includes(bankSideCode)) {
+      await connection.rollback();
+      return { success: false, error: 'A split line cannot use the account the transaction is already posted to' };
+    }
+
+    const missingColumn = isDebitMissing ? 'debitacc' : 'creditacc';
+    const firstAmount = splitCents[0] / 100;
+    await connection.execute(
+      `UPDATE rv_transaction SET ${missingColumn} = ?, debit = ?, credit = ? WHERE id = ?`,
+      [accountCodes.get(splits[0].accountId), firstAmount, firstAmount, transactionId]
+    );
+
+    const transactionIds = [transactionId];
+    for (const [index, split] of splits.entries()) {
+      if (index === 0) continue;
+
+      const amount = splitCents[index] / 100;
+      const code = accountCodes.get(split.accountId)!;
+      const [result] = await connection.execute(`
+        INSERT INTO rv_transaction
+        (conciled, client, company, name, category, description, debit, credit, debitacc, creditacc, fecha, status,
+         bank_transaction_id, accounting_date, import_batch_id, reconciliation_id, matched_import_batch_id, split_parent_id, payee_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        transaction.conciled, transaction.client, transaction.company, transaction.name, transaction.category,
+        transaction.description, amount, amount,
+        isDebitMissing ? code : transaction.debitacc, isDebitMissing ? transaction.creditacc : code,
+        transaction.fecha, transaction.status, transaction.bank_transaction_id, transaction.accounting_date,
+        transaction.import_batch_id ?? null, transaction.reconciliation_id ?? null,
+        transaction.matched_import_batch_id ?? null, transactionId, transaction.payee_id ?? null
+      ]);
+      transactionIds.push((result as mysql.ResultSetHeader).insertId);
+    }
+
+    await recordAudit(connection, {
+      userId,
+      company: transaction.company,
+      action: 'transaction.split',
+      targetTable: 'rv_transaction',
+      targetId: transactionId,
+      before: { [missingColumn]: '0', amount: totalCents / 100 },
+      after: {
+        splits: splits.map((split, index) => ({
+          transaction_id: transactionIds[index],
+          account_code: accountCodes.get(split.accountId),
+          amount: splitCents[index] / 100
+        }))
+      },
+      accountCodes: [bankSideCode, ...accountCodes.values()]
+    });
+
+    await connection.commit();
+    return { success: true, transactionIds };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Transaction split error:', error);
+    return { success: false, error: 'Failed to split transaction' };
+  } finally {
+    connection?.release();
+  }
+}
+
+export interface TransactionEdit {
+  fecha?: string;
+  accounting_date?: string | null;
+  name?: string;
+  description?: string | null;
+  amount?: number; // Written to both debit and credit
+  debitacc?: string;
+  creditacc?: string;
+}
+
+// Reason a posting dated `date` to one of the given accounts can no longer change, if any.
+// A completed reconciliation freezes everything up to its statement end date.
+async function getClosedPeriodError(
+  executor: mysql.Pool | mysql.PoolConnection,
+  accounts: Array<Pick<Account, 'id' | 'code'>>,
+  date: string
+): Promise<string | null> {
+  if (accounts.length === 0) return null;
+
+  const [rows] = await executor.execute(`
+    SELECT c.code, DATE_FORMAT(MAX(r.period_end), '%Y-%m-%d') AS reconciled_through
+    FROM rv_reconciliation r
+    JOIN rv_cuentas c ON c.id = r.account_id
+    WHERE r.status = 'completed' AND r.period_end >= ?
+      AND r.account_id IN (${accounts.map(() => '?').join(',')})
+    GROUP BY c.code
+    LIMIT 1
+  `, [date, ...accounts.map(account => account.id)]);
+
+  const reconciled = (rows as Array<{ code: string; reconciled_through: string }>)[0];
+  return reconciled
+    ? `Account ${reconciled.code} is reconciled through ${reconciled.reconciled_through}; transactions dated on or before then cannot be changed`
+    : null;
+}
+
+// Reason nothing dated `date` (or a range starting then) can be written to the entity, if the
+// date falls inside a period the entity has closed.
+export async function getPeriodLockError(
+  executor: mysql.Pool | mysql.PoolConnection,
+  company: number | null,
+  date: string
+): Promise<string | null> {
+  if (!company) return null;
+
+  const [rows] = await executor.execute(`
+    SELECT DATE_FORMAT(locked_through, '%Y-%m-%d') AS locked_through
+    FROM company
+    WHERE id = ? AND locked_through >= ?
+  `, [company, date.slice(0, 10)]);
+
+  const locked = (rows as Array<{ locked_through: string }>)[0];
+  return locked
+    ? `The books are closed through ${locked.locked_through}; transactions dated on or before then cannot be changed`
+    : null;
+}
+
+// Which of the given rows are dated inside their entity's closed period
+export async function getLockedTransactionIds(
+  executor: mysql.Pool | mysql.PoolConnection,
+  transactionIds: number[]
+): Promise<Set<number>> {
+  if (transactionIds.length === 0) return new Set();
+
+  const [rows] = await executor.execute(`
+    SELECT t.id
+    FROM rv_transaction t
+    JOIN company c ON c.id = t.company
+    WHERE t.id IN (${transactionIds.map(() => '?').join(',')}) AND t.fecha <= c.locked_through
+  `, transactionIds);
+  return new Set((rows as Array<{ id: number }>).map(row => row.id));
+}
+
+// The same check for rows that change together: fails when any of them is dated inside its
+// entity's closed period, so the change is refused as a whole rather than applied in part.
+export async function getLockedTransactionsError(
+  executor: mysql.Pool | mysql.PoolConnection,
+  transactionIds: number[]
+): Promise<string | null> {
+  if (transactionIds.length === 0) return null;
+
+  const [rows] = await executor.execute(`
+    SELECT t.id, DATE_FORMAT(c.locked_through, '%Y-%m-%d') AS locked_through
+    FROM rv_transaction t
+    JOIN company c ON c.id = t.company
+    WHERE t.id IN (${transactionIds.map(() => '?').join(',')}) AND t.fecha <= c.locked_through
+    LIMIT 1
+  `, transactionIds);
+
+  const locked = (rows as Array<{ id: number; locked_through: string }>)[0];
+  return locked
+    ? `Transaction #${locked.id} is in a closed period; the books are closed through ${locked.locked_through}`
+    : null;
+}
+
+const BEFORE_EDIT_COLUMNS: Record<keyof TransactionEdit, string> = {
+  fecha: "DATE_FORMAT(fecha, '%Y-%m-%d') AS fecha",
+  accounting_date: "DATE_FORMAT(accounting_date, '%Y-%m-%d %H:%i:%s') AS accounting_date",
+  name: 'name',
+  description: 'description',
+  amount: 'debit AS amount',
+  debitacc: 'debitacc',
+  creditacc: 'creditacc'
+};
+
+/**
+ * Edit the dates, texts, amount or accounts of a single transaction. The row's old effect is
+ * taken off the balances of the accounts it was posted to and its new effect added to the
+ * accounts it ends up on. Reconciled rows, and rows inside a reconciled period of any account
+ * they touch before or after the edit, are refused.
+ */
+export async function updateTransaction(
+  transactionId: number,
+  edit: TransactionEdit,
+  userId: number
+): Promise<{ success: boolean; transaction?: Transaction; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    // Same access rule as the bulk assignment endpoints: the user owns one of the row's accounts or belongs to its entity
+    const [accessRows] = await connection.execute(
+      `SELECT t.id
+       FROM rv_transaction t
+       LEFT JOIN rv_cuentas a ON (t.debitacc = a.code OR t.creditacc = a.code)
+       LEFT JOIN company_user cu ON t.company = cu.company_id
+       WHERE t.id = ? AND (a.user = ? OR cu.user_id = ?)
+       LIMIT 1`,
+      [transactionId, userId, userId]
+    );
+    if ((accessRows as Array<{ id: number }>).length === 0) {
+      await connection.rollback();
+      return { success: false, error: 'Transaction not found' };
+    }
+
+    const [transactionRows] = await connection.execute(
+      `SELECT id, company, debitacc, creditacc, debit, credit, reconciliation_id, reversal_of_id, status,
+              journal_id, split_parent_id, DATE_FORMAT(fecha, '%Y-%m-%d') AS fecha,
+              EXISTS (SELECT 1 FROM rv_transaction r WHERE r.reversal_of_id = rv_transaction.id) AS is_reversed,
+              EXISTS (SELECT 1 FROM rv_transaction s WHERE s.split_parent_id = rv_transaction.id) AS is_split
+       FROM rv_transaction WHERE id = ? FOR UPDATE`,
+      [transactionId]
+    );
+    const existing = (transactionRows as Array<Pick<Transaction,
+      'id' | 'company' | 'debitacc' | 'creditacc' | 'debit' | 'credit' | 'reconciliation_id' | 'reversal_of_id' | 'status' |
+      'journal_id' | 'split_parent_id' | 'fecha'
+    > & { is_reversed: number; is_split: number }>)[0];
+
+    // Imported rows arrive with conciled set; only rows a reconciliation took in are frozen
+    if (existing.reconciliation_id) {
+      await connection.rollback();
+      return { success: false, error: 'This transaction has been reconciled and can no longer be edited' };
+    }
+    if (existing.reversal_of_id || existing.is_reversed) {
+      await connection.rollback();
+      return { success: false, error: 'Reversed transactions and their reversals can no longer be edited' };
+    }
+    if (existing.status === CLOSING_ENTRY_STATUS) {
+      await connection.rollback();
+      return { success: false, error: 'Year-end closing entries cannot be edited; reopen the fiscal year instead' };
+    }
+    // Editing one row on its own would unbalance the entry or the split it belongs to
+    if (existing.journal_id) {
+      await connection.rollback();
+      return { success: false, error: `This line belongs to a journal entry; edit it through /api/journal-entries/${existing.journal_id}` };
+    }
+    if (existing.split_parent_id || existing.is_split) {
+      await connection.rollback();
+      return { success: false, error: 'Split transactions cannot be edited line by line; reverse them and split the bank line again through /api/transactions/split' };
+    }
+
+    const updated = {
+      debitacc: edit.debitacc ?? existing.debitacc,
+      creditacc: edit.creditacc ?? existing.creditacc,
+      amount: edit.amount ?? Number(existing.debit),
+      fecha: edit.fecha ?? existing.fecha
+    };
+    if (updated.debitacc === '0' && updated.creditacc === '0') {
+      await connection.rollback();
+      return { success: false, error: 'A transaction needs at least one account' };
+    }
+    if (updated.debitacc === updated.creditacc) {
+      await connection.rollback();
+      return { success: false, error: 'Debit and credit accounts must be different' };
+    }
+
+    const codes = [...new Set([existing.debitacc, existing.creditacc, updated.debitacc, updated.creditacc])].filter(code => code !== '0');
+    const [accountRows] = await connection.execute(
+      `SELECT id, code, account_type, active FROM rv_cuentas WHERE company = ? AND code IN (${codes.map(() => '?').join(',')}) FOR UPDATE`,
+      [existing.company, ...codes]
+    );
+    const accounts = new Map(
+      (accountRows as Array<Pick<Account, 'id' | 'code' | 'account_type' | 'active'>>).map(account => [account.code, account])
+    );
+
+    const newCodes = [edit.debitacc, edit.creditacc].filter((code): code is string =>
+      code !== undefined && code !== '0' && code !== existing.debitacc && code !== existing.creditacc
+    );
+    const unknown = newCodes.filter(code => !accounts.get(code)?.active);
+    if (unknown.length > 0) {
+      await connection.rollback();
+      return { success: false, error: `Unknown or inactive account${unknown.length > 1 ? 's' : ''} for this entity: ${unknown.join(', ')}` };
+    }
+
+    const postedTo = (debitacc: string, creditacc: string) =>
+      [debitacc, creditacc].map(code => accounts.get(code)).filter((account): account is NonNullable<typeof account> => !!account);
+    const oldAccounts = postedTo(existing.debitacc, existing.creditacc);
+    const newAccounts = postedTo(updated.debitacc, updated.creditacc);
+
+    const closedPeriodError =
+      await getPeriodLockError(connection, existing.company, existing.fecha) ||
+      await getPeriodLockError(connection, existing.company, updated.fecha) ||
+      await getClosedPeriodError(connection, oldAccounts, existing.fecha) ||
+      await getClosedPeriodError(connection, newAccounts, updated.fecha);
+    if (closedPeriodError) {
+      await connection.rollback();
+      return { success: false, error: closedPeriodError };
+    }
+
+    const balanceChanges = new Map<number, number>();
+    for (const account of oldAccounts) {
+      balanceChanges.set(account.id, (balanceChanges.get(account.id) || 0) - getBalanceEffect(existing, account));
+    }
+    const newRow = { debitacc: updated.debitacc, debit: updated.amount, credit: updated.amount };
+    for (const account of newAccounts) {
+      balanceChanges.set(account.id, (balanceChanges.get(account.id) || 0) + getBalanceEffect(newRow, account));
+    }
+
+    const assignments: string[] = [];
+    const values: Array<string | number | null> = [];
+    const set = (column: string, value: string | number | null) => {
+      assignments.push(`${column} = ?`);
+      values.push(value);
+    };
+    if (edit.fecha !== undefined) set('fecha', edit.fecha);
+    if (edit.accounting_date !== undefined) set('accounting_date', edit.accounting_date);
+    if (edit.name !== undefined) set('name', edit.name);
+    if (edit.description !== undefined) set('description', edit.description);
+    if (edit.amount !== undefined) {
+      set('debit', edit.amount);
+      set('credit', edit.amount);
+    }
+    if (edit.debitacc !== undefined) set('debitacc', edit.debitacc);
+    if (edit.creditacc !== undefined) set('creditacc', edit.creditacc);
+
+    const [beforeRows] = await connection.execute(
+      `SELECT ${Object.keys(edit).map(field => BEFORE_EDIT_COLUMNS[field as keyof TransactionEdit]).join(', ')}
+       FROM rv_transaction WHERE id = ?`,
+      [transactionId]
+    );
+
+    await connection.execute(`UPDATE rv_transaction SET ${assignments.join(', ')} WHERE id = ?`, [...values, transactionId]);
+
+    for (const [accountId, change] of balanceChanges) {
+      if (Math.round(change * 100) === 0) continue;
+      await connection.execute(
+        'UPDATE rv_cuentas SET balance = balance + ?, date_updated = NOW() WHERE id = ?',
+        [change, accountId]
+      );
+    }
+
+    const [savedRows] = await connection.execute(
+      `SELECT id, conciled, client, company, name, category, description, debit, credit, debitacc, creditacc,
+              DATE_FORMAT(fecha, '%Y-%m-%d') AS fecha, status, bank_transaction_id, accounting_date
+       FROM rv_transaction WHERE id = ?`,
+      [transactionId]
+    );
+
+    await recordAudit(connection, {
+      userId,
+      company: existing.company,
+      action: 'transaction.update',
+      targetTable: 'rv_transaction',
+      targetId: transactionId,
+      before: (beforeRows as Record<string, unknown>[])[0],
+      after: edit,
+      accountIds: [...oldAccounts, ...newAccounts].map(account => account.id)
+    });
+
+    await connection.commit();
+
+    const saved = (savedRows as Transaction[])[0];
+    return { success: true, transaction: { ...saved, debit: Number(saved.debit), credit: Number(saved.credit) } };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Transaction update error:', error);
+    return { success: false, error: 'Failed to update transaction' };
+  } finally {
+    connection?.release();
+  }
+}
+
+export interface AccountSuggestion {
+  account_id: number;
+  code: string;
+  alias: string;
+  account_type: Account['account_type'];
+  confidence: number; // 0-1
+  match_count: number; // Completed transactions that support the suggestion
+}
+
+const SUGGESTION_HISTORY_LIMIT = 2000;
+
+/**
+ * Rank counter accounts for incomplete transactions from how the entity booked similar
+ * completed transactions. Transactions the user cannot access are left out of the result.
+ */
+export async function getAccountSuggestions(
+  transactionIds: number[],
+  userId: number,
+  limit: number = 5
+): Promise<Array<{ transactionId: number; suggestions: AccountSuggestion[] }>> {
+  try {
+    if (transactionIds.length === 0) return [];
+
+    const [targetRows] = await pool.execute(`
+      SELECT t.id, t.company, t.name, t.description, t.debit, t.debitacc, t.creditacc
+      FROM rv_transaction t
+      JOIN company c ON c.id = t.company
+      WHERE t.id IN (${transactionIds.map(() => '?').join(',')})
+        AND (t.debitacc = '0') <> (t.creditacc = '0')
+        AND (c.user_id = ? OR EXISTS (SELECT 1 FROM company_user cu WHERE cu.company_id = c.id AND cu.user_id = ?))
+    `, [...transactionIds, userId, userId]);
+
+    const targets = targetRows as Array<Pick<Transaction, 'id' | 'company' | 'name' | 'description' | 'debit' | 'debitacc' | 'creditacc'>>;
+    const history = new Map<number, Array<Pick<Transaction, 'name' | 'description' | 'debit' | 'debitacc' | 'creditacc'>>>();
+    const activeAccounts = new Map<number, Map<string, Account>>();
+
+    for (const company of new Set(targets.map(target => target.company))) {
+      const [historyRows] = await pool.execute(`
+        SELECT name, description, debit, debitacc, creditacc
+        FROM rv_transaction
+        WHERE company = ? AND debitacc <> '0' AND creditacc <> '0'
+        ORDER BY fecha DESC, id DESC
+        LIMIT ${SUGGESTION_HISTORY_LIMIT}
+      `, [company]);
+      history.set(company, historyRows as Array<Pick<Transaction, 'name' | 'description' | 'debit' | 'debitacc' | 'creditacc'>>);
+
+      const [accountRows] = await pool.execute(
+        'SELECT id, code, alias, account_type FROM rv_cuentas WHERE company = ? AND active = 1',
+        [company]
+      );
+      activeAccounts.set(company, new Map((accountRows as Account[]).map(account => [account.code, account])));
+    }
+
+    return targets.map(target => {
+      const isDebitMissing = target.debitacc === '0';
+      const sourceCode = isDebitMissing ? target.creditacc : target.debitacc;
+      const accounts = activeAccounts.get(target.company)!;
+
+      // The account a similar row used on the side this transaction is missing
+      const candidates = history.get(target.company)!
+        .map(row => ({
+          accountCode: isDebitMissing ? row.debitacc : row.creditacc,
+          description: row.name || row.description || '',
+          amount: Number(row.debit)
+        }))
+        .filter(row => row.accountCode !== sourceCode && accounts.has(row.accountCode));
+
+      const ranked = rankCounterAccounts(
+        { description: target.name || target.description || '', amount: Number(target.debit) },
+        candidates,
+        limit
+      );
+
+      return {
+        transactionId: target.id,
+        suggestions: ranked.map(suggestion => {
+          const account = accounts.get(suggestion.accountCode)!;
+          return {
+            account_id: account.id,
+            code: account.code,
+            alias: account.alias,
+            account_type: account.account_type,
+            confidence: suggestion.confidence,
+            match_count: suggestion.matchCount
+          };
+        })
+      };
+    });
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch account suggestions');
+  }
+}
+
+/**
+ * Active accounts a transaction's missing side can be assigned to: scoped to the transaction's
+ * entity (or the given entity), without the account the transaction is already posted to, and
+ * ordered by how often each account was used in the last 90 days. Returns null when the
+ * transaction or entity does not exist or the user cannot access it.
+ */
 export async function getAccountsForAssignment(
-  accountType?: 'income' | 'expense' | 'asset' | 'liability' | 'equity'
-): Promise<Account[]> {
+  userId: number,
+  options: {
+    transactionId?: number;
+    entityId?: number;
+    accountType?: 'income' | 'expense' | 'asset' | 'liability' | 'equity';
+    search?: string;
+  }
+): Promise<Array<Account & { usage_count: number }> | null> {
   try {
-    let query = 'SELECT * FROM rv_cuentas WHERE active = 1';
-    const params: string[] = [];
+    let companyId: number;
+    let excludeCode: string | null = null;
+
+    const access = 'AND (c.user_id = ? OR EXISTS (SELECT 1 FROM company_user cu WHERE cu.company_id = c.id AND cu.user_id = ?))';
+    if (options.transactionId) {
+      const [transactionRows] = await pool.execute(
+        `SELECT t.company, t.debitacc, t.creditacc
+         FROM rv_transaction t
+         JOIN company c ON c.id = t.company
+         WHERE t.id = ? ${access}`,
+        [options.transactionId, userId, userId]
+      );
+      const transactions = transactionRows as Array<Pick<Transaction, 'company' | 'debitacc' | 'creditacc'>>;
+      if (transactions.length === 0) return null;
+
+      companyId = transactions[0].company;
+      excludeCode = transactions[0].debitacc === '0' ? transactions[0].creditacc : transactions[0].debitacc;
+    } else if (options.entityId) {
+      const [entityRows] = await pool.execute(`SELECT c.id FROM company c WHERE c.id = ? ${access}`, [options.entityId, userId, userId]);
+      if ((entityRows as Array<{ id: number }>).length === 0) return null;
+
+      companyId = options.entityId;
+    } else {
+      return null;
+    }
+
+    let query = `
+      SELECT a.*, COALESCE(usage_counts.usage_count, 0) as usage_count
+      FROM rv_cuentas a
+      LEFT JOIN (
+        SELECT code, COUNT(*) as usage_count
+        FROM (
+          SELECT debitacc as code FROM rv_transaction WHERE company = ? AND fecha >= DATE_SUB(CURDATE(), INTERVAL 90 DAY)
+          UNION ALL
+          SELECT creditacc as code FROM rv_transaction WHERE company = ? AND fecha >= DATE_SUB(CURDATE(), INTERVAL 90 DAY)
+        ) recent
+        GROUP BY code
+      ) usage_counts ON usage_counts.code = a.code
+      WHERE a.company = ? AND a.active = 1
+    `;
+    const params: (string | number)[] = [companyId, companyId, companyId];
+
+    if (excludeCode && excludeCode !== '0') {
+      query += ' AND a.code <> ?';
+      params.push(excludeCode);
+    }
+
+    if (options.accountType) {
+      query += ' AND a.account_type = ?';
+      params.push(options.accountType);
+    }
 
-    if (accountType) {
-      query += ' AND account_type = ?';
-      params.push(accountType);
+    if (options.search) {
+      query += ' AND (a.alias LIKE ? OR a.code LIKE ?)';
+      params.push(`%${options.search}%`, `%${options.search}%`);
     }
 
-    query += ' ORDER BY account_type, alias ASC';
+    query += ' ORDER BY usage_count DESC, a.account_type, a.alias ASC';
 
     const [rows] = await pool.execute(query, params);
-    return rows as Account[];
+    return (rows as Array<Account & { usage_count: number }>).map(row => ({ ...row, usage_count: Number(row.usage_count) }));
   } catch (error) {
     console.error('Database error:', error);
     throw new Error('Failed to fetch accounts for assignment');
@@ -1136,62 +4612,285 @@ export async function getIncompleteTransactionCount(accountCode: string): Promis
         AND (t.debitacc = '0' OR t.creditacc = '0')
     `;
 
-    const [rows] = await pool.execute(query, [accountCode.code, accountCode]);
-    const result = rows as { count: number }[];
-    return result[0]?.count || 0;
+    const [rows] = await pool.execute(query, [accountCode.code, accountCode]);
+    const result = rows as { count: number }[];
+    return result[0]?.count || 0;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch incomplete transaction count');
+  }
+}
+
+export interface BalanceSheetLine {
+  account_id: number;
+  code: string;
+  alias: string;
+  currency: string;
+  balance: number; // In the account's normal-balance sign
+}
+
+export interface BalanceSheetSection {
+  accounts: BalanceSheetLine[];
+  total: number;
+}
+
+export interface BalanceSheet {
+  as_of: string;
+  fiscal_year_start: string;
+  assets: BalanceSheetSection;
+  liabilities: BalanceSheetSection;
+  equity: BalanceSheetSection; // Equity accounts only; earnings not yet closed are reported below
+  prior_years_earnings: number; // Income less expenses before the fiscal year start that no close has moved
+  current_year_earnings: number; // Income less expenses from the fiscal year start through the as-of date
+  total_equity: number;
+  total_liabilities_and_equity: number;
+  difference: number; // Assets minus liabilities and equity; zero when the books balance
+  unclassified: BalanceSheetLine[]; // Accounts without an account_type that carry a balance, shown as net debit
+}
+
+export async function getBalanceSheet(
+  entityId: number,
+  userId: number,
+  asOf: string
+): Promise<BalanceSheet | null> {
+  try {
+    if (!await canPostToEntity(pool, entityId, userId)) return null;
+
+    const [entityRows] = await pool.execute('SELECT fiscal_year_start_month FROM company WHERE id = ?', [entityId]);
+    const startMonth = (entityRows as Array<{ fiscal_year_start_month: number }>)[0]?.fiscal_year_start_month || 1;
+    const fiscalYearStart = getFiscalYearBounds(getFiscalYearOf(asOf, startMonth), startMonth).start;
+
+    const [rows] = await pool.execute(`
+      SELECT a.id as account_id, a.code, a.alias, a.currency, a.account_type, a.active,
+             COALESCE(SUM(CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END), 0) -
+             COALESCE(SUM(CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END), 0) as net_debit,
+             COALESCE(SUM(CASE WHEN t.debitacc = a.code AND t.fecha < ? THEN t.debit ELSE 0 END), 0) -
+             COALESCE(SUM(CASE WHEN t.creditacc = a.code AND t.fecha < ? THEN t.credit ELSE 0 END), 0) as prior_net_debit
+      FROM rv_cuentas a
+      LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code) AND t.company = a.company AND t.fecha <= ?
+      WHERE a.company = ?
+      GROUP BY a.id, a.code, a.alias, a.currency, a.account_type, a.active
+      ORDER BY a.code
+    `, [fiscalYearStart, fiscalYearStart, asOf, entityId]);
+
+    const sections: Record<'asset' | 'liability' | 'equity', BalanceSheetSection> = {
+      asset: { accounts: [], total: 0 },
+      liability: { accounts: [], total: 0 },
+      equity: { accounts: [], total: 0 }
+    };
+    const unclassified: BalanceSheetLine[] = [];
+    const totalCents = { asset: 0, liability: 0, equity: 0 };
+    let priorEarningsCents = 0;
+    let currentEarningsCents = 0;
+
+    for (const row of rows as Array<Omit<BalanceSheetLine, 'balance'> & {
+      account_type: Account['account_type'] | null;
+      active: number;
+      net_debit: number;
+      prior_net_debit: number;
+    }>) {
+      const netDebitCents = Math.round(Number(row.net_debit) * 100);
+      const line = { account_id: row.account_id, code: row.code, alias: row.alias, currency: row.currency };
+
+      if (row.account_type === 'income' || row.account_type === 'expense') {
+        // Earnings are credit-normal: income raises them, expenses lower them
+        const priorCents = Math.round(Number(row.prior_net_debit) * 100);
+        priorEarningsCents -= priorCents;
+        currentEarningsCents -= netDebitCents - priorCents;
+        continue;
+      }
+
+      if (netDebitCents === 0 && !row.active) continue;
+
+      if (row.account_type === 'asset' || row.account_type === 'liability' || row.account_type === 'equity') {
+        const cents = row.account_type === 'asset' ? netDebitCents : -netDebitCents;
+        sections[row.account_type].accounts.push({ ...line, balance: cents / 100 });
+        totalCents[row.account_type] += cents;
+      } else if (netDebitCents !== 0) {
+        unclassified.push({ ...line, balance: netDebitCents / 100 });
+      }
+    }
+
+    for (const type of ['asset', 'liability', 'equity'] as const) {
+      sections[type].total = totalCents[type] / 100;
+    }
+
+    const totalEquityCents = totalCents.equity + priorEarningsCents + currentEarningsCents;
+    const liabilitiesAndEquityCents = totalCents.liability + totalEquityCents;
+
+    return {
+      as_of: asOf,
+      fiscal_year_start: fiscalYearStart,
+      assets: sections.asset,
+      liabilities: sections.liability,
+      equity: sections.equity,
+      prior_years_earnings: priorEarningsCents / 100,
+      current_year_earnings: currentEarningsCents / 100,
+      total_equity: totalEquityCents / 100,
+      total_liabilities_and_equity: liabilitiesAndEquityCents / 100,
+      difference: (totalCents.asset - liabilitiesAndEquityCents) / 100,
+      unclassified
+    };
   } catch (error) {
     console.error('Database error:', error);
-    throw new Error('Failed to fetch incomplete transaction count');
+    throw new Error('Failed to fetch balance sheet data');
   }
 }
 
-export async function getBalanceSheetData(userId: number, dateFilter: string = '', params: (string | number)[] = []): Promise<Array<{
-  id: number;
-  code: string;
-  alias: string;
-  category: string;
-  currency: string;
-  total_balance: number;
-  account_type: string;
-}>> {
+export interface CashFlowLine {
+  account_code: string; // Counter account; '0' when the other side has not been assigned
+  account_alias: string | null;
+  account_type: Account['account_type'] | null;
+  receipts: number;
+  payments: number;
+  net: number;
+}
+
+export interface CashFlowSection {
+  lines: CashFlowLine[];
+  receipts: number;
+  payments: number;
+  net: number;
+}
+
+export interface CashFlowAdjustment {
+  account_code: string;
+  account_alias: string | null;
+  account_type: Account['account_type'] | null;
+  amount: number; // Profit recorded against this non-cash account, reversed out of net profit
+}
+
+export interface CashFlowStatement {
+  start_date: string;
+  end_date: string;
+  cash_accounts: Array<Pick<Account, 'id' | 'code' | 'alias'>>;
+  opening_cash: number;
+  closing_cash: number;
+  net_change: number;
+  direct: Record<CashFlowActivity, CashFlowSection>;
+  indirect: {
+    net_profit: number;
+    adjustments: CashFlowAdjustment[];
+    operating: number; // Ties to direct.operating.net
+  };
+}
+
+export async function getCashFlowStatement(
+  entityId: number,
+  userId: number,
+  startDate: string,
+  endDate: string
+): Promise<CashFlowStatement | null> {
   try {
-    const query = `
-      SELECT
-        a.id,
-        a.code,
-        a.alias,
-        a.category,
-        a.currency,
-        COALESCE(SUM(
-          CASE
-            WHEN t.creditacc = a.code THEN COALESCE(t.credit, 0)
-            WHEN t.debitacc = a.code THEN -COALESCE(t.debit, 0)
-            ELSE 0
-          END
-        ), 0) as balance,
-        COUNT(t.id) as transaction_count
+    if (!await canPostToEntity(pool, entityId, userId)) return null;
+
+    const [cashRows] = await pool.execute(`
+      SELECT a.id, a.code, a.alias,
+             COALESCE(SUM(CASE WHEN t.fecha < ? AND t.debitacc = a.code THEN t.debit ELSE 0 END), 0) -
+             COALESCE(SUM(CASE WHEN t.fecha < ? AND t.creditacc = a.code THEN t.credit ELSE 0 END), 0) as opening,
+             COALESCE(SUM(CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END), 0) -
+             COALESCE(SUM(CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END), 0) as closing
       FROM rv_cuentas a
-      LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code)
-        AND t.debitacc != '0' AND t.creditacc != '0'
-        ${dateFilter}
-      WHERE a.user = ? AND a.active = 1
-      GROUP BY a.id, a.code, a.alias, a.category, a.currency
-      ORDER BY a.category, a.alias
-    `;
+      LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code) AND t.company = a.company AND t.fecha <= ?
+      WHERE a.company = ? AND a.is_cash = 1
+      GROUP BY a.id, a.code, a.alias
+      ORDER BY a.code
+    `, [startDate, startDate, endDate, entityId]);
+    const cashAccounts = cashRows as Array<Pick<Account, 'id' | 'code' | 'alias'> & { opening: number; closing: number }>;
+
+    // Direct view: every movement between a cash account and a non-cash one, by counter account.
+    // Transfers between two cash accounts cancel out and are left out.
+    const [movementRows] = await pool.execute(`
+      SELECT CASE WHEN t.debitacc = cash.code THEN t.creditacc ELSE t.debitacc END as account_code,
+             other.alias as account_alias, other.account_type,
+             SUM(CASE WHEN t.debitacc = cash.code THEN t.debit ELSE 0 END) as receipts,
+             SUM(CASE WHEN t.creditacc = cash.code THEN t.credit ELSE 0 END) as payments
+      FROM rv_transaction t
+      JOIN rv_cuentas cash ON cash.company = t.company AND cash.is_cash = 1
+        AND (t.debitacc = cash.code OR t.creditacc = cash.code)
+      LEFT JOIN rv_cuentas other ON other.company = t.company
+        AND other.code = CASE WHEN t.debitacc = cash.code THEN t.creditacc ELSE t.debitacc END
+      WHERE t.company = ? AND t.fecha BETWEEN ? AND ?
+        AND COALESCE(other.is_cash, 0) = 0
+      GROUP BY account_code, other.alias, other.account_type
+      ORDER BY account_code
+    `, [entityId, startDate, endDate]);
+
+    const direct = Object.fromEntries(
+      (['operating', 'investing', 'financing', 'unclassified'] as const).map(activity => [
+        activity, { lines: [] as CashFlowLine[], receipts: 0, payments: 0, net: 0 }
+      ])
+    ) as Record<CashFlowActivity, CashFlowSection>;
+
+    for (const row of movementRows as Array<Omit<CashFlowLine, 'net'>>) {
+      const receipts = Math.round(Number(row.receipts) * 100);
+      const payments = Math.round(Number(row.payments) * 100);
+      const section = direct[classifyCashFlowActivity(row.account_type)];
+      section.lines.push({ ...row, receipts: receipts / 100, payments: payments / 100, net: (receipts - payments) / 100 });
+      // Section totals are kept in cents until every line is in
+      section.receipts += receipts;
+      section.payments += payments;
+    }
+    for (const section of Object.values(direct)) {
+      section.net = (section.receipts - section.payments) / 100;
+      section.receipts /= 100;
+      section.payments /= 100;
+    }
 
-    const [rows] = await pool.execute(query, params);
-    return rows as Array<{
-      id: number;
-      code: string;
-      alias: string;
-      category: string;
-      currency: string;
-      total_balance: number;
-      account_type: string;
-    }>;
+    // Indirect view: net profit, less the part of it booked against non-cash accounts. Closing
+    // entries are left out as in the P&L; entries between two P&L accounts net to zero.
+    const [profitRows] = await pool.execute(`
+      SELECT CASE WHEN t.debitacc = pl.code THEN t.creditacc ELSE t.debitacc END as account_code,
+             counter.alias as account_alias, counter.account_type, COALESCE(counter.is_cash, 0) as is_cash,
+             SUM(CASE WHEN t.creditacc = pl.code THEN t.credit ELSE -t.debit END) as profit
+      FROM rv_transaction t
+      JOIN rv_cuentas pl ON pl.company = t.company AND pl.account_type IN ('income', 'expense')
+        AND (t.debitacc = pl.code OR t.creditacc = pl.code)
+      LEFT JOIN rv_cuentas counter ON counter.company = t.company
+        AND counter.code = CASE WHEN t.debitacc = pl.code THEN t.creditacc ELSE t.debitacc END
+      WHERE t.company = ? AND t.fecha BETWEEN ? AND ?
+        AND COALESCE(t.status, '') <> '${CLOSING_ENTRY_STATUS}'
+      GROUP BY account_code, counter.alias, counter.account_type, is_cash
+      ORDER BY account_code
+    `, [entityId, startDate, endDate]);
+
+    let netProfitCents = 0;
+    let adjustmentCents = 0;
+    const adjustments: CashFlowAdjustment[] = [];
+    for (const row of profitRows as Array<Omit<CashFlowAdjustment, 'amount'> & { is_cash: number; profit: number }>) {
+      const cents = Math.round(Number(row.profit) * 100);
+      netProfitCents += cents;
+      if (row.is_cash || row.account_type === 'income' || row.account_type === 'expense' || cents === 0) continue;
+
+      adjustmentCents -= cents;
+      adjustments.push({
+        account_code: row.account_code,
+        account_alias: row.account_alias,
+        account_type: row.account_type,
+        amount: -cents / 100
+      });
+    }
+
+    const openingCents = cashAccounts.reduce((sum, account) => sum + Math.round(Number(account.opening) * 100), 0);
+    const closingCents = cashAccounts.reduce((sum, account) => sum + Math.round(Number(account.closing) * 100), 0);
+
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      cash_accounts: cashAccounts.map(({ id, code, alias }) => ({ id, code, alias })),
+      opening_cash: openingCents / 100,
+      closing_cash: closingCents / 100,
+      net_change: (closingCents - openingCents) / 100,
+      direct,
+      indirect: {
+        net_profit: netProfitCents / 100,
+        adjustments,
+        operating: (netProfitCents + adjustmentCents) / 100
+      }
+    };
   } catch (error) {
     console.error('Database error:', error);
-    throw new Error('Failed to fetch balance sheet data');
+    throw new Error('Failed to fetch cash flow statement');
   }
 }
 
@@ -1204,6 +4903,12 @@ export async function bulkUpdateAccountsCategory(
     // Create placeholders for the IN clause
     const placeholders = accountIds.map(() => '?').join(',');
 
+    const [beforeRows] = await pool.execute(
+      `SELECT id, company, category FROM rv_cuentas WHERE id IN (${placeholders}) AND user = ?`,
+      [...accountIds, userId]
+    );
+    const before = beforeRows as Array<Pick<Account, 'id' | 'company' | 'category'>>;
+
     const query = `
       UPDATE rv_cuentas
       SET category = ?, date_updated = NOW()
@@ -1216,6 +4921,19 @@ export async function bulkUpdateAccountsCategory(
     // Get the number of affected rows
     const affectedRows = (result as { affectedRows?: number }).affectedRows || 0;
 
+    for (const company of new Set(before.map(account => account.company))) {
+      const changed = before.filter(account => account.company === company);
+      await recordAudit(pool, {
+        userId,
+        company,
+        action: 'account.bulk_category',
+        targetTable: 'rv_cuentas',
+        before: changed.map(account => ({ id: account.id, category: account.category })),
+        after: { category },
+        accountIds: changed.map(account => account.id)
+      });
+    }
+
     return { updatedCount: affectedRows };
   } catch (error) {
     console.error('Database error:', error);
@@ -1227,8 +4945,15 @@ export async function bulkUpdateTransactionsClassification(
   transactionIds: number[],
   classification: string,
   userId: number
-): Promise<{ updatedCount: number }> {
+): Promise<{ updatedCount: number; lockedCount: number }> {
   try {
+    // Rows inside a closed period are left out
+    const lockedIds = await getLockedTransactionIds(pool, transactionIds);
+    if (lockedIds.size === transactionIds.length) {
+      return { updatedCount: 0, lockedCount: lockedIds.size };
+    }
+    transactionIds = transactionIds.filter(id => !lockedIds.has(Number(id)));
+
     // Create placeholders for the IN clause
     const placeholders = transactionIds.map(() => '?').join(',');
 
@@ -1248,6 +4973,18 @@ export async function bulkUpdateTransactionsClassification(
       throw new Error('No transactions found or access denied');
     }
 
+    const [beforeRows] = await pool.execute(`
+      SELECT t.id, t.company, t.debitacc, t.creditacc, t.classification
+      FROM rv_transaction t
+      WHERE t.id IN (${placeholders})
+      AND EXISTS (
+        SELECT 1 FROM rv_cuentas a
+        WHERE (t.debitacc = a.code OR t.creditacc = a.code)
+        AND a.user = ?
+      )
+    `, [...transactionIds, userId]);
+    const before = beforeRows as Array<Pick<Transaction, 'id' | 'company' | 'debitacc' | 'creditacc' | 'classification'>>;
+
     // Update the transactions
     const updateQuery = `
       UPDATE rv_transaction t
@@ -1266,7 +5003,20 @@ export async function bulkUpdateTransactionsClassification(
     // Get the number of affected rows
     const affectedRows = (result as { affectedRows?: number }).affectedRows || 0;
 
-    return { updatedCount: affectedRows };
+    for (const company of new Set(before.map(transaction => transaction.company))) {
+      const changed = before.filter(transaction => transaction.company === company);
+      await recordAudit(pool, {
+        userId,
+        company,
+        action: 'transaction.bulk_classify',
+        targetTable: 'rv_transaction',
+        before: changed.map(transaction => ({ id: transaction.id, classification: transaction.classification ?? null })),
+        after: { classification },
+        accountCodes: changed.flatMap(transaction => [transaction.debitacc, transaction.creditacc])
+      });
+    }
+
+    return { updatedCount: affectedRows, lockedCount: lockedIds.size };
   } catch (error) {
     console.error('Database error:', error);
     throw new Error('Failed to bulk update transactions');
@@ -1278,7 +5028,7 @@ export async function bulkAssignAccountToTransactions(
   assignedAccountId: number,
   isDebitAccount: boolean,
   userId: number
-): Promise<{ updatedCount: number }> {
+): Promise<{ updatedCount: number; lockedCount: number }> {
   try {
     // Create placeholders for the IN clause
     const placeholders = transactionIds.map(() => '?').join(',');
@@ -1310,57 +5060,675 @@ export async function bulkAssignAccountToTransactions(
       throw new Error('Some transactions do not belong to the same entity as the assigned account');
     }
 
+    // Rows inside a closed period are left out
+    const lockedIds = await getLockedTransactionIds(pool, transactionIds);
+    const openIds = transactionIds.filter(id => !lockedIds.has(Number(id)));
+    if (openIds.length === 0) {
+      return { updatedCount: 0, lockedCount: lockedIds.size };
+    }
+    const openPlaceholders = openIds.map(() => '?').join(',');
+
+    const [beforeRows] = await pool.execute(
+      `SELECT id, debitacc, creditacc FROM rv_transaction WHERE id IN (${openPlaceholders})`,
+      openIds
+    );
+    const before = beforeRows as Array<Pick<Transaction, 'id' | 'debitacc' | 'creditacc'>>;
+
     // Update the transactions - assign to debit or credit field
     const updateField = isDebitAccount ? 'debitacc' : 'creditacc';
     const updateQuery = `
       UPDATE rv_transaction t
       SET t.${updateField} = ?
-      WHERE t.id IN (${placeholders})
+      WHERE t.id IN (${openPlaceholders})
       AND t.company = ?
     `;
 
-    const params = [assignedAccount.code, ...transactionIds, assignedAccount.company];
+    const params = [assignedAccount.code, ...openIds, assignedAccount.company];
     const [result] = await pool.execute(updateQuery, params);
 
     // Get the number of affected rows
     const affectedRows = (result as { affectedRows?: number }).affectedRows || 0;
 
-    return { updatedCount: affectedRows };
+    await recordAudit(pool, {
+      userId,
+      company: assignedAccount.company,
+      action: 'transaction.bulk_assign',
+      targetTable: 'rv_transaction',
+      before: before.map(transaction => ({ id: transaction.id, [updateField]: transaction[updateField] })),
+      after: { [updateField]: assignedAccount.code },
+      accountIds: [assignedAccount.id],
+      accountCodes: before.flatMap(transaction => [transaction.debitacc, transaction.creditacc])
+    });
+
+    return { updatedCount: affectedRows, lockedCount: lockedIds.size };
   } catch (error) {
     console.error('Database error:', error);
     throw new Error('Failed to bulk assign accounts to transactions');
   }
 }
 
-export async function bulkDeleteTransactions(
-  transactionIds: number[],
+export async function bulkDeleteTransactions(
+  transactionIds: number[],
+  userId: number
+): Promise<{ deletedCount: number; blockedCount: number }> {
+  try {
+    // Entities that forbid hard deletes keep their cleared and imported rows, and no entity lets
+    // rows inside a closed period go; those can only be reversed. Journal rows (closing entries
+    // included) go with their whole entry or by reopening the fiscal year
+    const [blockedRows] = await pool.execute(`
+      SELECT t.id
+      FROM rv_transaction t
+      JOIN company c ON c.id = t.company
+      WHERE t.id IN (${transactionIds.map(() => '?').join(',')})
+        AND (
+          t.fecha <= c.locked_through
+          OR t.status = '${CLOSING_ENTRY_STATUS}' OR t.journal_id IS NOT NULL
+          OR (c.forbid_hard_delete = 1
+              AND (COALESCE(t.conciled, 0) <> 0 OR t.reconciliation_id IS NOT NULL
+                   OR t.import_batch_id IS NOT NULL OR t.bank_transaction_id IS NOT NULL))
+        )
+    `, transactionIds);
+    const blockedIds = new Set((blockedRows as Array<{ id: number }>).map(row => row.id));
+    const deletableIds = transactionIds.filter(id => !blockedIds.has(Number(id)));
+
+    if (deletableIds.length === 0) {
+      return { deletedCount: 0, blockedCount: blockedIds.size };
+    }
+
+    // Create placeholders for the IN clause
+    const placeholders = deletableIds.map(() => '?').join(',');
+
+    const [beforeRows] = await pool.execute(`
+      SELECT t.id, t.company, t.name, t.description, t.debit, t.credit, t.debitacc, t.creditacc,
+             DATE_FORMAT(t.fecha, '%Y-%m-%d') AS fecha, t.status, t.conciled, t.import_batch_id, t.bank_transaction_id
+      FROM rv_transaction t
+      WHERE t.id IN (${placeholders})
+      AND EXISTS (
+        SELECT 1 FROM rv_cuentas a
+        WHERE (t.debitacc = a.code OR t.creditacc = a.code)
+        AND a.user = ?
+      )
+    `, [...deletableIds, userId]);
+    const deleted = beforeRows as Transaction[];
+
+    // Delete transactions - only if user has access to the accounts involved
+    const deleteQuery = `
+      DELETE t FROM rv_transaction t
+      WHERE t.id IN (${placeholders})
+      AND EXISTS (
+        SELECT 1 FROM rv_cuentas a
+        WHERE (t.debitacc = a.code OR t.creditacc = a.code)
+        AND a.user = ?
+      )
+    `;
+
+    const params = [...deletableIds, userId];
+    const [result] = await pool.execute(deleteQuery, params);
+
+    // Get the number of affected rows
+    const affectedRows = (result as { affectedRows?: number }).affectedRows || 0;
+
+    for (const company of new Set(deleted.map(transaction => transaction.company))) {
+      const companyRows = deleted.filter(transaction => transaction.company === company);
+      await recordAudit(pool, {
+        userId,
+        company,
+        action: 'transaction.bulk_delete',
+        targetTable: 'rv_transaction',
+        before: companyRows,
+        accountCodes: companyRows.flatMap(transaction => [transaction.debitacc, transaction.creditacc])
+      });
+    }
+
+    return { deletedCount: affectedRows, blockedCount: blockedIds.size };
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to bulk delete transactions');
+  }
+}
+
+/**
+ * Cancel transactions by posting a mirror row for each (debit and credit accounts swapped)
+ * dated on the reversal date and linked back through reversal_of_id. The originals stay in
+ * the ledger untouched. Rows that are reversals themselves or were already reversed are skipped.
+ */
+export async function reverseTransactions(
+  transactionIds: number[],
+  reversalDate: string,
+  userId: number
+): Promise<{ success: boolean; reversedCount?: number; skippedCount?: number; transactionIds?: number[]; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const placeholders = transactionIds.map(() => '?').join(',');
+    const [transactionRows] = await connection.execute(`
+      SELECT t.id, t.client, t.company, t.name, t.category, t.description, t.debit, t.credit,
+             t.debitacc, t.creditacc, t.payee_id, t.reversal_of_id, t.status,
+             EXISTS (SELECT 1 FROM rv_transaction r WHERE r.reversal_of_id = t.id) AS is_reversed
+      FROM rv_transaction t
+      WHERE t.id IN (${placeholders})
+        AND (
+          EXISTS (SELECT 1 FROM rv_cuentas a WHERE (t.debitacc = a.code OR t.creditacc = a.code) AND a.user = ?)
+          OR EXISTS (SELECT 1 FROM company_user cu WHERE cu.company_id = t.company AND cu.user_id = ?)
+        )
+      FOR UPDATE
+    `, [...transactionIds, userId, userId]);
+    const transactions = transactionRows as Array<Pick<Transaction,
+      'id' | 'client' | 'company' | 'name' | 'category' | 'description' | 'debit' | 'credit' | 'debitacc' | 'creditacc' | 'payee_id' | 'reversal_of_id' | 'status'
+    > & { is_reversed: number }>;
+
+    if (transactions.length === 0) {
+      await connection.rollback();
+      return { success: false, error: 'No transactions found or access denied' };
+    }
+
+    // Closing entries are undone by reopening their fiscal year
+    const reversible = transactions.filter(row => !row.reversal_of_id && !row.is_reversed && row.status !== CLOSING_ENTRY_STATUS);
+    if (reversible.length === 0) {
+      await connection.rollback();
+      return { success: false, error: 'The selected transactions are reversals, closing entries or have already been reversed' };
+    }
+
+    const companies = [...new Set(reversible.map(row => row.company))];
+    const codes = [...new Set(reversible.flatMap(row => [row.debitacc, row.creditacc]))].filter(code => code !== '0');
+    const [accountRows] = codes.length > 0
+      ? await connection.execute(
+        `SELECT id, code, company, account_type FROM rv_cuentas
+         WHERE company IN (${companies.map(() => '?').join(',')}) AND code IN (${codes.map(() => '?').join(',')})
+         FOR UPDATE`,
+        [...companies, ...codes]
+      )
+      : [[]];
+    const accounts = new Map(
+      (accountRows as Array<Pick<Account, 'id' | 'code' | 'company' | 'account_type'>>)
+        .map(account => [`${account.company}:${account.code}`, account])
+    );
+    const postedTo = (row: { company: number; debitacc: string; creditacc: string }) =>
+      [row.debitacc, row.creditacc]
+        .map(code => accounts.get(`${row.company}:${code}`))
+        .filter((account): account is NonNullable<typeof account> => !!account);
+
+    for (const company of companies) {
+      const periodLockError = await getPeriodLockError(connection, company, reversalDate);
+      if (periodLockError) {
+        await connection.rollback();
+        return { success: false, error: periodLockError };
+      }
+    }
+
+    for (const row of reversible) {
+      const closedPeriodError = await getClosedPeriodError(connection, postedTo(row), reversalDate);
+      if (closedPeriodError) {
+        await connection.rollback();
+        return { success: false, error: closedPeriodError };
+      }
+    }
+
+    const accountingDate = new Date().toISOString().slice(0, 19).replace('T', ' ');
+    const balanceChanges = new Map<number, number>();
+    const reversalIds: number[] = [];
+
+    for (const row of reversible) {
+      const amount = Number(row.debit);
+      const [result] = await connection.execute(`
+        INSERT INTO rv_transaction
+        (conciled, client, company, name, category, description, debit, credit, debitacc, creditacc, fecha, status, accounting_date, payee_id, reversal_of_id)
+        VALUES (0, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'Reversal', ?, ?, ?)
+      `, [
+        row.client, row.company, row.name, row.category,
+        `Reversal of #${row.id}: ${row.description || row.name}`,
+        amount, amount, row.creditacc, row.debitacc, reversalDate, accountingDate, row.payee_id ?? null, row.id
+      ]);
+      reversalIds.push((result as mysql.ResultSetHeader).insertId);
+
+      const mirror = { debitacc: row.creditacc, debit: amount, credit: amount };
+      for (const account of postedTo(row)) {
+        balanceChanges.set(account.id, (balanceChanges.get(account.id) || 0) + getBalanceEffect(mirror, account));
+      }
+    }
+
+    for (const [accountId, change] of balanceChanges) {
+      await connection.execute(
+        'UPDATE rv_cuentas SET balance = balance + ?, date_updated = NOW() WHERE id = ?',
+        [change, accountId]
+      );
+    }
+
+    for (const company of companies) {
+      const reversed = reversible
+        .map((row, index) => ({ row, reversalId: reversalIds[index] }))
+        .filter(({ row }) => row.company === company);
+      await recordAudit(connection, {
+        userId,
+        company,
+        action: 'transaction.reverse',
+        targetTable: 'rv_transaction',
+        after: {
+          reversal_date: reversalDate,
+          reversals: reversed.map(({ row, reversalId }) => ({ transaction_id: row.id, reversal_id: reversalId }))
+        },
+        accountIds: reversed.flatMap(({ row }) => postedTo(row).map(account => account.id))
+      });
+    }
+
+    await connection.commit();
+    return {
+      success: true,
+      reversedCount: reversible.length,
+      skippedCount: transactions.length - reversible.length,
+      transactionIds: reversalIds
+    };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Transaction reversal error:', error);
+    return { success: false, error: 'Failed to reverse transactions' };
+  } finally {
+    connection?.release();
+  }
+}
+
+export interface JournalEntryLine {
+  account_code: string;
+  account_alias?: string | null;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntry {
+  id: number;
+  company: number; // Entity the entry belongs to
+  user_id: number | null;
+  entry_date: string;
+  reference: string | null;
+  memo: string;
+  total: number; // Sum of the debits (equal to the credits)
+  lines: JournalEntryLine[]; // Rebuilt from the entry's rv_transaction rows, one per account and side
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface JournalEntryInput {
+  company: number;
+  entry_date: string;
+  reference: string | null;
+  memo: string;
+  lines: Array<{ account_code: string; debit: number; credit: number }>;
+}
+
+const JOURNAL_ENTRY_COLUMNS = `
+  j.id, j.company, j.user_id, DATE_FORMAT(j.entry_date, '%Y-%m-%d') AS entry_date,
+  j.reference, j.memo, j.created_at, j.updated_at
+`;
+
+// Entries are visible to the entity owner and its members
+const JOURNAL_ENTRY_ACCESS = `
+  (EXISTS (SELECT 1 FROM company c WHERE c.id = j.company AND c.user_id = ?)
+   OR EXISTS (SELECT 1 FROM company_user cu WHERE cu.company_id = j.company AND cu.user_id = ?))
+`;
+
+async function getJournalEntryLines(journalIds: number[]): Promise<Map<number, JournalEntryLine[]>> {
+  const linesByJournal = new Map<number, JournalEntryLine[]>();
+  if (journalIds.length === 0) return linesByJournal;
+
+  const [rows] = await pool.execute(`
+    SELECT t.journal_id, t.debitacc, t.creditacc, t.debit, t.credit, cd.alias AS debit_alias, cc.alias AS credit_alias
+    FROM rv_transaction t
+    LEFT JOIN rv_cuentas cd ON cd.code = t.debitacc AND cd.company = t.company
+    LEFT JOIN rv_cuentas cc ON cc.code = t.creditacc AND cc.company = t.company
+    WHERE t.journal_id IN (${journalIds.map(() => '?').join(',')})
+    ORDER BY t.id ASC
+  `, journalIds);
+
+  for (const row of rows as Array<{
+    journal_id: number;
+    debitacc: string;
+    creditacc: string;
+    debit: number;
+    credit: number;
+    debit_alias: string | null;
+    credit_alias: string | null;
+  }>) {
+    const lines = linesByJournal.get(row.journal_id) || [];
+    const addLine = (accountCode: string, alias: string | null, side: 'debit' | 'credit', amount: number) => {
+      let line = lines.find(existing => existing.account_code === accountCode && existing[side] > 0);
+      if (!line) {
+        line = { account_code: accountCode, account_alias: alias, debit: 0, credit: 0 };
+        lines.push(line);
+      }
+      line[side] = Math.round((line[side] + amount) * 100) / 100;
+    };
+
+    addLine(row.debitacc, row.debit_alias, 'debit', Number(row.debit));
+    addLine(row.creditacc, row.credit_alias, 'credit', Number(row.credit));
+    linesByJournal.set(row.journal_id, lines);
+  }
+
+  // Debit lines first, as entries are usually written
+  linesByJournal.forEach(lines => lines.sort((a, b) => (b.debit > 0 ? 1 : 0) - (a.debit > 0 ? 1 : 0)));
+  return linesByJournal;
+}
+
+function toJournalEntry(row: Record<string, unknown>, lines: JournalEntryLine[]): JournalEntry {
+  return {
+    ...(row as unknown as JournalEntry),
+    lines,
+    total: Math.round(lines.reduce((sum, line) => sum + line.debit, 0) * 100) / 100
+  };
+}
+
+export async function getJournalEntries(entityId: number, userId: number, limit: number = 100): Promise<JournalEntry[]> {
+  try {
+    const limitInt = Math.max(1, Math.min(500, parseInt(String(limit))));
+    const [rows] = await pool.execute(`
+      SELECT ${JOURNAL_ENTRY_COLUMNS}
+      FROM rv_journal_entry j
+      WHERE j.company = ? AND ${JOURNAL_ENTRY_ACCESS}
+      ORDER BY j.entry_date DESC, j.id DESC
+      LIMIT ${limitInt}
+    `, [entityId, userId, userId]);
+
+    const entries = rows as Record<string, unknown>[];
+    const lines = await getJournalEntryLines(entries.map(entry => entry.id as number));
+    return entries.map(entry => toJournalEntry(entry, lines.get(entry.id as number) || []));
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch journal entries');
+  }
+}
+
+export async function getJournalEntryById(journalId: number, userId: number): Promise<JournalEntry | null> {
+  try {
+    const [rows] = await pool.execute(`
+      SELECT ${JOURNAL_ENTRY_COLUMNS}
+      FROM rv_journal_entry j
+      WHERE j.id = ? AND ${JOURNAL_ENTRY_ACCESS}
+    `, [journalId, userId, userId]);
+
+    const entries = rows as Record<string, unknown>[];
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const lines = await getJournalEntryLines([journalId]);
+    return toJournalEntry(entries[0], lines.get(journalId) || []);
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch journal entry');
+  }
+}
+
+/**
+ * Insert the rv_transaction rows of a journal entry and move the balances of the accounts
+ * involved. Every account must be an active account of the entry's entity.
+ */
+async function postJournalRows(
+  connection: mysql.PoolConnection,
+  journalId: number,
+  entry: JournalEntryInput
+): Promise<{ error?: string }> {
+  const codes = [...new Set(entry.lines.map(line => line.account_code))];
+  const [accountRows] = await connection.execute(
+    `SELECT id, code, client, account_type FROM rv_cuentas WHERE company = ? AND active = 1 AND code IN (${codes.map(() => '?').join(',')}) FOR UPDATE`,
+    [entry.company, ...codes]
+  );
+  const accounts = new Map(
+    (accountRows as Array<Pick<Account, 'id' | 'code' | 'client' | 'account_type'>>).map(account => [account.code, account])
+  );
+
+  const missing = codes.filter(code => !accounts.has(code));
+  if (missing.length > 0) {
+    return { error: `Unknown account${missing.length > 1 ? 's' : ''} for this entity: ${missing.join(', ')}` };
+  }
+
+  const accountingDate = new Date().toISOString().slice(0, 19).replace('T', ' ');
+  const balanceChanges = new Map<string, number>();
+
+  for (const posting of pairJournalLines(entry.lines)) {
+    const debitAccount = accounts.get(posting.debitAccount)!;
+    const creditAccount = accounts.get(posting.creditAccount)!;
+
+    await connection.execute(`
+      INSERT INTO rv_transaction
+      (conciled, client, company, name, category, description, debit, credit, balancedebit, balancecredit, debitacc, creditacc, fecha, status, accounting_date, journal_id)
+      VALUES (0, ?, ?, ?, 'Journal Entry', ?, ?, ?, NULL, NULL, ?, ?, ?, 'Journal Entry', ?, ?)
+    `, [
+      debitAccount.client || 'System', entry.company, entry.memo,
+      entry.reference ? `${entry.reference} - ${entry.memo}` : entry.memo,
+      posting.amount, posting.amount, posting.debitAccount, posting.creditAccount,
+      entry.entry_date, accountingDate, journalId
+    ]);
+
+    const row = { debitacc: posting.debitAccount, debit: posting.amount, credit: posting.amount };
+    balanceChanges.set(posting.debitAccount, (balanceChanges.get(posting.debitAccount) || 0) + getBalanceEffect(row, debitAccount));
+    balanceChanges.set(posting.creditAccount, (balanceChanges.get(posting.creditAccount) || 0) + getBalanceEffect(row, creditAccount));
+  }
+
+  for (const [code, change] of balanceChanges) {
+    await connection.execute(
+      'UPDATE rv_cuentas SET balance = balance + ?, date_updated = NOW() WHERE id = ?',
+      [change, accounts.get(code)!.id]
+    );
+  }
+
+  return {};
+}
+
+interface PostedJournalRow {
+  id: number;
+  debitacc: string;
+  creditacc: string;
+  debit: number;
+  credit: number;
+  conciled: number | null;
+  reconciliation_id: number | null;
+  debit_account_id: number | null;
+  debit_account_type: Account['account_type'];
+  credit_account_id: number | null;
+  credit_account_type: Account['account_type'];
+}
+
+// The rows a journal entry posted, locked for update, with the accounts they moved
+async function getPostedJournalRows(connection: mysql.PoolConnection, journalId: number): Promise<PostedJournalRow[]> {
+  const [rows] = await connection.execute(`
+    SELECT t.id, t.debitacc, t.creditacc, t.debit, t.credit, t.conciled, t.reconciliation_id,
+           cd.id AS debit_account_id, cd.account_type AS debit_account_type,
+           cc.id AS credit_account_id, cc.account_type AS credit_account_type
+    FROM rv_transaction t
+    LEFT JOIN rv_cuentas cd ON cd.code = t.debitacc AND cd.company = t.company
+    LEFT JOIN rv_cuentas cc ON cc.code = t.creditacc AND cc.company = t.company
+    WHERE t.journal_id = ?
+    FOR UPDATE
+  `, [journalId]);
+  return rows as PostedJournalRow[];
+}
+
+// Take a journal entry's rows off the account balances and delete them
+async function unpostJournalRows(connection: mysql.PoolConnection, journalId: number, rows: PostedJournalRow[]): Promise<void> {
+  for (const row of rows) {
+    if (row.debit_account_id) {
+      await connection.execute(
+        'UPDATE rv_cuentas SET balance = balance - ?, date_updated = NOW() WHERE id = ?',
+        [getBalanceEffect(row, { code: row.debitacc, account_type: row.debit_account_type }), row.debit_account_id]
+      );
+    }
+    if (row.credit_account_id) {
+      await connection.execute(
+        'UPDATE rv_cuentas SET balance = balance - ?, date_updated = NOW() WHERE id = ?',
+        [getBalanceEffect(row, { code: row.creditacc, account_type: row.credit_account_type }), row.credit_account_id]
+      );
+    }
+  }
+
+  await connection.execute('DELETE FROM rv_transaction WHERE journal_id = ?', [journalId]);
+}
+
+// Users can post to entities they own or belong to
+async function canPostToEntity(executor: mysql.Pool | mysql.PoolConnection, entityId: number, userId: number): Promise<boolean> {
+  const [rows] = await executor.execute(`
+    SELECT c.id FROM company c
+    WHERE c.id = ?
+      AND (c.user_id = ? OR EXISTS (SELECT 1 FROM company_user cu WHERE cu.company_id = c.id AND cu.user_id = ?))
+  `, [entityId, userId, userId]);
+  return (rows as Array<{ id: number }>).length > 0;
+}
+
+export async function createJournalEntry(
+  entry: JournalEntryInput,
+  userId: number
+): Promise<{ success: boolean; entry?: JournalEntry; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    if (!await canPostToEntity(connection, entry.company, userId)) {
+      await connection.rollback();
+      return { success: false, error: 'Entity not found or access denied' };
+    }
+
+    const periodLockError = await getPeriodLockError(connection, entry.company, entry.entry_date);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
+
+    const [result] = await connection.execute(`
+      INSERT INTO rv_journal_entry (company, user_id, entry_date, reference, memo)
+      VALUES (?, ?, ?, ?, ?)
+    `, [entry.company, userId, entry.entry_date, entry.reference, entry.memo]);
+    const journalId = (result as mysql.ResultSetHeader).insertId;
+
+    const posted = await postJournalRows(connection, journalId, entry);
+    if (posted.error) {
+      await connection.rollback();
+      return { success: false, error: posted.error };
+    }
+
+    await recordAudit(connection, {
+      userId,
+      company: entry.company,
+      action: 'journal_entry.create',
+      targetTable: 'rv_journal_entry',
+      targetId: journalId,
+      after: entry,
+      accountCodes: entry.lines.map(line => line.account_code)
+    });
+
+    await connection.commit();
+
+    const created = await getJournalEntryById(journalId, userId);
+    return { success: true, entry: created || undefined };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Journal entry error:', error);
+    return { success: false, error: 'Failed to create journal entry' };
+  } finally {
+    connection?.release();
+  }
+}
+
+/**
+ * Replace the lines of a journal entry: its old rows are taken off the account balances and
+ * deleted, then the new lines are posted. Entries with cleared or reconciled rows are locked.
+ */
+export async function updateJournalEntry(
+  journalId: number,
+  entry: JournalEntryInput,
   userId: number
-): Promise<{ deletedCount: number }> {
+): Promise<{ success: boolean; entry?: JournalEntry; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
   try {
-    // Create placeholders for the IN clause
-    const placeholders = transactionIds.map(() => '?').join(',');
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
 
-    // Delete transactions - only if user has access to the accounts involved
-    const deleteQuery = `
-      DELETE t FROM rv_transaction t
-      WHERE t.id IN (${placeholders})
-      AND EXISTS (
-        SELECT 1 FROM rv_cuentas a
-        WHERE (t.debitacc = a.code OR t.creditacc = a.code)
-        AND a.user = ?
-      )
-    `;
+    const [entryRows] = await connection.execute(
+      `SELECT j.id, j.company FROM rv_journal_entry j WHERE j.id = ? AND ${JOURNAL_ENTRY_ACCESS} FOR UPDATE`,
+      [journalId, userId, userId]
+    );
+    const existing = (entryRows as Array<{ id: number; company: number }>)[0];
+    if (!existing) {
+      await connection.rollback();
+      return { success: false, error: 'Journal entry not found' };
+    }
+    if (existing.company !== entry.company) {
+      await connection.rollback();
+      return { success: false, error: 'A journal entry cannot be moved to another entity' };
+    }
 
-    const params = [...transactionIds, userId];
-    const [result] = await pool.execute(deleteQuery, params);
+    const [closeRows] = await connection.execute('SELECT fiscal_year FROM rv_fiscal_year_close WHERE journal_id = ?', [journalId]);
+    const close = (closeRows as Array<{ fiscal_year: number }>)[0];
+    if (close) {
+      await connection.rollback();
+      return { success: false, error: `This is the closing entry of fiscal year ${close.fiscal_year}; reopen the year instead of editing it` };
+    }
 
-    // Get the number of affected rows
-    const affectedRows = (result as { affectedRows?: number }).affectedRows || 0;
+    const oldRows = await getPostedJournalRows(connection, journalId);
+
+    if (oldRows.some(row => row.conciled || row.reconciliation_id)) {
+      await connection.rollback();
+      return { success: false, error: 'This journal entry has cleared lines and can no longer be edited' };
+    }
+
+    const periodLockError =
+      await getLockedTransactionsError(connection, oldRows.map(row => row.id)) ||
+      await getPeriodLockError(connection, entry.company, entry.entry_date);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
+
+    await unpostJournalRows(connection, journalId, oldRows);
+
+    await connection.execute(
+      'UPDATE rv_journal_entry SET entry_date = ?, reference = ?, memo = ?, updated_at = NOW() WHERE id = ?',
+      [entry.entry_date, entry.reference, entry.memo, journalId]
+    );
+
+    const posted = await postJournalRows(connection, journalId, entry);
+    if (posted.error) {
+      await connection.rollback();
+      return { success: false, error: posted.error };
+    }
+
+    await recordAudit(connection, {
+      userId,
+      company: entry.company,
+      action: 'journal_entry.update',
+      targetTable: 'rv_journal_entry',
+      targetId: journalId,
+      before: {
+        transactions: oldRows.map(row => ({
+          id: row.id,
+          debitacc: row.debitacc,
+          creditacc: row.creditacc,
+          amount: Number(row.debit)
+        }))
+      },
+      after: entry,
+      accountCodes: [...oldRows.flatMap(row => [row.debitacc, row.creditacc]), ...entry.lines.map(line => line.account_code)]
+    });
+
+    await connection.commit();
 
-    return { deletedCount: affectedRows };
+    const updated = await getJournalEntryById(journalId, userId);
+    return { success: true, entry: updated || undefined };
   } catch (error) {
-    console.error('Database error:', error);
-    throw new Error('Failed to bulk delete transactions');
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Journal entry error:', error);
+    return { success: false, error: 'Failed to update journal entry' };
+  } finally {
+    connection?.release();
   }
 }
 
@@ -1408,7 +5776,8 @@ export async function getProfitLossData(
       queryParams.push(currency);
     }
 
-    // Query to calculate account balances from transactions within the date range
+    // Query to calculate account balances from transactions within the date range, leaving out
+    // year-end closing entries so a closed year still reports what it earned
     // For income accounts: credit increases balance, debit decreases balance
     // For expense accounts: debit increases balance, credit decreases balance
     // Join with company_user to get entities related to the user
@@ -1434,6 +5803,7 @@ export async function getProfitLossData(
         (t.debitacc = a.code OR t.creditacc = a.code)
         AND t.fecha BETWEEN ? AND ?
         AND t.company = a.company
+        AND COALESCE(t.status, '') <> '${CLOSING_ENTRY_STATUS}'
       )
       WHERE ${whereConditions.join(' AND ')}
       GROUP BY a.id, a.code, a.alias, a.category, a.account_type, a.currency
@@ -1474,6 +5844,123 @@ export async function getProfitLossData(
   }
 }
 
+export interface PLColumn extends ReportColumn {
+  total_income: number;
+  total_expenses: number;
+  net_profit: number;
+}
+
+export interface PLColumnAccount extends Omit<PLAccount, 'total_balance'> {
+  amounts: number[]; // One per column, in column order
+}
+
+export interface PLColumnData {
+  columns: PLColumn[];
+  income_accounts: PLColumnAccount[];
+  expense_accounts: PLColumnAccount[];
+  period_start: string;
+  period_end: string;
+}
+
+// Profit & loss with one amount per column (months, quarters or comparison periods), read in a
+// single pass over the transactions of all columns. Closing entries are left out as above.
+export async function getProfitLossColumns(
+  columns: ReportColumn[],
+  userId: number,
+  entityId?: number,
+  currency?: string
+): Promise<PLColumnData> {
+  try {
+    const whereConditions = ['a.active = 1', 'a.account_type IN (\'income\', \'expense\')', 'cu.user_id = ?'];
+    const whereParams: (string | number)[] = [userId];
+
+    if (entityId) {
+      whereConditions.push('a.company = ?');
+      whereParams.push(entityId);
+    }
+
+    if (currency) {
+      whereConditions.push('a.currency = ?');
+      whereParams.push(currency);
+    }
+
+    // Income grows with credits, expenses with debits
+    const signedAmount = `
+      CASE WHEN a.account_type = 'income'
+        THEN (CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END) - (CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END)
+        ELSE (CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END) - (CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END)
+      END`;
+    const columnSums = columns.map((_, index) =>
+      `COALESCE(SUM(CASE WHEN t.fecha BETWEEN ? AND ? THEN ${signedAmount} ELSE 0 END), 0) as column_${index}`
+    );
+    const rangeStart = columns.reduce((min, column) => column.start_date < min ? column.start_date : min, columns[0].start_date);
+    const rangeEnd = columns.reduce((max, column) => column.end_date > max ? column.end_date : max, columns[0].end_date);
+    const period = columns.find(column => column.kind === 'total') ?? columns[0];
+
+    const [rows] = await pool.execute(`
+      SELECT a.code, a.alias, a.category, a.account_type, a.currency, ${columnSums.join(', ')}
+      FROM rv_cuentas a
+      INNER JOIN company_user cu ON a.company = cu.company_id
+      LEFT JOIN rv_transaction t ON (
+        (t.debitacc = a.code OR t.creditacc = a.code)
+        AND t.fecha BETWEEN ? AND ?
+        AND t.company = a.company
+        AND COALESCE(t.status, '') <> '${CLOSING_ENTRY_STATUS}'
+      )
+      WHERE ${whereConditions.join(' AND ')}
+      GROUP BY a.id, a.code, a.alias, a.category, a.account_type, a.currency
+      ORDER BY a.account_type, a.alias ASC
+    `, [
+      ...columns.flatMap(column => [column.start_date, column.end_date]),
+      rangeStart,
+      rangeEnd,
+      ...whereParams
+    ]);
+
+    const accounts: PLColumnAccount[] = [];
+    for (const row of rows as Array<Omit<PLAccount, 'total_balance'> & Record<string, unknown>>) {
+      const amounts = columns.map((_, index) => Number(row[`column_${index}`]));
+      if (amounts.every(amount => amount === 0)) continue;
+
+      accounts.push({
+        code: row.code,
+        alias: row.alias,
+        category: row.category,
+        account_type: row.account_type,
+        currency: row.currency,
+        amounts
+      });
+    }
+
+    const income_accounts = accounts.filter(account => account.account_type === 'income');
+    const expense_accounts = accounts.filter(account => account.account_type === 'expense');
+
+    // Column totals are summed in cents so net profit matches the rows it is built from
+    const sumColumn = (list: PLColumnAccount[], index: number) =>
+      list.reduce((sum, account) => sum + Math.round(account.amounts[index] * 100), 0);
+
+    return {
+      columns: columns.map((column, index) => {
+        const incomeCents = sumColumn(income_accounts, index);
+        const expenseCents = sumColumn(expense_accounts, index);
+        return {
+          ...column,
+          total_income: incomeCents / 100,
+          total_expenses: expenseCents / 100,
+          net_profit: (incomeCents - expenseCents) / 100
+        };
+      }),
+      income_accounts,
+      expense_accounts,
+      period_start: period.start_date,
+      period_end: period.end_date
+    };
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch profit & loss data');
+  }
+}
+
 export interface Entity {
   [key: string]: unknown;
   id: number;
@@ -1487,6 +5974,10 @@ export interface Entity {
   vat: number;
   organization_id: number | null;
   user_id: number | null;
+  forbid_hard_delete?: number;
+  locked_through?: string | null; // Last day of the closed period, YYYY-MM-DD
+  fiscal_year_start_month?: number; // 1-12
+  retained_earnings_account_id?: number | null;
   total_accounts?: number;
   total_balance?: number;
   incomplete_transactions_count?: number;
@@ -1497,6 +5988,7 @@ export async function getEntitiesByUserId(userId: number): Promise<Entity[]> {
     const query = `
       SELECT
         c.*,
+        DATE_FORMAT(c.locked_through, '%Y-%m-%d') as locked_through,
         COUNT(DISTINCT a.id) as total_accounts,
         COALESCE(SUM(a.balance), 0) as total_balance,
         COUNT(DISTINCT CASE
@@ -1509,7 +6001,8 @@ export async function getEntitiesByUserId(userId: number): Promise<Entity[]> {
       LEFT JOIN rv_cuentas a ON c.id = a.company AND a.active = 1
       LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code)
       WHERE cu.user_id = ?
-      GROUP BY c.id, c.code, c.sub_code, c.name, c.companyEmail, c.email, c.whatsapp, c.timezone, c.vat, c.organization_id, c.user_id
+      GROUP BY c.id, c.code, c.sub_code, c.name, c.companyEmail, c.email, c.whatsapp, c.timezone, c.vat, c.organization_id, c.user_id, c.forbid_hard_delete, c.locked_through,
+               c.fiscal_year_start_month, c.retained_earnings_account_id
       ORDER BY c.name ASC
     `;
 
@@ -1526,6 +6019,7 @@ export async function getEntityById(entityId: number, userId: number): Promise<E
     const query = `
       SELECT
         c.*,
+        DATE_FORMAT(c.locked_through, '%Y-%m-%d') as locked_through,
         COUNT(DISTINCT a.id) as total_accounts,
         COALESCE(SUM(a.balance), 0) as total_balance,
         COUNT(DISTINCT CASE
@@ -1537,7 +6031,8 @@ export async function getEntityById(entityId: number, userId: number): Promise<E
       LEFT JOIN rv_cuentas a ON c.id = a.company AND a.active = 1
       LEFT JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code)
       WHERE c.id = ? AND c.user_id = ?
-      GROUP BY c.id, c.code, c.sub_code, c.name, c.companyEmail, c.email, c.whatsapp, c.timezone, c.vat, c.organization_id, c.user_id
+      GROUP BY c.id, c.code, c.sub_code, c.name, c.companyEmail, c.email, c.whatsapp, c.timezone, c.vat, c.organization_id, c.user_id, c.forbid_hard_delete, c.locked_through,
+               c.fiscal_year_start_month, c.retained_earnings_account_id
     `;
 
     const [rows] = await pool.execute(query, [entityId, userId]);
@@ -1549,6 +6044,390 @@ export async function getEntityById(entityId: number, userId: number): Promise<E
   }
 }
 
+export interface EntitySettings {
+  forbid_hard_delete?: boolean;
+  fiscal_year_start_month?: number; // 1-12
+  retained_earnings_account_id?: number | null; // Equity account year-end closes post to
+}
+
+// Only the owner of an entity can change its bookkeeping settings
+export async function updateEntitySettings(
+  entityId: number,
+  userId: number,
+  settings: EntitySettings
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const [currentRows] = await pool.execute(
+      'SELECT forbid_hard_delete, fiscal_year_start_month, retained_earnings_account_id FROM company WHERE id = ? AND user_id = ?',
+      [entityId, userId]
+    );
+    const current = (currentRows as Array<{ forbid_hard_delete: number; fiscal_year_start_month: number; retained_earnings_account_id: number | null }>)[0];
+    if (!current) {
+      return { success: false, error: 'Entity not found or only its owner can change its settings' };
+    }
+
+    if (settings.retained_earnings_account_id) {
+      const [accountRows] = await pool.execute(
+        'SELECT account_type FROM rv_cuentas WHERE id = ? AND company = ? AND active = 1',
+        [settings.retained_earnings_account_id, entityId]
+      );
+      const account = (accountRows as Array<Pick<Account, 'account_type'>>)[0];
+      if (!account || account.account_type !== 'equity') {
+        return { success: false, error: 'Retained earnings must be an active equity account of this entity' };
+      }
+    }
+
+    // Moving the year boundary would leave gaps or overlaps against years already closed
+    if (settings.fiscal_year_start_month !== undefined && settings.fiscal_year_start_month !== current.fiscal_year_start_month) {
+      const [closeRows] = await pool.execute(
+        'SELECT COUNT(*) AS count FROM rv_fiscal_year_close WHERE company = ?',
+        [entityId]
+      );
+      if ((closeRows as Array<{ count: number }>)[0].count > 0) {
+        return { success: false, error: 'Reopen all closed fiscal years before changing the fiscal year start' };
+      }
+    }
+
+    const updated = {
+      forbid_hard_delete: settings.forbid_hard_delete ?? Boolean(current.forbid_hard_delete),
+      fiscal_year_start_month: settings.fiscal_year_start_month ?? current.fiscal_year_start_month,
+      retained_earnings_account_id: settings.retained_earnings_account_id !== undefined
+        ? settings.retained_earnings_account_id
+        : current.retained_earnings_account_id
+    };
+
+    await pool.execute(
+      'UPDATE company SET forbid_hard_delete = ?, fiscal_year_start_month = ?, retained_earnings_account_id = ? WHERE id = ? AND user_id = ?',
+      [updated.forbid_hard_delete ? 1 : 0, updated.fiscal_year_start_month, updated.retained_earnings_account_id, entityId, userId]
+    );
+
+    await recordAudit(pool, {
+      userId,
+      company: entityId,
+      action: 'entity.update_settings',
+      targetTable: 'company',
+      targetId: entityId,
+      before: { ...current, forbid_hard_delete: Boolean(current.forbid_hard_delete) },
+      after: updated
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to update entity settings');
+  }
+}
+
+/**
+ * Close the entity's books through `lockedThrough`, or reopen them by moving the date back
+ * (null reopens every period). Owner-only like the other bookkeeping settings.
+ */
+export async function setEntityPeriodLock(
+  entityId: number,
+  userId: number,
+  lockedThrough: string | null
+): Promise<boolean> {
+  try {
+    const [currentRows] = await pool.execute(
+      "SELECT DATE_FORMAT(locked_through, '%Y-%m-%d') AS locked_through FROM company WHERE id = ? AND user_id = ?",
+      [entityId, userId]
+    );
+    const current = (currentRows as Array<{ locked_through: string | null }>)[0];
+    if (!current) return false;
+
+    await pool.execute(
+      'UPDATE company SET locked_through = ? WHERE id = ? AND user_id = ?',
+      [lockedThrough, entityId, userId]
+    );
+
+    const reopened = !lockedThrough || (current.locked_through !== null && lockedThrough < current.locked_through);
+    await recordAudit(pool, {
+      userId,
+      company: entityId,
+      action: reopened ? 'entity.reopen_period' : 'entity.close_period',
+      targetTable: 'company',
+      targetId: entityId,
+      before: { locked_through: current.locked_through },
+      after: { locked_through: lockedThrough }
+    });
+    return true;
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to update period lock');
+  }
+}
+
+export interface FiscalYearClose {
+  id: number;
+  company: number;
+  fiscal_year: number; // Named after the calendar year it ends in
+  period_start: string;
+  period_end: string;
+  journal_id: number | null; // Closing entry; null when there was nothing to close
+  retained_earnings_account_id: number;
+  retained_earnings_account_code?: string | null;
+  net_income: number;
+  user_id: number | null;
+  user_email?: string | null;
+  created_at: string;
+}
+
+const FISCAL_YEAR_CLOSE_COLUMNS = `
+  f.id, f.company, f.fiscal_year, DATE_FORMAT(f.period_start, '%Y-%m-%d') AS period_start,
+  DATE_FORMAT(f.period_end, '%Y-%m-%d') AS period_end, f.journal_id, f.retained_earnings_account_id,
+  f.net_income, f.user_id, f.created_at
+`;
+
+export async function getFiscalYearCloses(entityId: number, userId: number): Promise<FiscalYearClose[] | null> {
+  try {
+    if (!await canPostToEntity(pool, entityId, userId)) return null;
+
+    const [rows] = await pool.execute(`
+      SELECT ${FISCAL_YEAR_CLOSE_COLUMNS}, a.code AS retained_earnings_account_code, l.email AS user_email
+      FROM rv_fiscal_year_close f
+      LEFT JOIN rv_cuentas a ON a.id = f.retained_earnings_account_id
+      LEFT JOIN login l ON l.id = f.user_id
+      WHERE f.company = ?
+      ORDER BY f.fiscal_year DESC
+    `, [entityId]);
+
+    return (rows as FiscalYearClose[]).map(row => ({ ...row, net_income: Number(row.net_income) }));
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch fiscal year closes');
+  }
+}
+
+/**
+ * Close a fiscal year: post a journal entry dated on its last day that brings every income and
+ * expense account to zero against the entity's retained earnings account. Balances are taken
+ * through the year end including earlier years, so a year that was never closed rolls over
+ * too. Years are closed in order and only once they have ended; owner-only.
+ */
+export async function closeFiscalYear(
+  entityId: number,
+  fiscalYear: number,
+  userId: number
+): Promise<{ success: boolean; close?: FiscalYearClose; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [entityRows] = await connection.execute(
+      'SELECT id, fiscal_year_start_month, retained_earnings_account_id FROM company WHERE id = ? AND user_id = ? FOR UPDATE',
+      [entityId, userId]
+    );
+    const entity = (entityRows as Array<{ id: number; fiscal_year_start_month: number; retained_earnings_account_id: number | null }>)[0];
+    if (!entity) {
+      await connection.rollback();
+      return { success: false, error: 'Entity not found or only its owner can close fiscal years' };
+    }
+    if (!entity.retained_earnings_account_id) {
+      await connection.rollback();
+      return { success: false, error: 'Choose a retained earnings account for this entity first' };
+    }
+
+    const [retainedRows] = await connection.execute(
+      'SELECT id, code, account_type FROM rv_cuentas WHERE id = ? AND company = ? AND active = 1',
+      [entity.retained_earnings_account_id, entityId]
+    );
+    const retainedEarnings = (retainedRows as Array<Pick<Account, 'id' | 'code' | 'account_type'>>)[0];
+    if (!retainedEarnings || retainedEarnings.account_type !== 'equity') {
+      await connection.rollback();
+      return { success: false, error: 'The retained earnings account must be an active equity account of this entity' };
+    }
+
+    const { start, end } = getFiscalYearBounds(fiscalYear, entity.fiscal_year_start_month);
+    if (end >= new Date().toISOString().slice(0, 10)) {
+      await connection.rollback();
+      return { success: false, error: `Fiscal year ${fiscalYear} ends on ${end} and cannot be closed before then` };
+    }
+
+    const [closedRows] = await connection.execute(
+      'SELECT fiscal_year FROM rv_fiscal_year_close WHERE company = ? AND fiscal_year >= ? ORDER BY fiscal_year DESC LIMIT 1',
+      [entityId, fiscalYear]
+    );
+    const laterClose = (closedRows as Array<{ fiscal_year: number }>)[0];
+    if (laterClose) {
+      await connection.rollback();
+      return {
+        success: false,
+        error: laterClose.fiscal_year === fiscalYear
+          ? `Fiscal year ${fiscalYear} is already closed`
+          : `Fiscal year ${laterClose.fiscal_year} is already closed; reopen it before closing an earlier year`
+      };
+    }
+
+    const periodLockError = await getPeriodLockError(connection, entityId, end);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
+
+    const [balanceRows] = await connection.execute(`
+      SELECT a.code,
+             COALESCE(SUM(CASE WHEN t.debitacc = a.code THEN t.debit ELSE 0 END), 0) -
+             COALESCE(SUM(CASE WHEN t.creditacc = a.code THEN t.credit ELSE 0 END), 0) AS net_debit
+      FROM rv_cuentas a
+      JOIN rv_transaction t ON (t.debitacc = a.code OR t.creditacc = a.code) AND t.company = a.company AND t.fecha <= ?
+      WHERE a.company = ? AND a.account_type IN ('income', 'expense')
+      GROUP BY a.id, a.code
+    `, [end, entityId]);
+
+    // Credit what carries a debit balance and debit what carries a credit balance; retained
+    // earnings takes the difference, which is the net income of everything closed
+    const lines: JournalEntryInput['lines'] = [];
+    let netIncomeCents = 0;
+    for (const row of balanceRows as Array<{ code: string; net_debit: number }>) {
+      const cents = Math.round(Number(row.net_debit) * 100);
+      if (cents === 0) continue;
+      lines.push({ account_code: row.code, debit: cents < 0 ? -cents / 100 : 0, credit: cents > 0 ? cents / 100 : 0 });
+      netIncomeCents -= cents;
+    }
+    if (netIncomeCents !== 0) {
+      lines.push({
+        account_code: retainedEarnings.code,
+        debit: netIncomeCents < 0 ? -netIncomeCents / 100 : 0,
+        credit: netIncomeCents > 0 ? netIncomeCents / 100 : 0
+      });
+    }
+
+    let journalId: number | null = null;
+    if (lines.length > 0) {
+      const entry: JournalEntryInput = {
+        company: entityId,
+        entry_date: end,
+        reference: `FY${fiscalYear} close`,
+        memo: `Year-end close of fiscal year ${fiscalYear} to retained earnings`,
+        lines
+      };
+      const [journalResult] = await connection.execute(`
+        INSERT INTO rv_journal_entry (company, user_id, entry_date, reference, memo)
+        VALUES (?, ?, ?, ?, ?)
+      `, [entityId, userId, entry.entry_date, entry.reference, entry.memo]);
+      journalId = (journalResult as mysql.ResultSetHeader).insertId;
+
+      const posted = await postJournalRows(connection, journalId, entry);
+      if (posted.error) {
+        await connection.rollback();
+        return { success: false, error: posted.error };
+      }
+
+      await connection.execute(
+        "UPDATE rv_transaction SET status = ?, category = 'Year-End Close' WHERE journal_id = ?",
+        [CLOSING_ENTRY_STATUS, journalId]
+      );
+    }
+
+    const [result] = await connection.execute(`
+      INSERT INTO rv_fiscal_year_close
+      (company, fiscal_year, period_start, period_end, journal_id, retained_earnings_account_id, net_income, user_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [entityId, fiscalYear, start, end, journalId, retainedEarnings.id, netIncomeCents / 100, userId]);
+    const closeId = (result as mysql.ResultSetHeader).insertId;
+
+    await recordAudit(connection, {
+      userId,
+      company: entityId,
+      action: 'entity.close_fiscal_year',
+      targetTable: 'rv_fiscal_year_close',
+      targetId: closeId,
+      after: { fiscal_year: fiscalYear, period_start: start, period_end: end, journal_id: journalId, net_income: netIncomeCents / 100, lines },
+      accountIds: [retainedEarnings.id],
+      accountCodes: lines.map(line => line.account_code)
+    });
+
+    await connection.commit();
+
+    const [closeRows] = await pool.execute(`SELECT ${FISCAL_YEAR_CLOSE_COLUMNS} FROM rv_fiscal_year_close f WHERE f.id = ?`, [closeId]);
+    const close = (closeRows as FiscalYearClose[])[0];
+    return { success: true, close: { ...close, net_income: Number(close.net_income) } };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Fiscal year close error:', error);
+    return { success: false, error: 'Failed to close fiscal year' };
+  } finally {
+    connection?.release();
+  }
+}
+
+// Undo the most recent year-end close: its closing entry is taken off the balances and deleted
+export async function reopenFiscalYear(
+  entityId: number,
+  fiscalYear: number,
+  userId: number
+): Promise<{ success: boolean; error?: string }> {
+  let connection: mysql.PoolConnection | null = null;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [entityRows] = await connection.execute('SELECT id FROM company WHERE id = ? AND user_id = ? FOR UPDATE', [entityId, userId]);
+    if ((entityRows as Array<{ id: number }>).length === 0) {
+      await connection.rollback();
+      return { success: false, error: 'Entity not found or only its owner can reopen fiscal years' };
+    }
+
+    const [closeRows] = await connection.execute(
+      `SELECT ${FISCAL_YEAR_CLOSE_COLUMNS} FROM rv_fiscal_year_close f WHERE f.company = ? ORDER BY f.fiscal_year DESC LIMIT 1`,
+      [entityId]
+    );
+    const close = (closeRows as FiscalYearClose[])[0];
+    if (!close || close.fiscal_year !== fiscalYear) {
+      await connection.rollback();
+      return {
+        success: false,
+        error: close && close.fiscal_year > fiscalYear
+          ? 'Only the most recently closed fiscal year can be reopened'
+          : `Fiscal year ${fiscalYear} is not closed`
+      };
+    }
+
+    const periodLockError = await getPeriodLockError(connection, entityId, close.period_end);
+    if (periodLockError) {
+      await connection.rollback();
+      return { success: false, error: periodLockError };
+    }
+
+    const closingRows = close.journal_id ? await getPostedJournalRows(connection, close.journal_id) : [];
+    if (close.journal_id) {
+      await unpostJournalRows(connection, close.journal_id, closingRows);
+      await connection.execute('DELETE FROM rv_journal_entry WHERE id = ?', [close.journal_id]);
+    }
+    await connection.execute('DELETE FROM rv_fiscal_year_close WHERE id = ?', [close.id]);
+
+    await recordAudit(connection, {
+      userId,
+      company: entityId,
+      action: 'entity.reopen_fiscal_year',
+      targetTable: 'rv_fiscal_year_close',
+      targetId: close.id,
+      before: {
+        ...close,
+        net_income: Number(close.net_income),
+        transactions: closingRows.map(row => ({ id: row.id, debitacc: row.debitacc, creditacc: row.creditacc, amount: Number(row.debit) }))
+      },
+      accountIds: [close.retained_earnings_account_id],
+      accountCodes: closingRows.flatMap(row => [row.debitacc, row.creditacc])
+    });
+
+    await connection.commit();
+    return { success: true };
+  } catch (error) {
+    if (connection) {
+      await connection.rollback().catch(rollbackError => console.error('Rollback error:', rollbackError));
+    }
+    console.error('Fiscal year close error:', error);
+    return { success: false, error: 'Failed to reopen fiscal year' };
+  } finally {
+    connection?.release();
+  }
+}
+
 export async function createEntity(entityData: {
   code: string;
   sub_code?: string;
@@ -1586,6 +6465,15 @@ export async function createEntity(entityData: {
 
     const insertId = (result as { insertId: number }).insertId;
 
+    await recordAudit(pool, {
+      userId,
+      company: insertId,
+      action: 'entity.create',
+      targetTable: 'company',
+      targetId: insertId,
+      after: { code, sub_code: sub_code ?? null, name, companyEmail: companyEmail ?? null, email, whatsapp, timezone: timezone ?? null, vat }
+    });
+
     // Return the created entity
     const entity = await getEntityById(insertId, userId);
     if (!entity) {
@@ -1722,6 +6610,17 @@ export async function updateSingleAccountBalance(
       [calculatedBalance, account.id]
     );
 
+    await recordAudit(pool, {
+      userId,
+      company: account.company,
+      action: 'account.recalculate_balance',
+      targetTable: 'rv_cuentas',
+      targetId: account.id,
+      before: { balance: Number(previousBalance) },
+      after: { balance: Number(calculatedBalance) },
+      accountIds: [account.id]
+    });
+
     return { success: true, previousBalance, newBalance: calculatedBalance };
   } catch (error) {
     console.error('Database error:', error);
@@ -1746,11 +6645,12 @@ export async function updateEntityAccountBalances(
 
     // Get all accounts for this entity
     const [accountRows] = await pool.execute(
-      'SELECT id, code, account_type FROM rv_cuentas WHERE company = ? AND active = 1',
+      'SELECT id, code, account_type, balance FROM rv_cuentas WHERE company = ? AND active = 1',
       [entityId]
     );
 
-    const accounts = accountRows as Array<{ id: number; code: string; account_type: string }>;
+    const accounts = accountRows as Array<{ id: number; code: string; account_type: string; balance: number }>;
+    const balanceChanges: Array<{ id: number; code: string; before: number; after: number }> = [];
     let updatedCount = 0;
 
     // Update each account balance based on transactions
@@ -1792,9 +6692,23 @@ export async function updateEntityAccountBalances(
         [calculatedBalance, account.id]
       );
 
+      if (Math.round((Number(calculatedBalance) - Number(account.balance)) * 100) !== 0) {
+        balanceChanges.push({ id: account.id, code: account.code, before: Number(account.balance), after: Number(calculatedBalance) });
+      }
+
       updatedCount++;
     }
 
+    await recordAudit(pool, {
+      userId,
+      company: entityId,
+      action: 'entity.recalculate_balances',
+      targetTable: 'rv_cuentas',
+      before: balanceChanges.map(change => ({ id: change.id, code: change.code, balance: change.before })),
+      after: balanceChanges.map(change => ({ id: change.id, code: change.code, balance: change.after })),
+      accountIds: balanceChanges.map(change => change.id)
+    });
+
     return { success: true, updatedCount };
   } catch (error) {
     console.error('Database error:', error);
@@ -1802,4 +6716,130 @@ export async function updateEntityAccountBalances(
   }
 }
 
+export interface AuditLogEntry {
+  id: number;
+  user_id: number | null;
+  user_email: string | null;
+  company: number | null;
+  action: string; // "<target>.<verb>", e.g. account.update or transaction.bulk_delete
+  target_table: string;
+  target_id: number | null;
+  before_data: unknown;
+  after_data: unknown;
+  account_ids: number[];
+  created_at: string;
+}
+
+export interface AuditEvent {
+  userId: number | null;
+  company: number | null;
+  action: string;
+  targetTable: string;
+  targetId?: number | null;
+  before?: unknown;
+  after?: unknown;
+  accountIds?: number[];
+  accountCodes?: string[]; // Resolved to accounts of the event's entity
+}
+
+/**
+ * Record an audited change. Pass the connection of the change's database transaction when
+ * there is one, so the audit row commits or rolls back together with the change itself.
+ */
+export async function recordAudit(executor: mysql.Pool | mysql.PoolConnection, event: AuditEvent): Promise<void> {
+  const toJson = (data: unknown) => (data === undefined ? null : JSON.stringify(data));
+  const [result] = await executor.execute(`
+    INSERT INTO rv_audit_log (user_id, company, action, target_table, target_id, before_data, after_data)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `, [
+    event.userId, event.company, event.action, event.targetTable, event.targetId ?? null,
+    toJson(event.before), toJson(event.after)
+  ]);
+  const auditId = (result as mysql.ResultSetHeader).insertId;
+
+  const accountIds = [...new Set(event.accountIds || [])];
+  if (accountIds.length > 0) {
+    await executor.execute(
+      `INSERT IGNORE INTO rv_audit_log_account (audit_log_id, account_id) VALUES ${accountIds.map(() => '(?, ?)').join(', ')}`,
+      accountIds.flatMap(accountId => [auditId, accountId])
+    );
+  }
+
+  const accountCodes = [...new Set(event.accountCodes || [])].filter(code => code && code !== '0');
+  if (accountCodes.length > 0 && event.company !== null) {
+    await executor.execute(`
+      INSERT IGNORE INTO rv_audit_log_account (audit_log_id, account_id)
+      SELECT ?, id FROM rv_cuentas WHERE company = ? AND code IN (${accountCodes.map(() => '?').join(',')})
+    `, [auditId, event.company, ...accountCodes]);
+  }
+}
+
+export interface AuditLogFilters {
+  entityId: number;
+  accountId?: number;
+  action?: string; // Exact action, or a target prefix such as "transaction"
+  userId?: number;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+}
+
+/**
+ * Audit trail of an entity, optionally narrowed to one account and by action, user and date.
+ * Returns null when the user has no access to the entity.
+ */
+export async function getAuditLog(filters: AuditLogFilters, userId: number): Promise<AuditLogEntry[] | null> {
+  try {
+    if (!await canPostToEntity(pool, filters.entityId, userId)) return null;
+
+    const conditions = ['l.company = ?'];
+    const params: Array<string | number> = [filters.entityId];
+
+    if (filters.accountId) {
+      conditions.push('EXISTS (SELECT 1 FROM rv_audit_log_account la WHERE la.audit_log_id = l.id AND la.account_id = ?)');
+      params.push(filters.accountId);
+    }
+    if (filters.action) {
+      conditions.push(filters.action.includes('.') ? 'l.action = ?' : 'l.action LIKE ?');
+      params.push(filters.action.includes('.') ? filters.action : `${filters.action}.%`);
+    }
+    if (filters.userId) {
+      conditions.push('l.user_id = ?');
+      params.push(filters.userId);
+    }
+    if (filters.startDate) {
+      conditions.push('l.created_at >= ?');
+      params.push(filters.startDate);
+    }
+    if (filters.endDate) {
+      conditions.push('l.created_at < DATE_ADD(?, INTERVAL 1 DAY)');
+      params.push(filters.endDate);
+    }
+
+    const limit = Math.min(Math.max(filters.limit || 200, 1), 1000);
+    const [rows] = await pool.execute(`
+      SELECT l.id, l.user_id, u.email AS user_email, l.company, l.action, l.target_table, l.target_id,
+             l.before_data, l.after_data, l.created_at,
+             (SELECT GROUP_CONCAT(la.account_id) FROM rv_audit_log_account la WHERE la.audit_log_id = l.id) AS account_ids
+      FROM rv_audit_log l
+      LEFT JOIN login u ON u.id = l.user_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY l.created_at DESC, l.id DESC
+      LIMIT ${limit}
+    `, params);
+
+    // mysql2 returns JSON columns parsed, except on servers that store JSON as text
+    const parseJson = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value);
+    return (rows as Array<Omit<AuditLogEntry, 'account_ids'> & { account_ids: string | null }>).map(row => ({
+      ...row,
+      before_data: parseJson(row.before_data),
+      after_data: parseJson(row.after_data),
+      account_ids: row.account_ids ? row.account_ids.split(',').map(Number) : []
+    }));
+  } catch (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to fetch audit log');
+  }
+}
+
 export default pool;
\ No newline at end of file
@@ -0,0 +1,29 @@
+// Fiscal year arithmetic. A fiscal year is named after the calendar year it ends in, so with a
+// July start fiscal year 2026 runs from 2025-07-01 through 2026-06-30. Kept free of database
+// access so the entity page can label years the same way the close routine does.
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * First and last day (YYYY-MM-DD) of a fiscal year for an entity whose year starts on the
+ * first day of `startMonth` (1-12).
+ */
+export function getFiscalYearBounds(fiscalYear: number, startMonth: number): { start: string; end: string } {
+  if (startMonth === 1) {
+    return { start: `${fiscalYear}-01-01`, end: `${fiscalYear}-12-31` };
+  }
+
+  // Day 0 of the start month is the last day of the month before it
+  const lastDay = new Date(Date.UTC(fiscalYear, startMonth - 1, 0)).getUTCDate();
+  return {
+    start: `${fiscalYear - 1}-${pad(startMonth)}-01`,
+    end: `${fiscalYear}-${pad(startMonth - 1)}-${pad(lastDay)}`
+  };
+}
+
+// The fiscal year a date (YYYY-MM-DD) falls in
+export function getFiscalYearOf(date: string, startMonth: number): number {
+  const year = parseInt(date.slice(0, 4));
+  const month = parseInt(date.slice(5, 7));
+  return startMonth === 1 || month < startMonth ? year : year + 1;
+}
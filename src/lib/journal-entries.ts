@@ -0,0 +1,112 @@
+import { JournalEntryInput } from '@/lib/database';
+
+export interface JournalPosting {
+  debitAccount: string;
+  creditAccount: string;
+  amount: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Validate and normalize a journal entry from a request body.
+ * Returns an error message instead of throwing so routes can answer with a 400.
+ */
+export function validateJournalEntry(body: Record<string, unknown>): { entry?: JournalEntryInput; error?: string } {
+  const company = body.company;
+  if (typeof company !== 'number' || !Number.isInteger(company) || company <= 0) {
+    return { error: 'Entity is required' };
+  }
+
+  const entryDate = typeof body.entry_date === 'string' ? body.entry_date : '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(entryDate) || isNaN(new Date(entryDate).getTime())) {
+    return { error: 'Entry date must be in YYYY-MM-DD format' };
+  }
+
+  const memo = typeof body.memo === 'string' ? body.memo.trim() : '';
+  if (!memo) {
+    return { error: 'Memo is required' };
+  }
+  if (memo.length > 255) {
+    return { error: 'Memo must be 255 characters or fewer' };
+  }
+
+  const reference = typeof body.reference === 'string' && body.reference.trim() ? body.reference.trim() : null;
+  if (reference && reference.length > 100) {
+    return { error: 'Reference must be 100 characters or fewer' };
+  }
+
+  if (!Array.isArray(body.lines) || body.lines.length < 2) {
+    return { error: 'A journal entry needs at least two lines' };
+  }
+
+  const lines: JournalEntryInput['lines'] = [];
+  for (const [index, rawLine] of (body.lines as Array<Record<string, unknown>>).entries()) {
+    const accountCode = typeof rawLine?.account_code === 'string' ? rawLine.account_code.trim() : '';
+    const debit = Number(rawLine?.debit ?? 0);
+    const credit = Number(rawLine?.credit ?? 0);
+
+    if (!accountCode || accountCode === '0') {
+      return { error: `Line ${index + 1} needs an account` };
+    }
+    if (isNaN(debit) || isNaN(credit) || debit < 0 || credit < 0) {
+      return { error: `Line ${index + 1} amounts must be positive numbers` };
+    }
+    if ((toCents(debit) > 0) === (toCents(credit) > 0)) {
+      return { error: `Line ${index + 1} must have either a debit or a credit amount` };
+    }
+
+    lines.push({ account_code: accountCode, debit: toCents(debit) / 100, credit: toCents(credit) / 100 });
+  }
+
+  const debitAccounts = new Set(lines.filter(line => line.debit > 0).map(line => line.account_code));
+  if (lines.some(line => line.credit > 0 && debitAccounts.has(line.account_code))) {
+    return { error: 'An account cannot be both debited and credited in the same entry' };
+  }
+
+  const totalDebits = lines.reduce((sum, line) => sum + toCents(line.debit), 0);
+  const totalCredits = lines.reduce((sum, line) => sum + toCents(line.credit), 0);
+  if (totalDebits !== totalCredits) {
+    return {
+      error: `Debits (${(totalDebits / 100).toFixed(2)}) must equal credits (${(totalCredits / 100).toFixed(2)})`
+    };
+  }
+
+  return {
+    entry: {
+      company,
+      entry_date: entryDate,
+      reference,
+      memo,
+      lines
+    }
+  };
+}
+
+/**
+ * Split a balanced entry into debit/credit account pairs, the shape rv_transaction rows take.
+ * Debit lines are filled from credit lines in order, so a payroll split of one debit against
+ * three credits becomes three rows sharing the debit account.
+ */
+export function pairJournalLines(lines: JournalEntryInput['lines']): JournalPosting[] {
+  const debits = lines.filter(line => line.debit > 0).map(line => ({ code: line.account_code, cents: toCents(line.debit) }));
+  const credits = lines.filter(line => line.credit > 0).map(line => ({ code: line.account_code, cents: toCents(line.credit) }));
+
+  const postings: JournalPosting[] = [];
+  let debitIndex = 0;
+  let creditIndex = 0;
+  while (debitIndex < debits.length && creditIndex < credits.length) {
+    const debit = debits[debitIndex];
+    const credit = credits[creditIndex];
+    const cents = Math.min(debit.cents, credit.cents);
+
+    postings.push({ debitAccount: debit.code, creditAccount: credit.code, amount: cents / 100 });
+
+    debit.cents -= cents;
+    credit.cents -= cents;
+    if (debit.cents === 0) debitIndex++;
+    if (credit.cents === 0) creditIndex++;
+  }
+
+  return postings;
+}
@@ -0,0 +1,114 @@
+import { Payee, PayeeInput } from '@/lib/database';
+
+// Normalization of bank descriptions into payee keys and matching of keys to the payee directory.
+// Kept free of database access so imports, backfills and the directory page agree on the keys.
+
+// Words banks put in front of the merchant name
+const TRANSACTION_PREFIXES = [
+  'COMPRA', 'COMPRAS', 'PAGO', 'PAGOS', 'CARGO', 'ABONO', 'DEBITO', 'CREDITO', 'POS', 'TEF',
+  'TRANSFERENCIA', 'TRANSF', 'TRASPASO', 'GIRO', 'CAJERO', 'NACIONAL', 'INTERNACIONAL', 'EN', 'LINEA', 'WEB', 'A', 'DE',
+  'PURCHASE', 'PAYMENT', 'CARD', 'DEBIT', 'CREDIT', 'TRANSFER', 'TO', 'FROM', 'ACH', 'ONLINE', 'RECURRING'
+];
+
+// Markers after which the rest of the description names a branch, location or card processor detail
+const BRANCH_MARKERS = /(?:\s*\*|\s(?:-|SUC|SUCURSAL|LOCAL|TIENDA|STORE|BRANCH|BR)(?:\s|$)).*$/;
+
+/**
+ * Reduce a bank description to the part that names the counterparty:
+ * "COMPRA 1234 JUMBO LAS CONDES 03/10" becomes "JUMBO LAS CONDES".
+ */
+export function normalizePayeeDescription(description: string | null | undefined): string {
+  let text = (description || '')
+    .replace(/^bank statement transaction - /i, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase();
+
+  text = text
+    // Dates: 03/10, 03-10-2024, 2024-10-03
+    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, ' ')
+    .replace(/\b\d{1,2}[/-]\d{1,2}(?:[/-]\d{2,4})?\b/g, ' ')
+    // Masked card numbers: XXXX1234, ****1234 (anchored so names like EXXON survive)
+    .replace(/\b[X*]{2,}\d+\b|\*{2,}\d*/g, ' ')
+    // Labelled references: REF 8842, NRO:12, #5531, OP-991
+    .replace(/(?:\b(?:REF|NRO|NUM|NO|OP|TRX|ID|AUT|AUTH)\b|#)[\s.:#-]*[A-Z0-9-]*\d[A-Z0-9-]*/g, ' ')
+    // Codes mixing letters and digits, and bare numbers
+    .replace(/\b(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{5,}\b/g, ' ')
+    .replace(/\b\d+\b/g, ' ')
+    .replace(/[^A-Z0-9*\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  text = ` ${text}`.replace(BRANCH_MARKERS, '').trim() || text;
+
+  const tokens = text.split(' ').filter(token => token && token !== '-' && token !== '*');
+  while (tokens.length > 1 && TRANSACTION_PREFIXES.includes(tokens[0])) {
+    tokens.shift();
+  }
+
+  return tokens.join(' ');
+}
+
+/**
+ * Payee for a normalized description: an exact alias or name wins, otherwise the longest
+ * alias or name the description starts with, so "JUMBO" covers "JUMBO LAS CONDES".
+ */
+export function matchPayee<T extends Pick<Payee, 'id' | 'name' | 'aliases'>>(key: string, payees: T[]): T | null {
+  if (!key) return null;
+
+  let best: { payee: T; length: number } | null = null;
+  for (const payee of payees) {
+    for (const candidate of [normalizePayeeDescription(payee.name), ...payee.aliases]) {
+      if (!candidate) continue;
+      if (candidate === key) return payee;
+      if (key.startsWith(`${candidate} `) && (!best || candidate.length > best.length)) {
+        best = { payee, length: candidate.length };
+      }
+    }
+  }
+
+  return best?.payee || null;
+}
+
+/**
+ * Validate and normalize a payee from a request body.
+ * Returns an error message instead of throwing so routes can answer with a 400.
+ */
+export function validatePayee(body: Record<string, unknown>): { payee?: PayeeInput; error?: string } {
+  const company = body.company;
+  if (typeof company !== 'number' || !Number.isInteger(company) || company <= 0) {
+    return { error: 'Entity is required' };
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return { error: 'Payee name is required' };
+  }
+  if (name.length > 100) {
+    return { error: 'Payee name must be 100 characters or fewer' };
+  }
+
+  const rawAliases = Array.isArray(body.aliases) ? body.aliases : [];
+  const aliases = [...new Set(
+    rawAliases
+      .filter((alias): alias is string => typeof alias === 'string')
+      .map(alias => normalizePayeeDescription(alias))
+      .filter(Boolean)
+  )];
+  if (aliases.some(alias => alias.length > 255)) {
+    return { error: 'Aliases must be 255 characters or fewer' };
+  }
+
+  const defaultAccountCode = typeof body.default_account_code === 'string' && body.default_account_code.trim()
+    ? body.default_account_code.trim()
+    : null;
+
+  return {
+    payee: {
+      company,
+      name,
+      aliases,
+      default_account_code: defaultAccountCode
+    }
+  };
+}
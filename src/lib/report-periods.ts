@@ -0,0 +1,116 @@
+// Column arithmetic for comparative reports. Dates are YYYY-MM-DD strings throughout and are
+// handled in UTC so a column never shifts by a day with the server's timezone.
+
+export type PeriodBreakdown = 'month' | 'quarter';
+export type PeriodComparison = 'previous_period' | 'previous_year';
+
+export interface ReportColumn {
+  kind: 'period' | 'total' | PeriodComparison;
+  label: string;
+  start_date: string;
+  end_date: string;
+}
+
+// Upper bound on columns per report, keeps a multi-year monthly breakdown readable
+export const MAX_REPORT_COLUMNS = 40;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const parse = (date: string) => date.split('-').map(Number) as [number, number, number];
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isMonthEnd = (date: string) => {
+  const [year, month, day] = parse(date);
+  return day === daysInMonth(year, month);
+};
+
+const toTime = (date: string) => {
+  const [year, month, day] = parse(date);
+  return Date.UTC(year, month - 1, day);
+};
+
+const addDays = (date: string, days: number) => new Date(toTime(date) + days * 86400000).toISOString().split('T')[0];
+
+// Moves a date by whole months. Month ends stay month ends, so 2024-02-29 minus twelve months
+// is 2023-02-28 and 2023-02-28 plus twelve months is 2024-02-29.
+const addMonths = (date: string, months: number) => {
+  const [year, month, day] = parse(date);
+  const index = year * 12 + (month - 1) + months;
+  const targetYear = Math.floor(index / 12);
+  const targetMonth = (index % 12) + 1;
+  const lastDay = daysInMonth(targetYear, targetMonth);
+  return `${targetYear}-${pad(targetMonth)}-${pad(isMonthEnd(date) ? lastDay : Math.min(day, lastDay))}`;
+};
+
+/**
+ * The period of the same length ending the day before `start`. Ranges of whole months step back
+ * by months (March is compared with February, Q2 with Q1); other ranges step back by days.
+ */
+export function getPreviousPeriod(start: string, end: string): { start: string; end: string } {
+  const [startYear, startMonth, startDay] = parse(start);
+  const [endYear, endMonth] = parse(end);
+
+  if (startDay === 1 && isMonthEnd(end)) {
+    const months = (endYear * 12 + endMonth) - (startYear * 12 + startMonth) + 1;
+    return { start: addMonths(start, -months), end: addMonths(end, -months) };
+  }
+
+  const days = (toTime(end) - toTime(start)) / 86400000 + 1;
+  return { start: addDays(start, -days), end: addDays(start, -1) };
+}
+
+export function getSamePeriodLastYear(start: string, end: string): { start: string; end: string } {
+  return { start: addMonths(start, -12), end: addMonths(end, -12) };
+}
+
+/**
+ * Splits a range into calendar months or quarters. The first and last column are clipped to
+ * the range, so a range starting mid-month gets a partial first month.
+ */
+export function splitPeriod(start: string, end: string, breakdown: PeriodBreakdown): ReportColumn[] {
+  const step = breakdown === 'month' ? 1 : 3;
+  const [startYear, startMonth] = parse(start);
+  const firstMonth = breakdown === 'month' ? startMonth : Math.floor((startMonth - 1) / 3) * 3 + 1;
+
+  const columns: ReportColumn[] = [];
+  let bucketStart = `${startYear}-${pad(firstMonth)}-01`;
+  while (bucketStart <= end) {
+    const bucketEnd = addDays(addMonths(bucketStart, step), -1);
+    const [year, month] = parse(bucketStart);
+    columns.push({
+      kind: 'period',
+      label: breakdown === 'month'
+        ? new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+        : `Q${Math.ceil(month / 3)} ${year}`,
+      start_date: bucketStart < start ? start : bucketStart,
+      end_date: bucketEnd > end ? end : bucketEnd
+    });
+    bucketStart = addMonths(bucketStart, step);
+  }
+  return columns;
+}
+
+/**
+ * Columns for a comparative report: the breakdown of the range (if any), the range total, then
+ * one column per comparison. Comparisons are always against the range total.
+ */
+export function buildReportColumns(
+  start: string,
+  end: string,
+  breakdown?: PeriodBreakdown,
+  compare: PeriodComparison[] = []
+): ReportColumn[] {
+  const columns = breakdown ? splitPeriod(start, end, breakdown) : [];
+  columns.push({ kind: 'total', label: breakdown ? 'Total' : 'Current period', start_date: start, end_date: end });
+
+  if (compare.includes('previous_period')) {
+    const previous = getPreviousPeriod(start, end);
+    columns.push({ kind: 'previous_period', label: 'Previous period', start_date: previous.start, end_date: previous.end });
+  }
+  if (compare.includes('previous_year')) {
+    const lastYear = getSamePeriodLastYear(start, end);
+    columns.push({ kind: 'previous_year', label: 'Same period last year', start_date: lastYear.start, end_date: lastYear.end });
+  }
+  return columns;
+}
@@ -0,0 +1,126 @@
+// Scoring of statement lines against existing ledger entries. Kept free of database access
+// so the same rules apply to statement imports and to the reconciliation workspace.
+
+export interface MatchableLine {
+  date: string;
+  description: string;
+  amount: number; // Signed by its effect on the account balance
+}
+
+export interface MatchableEntry {
+  id: number;
+  fecha: string;
+  name: string;
+  amount: number; // Signed by its effect on the account balance
+}
+
+export interface MatchScore {
+  total: number; // 0-100
+  amount: number; // 0-1 components
+  date: number;
+  description: number;
+}
+
+export interface MatchOptions {
+  maxDaysApart: number;
+  amountTolerance: number; // Relative difference still scored as a partial amount match
+  minScore: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  maxDaysApart: 7,
+  amountTolerance: 0.01,
+  minScore: 60
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lowercase, strip punctuation and digits-only tokens so "COMPRA 1234 JUMBO" matches "Compra Jumbo"
+export function normalizeDescription(description: string | null | undefined): string {
+  return (description || '')
+    .toLowerCase()
+    .replace(/^bank statement transaction - /, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !/^\d+$/.test(token))
+    .join(' ');
+}
+
+// Dice coefficient over word tokens, with full credit when one description contains the other
+export function descriptionSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (!left || !right) return 0;
+  if (left === right || left.includes(right) || right.includes(left)) return 1;
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const shared = [...leftTokens].filter(token => rightTokens.has(token)).length;
+  return (2 * shared) / (leftTokens.size + rightTokens.size);
+}
+
+export function scoreMatch(
+  line: MatchableLine,
+  entry: MatchableEntry,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): MatchScore | null {
+  // Money moving the opposite way is never the same transaction
+  if (Math.sign(line.amount) !== Math.sign(entry.amount)) return null;
+
+  const lineAmount = Math.abs(line.amount);
+  const entryAmount = Math.abs(entry.amount);
+  const amountDifference = Math.abs(lineAmount - entryAmount);
+  let amountScore: number;
+  if (amountDifference < 0.005) {
+    amountScore = 1;
+  } else if (amountDifference / Math.max(lineAmount, entryAmount) <= options.amountTolerance) {
+    amountScore = 0.5;
+  } else {
+    return null;
+  }
+
+  const daysApart = Math.round(Math.abs(new Date(line.date).getTime() - new Date(entry.fecha).getTime()) / DAY_MS);
+  if (isNaN(daysApart) || daysApart > options.maxDaysApart) return null;
+  const dateScore = 1 - daysApart / (options.maxDaysApart + 1);
+
+  const descriptionScore = descriptionSimilarity(line.description, entry.name);
+
+  return {
+    total: Math.round((amountScore * 0.5 + dateScore * 0.3 + descriptionScore * 0.2) * 100),
+    amount: amountScore,
+    date: dateScore,
+    description: descriptionScore
+  };
+}
+
+/**
+ * Pair each line with at most one entry (and vice versa), best scores first.
+ * Returns line indexes into the given lines array.
+ */
+export function suggestMatches(
+  lines: MatchableLine[],
+  entries: MatchableEntry[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): Array<{ lineIndex: number; entry: MatchableEntry; score: MatchScore }> {
+  const pairs: Array<{ lineIndex: number; entry: MatchableEntry; score: MatchScore }> = [];
+
+  lines.forEach((line, lineIndex) => {
+    entries.forEach(entry => {
+      const score = scoreMatch(line, entry, options);
+      if (score && score.total >= options.minScore) {
+        pairs.push({ lineIndex, entry, score });
+      }
+    });
+  });
+
+  pairs.sort((a, b) => b.score.total - a.score.total);
+
+  const usedLines = new Set<number>();
+  const usedEntries = new Set<number>();
+  return pairs.filter(pair => {
+    if (usedLines.has(pair.lineIndex) || usedEntries.has(pair.entry.id)) return false;
+    usedLines.add(pair.lineIndex);
+    usedEntries.add(pair.entry.id);
+    return true;
+  });
+}
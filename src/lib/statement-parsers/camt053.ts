@@ -0,0 +1,134 @@
+import { BankStatementEntry, ParsedBankStatement } from './common';
+
+// Tags may carry a namespace prefix (e.g. <ns2:Ntry>) depending on the bank's exporter
+function getBlocks(xml: string, tag: string): string[] {
+  const regex = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+function getText(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`));
+  return match ? decodeXmlEntities(match[1].trim()) : null;
+}
+
+function getAttribute(xml: string, tag: string, attribute: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*${attribute}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// <Dt> holds a date, <DtTm> an ISO datetime; only the calendar date is kept
+function getDate(xml: string | undefined): string | null {
+  if (!xml) return null;
+  const value = getText(xml, 'Dt') || getText(xml, 'DtTm');
+  return value ? value.slice(0, 10) : null;
+}
+
+function parseCreditDebit(value: string | null): 'CRDT' | 'DBIT' {
+  return value === 'DBIT' ? 'DBIT' : 'CRDT';
+}
+
+interface CamtBalance {
+  code: string;
+  amount: number;
+  date: string | null;
+  currency: string | null;
+}
+
+function parseBalance(block: string): CamtBalance {
+  const amount = parseFloat(getText(block, 'Amt') || '0');
+  const signed = parseCreditDebit(getText(block, 'CdtDbtInd')) === 'DBIT' ? -amount : amount;
+  return {
+    code: getText(getBlocks(block, 'Tp')[0] || '', 'Cd') || '',
+    amount: signed,
+    date: getDate(block),
+    currency: getAttribute(block, 'Amt', 'Ccy')
+  };
+}
+
+function parseEntry(block: string, index: number): BankStatementEntry {
+  const bookingDate = getDate(getBlocks(block, 'BookgDt')[0]);
+  const valueDate = getDate(getBlocks(block, 'ValDt')[0]) || bookingDate;
+  if (!valueDate) {
+    throw new Error(`Entry ${index + 1} has no booking or value date`);
+  }
+
+  // Entry details can be batched; their unstructured remittance lines are concatenated
+  const remittance = getBlocks(block, 'Ustrd').map(line => decodeXmlEntities(line.trim())).filter(Boolean);
+  const additionalInfo = getText(block, 'AddtlNtryInf');
+  const counterparty = getBlocks(block, 'RltdPties')
+    .map(parties => getText(parties, 'Nm'))
+    .find(Boolean);
+
+  const remittanceInfo = remittance.join(' ')
+    || additionalInfo
+    || counterparty
+    || `Entry ${index + 1}`;
+
+  return {
+    bookingDate,
+    valueDate,
+    amount: Math.abs(parseFloat(getText(block, 'Amt') || '0')),
+    creditDebit: parseCreditDebit(getText(block, 'CdtDbtInd')),
+    remittanceInfo,
+    reference: getText(block, 'AcctSvcrRef') || getText(block, 'NtryRef') || getText(block, 'TxId')
+  };
+}
+
+/**
+ * Parse an ISO 20022 camt.053 (BankToCustomerStatement) XML file.
+ * Uses the opening booked (OPBD, or PRCD when absent) and closing booked (CLBD) balances.
+ */
+export function parseCamt053(xml: string): ParsedBankStatement {
+  const statements = getBlocks(xml, 'Stmt');
+  if (statements.length === 0) {
+    throw new Error('No <Stmt> element found in camt.053 file');
+  }
+  if (statements.length > 1) {
+    throw new Error(`File contains ${statements.length} statements; please upload them one at a time`);
+  }
+
+  const statement = statements[0];
+  const account = getBlocks(statement, 'Acct')[0] || '';
+  const accountIdentifier = getText(account, 'IBAN') || getText(account, 'Id');
+
+  const balances = getBlocks(statement, 'Bal').map(parseBalance);
+  const opening = balances.find(balance => balance.code === 'OPBD') || balances.find(balance => balance.code === 'PRCD');
+  const closing = balances.find(balance => balance.code === 'CLBD');
+
+  if (!opening || !closing) {
+    throw new Error('camt.053 file must contain opening (OPBD/PRCD) and closing (CLBD) booked balances');
+  }
+
+  // Pending entries are not part of the booked balance. Older versions use <Sts>BOOK</Sts>,
+  // newer ones <Sts><Cd>BOOK</Cd></Sts>
+  const entries = getBlocks(statement, 'Ntry')
+    .filter(block => {
+      const statusBlock = getBlocks(block, 'Sts')[0];
+      const status = statusBlock ? (getText(statusBlock, 'Cd') || statusBlock.trim()) : null;
+      return status !== 'PDNG' && status !== 'INFO';
+    })
+    .map(parseEntry);
+
+  return {
+    accountIdentifier,
+    currency: getText(account, 'Ccy') || closing.currency,
+    statementDate: closing.date || entries.map(entry => entry.valueDate).sort().pop() || '',
+    openingBalance: opening.amount,
+    closingBalance: closing.amount,
+    entries
+  };
+}
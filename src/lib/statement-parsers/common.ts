@@ -0,0 +1,62 @@
+import { Account, BankStatement, StatementTransaction } from '@/lib/database';
+
+// A statement line as the bank reports it, before it is mapped onto the ledger account
+export interface BankStatementEntry {
+  bookingDate: string | null;
+  valueDate: string;
+  amount: number; // Always positive, direction is given by creditDebit
+  creditDebit: 'CRDT' | 'DBIT'; // From the account holder's point of view: CRDT = money in
+  remittanceInfo: string;
+  reference: string | null;
+}
+
+export interface ParsedBankStatement {
+  accountIdentifier: string | null;
+  currency: string | null;
+  statementDate: string;
+  openingBalance: number; // Signed as the bank reports it (credit balance = positive)
+  closingBalance: number;
+  entries: BankStatementEntry[];
+}
+
+export type StatementFormat = 'camt053' | 'mt940';
+
+export function detectStatementFormat(content: string): StatementFormat | null {
+  const head = content.slice(0, 4000);
+  if (/<(\w+:)?BkToCstmrStmt\b/.test(head) || /camt\.053/.test(head)) return 'camt053';
+  if (/^:20:/m.test(head) && /^:6[01][FM]?:/m.test(content)) return 'mt940';
+  return null;
+}
+
+/**
+ * Map a parsed bank statement onto a ledger account.
+ *
+ * Money coming in is always a DEBIT of the held account (a deposit into an asset,
+ * a payment towards a liability). Balances are flipped for accounts where credit
+ * increases the balance, so they match how importBankStatement validates them.
+ */
+export function toBankStatement(
+  parsed: ParsedBankStatement,
+  accountId: number,
+  accountType: Account['account_type']
+): BankStatement {
+  const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
+  const balanceSign = debitIncreasesBalance ? 1 : -1;
+
+  const transactions: StatementTransaction[] = parsed.entries.map(entry => ({
+    date: entry.valueDate,
+    description: entry.remittanceInfo,
+    amount: entry.amount,
+    type: entry.creditDebit === 'CRDT' ? 'debit' : 'credit',
+    category: 'Bank Transaction',
+    bank_transaction_id: entry.reference || undefined
+  }));
+
+  return {
+    accountId,
+    statementDate: parsed.statementDate,
+    openingBalance: parsed.openingBalance * balanceSign,
+    closingBalance: parsed.closingBalance * balanceSign,
+    transactions
+  };
+}
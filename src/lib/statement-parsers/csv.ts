@@ -0,0 +1,159 @@
+import { ImportColumnRole, ImportDateFormat, ImportProfile, ImportProfileInput } from '@/lib/database';
+
+export const IMPORT_COLUMN_ROLES: ImportColumnRole[] = [
+  'date', 'description', 'amount', 'debit_amount', 'credit_amount', 'type', 'ignore'
+];
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = [
+  'auto', 'DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MM-YYYY', 'DD.MM.YYYY', 'YYYYMMDD'
+];
+
+export const DECIMAL_SEPARATORS: ImportProfile['decimal_separator'][] = ['.', ','];
+
+export const THOUSANDS_SEPARATORS: ImportProfile['thousands_separator'][] = ['', ',', '.', ' ', "'"];
+
+export const SIGN_CONVENTIONS: ImportProfile['sign_convention'][] = ['positive_increases', 'positive_decreases'];
+
+function toIsoDate(year: string, month: string, day: string): string | null {
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  const iso = `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const date = new Date(`${iso}T00:00:00Z`);
+  // Reject rollovers such as 31/02
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(iso) ? iso : null;
+}
+
+/**
+ * Parse a CSV date cell into YYYY-MM-DD. Returns null when the value does not
+ * match the format, so the caller can decide on a fallback.
+ */
+export function parseCsvDate(value: string, format: ImportDateFormat = 'auto'): string | null {
+  const dateStr = (value || '').trim();
+  if (!dateStr) return null;
+
+  const parts = dateStr.split(/[/.\-\s]/);
+
+  switch (format) {
+    case 'DD/MM/YYYY':
+    case 'DD-MM-YYYY':
+    case 'DD.MM.YYYY':
+      return parts.length >= 3 ? toIsoDate(parts[2], parts[1], parts[0]) : null;
+    case 'MM/DD/YYYY':
+      return parts.length >= 3 ? toIsoDate(parts[2], parts[0], parts[1]) : null;
+    case 'YYYY-MM-DD':
+      return parts.length >= 3 ? toIsoDate(parts[0], parts[1], parts[2]) : null;
+    case 'YYYYMMDD':
+      return /^\d{8}$/.test(dateStr) ? toIsoDate(dateStr.slice(0, 4), dateStr.slice(4, 6), dateStr.slice(6, 8)) : null;
+  }
+
+  // Auto: day-first for slashed dates (common in CSV exports), then ISO, then whatever Date understands
+  const dayFirst = dateStr.match(/^(\d{1,2})[/.\-](\d{1,2})[/.\-](\d{4})$/);
+  if (dayFirst) {
+    return toIsoDate(dayFirst[3], dayFirst[2], dayFirst[1]) || toIsoDate(dayFirst[3], dayFirst[1], dayFirst[2]);
+  }
+
+  const iso = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return toIsoDate(iso[1], iso[2], iso[3]);
+  }
+
+  const date = new Date(dateStr);
+  return !isNaN(date.getTime()) ? date.toISOString().split('T')[0] : null;
+}
+
+/**
+ * Parse a CSV amount cell using the given separators.
+ * Handles currency symbols, trailing minus signs and accounting-style (1.234,56) negatives.
+ */
+export function parseCsvAmount(
+  value: string,
+  decimalSeparator: ImportProfile['decimal_separator'] = '.',
+  thousandsSeparator: ImportProfile['thousands_separator'] = ','
+): number {
+  let amountStr = (value || '').trim();
+  if (!amountStr) return 0;
+
+  const negative = /^\(.*\)$/.test(amountStr) || amountStr.includes('-');
+
+  if (thousandsSeparator) {
+    amountStr = amountStr.split(thousandsSeparator).join('');
+  }
+  if (decimalSeparator === ',') {
+    amountStr = amountStr.replace(',', '.');
+  }
+
+  const amount = parseFloat(amountStr.replace(/[^\d.]/g, '')) || 0;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Validate and normalize an import profile from a request body.
+ * Returns an error message instead of throwing so routes can answer with a 400.
+ */
+export function validateImportProfile(body: Record<string, unknown>): { profile?: ImportProfileInput; error?: string } {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return { error: 'Profile name is required' };
+  }
+  if (name.length > 100) {
+    return { error: 'Profile name must be 100 characters or fewer' };
+  }
+
+  if (!Array.isArray(body.column_roles) || body.column_roles.length === 0) {
+    return { error: 'At least one column role is required' };
+  }
+
+  const columnRoles = body.column_roles as Array<{ header?: unknown; role?: unknown }>;
+  for (const column of columnRoles) {
+    if (typeof column?.header !== 'string' || !IMPORT_COLUMN_ROLES.includes(column.role as ImportColumnRole)) {
+      return { error: `Column roles must have a header and one of: ${IMPORT_COLUMN_ROLES.join(', ')}` };
+    }
+  }
+
+  const roles = columnRoles.map(column => column.role as ImportColumnRole);
+  const hasAmount = roles.includes('amount') || (roles.includes('debit_amount') && roles.includes('credit_amount'));
+  if (!roles.includes('date') || !roles.includes('description') || !hasAmount) {
+    return { error: 'Profile must map Date, Description and either Amount or both Debit and Credit amount columns' };
+  }
+
+  const dateFormat = (body.date_format ?? 'auto') as ImportDateFormat;
+  if (!IMPORT_DATE_FORMATS.includes(dateFormat)) {
+    return { error: `Date format must be one of: ${IMPORT_DATE_FORMATS.join(', ')}` };
+  }
+
+  const decimalSeparator = (body.decimal_separator ?? '.') as ImportProfile['decimal_separator'];
+  const thousandsSeparator = (body.thousands_separator ?? ',') as ImportProfile['thousands_separator'];
+  if (!DECIMAL_SEPARATORS.includes(decimalSeparator) || !THOUSANDS_SEPARATORS.includes(thousandsSeparator)) {
+    return { error: 'Invalid decimal or thousands separator' };
+  }
+  if (decimalSeparator === thousandsSeparator) {
+    return { error: 'Decimal and thousands separators must be different' };
+  }
+
+  const signConvention = (body.sign_convention ?? 'positive_increases') as ImportProfile['sign_convention'];
+  if (!SIGN_CONVENTIONS.includes(signConvention)) {
+    return { error: `Sign convention must be one of: ${SIGN_CONVENTIONS.join(', ')}` };
+  }
+
+  const skipRows = body.skip_rows ?? 0;
+  if (typeof skipRows !== 'number' || !Number.isInteger(skipRows) || skipRows < 0 || skipRows > 100) {
+    return { error: 'Rows to skip must be a whole number between 0 and 100' };
+  }
+
+  const bankId = body.bank_id ?? null;
+  if (bankId !== null && (typeof bankId !== 'number' || !Number.isInteger(bankId))) {
+    return { error: 'Bank ID must be a number' };
+  }
+
+  return {
+    profile: {
+      name,
+      bank_id: bankId as number | null,
+      column_roles: columnRoles.map(column => ({ header: column.header as string, role: column.role as ImportColumnRole })),
+      date_format: dateFormat,
+      decimal_separator: decimalSeparator,
+      thousands_separator: thousandsSeparator,
+      sign_convention: signConvention,
+      skip_rows: skipRows
+    }
+  };
+}
@@ -0,0 +1,130 @@
+import { BankStatementEntry, ParsedBankStatement } from './common';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// Fields start with :NN: or :NNa: at the beginning of a line and may continue over several lines
+function splitFields(content: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  const lines = content
+    .replace(/\r\n?/g, '\n')
+    .replace(/\{[1-3]:[^}]*\}/g, '') // SWIFT header blocks
+    .replace(/\{4:/g, '')
+    .split('\n');
+
+  for (const line of lines) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() !== '' && !/^-\}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+function parseMt940Date(yymmdd: string): string {
+  const year = parseInt(yymmdd.slice(0, 2));
+  // SWIFT only carries two-digit years
+  const fullYear = year < 70 ? 2000 + year : 1900 + year;
+  return `${fullYear}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+function parseMt940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0;
+}
+
+// :60F:/:62F: balances look like C261031EUR1954,90
+function parseBalance(value: string): { amount: number; date: string; currency: string } {
+  const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) {
+    throw new Error(`Invalid MT940 balance field: ${value}`);
+  }
+  const [, mark, date, currency, amount] = match;
+  const parsedAmount = parseMt940Amount(amount);
+  return {
+    amount: mark === 'D' ? -parsedAmount : parsedAmount,
+    date: parseMt940Date(date),
+    currency
+  };
+}
+
+// :86: is free text, but many banks structure it with ?NN subfields
+function parseInformation(value: string): string {
+  return value
+    .replace(/\n/g, '')
+    .replace(/\?\d{2}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse a SWIFT MT940 customer statement.
+ * Statements split over several messages (:60M:/:62M: intermediate balances) are merged,
+ * as long as every part refers to the same account (:25:).
+ */
+export function parseMt940(content: string): ParsedBankStatement {
+  const fields = splitFields(content);
+
+  const accounts = new Set(fields.filter(field => field.tag === '25').map(field => field.value.trim()));
+  if (accounts.size > 1) {
+    throw new Error('File contains statements for more than one account; please upload them one at a time');
+  }
+
+  const openingFields = fields.filter(field => field.tag === '60F' || field.tag === '60M');
+  const closingFields = fields.filter(field => field.tag === '62F' || field.tag === '62M');
+  if (openingFields.length === 0 || closingFields.length === 0) {
+    throw new Error('MT940 file must contain opening (:60F:) and closing (:62F:) balances');
+  }
+
+  const opening = parseBalance(openingFields[0].value);
+  const closing = parseBalance(closingFields[closingFields.length - 1].value);
+
+  const entries: BankStatementEntry[] = [];
+
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') return;
+
+    // YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(N|F|S)XXX reference[//bank reference]
+    const [statementLine] = field.value.split('\n');
+    const match = statementLine.match(/^(\d{6})(\d{4})?(R?[CD])([A-Z])?([\d,]+)([NFS][A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/);
+    if (!match) {
+      throw new Error(`Invalid MT940 statement line: ${statementLine}`);
+    }
+
+    const [, valueDate, entryDate, mark, , amount, , customerReference, bankReference] = match;
+
+    // A reversal of a debit puts money back into the account, and vice versa
+    const creditDebit = mark === 'C' || mark === 'RD' ? 'CRDT' : 'DBIT';
+
+    let bookingDate: string | null = null;
+    if (entryDate) {
+      bookingDate = `${parseMt940Date(valueDate).slice(0, 4)}-${entryDate.slice(0, 2)}-${entryDate.slice(2, 4)}`;
+    }
+
+    const next = fields[index + 1];
+    const information = next && next.tag === '86' ? parseInformation(next.value) : '';
+    const reference = (bankReference || '').trim() || (customerReference.trim() !== 'NONREF' ? customerReference.trim() : '');
+
+    entries.push({
+      bookingDate,
+      valueDate: parseMt940Date(valueDate),
+      amount: parseMt940Amount(amount),
+      creditDebit,
+      remittanceInfo: information || field.value.split('\n')[1]?.trim() || customerReference.trim() || `Entry ${entries.length + 1}`,
+      reference: reference || null
+    });
+  });
+
+  return {
+    accountIdentifier: accounts.size === 1 ? [...accounts][0] : null,
+    currency: closing.currency,
+    statementDate: closing.date,
+    openingBalance: opening.amount,
+    closingBalance: closing.amount,
+    entries
+  };
+}
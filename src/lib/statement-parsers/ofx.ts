@@ -0,0 +1,131 @@
+import { Account, StatementTransaction } from '@/lib/database';
+
+export interface ParsedOfxStatement {
+  statementDate: string;
+  openingBalance: number;
+  closingBalance: number;
+  currency: string | null;
+  transactions: StatementTransaction[];
+}
+
+// OFX 1.x is SGML (leaf tags are not closed) and OFX 2.x is XML.
+// Reading each value up to the next '<' or line break handles both.
+function getTagValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+  const value = match[1].trim();
+  return value === '' ? null : value;
+}
+
+function getBlock(content: string, tag: string): string | null {
+  const match = content.match(new RegExp(`<${tag}>([\\s\\S]*?)(?:</${tag}>|$)`, 'i'));
+  return match ? match[1] : null;
+}
+
+// OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]; only the calendar date is kept
+function parseOfxDate(value: string | null): string | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  return `${year}-${month}-${day}`;
+}
+
+function parseOfxAmount(value: string | null): number {
+  if (!value) return 0;
+  // Some banks export a comma as the decimal separator
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+  const amount = parseFloat(normalized.replace(/[^\d.-]/g, ''));
+  return isNaN(amount) ? 0 : amount;
+}
+
+export function isOfxContent(content: string): boolean {
+  const head = content.slice(0, 2000).toUpperCase();
+  return head.includes('OFXHEADER') || head.includes('<OFX>');
+}
+
+/**
+ * Parse an OFX/QFX bank or credit card statement.
+ *
+ * OFX amounts are signed from the account holder's point of view (positive = money in).
+ * They are converted to the same convention the CSV import uses: positive amounts increase
+ * the account balance, so for liability accounts both amounts and balances are negated.
+ */
+export function parseOfxStatement(
+  content: string,
+  accountType?: Account['account_type']
+): ParsedOfxStatement {
+  if (!isOfxContent(content)) {
+    throw new Error('File does not look like an OFX/QFX statement');
+  }
+
+  const debitIncreasesBalance = accountType === 'asset' || accountType === 'expense';
+  const sign = debitIncreasesBalance || !accountType ? 1 : -1;
+
+  const tranList = getBlock(content, 'BANKTRANLIST') || content;
+  const transactionBlocks = tranList
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  const transactions: StatementTransaction[] = [];
+
+  transactionBlocks.forEach((block, index) => {
+    const date = parseOfxDate(getTagValue(block, 'DTPOSTED')) || parseOfxDate(getTagValue(block, 'DTUSER'));
+    const rawAmount = parseOfxAmount(getTagValue(block, 'TRNAMT'));
+    if (!date || rawAmount === 0) return;
+
+    const name = getTagValue(block, 'NAME');
+    const memo = getTagValue(block, 'MEMO');
+    const description = [name, memo && memo !== name ? memo : null].filter(Boolean).join(' - ')
+      || getTagValue(block, 'TRNTYPE')
+      || `Transaction ${index + 1}`;
+
+    const signedAmount = rawAmount * sign;
+    let type: 'debit' | 'credit';
+    if (debitIncreasesBalance) {
+      type = signedAmount >= 0 ? 'debit' : 'credit';
+    } else {
+      type = signedAmount >= 0 ? 'credit' : 'debit';
+    }
+
+    transactions.push({
+      id: Math.random().toString(36).substr(2, 9),
+      date,
+      description,
+      amount: signedAmount,
+      type,
+      category: 'Bank Transaction',
+      bank_transaction_id: getTagValue(block, 'FITID') || undefined
+    });
+  });
+
+  if (transactions.length === 0) {
+    throw new Error('No transactions found in OFX file');
+  }
+
+  // LEDGERBAL is the booked balance; AVAILBAL is only used when a bank omits it
+  const balanceBlock = getBlock(content, 'LEDGERBAL') || getBlock(content, 'AVAILBAL');
+  const movement = transactions.reduce((sum, txn) => sum + txn.amount, 0);
+
+  let closingBalance: number;
+  if (balanceBlock && getTagValue(balanceBlock, 'BALAMT') !== null) {
+    closingBalance = parseOfxAmount(getTagValue(balanceBlock, 'BALAMT')) * sign;
+  } else {
+    closingBalance = movement;
+  }
+  const openingBalance = Math.round((closingBalance - movement) * 100) / 100;
+
+  const lastTransactionDate = transactions.map(txn => txn.date).sort().pop()!;
+  const statementDate = (balanceBlock && parseOfxDate(getTagValue(balanceBlock, 'DTASOF')))
+    || parseOfxDate(getTagValue(tranList, 'DTEND'))
+    || lastTransactionDate;
+
+  return {
+    statementDate,
+    openingBalance,
+    closingBalance,
+    currency: getTagValue(content, 'CURDEF'),
+    transactions
+  };
+}
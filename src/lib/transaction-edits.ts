@@ -0,0 +1,94 @@
+import { TransactionEdit } from '@/lib/database';
+
+// Validation of manual edits to a single transaction row. Kept free of database access like
+// the other validators; access, period and balance checks happen where the row is updated.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(?: \d{2}:\d{2}(?::\d{2})?)?$/;
+
+const isValidDate = (value: string) => !isNaN(new Date(value.slice(0, 10)).getTime());
+
+/**
+ * Validate and normalize a partial transaction edit from a request body. Only the fields
+ * present in the body are returned, so callers update exactly what the user changed.
+ * Returns an error message instead of throwing so routes can answer with a 400.
+ */
+export function validateTransactionEdit(body: Record<string, unknown>): { edit?: TransactionEdit; error?: string } {
+  const edit: TransactionEdit = {};
+
+  if (body.fecha !== undefined) {
+    if (typeof body.fecha !== 'string' || !DATE_PATTERN.test(body.fecha) || !isValidDate(body.fecha)) {
+      return { error: 'Date must be in YYYY-MM-DD format' };
+    }
+    edit.fecha = body.fecha;
+  }
+
+  if (body.accounting_date !== undefined) {
+    if (body.accounting_date === null || body.accounting_date === '') {
+      edit.accounting_date = null;
+    } else if (
+      typeof body.accounting_date !== 'string' ||
+      !DATE_TIME_PATTERN.test(body.accounting_date) ||
+      !isValidDate(body.accounting_date)
+    ) {
+      return { error: 'Accounting date must be in YYYY-MM-DD or YYYY-MM-DD HH:MM:SS format' };
+    } else {
+      edit.accounting_date = body.accounting_date;
+    }
+  }
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return { error: 'Name cannot be empty' };
+    }
+    if (name.length > 255) {
+      return { error: 'Name must be 255 characters or fewer' };
+    }
+    edit.name = name;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'Description must be text' };
+    }
+    const description = body.description?.trim() || null;
+    if (description && description.length > 500) {
+      return { error: 'Description must be 500 characters or fewer' };
+    }
+    edit.description = description;
+  }
+
+  // Rows carry the same amount on both sides; accept it as `amount` or as matching debit/credit
+  const amounts = [body.amount, body.debit, body.credit].filter(value => value !== undefined && value !== null && value !== '');
+  if (amounts.length > 0) {
+    const cents = amounts.map(value => Math.round(Number(value) * 100));
+    if (cents.some(value => isNaN(value) || value <= 0)) {
+      return { error: 'Amount must be a positive number' };
+    }
+    if (cents.some(value => value !== cents[0])) {
+      return { error: 'Debit and credit amounts must be equal' };
+    }
+    edit.amount = cents[0] / 100;
+  }
+
+  for (const field of ['debitacc', 'creditacc'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    const code = typeof value === 'string' ? value.trim() : '';
+    if (!code) {
+      return { error: `${field === 'debitacc' ? 'Debit' : 'Credit'} account code cannot be empty` };
+    }
+    edit[field] = code;
+  }
+
+  if (edit.debitacc && edit.debitacc !== '0' && edit.debitacc === edit.creditacc) {
+    return { error: 'Debit and credit accounts must be different' };
+  }
+
+  if (Object.keys(edit).length === 0) {
+    return { error: 'No changes provided' };
+  }
+
+  return { edit };
+}